@@ -19,6 +19,7 @@ import Sectors from "@/pages/sectors";
 import Team from "@/pages/team";
 import Settings from "@/pages/settings";
 import Projects from "@/pages/projects";
+import Timesheet from "@/pages/timesheet";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -45,6 +46,7 @@ function Router() {
       <Route path="/feed" component={Feed} />
       <Route path="/history" component={History} />
       <Route path="/reports" component={Reports} />
+      <Route path="/timesheet" component={Timesheet} />
       <Route path="/projects" component={Projects} />
       <Route path="/users" component={UserManagement} />
       <Route path="/sectors" component={Sectors} />
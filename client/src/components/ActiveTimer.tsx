@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,7 +9,7 @@ import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { cn } from "@/lib/utils";
 import CompletionDialog from "@/components/CompletionDialog";
-import type { ActivityWithDetails } from "@shared/schema";
+import type { ActivityWithDetails, ActivityElapsed } from "@shared/schema";
 
 interface ActiveTimerProps {
   activity: ActivityWithDetails;
@@ -24,25 +24,30 @@ export default function ActiveTimer({ activity }: ActiveTimerProps) {
   const [showAddSubtask, setShowAddSubtask] = useState(false);
   const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
 
-  // Update timer every second
+  // Server-side elapsed time; refetched on focus and reconnect so the display never drifts
+  const { data: serverElapsed, dataUpdatedAt } = useQuery<ActivityElapsed>({
+    queryKey: ["/api/activities", activity.id, "elapsed"],
+    refetchOnWindowFocus: "always",
+    refetchOnReconnect: "always",
+  });
+
+  // Update timer every second from the last server reading
   useEffect(() => {
-    if (activity.status !== 'in_progress') return;
+    if (!serverElapsed) return;
 
-    const interval = setInterval(() => {
-      // Use active session start time if available, otherwise fallback to activity startedAt
-      const startTime = activity.activeSession?.startedAt
-        ? new Date(activity.activeSession.startedAt).getTime()
-        : activity.startedAt
-          ? new Date(activity.startedAt).getTime()
-          : Date.now();
+    const tick = () => {
+      const sinceFetch = serverElapsed.activeSessionStartedAt
+        ? Math.floor((Date.now() - dataUpdatedAt) / 1000)
+        : 0;
+      setElapsedTime(serverElapsed.elapsed + sinceFetch);
+    };
 
-      const now = Date.now();
-      const elapsed = Math.floor((now - startTime) / 1000);
-      setElapsedTime((activity.totalTime || 0) + elapsed);
-    }, 1000);
+    tick();
+    if (!serverElapsed.activeSessionStartedAt) return;
 
+    const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [activity.startedAt, activity.totalTime, activity.status, activity.activeSession]);
+  }, [serverElapsed, dataUpdatedAt]);
 
   const updateActivityMutation = useMutation({
     mutationFn: async (updates: any) => {
@@ -376,6 +381,11 @@ export default function ActiveTimer({ activity }: ActiveTimerProps) {
                       )}>
                         {subtask.title}
                       </span>
+                      {subtask.assignee && (
+                        <span className="text-xs text-white/80 truncate max-w-[8rem]">
+                          {subtask.assignee.firstName || subtask.assignee.username}
+                        </span>
+                      )}
                       {subtask.completed && (
                         <div className="w-2 h-2 bg-green-300 dark:bg-green-400 rounded-full"></div>
                       )}
@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Paperclip, FileText, Download, Pencil, Trash2, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useAttachmentUpload,
+  attachmentError,
+  attachmentUrl,
+  isImageAttachment,
+  ATTACHMENT_ACCEPT,
+  MAX_FILES_PER_UPLOAD,
+} from "@/hooks/useAttachmentUpload";
+import type { ActivityAttachmentWithUploader, ActivityWithDetails } from "@shared/schema";
+
+interface ActivityAttachmentsProps {
+  activity: ActivityWithDetails;
+}
+
+const formatSize = (bytes?: number | null) => {
+  if (!bytes) return '';
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const uploaderName = (attachment: ActivityAttachmentWithUploader) =>
+  `${attachment.uploadedBy.firstName || ''} ${attachment.uploadedBy.lastName || ''}`.trim() || attachment.uploadedBy.username;
+
+// Gallery of the activity's evidence files; the collaborator adds more, per activity or per subtask
+export default function ActivityAttachments({ activity }: ActivityAttachmentsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [subtaskId, setSubtaskId] = useState<string>("");
+  const [caption, setCaption] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingCaption, setEditingCaption] = useState("");
+
+  const isOwner = activity.collaboratorId === user?.id;
+
+  const { data: attachments = [] } = useQuery<ActivityAttachmentWithUploader[]>({
+    queryKey: ["/api/activities", activity.id, "attachments"],
+  });
+
+  const uploadMutation = useAttachmentUpload(activity.id);
+
+  const captionMutation = useMutation({
+    mutationFn: ({ id, text }: { id: string; text: string }) =>
+      apiRequest("PATCH", `/api/attachments/${id}`, { caption: text.trim() || null }),
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/activities", activity.id, "attachments"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a legenda",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/attachments/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to delete attachment');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities", activity.id, "attachments"] });
+      toast({
+        title: "Anexo removido",
+        description: "Arquivo removido com sucesso",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao remover o anexo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    if (files.length > MAX_FILES_PER_UPLOAD) {
+      toast({
+        title: "Muitos arquivos",
+        description: `Envie no máximo ${MAX_FILES_PER_UPLOAD} arquivos por vez`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const error = files.map(attachmentError).find(Boolean);
+    if (error) {
+      toast({
+        title: "Arquivo não permitido",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    uploadMutation.mutate(
+      { files, subtaskId: subtaskId || undefined, caption: caption.trim() || undefined },
+      {
+        onSuccess: (created) => {
+          setCaption("");
+          toast({
+            title: "Arquivos enviados",
+            description: `${created.length} arquivo(s) anexado(s)`,
+          });
+        },
+        onError: (uploadError) => {
+          toast({
+            title: "Erro no upload",
+            description: uploadError.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  if (!isOwner && attachments.length === 0) return null;
+
+  const subtaskTitle = (id?: string | null) => activity.subtasks?.find((subtask) => subtask.id === id)?.title;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Paperclip className="w-5 h-5" />
+          Evidências Anexadas
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum anexo</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {attachments.map((attachment) => {
+              const canEdit = isOwner || attachment.uploadedById === user?.id;
+              const subtask = subtaskTitle(attachment.subtaskId);
+
+              return (
+                <div
+                  key={attachment.id}
+                  className="border border-border rounded-lg overflow-hidden flex flex-col"
+                  data-testid={`attachment-${attachment.id}`}
+                >
+                  <a
+                    href={attachmentUrl(attachment)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block bg-muted aspect-video"
+                    title={attachment.originalName}
+                  >
+                    {isImageAttachment(attachment) ? (
+                      <img
+                        src={attachmentUrl(attachment)}
+                        alt={attachment.caption || attachment.originalName}
+                        className="w-full h-full object-cover"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <FileText className="w-8 h-8 text-blue-600" />
+                      </div>
+                    )}
+                  </a>
+                  <div className="p-2 space-y-1 flex-1">
+                    <p className="text-xs font-medium truncate" title={attachment.originalName}>{attachment.originalName}</p>
+                    {editingId === attachment.id ? (
+                      <div className="flex gap-1">
+                        <Input
+                          value={editingCaption}
+                          onChange={(e) => setEditingCaption(e.target.value)}
+                          maxLength={500}
+                          className="h-7 text-xs"
+                          data-testid={`input-edit-caption-${attachment.id}`}
+                        />
+                        <Button
+                          type="button"
+                          size="sm"
+                          className="h-7 px-2"
+                          onClick={() => captionMutation.mutate({ id: attachment.id, text: editingCaption })}
+                          disabled={captionMutation.isPending}
+                        >
+                          Salvar
+                        </Button>
+                      </div>
+                    ) : (
+                      attachment.caption && <p className="text-xs text-foreground">{attachment.caption}</p>
+                    )}
+                    {subtask && <p className="text-xs text-muted-foreground truncate">Subtarefa: {subtask}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {uploaderName(attachment)}
+                      {attachment.createdAt && ` · ${format(new Date(attachment.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}`}
+                      {attachment.size ? ` · ${formatSize(attachment.size)}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex justify-end gap-1 px-2 pb-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2"
+                      onClick={() => window.open(attachmentUrl(attachment), '_blank')}
+                      title="Baixar"
+                    >
+                      <Download className="w-3 h-3" />
+                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => {
+                          setEditingId(attachment.id);
+                          setEditingCaption(attachment.caption || "");
+                        }}
+                        title="Editar legenda"
+                        data-testid={`button-edit-caption-${attachment.id}`}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-destructive"
+                        onClick={() => deleteMutation.mutate(attachment.id)}
+                        disabled={deleteMutation.isPending}
+                        title="Remover anexo"
+                        data-testid={`button-delete-attachment-${attachment.id}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {isOwner && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <Input
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="Legenda (opcional)"
+                maxLength={500}
+                data-testid="input-attachment-caption"
+              />
+              {!!activity.subtasks?.length && (
+                <Select value={subtaskId || "none"} onValueChange={(value) => setSubtaskId(value === "none" ? "" : value)}>
+                  <SelectTrigger data-testid="select-attachment-subtask">
+                    <SelectValue placeholder="Subtarefa (opcional)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Atividade inteira</SelectItem>
+                    {activity.subtasks.map((subtask) => (
+                      <SelectItem key={subtask.id} value={subtask.id}>{subtask.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <label htmlFor={`attachments-${activity.id}`} className="cursor-pointer block">
+              <div className="w-full border-2 border-dashed border-gray-300 hover:border-gray-400 rounded-lg transition-colors">
+                <div className="flex items-center justify-center gap-2 py-3">
+                  <Upload className="text-gray-400 w-4 h-4" />
+                  <span className="text-sm font-medium text-gray-600">
+                    {uploadMutation.isPending ? 'Enviando...' : 'Adicionar arquivos'}
+                  </span>
+                </div>
+              </div>
+              <input
+                id={`attachments-${activity.id}`}
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                onChange={handleFileSelect}
+                disabled={uploadMutation.isPending}
+                className="hidden"
+                data-testid="input-attachment-files"
+              />
+            </label>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
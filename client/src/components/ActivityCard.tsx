@@ -3,6 +3,7 @@ import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Play,
   Pause,
@@ -15,25 +16,36 @@ import {
   CheckSquare,
   Eye,
   Undo2,
+  CalendarClock,
+  Repeat,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { cn } from "@/lib/utils";
+import { canTransition, isClosedStatus } from "@shared/activityStatus";
 import type { ActivityWithDetails } from "@shared/schema";
 import { useActivityModal } from "@/contexts/ActivityModalContext";
 import { useAuth } from "@/hooks/useAuth";
 import CompletionDialog from "@/components/CompletionDialog";
 import StartActivityDialog from "@/components/StartActivityDialog";
 import CompletedActivityDetails from "@/components/CompletedActivityDetails";
+import DueBadge from "@/components/DueBadge";
+import BlockedBadge, { isBlocked } from "@/components/BlockedBadge";
+import TagBadges from "@/components/TagBadges";
+import AssignmentResponseButtons from "@/components/AssignmentResponseButtons";
 import CancellationDialog from "@/components/CancellationDialog";
 import TimeAdjustmentDialog from "@/components/TimeAdjustmentDialog";
+import SessionsDialog from "@/components/SessionsDialog";
 
 interface ActivityCardProps {
   activity: ActivityWithDetails;
+  // Lists with bulk actions pass these to show a selection checkbox
+  selected?: boolean;
+  onSelectChange?: (checked: boolean) => void;
 }
 
-export default function ActivityCard({ activity }: ActivityCardProps) {
+export default function ActivityCard({ activity, selected = false, onSelectChange }: ActivityCardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { openModal } = useActivityModal();
@@ -42,6 +54,7 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
   const [showDetailsDialog, setShowDetailsDialog] = useState(false);
   const [showCancellationDialog, setShowCancellationDialog] = useState(false);
   const [showTimeAdjustmentDialog, setShowTimeAdjustmentDialog] = useState(false);
+  const [showSessionsDialog, setShowSessionsDialog] = useState(false);
   const [showStartActivityDialog, setShowStartActivityDialog] = useState(false);
 
   // Query para buscar atividades em progresso apenas do usuário atual
@@ -151,10 +164,15 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
     }
   };
 
-  const canStart = activity.status === 'next' || activity.status === 'paused';
-  const canPause = activity.status === 'in_progress';
-  const canComplete = activity.status === 'in_progress' || activity.status === 'paused';
-  const canEdit = activity.status !== 'completed' && activity.status !== 'cancelled';
+  // Assigned activities are accepted or declined before anything else
+  const awaitingResponse = activity.assignmentStatus === 'pending';
+  // ...and wait for their blockers to be finished
+  const canStart = canTransition(activity.status, 'in_progress') && !awaitingResponse && !isBlocked(activity);
+  const canPause = canTransition(activity.status, 'paused') && !isClosedStatus(activity.status);
+  const canComplete = canTransition(activity.status, 'completed');
+  const canReopen = canTransition(activity.status, 'paused') && isClosedStatus(activity.status);
+  const canCancel = canTransition(activity.status, 'cancelled') && !awaitingResponse;
+  const canEdit = !isClosedStatus(activity.status);
   const canAdjustTime = activity.status === 'paused' || activity.status === 'completed';
 
   const handleStart = () => {
@@ -275,16 +293,18 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
       priority: activity.priority,
       plant: activity.plant || activity.plantRef?.name,
       project: activity.project,
+      requesterId: activity.requesterId,
       requester: activity.requester,
       observations: activity.observations,
+      tags: activity.tags,
+      customFieldValues: activity.customFieldValues,
       // Para cópia, convertemos subtasks para o formato esperado pelo modal
       ...(activity.subtasks && activity.subtasks.length > 0 && {
         subtasks: activity.subtasks.map(subtask => ({
-          id: subtask.id,
-          title: subtask.title,
+          ...subtask,
           completed: false, // Nova cópia sempre com subtasks não completadas
-          createdAt: subtask.createdAt,
-          activityId: subtask.activityId
+          completedAt: null,
+          completedById: null,
         }))
       })
     };
@@ -305,17 +325,31 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
     <Card
       className={cn(
         "transition-all duration-300 hover:shadow-md hover:scale-102 hover:border-primary/10 cursor-pointer",
-        getStatusColor(activity.status)
+        getStatusColor(activity.status),
+        selected && "ring-2 ring-primary"
       )}
       data-testid={`card-activity-${activity.id}`}
     >
       <CardContent className="p-4">
         <div className="flex items-start justify-between mb-3">
+          {onSelectChange && (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectChange(checked === true)}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-1 mr-3"
+              aria-label="Selecionar atividade"
+              data-testid={`checkbox-select-activity-${activity.id}`}
+            />
+          )}
           <div className="flex-1 min-w-0 mr-4">
             <h4 className="font-medium text-foreground line-clamp-2 mb-2 dark:text-white" data-testid="text-activity-title">
               {activity.title}
             </h4>
             <div className="flex items-center flex-wrap gap-2 text-xs text-muted-foreground dark:text-gray-300">
+              {activity.recurrenceId && (
+                <Repeat className="w-3 h-3" aria-label="Atividade recorrente" data-testid="icon-activity-recurring" />
+              )}
               <span data-testid="text-activity-plant">{activity.plant || activity.plantRef?.name || 'N/A'}</span>
               {activity.project && (
                 <>
@@ -329,6 +363,14 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
                   <span data-testid="text-activity-requester">{activity.requester}</span>
                 </>
               )}
+              {activity.assignedBy && (
+                <>
+                  <span>•</span>
+                  <span data-testid="text-activity-assigned-by">
+                    Atribuída por {`${activity.assignedBy.firstName || ''} ${activity.assignedBy.lastName || ''}`.trim() || activity.assignedBy.username}
+                  </span>
+                </>
+              )}
               {activity.observations && activity.observations.trim() && (
                 <>
                   <span>•</span>
@@ -349,9 +391,12 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
                 </>
               )}
             </div>
+            <TagBadges tags={activity.tags} className="mt-2" />
           </div>
 
           <div className="flex items-center space-x-2">
+            <DueBadge activity={activity} />
+            <BlockedBadge activity={activity} />
             <Badge variant={getPriorityColor(activity.priority)} data-testid="badge-activity-priority">
               {getPriorityText(activity.priority)}
             </Badge>
@@ -408,6 +453,11 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
                       )}>
                         {subtask.title}
                       </span>
+                      {subtask.assignee && (
+                        <span className="text-muted-foreground truncate max-w-[8rem]" data-testid={`subtask-assignee-${subtask.id}`}>
+                          {subtask.assignee.firstName || subtask.assignee.username}
+                        </span>
+                      )}
                     </div>
                   ))}
                 </>
@@ -426,6 +476,8 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
         {/* Action Buttons */}
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
+            {awaitingResponse && <AssignmentResponseButtons activity={activity} />}
+
             {canStart && (
               <Button
                 size="sm"
@@ -468,18 +520,17 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
               </Button>
             )}
 
-            {(activity.status === 'completed' || activity.status === 'cancelled' || activity.status === 'next') && (
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={handleViewDetails}
-                className="text-blue-600 border-blue-600 hover:bg-blue-600 hover:text-blue-50 hover:scale-110 transition-transform"
-                data-testid="button-view-details"
-              >
-                <Eye className="w-3 h-3 mr-1" />
-                {activity.status === 'next' ? 'Visualizar' : 'Detalhes'}
-              </Button>
-            )}
+            {/* Details are available in every status: dependencies and comments live there */}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleViewDetails}
+              className="text-blue-600 border-blue-600 hover:bg-blue-600 hover:text-blue-50 hover:scale-110 transition-transform"
+              data-testid="button-view-details"
+            >
+              <Eye className="w-3 h-3 mr-1" />
+              {activity.status === 'next' ? 'Visualizar' : 'Detalhes'}
+            </Button>
           </div>
 
           <div className="flex items-center space-x-1">
@@ -505,7 +556,7 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
               <Copy className="w-3 h-3" />
             </Button>
 
-            {activity.status === 'completed' && (
+            {canReopen && (
               <Button
                 size="sm"
                 variant="ghost"
@@ -530,7 +581,20 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
               </Button>
             )}
 
-            {activity.status === 'next' && (
+            {canAdjustTime && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setShowSessionsDialog(true)}
+                className="text-muted-foreground hover:text-foreground hover:bg-transparent hover:scale-110 transition-transform p-1"
+                data-testid="button-edit-sessions"
+                title="Sessões de trabalho"
+              >
+                <CalendarClock className="w-3 h-3" />
+              </Button>
+            )}
+
+            {canCancel && (
               <Button
                 size="sm"
                 variant="ghost"
@@ -577,6 +641,13 @@ export default function ActivityCard({ activity }: ActivityCardProps) {
         activity={activity}
       />
 
+      {/* Sessions Dialog */}
+      <SessionsDialog
+        isOpen={showSessionsDialog}
+        onClose={() => setShowSessionsDialog(false)}
+        activity={activity}
+      />
+
       {/* Start Activity Dialog */}
       {activeActivity && (
         <StartActivityDialog
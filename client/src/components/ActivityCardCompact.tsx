@@ -13,19 +13,25 @@ import {
   Clock,
   Eye,
   Undo2,
+  CalendarClock,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { cn } from "@/lib/utils";
+import { canTransition, isClosedStatus } from "@shared/activityStatus";
 import type { ActivityWithDetails } from "@shared/schema";
 import { useActivityModal } from "@/contexts/ActivityModalContext";
 import { useAuth } from "@/hooks/useAuth";
 import CompletionDialog from "@/components/CompletionDialog";
 import StartActivityDialog from "@/components/StartActivityDialog";
 import CompletedActivityDetails from "@/components/CompletedActivityDetails";
+import DueBadge from "@/components/DueBadge";
+import BlockedBadge, { isBlocked } from "@/components/BlockedBadge";
+import AssignmentResponseButtons from "@/components/AssignmentResponseButtons";
 import CancellationDialog from "@/components/CancellationDialog";
 import TimeAdjustmentDialog from "@/components/TimeAdjustmentDialog";
+import SessionsDialog from "@/components/SessionsDialog";
 
 interface ActivityCardCompactProps {
   activity: ActivityWithDetails;
@@ -40,6 +46,7 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
   const [showDetailsDialog, setShowDetailsDialog] = useState(false);
   const [showCancellationDialog, setShowCancellationDialog] = useState(false);
   const [showTimeAdjustmentDialog, setShowTimeAdjustmentDialog] = useState(false);
+  const [showSessionsDialog, setShowSessionsDialog] = useState(false);
   const [showStartActivityDialog, setShowStartActivityDialog] = useState(false);
 
   // Query para buscar atividades em progresso apenas do usuário atual
@@ -117,10 +124,15 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
     }
   };
 
-  const canStart = activity.status === 'next' || activity.status === 'paused';
-  const canPause = activity.status === 'in_progress';
-  const canComplete = activity.status === 'in_progress' || activity.status === 'paused';
-  const canEdit = activity.status !== 'completed' && activity.status !== 'cancelled';
+  // Assigned activities are accepted or declined before anything else
+  const awaitingResponse = activity.assignmentStatus === 'pending';
+  // ...and wait for their blockers to be finished
+  const canStart = canTransition(activity.status, 'in_progress') && !awaitingResponse && !isBlocked(activity);
+  const canPause = canTransition(activity.status, 'paused') && !isClosedStatus(activity.status);
+  const canComplete = canTransition(activity.status, 'completed');
+  const canReopen = canTransition(activity.status, 'paused') && isClosedStatus(activity.status);
+  const canCancel = canTransition(activity.status, 'cancelled') && !awaitingResponse;
+  const canEdit = !isClosedStatus(activity.status);
   const canAdjustTime = activity.status === 'paused' || activity.status === 'completed';
 
   const handleStart = () => {
@@ -237,6 +249,8 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
             >
               {getPriorityText(activity.priority)}
             </Badge>
+            <DueBadge activity={activity} className="flex-shrink-0 text-xs" />
+            <BlockedBadge activity={activity} className="flex-shrink-0 text-xs" />
             <h4
               className="font-medium text-foreground line-clamp-1 text-sm dark:text-white"
               data-testid="text-activity-title"
@@ -254,6 +268,8 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
 
           {/* Action Buttons - Compact */}
           <div className="flex items-center gap-1">
+            {awaitingResponse && <AssignmentResponseButtons activity={activity} compact />}
+
             {canStart && (
               <Button
                 size="sm"
@@ -293,17 +309,16 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
               </Button>
             )}
 
-            {(activity.status === 'completed' || activity.status === 'cancelled' || activity.status === 'next') && (
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={handleViewDetails}
-                className="text-blue-600 border-blue-600 hover:bg-blue-600 hover:text-blue-50 hover:scale-110 transition-transform px-2 py-1 h-7"
-                data-testid="button-view-details"
-              >
-                <Eye className="w-3 h-3" />
-              </Button>
-            )}
+            {/* Details are available in every status: dependencies and comments live there */}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleViewDetails}
+              className="text-blue-600 border-blue-600 hover:bg-blue-600 hover:text-blue-50 hover:scale-110 transition-transform px-2 py-1 h-7"
+              data-testid="button-view-details"
+            >
+              <Eye className="w-3 h-3" />
+            </Button>
 
             {canEdit && (
               <Button
@@ -327,7 +342,7 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
               <Copy className="w-3 h-3" />
             </Button>
 
-            {activity.status === 'completed' && (
+            {canReopen && (
               <Button
                 size="sm"
                 variant="ghost"
@@ -352,7 +367,20 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
               </Button>
             )}
 
-            {activity.status === 'next' && (
+            {canAdjustTime && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setShowSessionsDialog(true)}
+                className="text-muted-foreground hover:text-foreground hover:bg-transparent hover:scale-110 transition-transform p-1 h-7 w-7"
+                data-testid="button-edit-sessions"
+                title="Sessões de trabalho"
+              >
+                <CalendarClock className="w-3 h-3" />
+              </Button>
+            )}
+
+            {canCancel && (
               <Button
                 size="sm"
                 variant="ghost"
@@ -396,6 +424,12 @@ export default function ActivityCardCompact({ activity }: ActivityCardCompactPro
         activity={activity}
       />
 
+      <SessionsDialog
+        isOpen={showSessionsDialog}
+        onClose={() => setShowSessionsDialog(false)}
+        activity={activity}
+      />
+
       {activeActivity && (
         <StartActivityDialog
           isOpen={showStartActivityDialog}
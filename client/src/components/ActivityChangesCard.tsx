@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History } from "lucide-react";
+import { ChangeValues } from "@/components/ActivityHistory";
+import { historyFieldLabel } from "@shared/activityHistory";
+import type { ActivityChangeWithUser, User } from "@shared/schema";
+
+const PAGE_SIZE = 100;
+
+const userName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+// Admin audit: every field a user changed, on any activity, over a period
+export default function ActivityChangesCard() {
+  const [userId, setUserId] = useState('');
+  const [startDate, setStartDate] = useState(() => format(new Date(new Date().getFullYear(), new Date().getMonth(), 1), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [page, setPage] = useState(0);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: changes = [], isLoading } = useQuery<ActivityChangeWithUser[]>({
+    queryKey: ["/api/activity-changes", userId, startDate, endDate, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        userId,
+        startDate,
+        endDate,
+        limit: String(PAGE_SIZE),
+        offset: String(page * PAGE_SIZE),
+      });
+      const response = await fetch(`/api/activity-changes?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch activity changes');
+      return response.json();
+    },
+    enabled: !!userId && !!startDate && !!endDate,
+  });
+
+  // Any new filter starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Alterações por Usuário
+        </CardTitle>
+        <CardDescription>
+          Campos de atividades alterados por um usuário no período, com os valores antes e depois
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Usuário</Label>
+            <Select value={userId} onValueChange={updateFilter(setUserId)}>
+              <SelectTrigger data-testid="select-changes-user">
+                <SelectValue placeholder="Selecione um usuário" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>{userName(user)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="changes-start">Data inicial</Label>
+            <Input
+              id="changes-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => updateFilter(setStartDate)(e.target.value)}
+              data-testid="input-changes-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="changes-end">Data final</Label>
+            <Input
+              id="changes-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => updateFilter(setEndDate)(e.target.value)}
+              data-testid="input-changes-end"
+            />
+          </div>
+        </div>
+
+        {!userId ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Selecione um usuário para ver suas alterações</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhuma alteração no período</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="table-activity-changes">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground">
+                  <th className="text-left font-medium py-2 pr-4">Data</th>
+                  <th className="text-left font-medium py-2 px-2">Atividade</th>
+                  <th className="text-left font-medium py-2 px-2">Campo</th>
+                  <th className="text-left font-medium py-2 pl-2">Alteração</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((change) => (
+                  <tr key={change.id} className="border-b border-border/50 align-top">
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {change.createdAt && format(new Date(change.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                    </td>
+                    <td className="py-2 px-2">{change.activityTitle}</td>
+                    <td className="py-2 px-2 whitespace-nowrap">{historyFieldLabel(change.field)}</td>
+                    <td className="py-2 pl-2"><ChangeValues change={change} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {!!userId && (page > 0 || changes.length === PAGE_SIZE) && (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              Anterior
+            </Button>
+            <Button variant="outline" size="sm" disabled={changes.length < PAGE_SIZE} onClick={() => setPage(page + 1)}>
+              Próxima
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
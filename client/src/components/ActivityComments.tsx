@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageCircle, Pencil, Trash2, Send } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { splitMentions } from "@shared/mentions";
+import type { ActivityCommentWithAuthor } from "@shared/schema";
+
+interface ActivityCommentsProps {
+  activityId: string;
+}
+
+const displayName = (comment: ActivityCommentWithAuthor) =>
+  `${comment.author.firstName || ''} ${comment.author.lastName || ''}`.trim() || comment.author.username;
+
+// Discussion thread of an activity; @username notifies that user
+export default function ActivityComments({ activityId }: ActivityCommentsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [body, setBody] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState("");
+
+  const { data: comments = [], isLoading } = useQuery<ActivityCommentWithAuthor[]>({
+    queryKey: ["/api/activities", activityId, "comments"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/activities", activityId, "comments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (text: string) => apiRequest("POST", `/api/activities/${activityId}/comments`, { body: text }),
+    onSuccess: () => {
+      setBody("");
+      refresh();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao enviar o comentário",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, text }: { id: string; text: string }) => apiRequest("PATCH", `/api/comments/${id}`, { body: text }),
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao editar o comentário",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/comments/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to delete comment');
+    },
+    onSuccess: refresh,
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir o comentário",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (comment: ActivityCommentWithAuthor) => {
+    setEditingId(comment.id);
+    setEditingBody(comment.body);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MessageCircle className="w-5 h-5" />
+          Comentários
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando...</p>
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum comentário ainda</p>
+        ) : (
+          comments.map((comment) => {
+            const isAuthor = comment.authorId === user?.id;
+            const isEditing = editingId === comment.id;
+
+            return (
+              <div
+                key={comment.id}
+                className="border-b border-border pb-3 last:border-0 last:pb-0 space-y-1"
+                data-testid={`comment-${comment.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{displayName(comment)}</span>
+                    {comment.createdAt && ` · ${formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true, locale: ptBR })}`}
+                    {comment.editedAt && ' · editado'}
+                  </p>
+                  {isAuthor && !isEditing && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => startEditing(comment)}
+                        title="Editar comentário"
+                        data-testid={`button-edit-comment-${comment.id}`}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-destructive"
+                        onClick={() => deleteMutation.mutate(comment.id)}
+                        disabled={deleteMutation.isPending}
+                        title="Excluir comentário"
+                        data-testid={`button-delete-comment-${comment.id}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {isEditing ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={editingBody}
+                      onChange={(e) => setEditingBody(e.target.value)}
+                      rows={3}
+                      data-testid={`textarea-edit-comment-${comment.id}`}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                        Cancelar
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => updateMutation.mutate({ id: comment.id, text: editingBody })}
+                        disabled={updateMutation.isPending || !editingBody.trim()}
+                      >
+                        Salvar
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap break-words">
+                    {splitMentions(comment.body).map((part, index) =>
+                      part.mention
+                        ? <span key={index} className="font-medium text-primary">{part.text}</span>
+                        : <span key={index}>{part.text}</span>
+                    )}
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <div className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Escreva um comentário. Use @usuário para mencionar alguém."
+            rows={3}
+            data-testid="textarea-new-comment"
+          />
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => createMutation.mutate(body)}
+              disabled={createMutation.isPending || !body.trim()}
+              data-testid="button-send-comment"
+            >
+              <Send className="w-3 h-3 mr-1" />
+              Comentar
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
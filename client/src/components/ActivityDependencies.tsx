@@ -0,0 +1,194 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, CornerDownRight, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { ActivityDependencyChain, ActivitySummary, ActivityWithDetails, DependencyNode } from "@shared/schema";
+
+interface ActivityDependenciesProps {
+  activity: ActivityWithDetails;
+}
+
+type Candidate = ActivitySummary & { collaboratorName: string };
+
+const statusBadges: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  next: { label: 'Próxima', variant: 'outline' },
+  in_progress: { label: 'Em andamento', variant: 'default' },
+  paused: { label: 'Pausada', variant: 'secondary' },
+  completed: { label: 'Concluída', variant: 'default' },
+  cancelled: { label: 'Cancelada', variant: 'destructive' },
+};
+
+const isFinished = (status: string) => status === 'completed' || status === 'cancelled';
+
+// What the activity waits on (the whole chain) and what waits on it
+export default function ActivityDependencies({ activity }: ActivityDependenciesProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const canEdit = !isFinished(activity.status) && !!user &&
+    (activity.collaboratorId === user.id || user.role === 'admin' || user.role === 'sector_chief');
+
+  const { data: dependencies } = useQuery<ActivityDependencyChain>({
+    queryKey: ["/api/activities", activity.id, "dependencies"],
+  });
+
+  const { data: candidates = [] } = useQuery<Candidate[]>({
+    queryKey: ["/api/activities", activity.id, "blocker-candidates"],
+    enabled: canEdit,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/team/activities"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (blockerId: string) =>
+      apiRequest("POST", `/api/activities/${activity.id}/dependencies`, { blockerId }),
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Sucesso",
+        description: "Dependência adicionada",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message.includes("cycle")
+          ? "Essa dependência criaria um ciclo entre as atividades"
+          : "Falha ao adicionar a dependência",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (blockerId: string) => {
+      const response = await fetch(`/api/activities/${activity.id}/dependencies/${blockerId}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to remove dependency');
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Sucesso",
+        description: "Dependência removida",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao remover a dependência",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const blockers = dependencies?.blockers || [];
+  const dependents = dependencies?.dependents || [];
+
+  if (!canEdit && blockers.length === 0 && dependents.length === 0) return null;
+
+  const renderNode = (node: DependencyNode, depth: number) => {
+    const status = statusBadges[node.status];
+
+    return (
+      <div key={`${depth}-${node.id}`} className="space-y-2">
+        <div
+          className="flex items-center justify-between gap-2 text-sm"
+          style={{ paddingLeft: depth * 20 }}
+          data-testid={`dependency-blocker-${node.id}`}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            {depth > 0 && <CornerDownRight className="w-3 h-3 text-muted-foreground flex-shrink-0" />}
+            <span className={isFinished(node.status) ? "line-through text-muted-foreground truncate" : "truncate"}>
+              {node.title}
+            </span>
+            <span className="text-xs text-muted-foreground flex-shrink-0">· {node.collaboratorName}</span>
+            {status && <Badge variant={status.variant}>{status.label}</Badge>}
+          </div>
+          {depth === 0 && canEdit && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={() => removeMutation.mutate(node.id)}
+              disabled={removeMutation.isPending}
+              title="Remover dependência"
+              data-testid={`button-remove-dependency-${node.id}`}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+        {node.blockers.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Link2 className="w-5 h-5" />
+          Dependências
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Bloqueada por</p>
+          {blockers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma dependência</p>
+          ) : (
+            blockers.map((node) => renderNode(node, 0))
+          )}
+        </div>
+
+        {canEdit && (
+          <Select
+            value=""
+            onValueChange={(blockerId) => addMutation.mutate(blockerId)}
+            disabled={addMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-add-dependency">
+              <SelectValue placeholder="Adicionar atividade bloqueadora..." />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.length === 0 ? (
+                <SelectItem value="none" disabled>Nenhuma atividade disponível</SelectItem>
+              ) : (
+                candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title} · {candidate.collaboratorName}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+        )}
+
+        {dependents.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Aguardando esta atividade</p>
+            {dependents.map((dependent) => (
+              <div key={dependent.id} className="flex items-center gap-2 text-sm" data-testid={`dependency-dependent-${dependent.id}`}>
+                <span className="truncate">{dependent.title}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">· {dependent.collaboratorName}</span>
+                {statusBadges[dependent.status] && (
+                  <Badge variant={statusBadges[dependent.status].variant}>{statusBadges[dependent.status].label}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Clock, Play, Pause, CheckCircle, XCircle, Plus } from "lucide-react";
+import { Clock, Play, Pause, PauseCircle, CheckCircle, XCircle, Plus, MessageCircle, CheckSquare } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import type { ActivityLogWithUser } from "@shared/schema";
@@ -15,24 +15,33 @@ const actionIcons = {
   created: Plus,
   started: Play,
   paused: Pause,
+  auto_paused: PauseCircle,
   completed: CheckCircle,
   cancelled: XCircle,
+  commented: MessageCircle,
+  subtask_completed: CheckSquare,
 };
 
 const actionLabels = {
   created: "criou",
   started: "iniciou",
   paused: "pausou",
+  auto_paused: "pausou automaticamente",
   completed: "concluiu",
   cancelled: "cancelou",
+  commented: "comentou",
+  subtask_completed: "concluiu subtarefa",
 };
 
 const actionColors = {
   created: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
   started: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
   paused: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  auto_paused: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
   completed: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200",
   cancelled: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  commented: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  subtask_completed: "bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200",
 };
 
 function formatTimeSpent(seconds: number): string {
@@ -98,7 +107,9 @@ export function ActivityFeed({ showUserInfo = true, logs: providedLogs }: Activi
                     )}
                     {showUserInfo ? " " : ""}
                     <span className="text-gray-700 dark:text-gray-300">
-                      {actionLabel} a atividade
+                      {log.action === 'subtask_completed'
+                        ? `concluiu a subtarefa "${log.details}" da atividade`
+                        : `${actionLabel} ${log.action === 'commented' ? 'na' : 'a'} atividade`}
                     </span>
                     <span className="font-medium text-gray-900 dark:text-white ml-1">
                       "{log.activityTitle}"
@@ -22,15 +22,40 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { X, Plus, ChevronUp, ChevronDown } from "lucide-react";
+import { X, Plus, ChevronUp, ChevronDown, GripVertical } from "lucide-react";
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { usePlants } from "@/hooks/usePlants";
+import { useAuth } from "@/hooks/useAuth";
+import { useTags } from "@/hooks/useTags";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import CustomFieldInput from "@/components/CustomFieldInput";
+import RequesterInput from "@/components/RequesterInput";
+import { customFieldValueError } from "@shared/customFields";
+import type { User } from "@shared/schema";
+import { recurrenceFrequencies, weekdayLabels } from "@shared/recurrence";
+import RecurrenceSeriesControls from "@/components/RecurrenceSeriesControls";
+import { format } from "date-fns";
+
+// Converte o prazo vindo da API para o formato do input datetime-local
+const toDateTimeInput = (value?: string | Date | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
 
 const formSchema = insertActivitySchema.extend({
+  dueDateInput: z.string().optional(), // "YYYY-MM-DDTHH:mm" do input datetime-local
+  recurrenceFrequency: z.enum(['none', ...recurrenceFrequencies]).optional(),
+  recurrenceInterval: z.number().min(1, "Informe o intervalo em dias").optional(),
+  recurrenceWeekdays: z.array(z.number()).optional(),
+  recurrenceMonthDay: z.number().min(1, "Dia inválido").max(31, "Dia inválido").optional(),
+  recurrenceEndsOn: z.string().optional(),
   subtasks: z.array(z.object({
+    id: z.string().optional(), // existente; sem id = nova subtarefa
     title: z.string().min(1, "Título da subtarefa é obrigatório"),
     completed: z.boolean().optional(),
+    assigneeId: z.string().nullable().optional(),
   })).optional(),
+  tagIds: z.array(z.string()).optional(),
+  customFieldValues: z.record(z.string(), z.string().nullable()).optional(), // id do campo -> valor
   isRetroactive: z.boolean().optional(),
   completeAllSubtasks: z.boolean().optional(),
   retroactiveStartDate: z.string().optional(),
@@ -46,29 +71,47 @@ const formSchema = insertActivitySchema.extend({
 }, {
   message: "Data de início, data de fim e tempo trabalhado são obrigatórios para atividades retroativas",
   path: ["retroactiveStartDate"]
+}).refine((data) => data.recurrenceFrequency !== 'weekly' || !!data.recurrenceWeekdays?.length, {
+  message: "Selecione ao menos um dia da semana",
+  path: ["recurrenceWeekdays"]
 });
 
 type FormData = z.infer<typeof formSchema>;
+type SubtaskItem = NonNullable<FormData["subtasks"]>[number];
 
 interface ActivityFormProps {
   onSubmit: (data: FormData) => void;
   onCancel: () => void;
   isLoading: boolean;
   initialData?: Partial<FormData>;
+  allowAssignment?: boolean; // chefes/admins podem criar a atividade para outro colaborador
+  recurrenceId?: string | null; // série já existente, gerenciada em vez de configurada
+  ownerSectorId?: string | null; // setor do dono da atividade em edição; define os campos personalizados
 }
 
 export default function ActivityForm({
   onSubmit,
   onCancel,
   isLoading,
-  initialData
+  initialData,
+  allowAssignment = false,
+  recurrenceId,
+  ownerSectorId,
 }: ActivityFormProps) {
   const { data: plants = [], isLoading: plantsLoading } = usePlants();
+  const { user } = useAuth();
+  const canAssign = allowAssignment && (user?.role === 'sector_chief' || user?.role === 'admin');
+
+  const { data: teamMembers = [] } = useQuery<User[]>({
+    queryKey: ['/api/team/members'],
+    enabled: canAssign,
+  });
 
-  const [subtasks, setSubtasks] = useState<{ title: string; completed?: boolean }[]>(
-    initialData?.subtasks?.map(s => ({ title: s.title, completed: s.completed })) || []
+  const [subtasks, setSubtasks] = useState<SubtaskItem[]>(
+    initialData?.subtasks?.map(s => ({ id: s.id, title: s.title, completed: s.completed, assigneeId: s.assigneeId })) || []
   );
   const [newSubtask, setNewSubtask] = useState("");
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -79,8 +122,16 @@ export default function ActivityForm({
       plantId: initialData?.plantId || "",
       plant: initialData?.plant || "",
       project: initialData?.project?.name || initialData?.project || "", // Lidar com projeto como objeto ou string
+      requesterId: initialData?.requesterId || null,
       requester: initialData?.requester || "",
       observations: initialData?.observations || "",
+      dueDateInput: toDateTimeInput(initialData?.dueDate),
+      collaboratorId: "",
+      recurrenceFrequency: "none",
+      recurrenceInterval: 2,
+      recurrenceWeekdays: [],
+      recurrenceMonthDay: 1,
+      recurrenceEndsOn: "",
       status: initialData?.status || "next",
       isRetroactive: initialData?.isRetroactive || false,
       completeAllSubtasks: initialData?.completeAllSubtasks || false,
@@ -89,10 +140,27 @@ export default function ActivityForm({
       retroactiveHours: initialData?.retroactiveHours || 0,
       retroactiveMinutes: initialData?.retroactiveMinutes || 0,
       subtasks: subtasks,
+      tagIds: initialData?.tagIds || [],
+      customFieldValues: initialData?.customFieldValues || {},
     },
   });
 
   const watchedType = form.watch("type");
+  const { data: tags = [] } = useTags();
+
+  // Os campos personalizados são os do setor de quem fica com a atividade
+  const watchedCollaboratorId = form.watch("collaboratorId");
+  const { data: customFields = [] } = useCustomFields();
+  const fieldsSectorId = (canAssign && watchedCollaboratorId
+    ? teamMembers.find((member) => member.id === watchedCollaboratorId)?.sectorId
+    : undefined) ?? ownerSectorId ?? user?.sectorId;
+  const sectorFields = customFields.filter((field) => field.sectorId === fieldsSectorId);
+
+  // Quem pode receber uma subtarefa: o próprio setor
+  const { data: assigneeCandidates = [] } = useQuery<User[]>({
+    queryKey: ['/api/subtasks/assignee-candidates'],
+    enabled: watchedType === "checklist",
+  });
 
   // Sincronizar todos os campos quando initialData mudar (importante para edição)
   useEffect(() => {
@@ -104,8 +172,16 @@ export default function ActivityForm({
         plantId: initialData.plantId || "",
         plant: initialData.plant || "",
         project: initialData.project?.name || initialData.project || "", // Lidar com projeto como objeto ou string
+        requesterId: initialData.requesterId || null,
         requester: initialData.requester || "",
         observations: initialData.observations || "",
+        dueDateInput: toDateTimeInput(initialData.dueDate),
+        collaboratorId: "",
+        recurrenceFrequency: "none",
+        recurrenceInterval: 2,
+        recurrenceWeekdays: [],
+        recurrenceMonthDay: 1,
+        recurrenceEndsOn: "",
         status: initialData.status || "next",
         isRetroactive: initialData.isRetroactive || false,
         completeAllSubtasks: initialData.completeAllSubtasks || false,
@@ -114,6 +190,8 @@ export default function ActivityForm({
         retroactiveHours: initialData.retroactiveHours || 0,
         retroactiveMinutes: initialData.retroactiveMinutes || 0,
         subtasks: subtasks,
+        tagIds: initialData.tagIds || [],
+        customFieldValues: initialData.customFieldValues || {},
       });
     }
   }, [initialData, form, subtasks]);
@@ -122,8 +200,10 @@ export default function ActivityForm({
   useEffect(() => {
     if (initialData?.subtasks) {
       const mappedSubtasks = initialData.subtasks.map(s => ({
+        id: s.id,
         title: s.title,
-        completed: s.completed || false
+        completed: s.completed || false,
+        assigneeId: s.assigneeId ?? null,
       }));
       setSubtasks(mappedSubtasks);
       form.setValue("subtasks", mappedSubtasks);
@@ -148,30 +228,63 @@ export default function ActivityForm({
     form.setValue("subtasks", updatedSubtasks);
   };
 
-  const moveSubtaskUp = (index: number) => {
-    if (index > 0) {
-      const updatedSubtasks = [...subtasks];
-      [updatedSubtasks[index], updatedSubtasks[index - 1]] = [updatedSubtasks[index - 1], updatedSubtasks[index]];
-      setSubtasks(updatedSubtasks);
-      form.setValue("subtasks", updatedSubtasks);
-    }
+  const moveSubtask = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= subtasks.length) return;
+    const updatedSubtasks = [...subtasks];
+    const [moved] = updatedSubtasks.splice(from, 1);
+    updatedSubtasks.splice(to, 0, moved);
+    setSubtasks(updatedSubtasks);
+    form.setValue("subtasks", updatedSubtasks);
   };
 
-  const moveSubtaskDown = (index: number) => {
-    if (index < subtasks.length - 1) {
-      const updatedSubtasks = [...subtasks];
-      [updatedSubtasks[index], updatedSubtasks[index + 1]] = [updatedSubtasks[index + 1], updatedSubtasks[index]];
-      setSubtasks(updatedSubtasks);
-      form.setValue("subtasks", updatedSubtasks);
-    }
+  const moveSubtaskUp = (index: number) => moveSubtask(index, index - 1);
+
+  const moveSubtaskDown = (index: number) => moveSubtask(index, index + 1);
+
+  const setSubtaskAssignee = (index: number, assigneeId: string | null) => {
+    const updatedSubtasks = subtasks.map((subtask, i) => i === index ? { ...subtask, assigneeId } : subtask);
+    setSubtasks(updatedSubtasks);
+    form.setValue("subtasks", updatedSubtasks);
   };
 
-  const handleSubmit = (data: FormData) => {
+  const handleSubmit = ({
+    dueDateInput,
+    recurrenceFrequency,
+    recurrenceInterval,
+    recurrenceWeekdays,
+    recurrenceMonthDay,
+    recurrenceEndsOn,
+    customFieldValues,
+    ...data
+  }: FormData) => {
+    let hasFieldErrors = false;
+    sectorFields.forEach((field) => {
+      const error = customFieldValueError(field, customFieldValues?.[field.id]);
+      if (error) {
+        form.setError(`customFieldValues.${field.id}`, { message: error });
+        hasFieldErrors = true;
+      }
+    });
+    if (hasFieldErrors) return;
+
     // Filtrar valores especiais de loading/empty que não devem ser enviados
     const cleanData = {
       ...data,
       plantId: data.plantId?.startsWith('__') ? '' : data.plantId,
+      // Sem prazo, o servidor aplica o SLA da prioridade/planta
+      dueDate: dueDateInput && !data.isRetroactive ? new Date(dueDateInput) : null,
+      // Vazio = a própria pessoa; atividades retroativas não podem ser atribuídas
+      collaboratorId: canAssign && !data.isRetroactive && data.collaboratorId ? data.collaboratorId : undefined,
       subtasks: watchedType === "checklist" ? subtasks : undefined,
+      customFieldValues: Object.fromEntries(sectorFields.map((field) => [field.id, customFieldValues?.[field.id] || null])),
+      // A atividade passa a ser o modelo das próximas ocorrências
+      recurrence: recurrenceFrequency && recurrenceFrequency !== 'none' && !recurrenceId && !data.isRetroactive ? {
+        frequency: recurrenceFrequency,
+        interval: recurrenceFrequency === 'interval' ? recurrenceInterval : null,
+        weekdays: recurrenceFrequency === 'weekly' ? recurrenceWeekdays : null,
+        monthDay: recurrenceFrequency === 'monthly' ? recurrenceMonthDay : null,
+        endsOn: recurrenceEndsOn || null,
+      } : undefined,
     };
 
     // Se for retroativa, calcular o total_time em segundos
@@ -316,12 +429,13 @@ export default function ActivityForm({
                     <FormItem>
                       <FormLabel className="text-sm font-medium">Solicitante</FormLabel>
                       <FormControl>
-                        <Input
-                          placeholder="Nome do solicitante (opcional)"
-                          {...field}
-                          value={field.value || ""}
-                          className="h-9"
-                          data-testid="input-activity-requester"
+                        <RequesterInput
+                          requesterId={form.watch("requesterId")}
+                          requester={field.value}
+                          onChange={({ id, name }) => {
+                            form.setValue("requesterId", id);
+                            field.onChange(name || "");
+                          }}
                         />
                       </FormControl>
                       <FormMessage />
@@ -329,6 +443,67 @@ export default function ActivityForm({
                   )}
                 />
 
+                {!form.watch("isRetroactive") && (
+                  <FormField
+                    control={form.control}
+                    name="dueDateInput"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Prazo</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            {...field}
+                            value={field.value || ""}
+                            className="h-9"
+                            data-testid="input-activity-due-date"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">
+                          Opcional. Se vazio, o prazo segue o SLA da prioridade e planta.
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {canAssign && !form.watch("isRetroactive") && (
+                  <FormField
+                    control={form.control}
+                    name="collaboratorId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Responsável</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === "__self__" ? "" : value)}
+                          value={field.value || "__self__"}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="h-9" data-testid="select-activity-assignee">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="__self__">Eu mesmo</SelectItem>
+                            {teamMembers
+                              .filter((member) => member.id !== user?.id && member.isActive)
+                              .map((member) => (
+                                <SelectItem key={member.id} value={member.id}>
+                                  {`${member.firstName || ''} ${member.lastName || ''}`.trim() || member.username}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          O colaborador escolhido precisa aceitar a atividade.
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={form.control}
                   name="observations"
@@ -348,6 +523,62 @@ export default function ActivityForm({
                     </FormItem>
                   )}
                 />
+
+                {tags.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="tagIds"
+                    render={({ field }) => {
+                      const selected = field.value || [];
+                      return (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel className="text-sm font-medium">Tags</FormLabel>
+                          <div className="flex flex-wrap gap-2" data-testid="tags-activity">
+                            {tags.map((tag) => {
+                              const isSelected = selected.includes(tag.id);
+                              return (
+                                <Badge
+                                  key={tag.id}
+                                  variant="outline"
+                                  className="cursor-pointer select-none"
+                                  style={isSelected
+                                    ? { backgroundColor: tag.color, borderColor: tag.color, color: '#fff' }
+                                    : { borderColor: tag.color, color: tag.color }}
+                                  onClick={() => field.onChange(isSelected
+                                    ? selected.filter((id) => id !== tag.id)
+                                    : [...selected, tag.id])}
+                                  data-testid={`tag-option-${tag.id}`}
+                                >
+                                  {tag.name}
+                                </Badge>
+                              );
+                            })}
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
+                  />
+                )}
+
+                {sectorFields.map((customField) => (
+                  <FormField
+                    key={customField.id}
+                    control={form.control}
+                    name={`customFieldValues.${customField.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">
+                          {customField.name}{customField.required && ' *'}
+                        </FormLabel>
+                        <FormControl>
+                          <CustomFieldInput field={customField} value={field.value} onChange={field.onChange} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -387,9 +618,41 @@ export default function ActivityForm({
                   {subtasks.length > 0 && (
                     <div className="h-48 overflow-y-auto border rounded-lg p-2 bg-gray-50 dark:bg-gray-600 space-y-2 resize-y">
                       {subtasks.map((subtask, index) => (
-                        <div key={index} className="flex items-center justify-between p-2 bg-white dark:bg-gray-700 rounded border shadow-sm dark:border-gray-600">
+                        <div
+                          key={subtask.id || `new-${index}`}
+                          draggable
+                          onDragStart={() => setDraggedIndex(index)}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            if (draggedIndex !== null) moveSubtask(draggedIndex, index);
+                            setDraggedIndex(null);
+                          }}
+                          onDragEnd={() => setDraggedIndex(null)}
+                          className={`flex items-center justify-between p-2 bg-white dark:bg-gray-700 rounded border shadow-sm dark:border-gray-600 ${draggedIndex === index ? 'opacity-50' : ''}`}
+                          data-testid={`subtask-row-${index}`}
+                        >
+                          <GripVertical className="w-4 h-4 text-gray-400 cursor-grab mr-1 flex-shrink-0" />
                           <span className="flex-1 text-sm font-medium truncate mr-2 dark:text-white">{subtask.title}</span>
                           <div className="flex items-center gap-1">
+                            {assigneeCandidates.length > 0 && (
+                              <Select
+                                value={subtask.assigneeId || "none"}
+                                onValueChange={(value) => setSubtaskAssignee(index, value === "none" ? null : value)}
+                              >
+                                <SelectTrigger className="h-7 w-36 text-xs" data-testid={`select-subtask-assignee-${index}`}>
+                                  <SelectValue placeholder="Responsável" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Sem responsável</SelectItem>
+                                  {assigneeCandidates.map((member) => (
+                                    <SelectItem key={member.id} value={member.id}>
+                                      {`${member.firstName || ''} ${member.lastName || ''}`.trim() || member.username}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
                             <Button
                               type="button"
                               variant="ghost"
@@ -439,6 +702,149 @@ export default function ActivityForm({
             </Card>
           )}
 
+          {/* Recorrência */}
+          {!form.watch("isRetroactive") && (
+            <Card className="p-3 dark:bg-gray-700">
+              <CardContent className="p-0">
+                <h3 className="text-base font-semibold mb-3 text-gray-800 dark:text-white">Repetição</h3>
+                {recurrenceId ? (
+                  <RecurrenceSeriesControls recurrenceId={recurrenceId} />
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <FormField
+                      control={form.control}
+                      name="recurrenceFrequency"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium">Repetir</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value || "none"}>
+                            <FormControl>
+                              <SelectTrigger className="h-9" data-testid="select-recurrence-frequency">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Não repetir</SelectItem>
+                              <SelectItem value="daily">Diariamente</SelectItem>
+                              <SelectItem value="weekly">Semanalmente</SelectItem>
+                              <SelectItem value="monthly">Mensalmente</SelectItem>
+                              <SelectItem value="interval">A cada N dias</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {form.watch("recurrenceFrequency") !== "none" && (
+                      <FormField
+                        control={form.control}
+                        name="recurrenceEndsOn"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-medium">Termina em</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="date"
+                                {...field}
+                                value={field.value || ""}
+                                className="h-9"
+                                data-testid="input-recurrence-ends-on"
+                              />
+                            </FormControl>
+                            <p className="text-xs text-muted-foreground">Opcional. Sem data, a série segue até ser encerrada.</p>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {form.watch("recurrenceFrequency") === "weekly" && (
+                      <FormField
+                        control={form.control}
+                        name="recurrenceWeekdays"
+                        render={({ field }) => (
+                          <FormItem className="md:col-span-2">
+                            <FormLabel className="text-sm font-medium">Dias da semana</FormLabel>
+                            <div className="flex flex-wrap gap-1">
+                              {weekdayLabels.map((label, day) => {
+                                const selected = field.value?.includes(day);
+                                return (
+                                  <Button
+                                    key={day}
+                                    type="button"
+                                    size="sm"
+                                    variant={selected ? "default" : "outline"}
+                                    className="h-8 px-3"
+                                    onClick={() => field.onChange(selected
+                                      ? (field.value || []).filter((value) => value !== day)
+                                      : [...(field.value || []), day])}
+                                    data-testid={`button-recurrence-weekday-${day}`}
+                                  >
+                                    {label}
+                                  </Button>
+                                );
+                              })}
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {form.watch("recurrenceFrequency") === "monthly" && (
+                      <FormField
+                        control={form.control}
+                        name="recurrenceMonthDay"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-medium">Dia do mês</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                max="31"
+                                {...field}
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                                className="h-9"
+                                data-testid="input-recurrence-month-day"
+                              />
+                            </FormControl>
+                            <p className="text-xs text-muted-foreground">Em meses mais curtos, usa o último dia.</p>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {form.watch("recurrenceFrequency") === "interval" && (
+                      <FormField
+                        control={form.control}
+                        name="recurrenceInterval"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-medium">Intervalo (dias)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                {...field}
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                                className="h-9"
+                                data-testid="input-recurrence-interval"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Retroactive Activity Section */}
           <Card className="p-3 dark:bg-gray-700">
             <CardContent className="p-0">
@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History } from "lucide-react";
+import { formatHistoryValue, historyFieldLabel, listDifference } from "@shared/activityHistory";
+import type { ActivityChangeWithUser } from "@shared/schema";
+
+interface ActivityHistoryProps {
+  activityId: string;
+}
+
+const authorName = (change: ActivityChangeWithUser) =>
+  `${change.user.firstName || ''} ${change.user.lastName || ''}`.trim() || change.user.username;
+
+// Before → after of one field; lists only show what was added and removed
+export function ChangeValues({ change }: { change: ActivityChangeWithUser }) {
+  if (Array.isArray(change.oldValue) || Array.isArray(change.newValue)) {
+    const { added, removed } = listDifference(change.oldValue ?? null, change.newValue ?? null);
+    return (
+      <div className="text-sm space-y-0.5">
+        {added.map((item) => (
+          <p key={`+${item}`} className="text-green-700 dark:text-green-400">+ {item}</p>
+        ))}
+        {removed.map((item) => (
+          <p key={`-${item}`} className="text-red-700 dark:text-red-400 line-through">− {item}</p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-sm break-words">
+      <span className="text-muted-foreground line-through">{formatHistoryValue(change.field, change.oldValue ?? null)}</span>
+      <span className="text-muted-foreground mx-2">→</span>
+      <span className="font-medium">{formatHistoryValue(change.field, change.newValue ?? null)}</span>
+    </p>
+  );
+}
+
+// Every field change of an activity, newest first
+export default function ActivityHistory({ activityId }: ActivityHistoryProps) {
+  const { data: changes = [], isLoading } = useQuery<ActivityChangeWithUser[]>({
+    queryKey: ["/api/activities", activityId, "history"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Histórico de Alterações
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando...</p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma alteração registrada</p>
+        ) : changes.map((change) => (
+          <div
+            key={change.id}
+            className="border-b border-border pb-3 last:border-0 last:pb-0 space-y-1"
+            data-testid={`activity-change-${change.id}`}
+          >
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium">{historyFieldLabel(change.field)}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {change.createdAt && format(new Date(change.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+              </span>
+            </div>
+            <ChangeValues change={change} />
+            <p className="text-xs text-muted-foreground">Por {authorName(change)}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
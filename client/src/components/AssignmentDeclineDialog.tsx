@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { XCircle, AlertCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RespondAssignmentData } from "@shared/schema";
+
+interface AssignmentDeclineDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activityId: string;
+  activityTitle: string;
+}
+
+export default function AssignmentDeclineDialog({
+  isOpen,
+  onClose,
+  activityId,
+  activityTitle,
+}: AssignmentDeclineDialogProps) {
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const declineMutation = useMutation({
+    mutationFn: (data: RespondAssignmentData) =>
+      apiRequest("POST", `/api/activities/${activityId}/assignment`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Atividade recusada",
+        description: "Quem atribuiu a atividade foi notificado",
+      });
+      handleClose();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao recusar a atividade",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[525px]" data-testid="dialog-decline-assignment">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <AlertCircle className="text-red-600 w-5 h-5" />
+            <span>Recusar Atividade</span>
+          </DialogTitle>
+          <DialogDescription>
+            A atividade <strong>{activityTitle}</strong> voltará para quem a atribuiu.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-4">
+          <Label htmlFor="decline-reason" className="text-sm font-medium">
+            Motivo da recusa *
+          </Label>
+          <Textarea
+            id="decline-reason"
+            placeholder="Ex: Sem disponibilidade nesta semana, fora da minha área, etc..."
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="min-h-[100px]"
+            data-testid="textarea-decline-reason"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button
+            variant="outline"
+            onClick={handleClose}
+            disabled={declineMutation.isPending}
+            data-testid="button-cancel-decline"
+          >
+            Voltar
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => declineMutation.mutate({ decision: 'declined', reason })}
+            disabled={!reason.trim() || declineMutation.isPending}
+            data-testid="button-confirm-decline"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Recusar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
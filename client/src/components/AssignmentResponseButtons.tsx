@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Check, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import AssignmentDeclineDialog from "@/components/AssignmentDeclineDialog";
+import type { ActivityWithDetails } from "@shared/schema";
+
+interface AssignmentResponseButtonsProps {
+  activity: ActivityWithDetails;
+  compact?: boolean;
+}
+
+// Accept / decline for an activity a chief or admin assigned to the current user
+export default function AssignmentResponseButtons({ activity, compact = false }: AssignmentResponseButtonsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showDeclineDialog, setShowDeclineDialog] = useState(false);
+
+  const acceptMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/activities/${activity.id}/assignment`, { decision: 'accepted' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Atividade aceita",
+        description: "A atividade já pode ser iniciada",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao aceitar a atividade",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => acceptMutation.mutate()}
+        disabled={acceptMutation.isPending}
+        className={cn(
+          "text-success border-success hover:bg-success hover:text-success-foreground hover:scale-110 transition-transform",
+          compact && "px-2 py-1 h-7"
+        )}
+        title="Aceitar atividade"
+        data-testid="button-accept-assignment"
+      >
+        <Check className={cn("w-3 h-3", !compact && "mr-1")} />
+        {!compact && "Aceitar"}
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => setShowDeclineDialog(true)}
+        disabled={acceptMutation.isPending}
+        className={cn(
+          "text-destructive border-destructive hover:bg-destructive hover:text-destructive-foreground hover:scale-110 transition-transform",
+          compact && "px-2 py-1 h-7"
+        )}
+        title="Recusar atividade"
+        data-testid="button-decline-assignment"
+      >
+        <X className={cn("w-3 h-3", !compact && "mr-1")} />
+        {!compact && "Recusar"}
+      </Button>
+
+      <AssignmentDeclineDialog
+        isOpen={showDeclineDialog}
+        onClose={() => setShowDeclineDialog(false)}
+        activityId={activity.id}
+        activityTitle={activity.title}
+      />
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ActivityWithDetails } from "@shared/schema";
+
+interface BlockedBadgeProps {
+  activity: Pick<ActivityWithDetails, 'status' | 'blockedBy'>;
+  className?: string;
+}
+
+// Only activities not yet started are held back by their blockers
+export const isBlocked = (activity: Pick<ActivityWithDetails, 'status' | 'blockedBy'>) =>
+  activity.status === 'next' && !!activity.blockedBy?.length;
+
+export default function BlockedBadge({ activity, className }: BlockedBadgeProps) {
+  if (!isBlocked(activity)) return null;
+
+  const title = `Aguardando: ${activity.blockedBy!.map((blocker) => blocker.title).join(', ')}`;
+
+  return (
+    <Badge variant="outline" className={cn("flex items-center gap-1 text-amber-600 border-amber-600", className)} title={title} data-testid="badge-activity-blocked">
+      <Lock className="w-3 h-3" />
+      Bloqueada
+    </Badge>
+  );
+}
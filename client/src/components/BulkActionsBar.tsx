@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, UserCheck, Pencil, Tags, Download } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlants } from "@/hooks/usePlants";
+import { useTags } from "@/hooks/useTags";
+import type { BulkActivityAction, User } from "@shared/schema";
+
+interface BulkActionsBarProps {
+  selectedIds: string[];
+  visibleIds: string[]; // atividades listadas no momento, para "selecionar todas"
+  onSelectAll: (ids: string[]) => void;
+  onClear: () => void;
+  exportOnly?: boolean; // concluídas e canceladas não podem mais ser editadas
+}
+
+type BulkFailure = { activityId: string; title: string; message: string };
+
+// Nothing is saved when any activity is refused, so the refusals are listed to fix the selection
+const failuresDescription = (error: Error) => {
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(':') + 1));
+    const failures: BulkFailure[] = body.failures || [];
+    if (failures.length === 0) return body.message || error.message;
+    const listed = failures.slice(0, 3).map((failure) => `"${failure.title || failure.activityId}": ${failure.message}`);
+    const more = failures.length > 3 ? ` e mais ${failures.length - 3}` : '';
+    return `Nenhuma atividade foi alterada. ${listed.join('; ')}${more}`;
+  } catch {
+    return error.message;
+  }
+};
+
+// Sticky bar with the actions for the activities selected in a list
+export default function BulkActionsBar({ selectedIds, visibleIds, onSelectAll, onClear, exportOnly = false }: BulkActionsBarProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [openAction, setOpenAction] = useState<BulkActivityAction['type'] | null>(null);
+  const [reason, setReason] = useState("");
+  const [collaboratorId, setCollaboratorId] = useState("");
+  const [plantId, setPlantId] = useState("__keep__");
+  const [project, setProject] = useState("");
+  const [priority, setPriority] = useState("__keep__");
+  const [tagIds, setTagIds] = useState<string[]>([]);
+
+  const canReassign = user?.role === 'sector_chief' || user?.role === 'admin';
+  const { data: plants = [] } = usePlants();
+  const { data: tags = [] } = useTags();
+  const { data: teamMembers = [] } = useQuery<User[]>({
+    queryKey: ['/api/team/members'],
+    enabled: canReassign && openAction === 'reassign',
+  });
+
+  const closeDialog = () => {
+    setOpenAction(null);
+    setReason("");
+    setCollaboratorId("");
+    setPlantId("__keep__");
+    setProject("");
+    setPriority("__keep__");
+    setTagIds([]);
+  };
+
+  const bulkMutation = useMutation({
+    mutationFn: (action: BulkActivityAction) =>
+      apiRequest("POST", "/api/activities/bulk", { activityIds: selectedIds, action }),
+    onSuccess: (result: { updated: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/assignments"] });
+      toast({
+        title: "Ação aplicada",
+        description: `${result.updated} atividade(s) alterada(s)`,
+      });
+      closeDialog();
+      onClear();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: failuresDescription(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/reports/export?format=csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ activityIds: selectedIds }),
+      });
+      if (!response.ok) throw new Error('Export failed');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `atividades-selecionadas-${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao exportar as atividades selecionadas",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleConfirm = () => {
+    switch (openAction) {
+      case 'cancel':
+        bulkMutation.mutate({ type: 'cancel', reason });
+        break;
+      case 'reassign':
+        bulkMutation.mutate({ type: 'reassign', collaboratorId });
+        break;
+      case 'update':
+        bulkMutation.mutate({
+          type: 'update',
+          plantId: plantId === '__keep__' ? undefined : plantId,
+          project: project.trim() || undefined,
+          priority: priority === '__keep__' ? undefined : priority as 'low' | 'medium' | 'high',
+        });
+        break;
+      case 'add_tags':
+        bulkMutation.mutate({ type: 'add_tags', tagIds });
+        break;
+    }
+  };
+
+  const canConfirm = openAction === 'cancel' ? !!reason.trim()
+    : openAction === 'reassign' ? !!collaboratorId
+      : openAction === 'update' ? plantId !== '__keep__' || !!project.trim() || priority !== '__keep__'
+        : tagIds.length > 0;
+
+  if (selectedIds.length === 0) return null;
+
+  const titles: Record<BulkActivityAction['type'], string> = {
+    cancel: 'Cancelar atividades',
+    reassign: 'Reatribuir atividades',
+    update: 'Alterar planta, projeto ou prioridade',
+    add_tags: 'Adicionar tags',
+  };
+
+  return (
+    <>
+      <div
+        className="sticky bottom-4 z-20 flex flex-wrap items-center gap-2 rounded-lg border border-border bg-background p-3 shadow-lg"
+        data-testid="bulk-actions-bar"
+      >
+        <span className="text-sm font-medium mr-2">{selectedIds.length} selecionada(s)</span>
+        {visibleIds.length > selectedIds.length && (
+          <Button variant="ghost" size="sm" onClick={() => onSelectAll(visibleIds)} data-testid="button-bulk-select-all">
+            Selecionar todas ({visibleIds.length})
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={onClear} data-testid="button-bulk-clear">
+          Limpar seleção
+        </Button>
+        <div className="flex flex-wrap gap-2 ml-auto">
+          {!exportOnly && (
+            <Button variant="outline" size="sm" onClick={() => setOpenAction('update')} data-testid="button-bulk-update">
+              <Pencil className="w-4 h-4 mr-1" />
+              Alterar
+            </Button>
+          )}
+          {!exportOnly && tags.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setOpenAction('add_tags')} data-testid="button-bulk-tags">
+              <Tags className="w-4 h-4 mr-1" />
+              Tags
+            </Button>
+          )}
+          {!exportOnly && canReassign && (
+            <Button variant="outline" size="sm" onClick={() => setOpenAction('reassign')} data-testid="button-bulk-reassign">
+              <UserCheck className="w-4 h-4 mr-1" />
+              Reatribuir
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+            data-testid="button-bulk-export"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Exportar
+          </Button>
+          {!exportOnly && (
+            <Button variant="destructive" size="sm" onClick={() => setOpenAction('cancel')} data-testid="button-bulk-cancel">
+              <X className="w-4 h-4 mr-1" />
+              Cancelar
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!openAction} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{openAction && titles[openAction]}</DialogTitle>
+            <DialogDescription>
+              {selectedIds.length} atividade(s) selecionada(s). Se alguma não puder receber a ação, nenhuma é alterada.
+            </DialogDescription>
+          </DialogHeader>
+
+          {openAction === 'cancel' && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-reason">Motivo do cancelamento</Label>
+              <Textarea
+                id="bulk-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={1000}
+                className="min-h-[80px] resize-none"
+                data-testid="textarea-bulk-reason"
+              />
+            </div>
+          )}
+
+          {openAction === 'reassign' && (
+            <div className="space-y-2">
+              <Label>Novo responsável</Label>
+              <Select value={collaboratorId} onValueChange={setCollaboratorId}>
+                <SelectTrigger data-testid="select-bulk-collaborator">
+                  <SelectValue placeholder="Selecione o colaborador" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teamMembers.filter((member) => member.isActive).map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {`${member.firstName || ''} ${member.lastName || ''}`.trim() || member.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Só atribuições ainda não aceitas podem ser reatribuídas.
+              </p>
+            </div>
+          )}
+
+          {openAction === 'update' && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label>Planta</Label>
+                <Select value={plantId} onValueChange={setPlantId}>
+                  <SelectTrigger data-testid="select-bulk-plant">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__keep__">Manter</SelectItem>
+                    {plants.map((plant) => (
+                      <SelectItem key={plant.id} value={plant.id}>{plant.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-project">Projeto</Label>
+                <Input
+                  id="bulk-project"
+                  value={project}
+                  onChange={(e) => setProject(e.target.value)}
+                  placeholder="Manter"
+                  maxLength={255}
+                  data-testid="input-bulk-project"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Prioridade</Label>
+                <Select value={priority} onValueChange={setPriority}>
+                  <SelectTrigger data-testid="select-bulk-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__keep__">Manter</SelectItem>
+                    <SelectItem value="low">Baixa</SelectItem>
+                    <SelectItem value="medium">Média</SelectItem>
+                    <SelectItem value="high">Alta</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {openAction === 'add_tags' && (
+            <div className="flex flex-wrap gap-2" data-testid="bulk-tags">
+              {tags.map((tag) => {
+                const isSelected = tagIds.includes(tag.id);
+                return (
+                  <Badge
+                    key={tag.id}
+                    variant="outline"
+                    className="cursor-pointer select-none"
+                    style={isSelected
+                      ? { backgroundColor: tag.color, borderColor: tag.color, color: '#fff' }
+                      : { borderColor: tag.color, color: tag.color }}
+                    onClick={() => setTagIds(isSelected ? tagIds.filter((id) => id !== tag.id) : [...tagIds, tag.id])}
+                  >
+                    {tag.name}
+                  </Badge>
+                );
+              })}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Voltar</Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={!canConfirm || bulkMutation.isPending}
+              variant={openAction === 'cancel' ? 'destructive' : 'default'}
+              data-testid="button-bulk-confirm"
+            >
+              {bulkMutation.isPending ? 'Aplicando...' : 'Aplicar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -8,17 +9,28 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   FileText,
-  Download,
   Clock,
   Calendar,
   CheckSquare,
   MessageSquare,
   X,
-  Building
+  Building,
+  Archive
 } from "lucide-react";
-import type { ActivityWithDetails } from "@shared/schema";
+import TimeAdjustmentHistory from "@/components/TimeAdjustmentHistory";
+import ActivityHistory from "@/components/ActivityHistory";
+import ActivityDependencies from "@/components/ActivityDependencies";
+import ActivityComments from "@/components/ActivityComments";
+import ActivityAttachments from "@/components/ActivityAttachments";
+import TagBadges from "@/components/TagBadges";
+import { formatCustomFieldValue } from "@shared/customFields";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { ActivityWithDetails, SubtaskWithAssignee, User } from "@shared/schema";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -33,6 +45,34 @@ export default function CompletedActivityDetails({
   onClose,
   activity,
 }: CompletedActivityDetailsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Same rule as the server: the owner, an admin or the chief of the owner's sector; a running timer must be paused first
+  const canArchive = !!user && activity.status !== 'in_progress' && (
+    activity.collaboratorId === user.id ||
+    user.role === 'admin' ||
+    (user.role === 'sector_chief' && !!user.sectorId && user.sectorId === activity.collaborator.sectorId)
+  );
+
+  const archiveMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/activities/${activity.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({ title: "Atividade arquivada", description: "A atividade foi movida para a lixeira." });
+      onClose();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao arquivar a atividade", variant: "destructive" });
+    },
+  });
+
+  const handleArchive = () => {
+    if (!confirm(`Arquivar a atividade "${activity.title}"? Um administrador poderá restaurá-la pela lixeira.`)) return;
+    archiveMutation.mutate();
+  };
+
   const formatTime = (seconds: number) => {
     if (!seconds) return '0m';
     const hours = Math.floor(seconds / 3600);
@@ -79,12 +119,13 @@ export default function CompletedActivityDetails({
     }
   };
 
-  const handleDownloadEvidence = () => {
-    if (activity.evidenceUrl) {
-      // Use a nova API para servir arquivos com autenticação
-      const fileUrl = `/api/files${activity.evidenceUrl}`;
-      window.open(fileUrl, '_blank');
-    }
+  const userName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+  // Who ticked the item, when it was the owner or the item's assignee
+  const completedByName = (subtask: SubtaskWithAssignee) => {
+    if (subtask.completedById === activity.collaboratorId) return userName(activity.collaborator);
+    if (subtask.assignee && subtask.completedById === subtask.assignee.id) return userName(subtask.assignee);
+    return undefined;
   };
 
   const completedSubtasks = activity.subtasks?.filter(st => st.completed).length || 0;
@@ -111,186 +152,207 @@ export default function CompletedActivityDetails({
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Basic Info */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">{activity.title}</CardTitle>
-              <div className="flex items-center gap-2">
-                <Badge variant={getPriorityColor(activity.priority)}>
-                  {getPriorityText(activity.priority)}
-                </Badge>
-                {activity.status === 'completed' ? (
-                  <Badge variant="outline" className="text-green-600 border-green-600">
-                    Concluída
-                  </Badge>
-                ) : activity.status === 'cancelled' ? (
-                  <Badge variant="outline" className="text-red-600 border-red-600">
-                    Cancelada
-                  </Badge>
-                ) : activity.status === 'next' ? (
-                  <Badge variant="outline" className="text-blue-600 border-blue-600">
-                    Próxima
-                  </Badge>
-                ) : activity.status === 'in_progress' ? (
-                  <Badge variant="outline" className="text-green-600 border-green-600">
-                    Em Progresso
-                  </Badge>
-                ) : activity.status === 'paused' ? (
-                  <Badge variant="outline" className="text-orange-600 border-orange-600">
-                    Pausada
-                  </Badge>
-                ) : (
-                  <Badge variant="outline">
-                    {activity.status}
-                  </Badge>
-                )}
-              </div>
-            </CardHeader>
-            <CardContent>
-              {/* Description would go here if available in schema */}
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Detalhes</TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-activity-history">Histórico</TabsTrigger>
+          </TabsList>
 
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div className="flex items-center gap-2">
-                  <Building className="w-4 h-4 text-muted-foreground" />
-                  <span>Planta: {activity.plant || activity.plantRef?.name || 'N/A'}</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <FileText className="w-4 h-4 text-muted-foreground" />
-                  <span>Projeto: {activity.project || 'N/A'}</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Clock className="w-4 h-4 text-muted-foreground" />
-                  <span>Tempo gasto: {formatTime(activity.totalTime || 0)}</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Calendar className="w-4 h-4 text-muted-foreground" />
-                  <span>
-                    {activity.status === 'completed'
-                      ? `Concluída em: ${formatDateOnly(activity.completedAt)}`
-                      : activity.status === 'cancelled'
-                        ? `Cancelada em: ${formatDateOnly(activity.cancelledAt)}`
-                        : `Criada em: ${formatDateOnly(activity.createdAt)}`
-                    }
-                  </span>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Observations */}
-          {activity.observations && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <MessageSquare className="w-5 h-5" />
-                  Observações
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground">
-                  {activity.observations}
-                </p>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Subtasks */}
-          {activity.type === 'checklist' && activity.subtasks && activity.subtasks.length > 0 && (
+          <TabsContent value="details" className="space-y-6">
+            {/* Basic Info */}
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <CheckSquare className="w-5 h-5" />
-                  Subtarefas ({completedSubtasks}/{totalSubtasks})
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  {activity.subtasks.map((subtask) => (
-                    <div key={subtask.id} className="flex items-center gap-2">
-                      <CheckSquare
-                        className={`w-4 h-4 ${subtask.completed ? 'text-green-600' : 'text-muted-foreground'
-                          }`}
-                      />
-                      <span className={subtask.completed ? 'line-through text-muted-foreground' : ''}>
-                        {subtask.title}
-                      </span>
-                    </div>
-                  ))}
+                <CardTitle className="text-lg">{activity.title}</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Badge variant={getPriorityColor(activity.priority)}>
+                    {getPriorityText(activity.priority)}
+                  </Badge>
+                  {activity.status === 'completed' ? (
+                    <Badge variant="outline" className="text-green-600 border-green-600">
+                      Concluída
+                    </Badge>
+                  ) : activity.status === 'cancelled' ? (
+                    <Badge variant="outline" className="text-red-600 border-red-600">
+                      Cancelada
+                    </Badge>
+                  ) : activity.status === 'next' ? (
+                    <Badge variant="outline" className="text-blue-600 border-blue-600">
+                      Próxima
+                    </Badge>
+                  ) : activity.status === 'in_progress' ? (
+                    <Badge variant="outline" className="text-green-600 border-green-600">
+                      Em Progresso
+                    </Badge>
+                  ) : activity.status === 'paused' ? (
+                    <Badge variant="outline" className="text-orange-600 border-orange-600">
+                      Pausada
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">
+                      {activity.status}
+                    </Badge>
+                  )}
                 </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Completion Notes or Cancellation Reason */}
-          {activity.status === 'completed' && activity.completionNotes && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <MessageSquare className="w-5 h-5" />
-                  Observações da Conclusão
-                </CardTitle>
               </CardHeader>
               <CardContent>
-                <p className="text-muted-foreground">
-                  {activity.completionNotes}
-                </p>
-              </CardContent>
-            </Card>
-          )}
+                {/* Description would go here if available in schema */}
 
-          {activity.status === 'cancelled' && activity.cancellationReason && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <MessageSquare className="w-5 h-5" />
-                  Motivo do Cancelamento
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground">
-                  {activity.cancellationReason}
-                </p>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Evidence - Only for completed activities */}
-          {activity.status === 'completed' && activity.evidenceUrl && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <FileText className="w-5 h-5" />
-                  Evidência Anexada
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between">
+                <div className="grid grid-cols-2 gap-4 text-sm">
                   <div className="flex items-center gap-2">
-                    <FileText className="w-6 h-6 text-blue-600" />
-                    <div>
-                      <p className="font-medium">Arquivo de Evidência</p>
-                      <p className="text-sm text-muted-foreground">
-                        Anexado na conclusão da atividade
-                      </p>
-                    </div>
+                    <Building className="w-4 h-4 text-muted-foreground" />
+                    <span>Planta: {activity.plant || activity.plantRef?.name || 'N/A'}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <FileText className="w-4 h-4 text-muted-foreground" />
+                    <span>Projeto: {activity.project || 'N/A'}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-muted-foreground" />
+                    <span>Tempo gasto: {formatTime(activity.totalTime || 0)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Calendar className="w-4 h-4 text-muted-foreground" />
+                    <span>
+                      {activity.status === 'completed'
+                        ? `Concluída em: ${formatDateOnly(activity.completedAt)}`
+                        : activity.status === 'cancelled'
+                          ? `Cancelada em: ${formatDateOnly(activity.cancelledAt)}`
+                          : `Criada em: ${formatDateOnly(activity.createdAt)}`
+                      }
+                    </span>
                   </div>
-                  <Button
-                    onClick={handleDownloadEvidence}
-                    variant="outline"
-                    size="sm"
-                    className="flex items-center gap-2"
-                  >
-                    <Download className="w-4 h-4" />
-                    Baixar
-                  </Button>
                 </div>
+                {!!activity.customFieldValues?.length && (
+                  <div className="grid grid-cols-2 gap-4 text-sm mt-4 pt-4 border-t border-border" data-testid="custom-field-values">
+                    {activity.customFieldValues.map((stored) => (
+                      <div key={stored.id}>
+                        <span className="text-muted-foreground">{stored.field.name}: </span>
+                        <span>{formatCustomFieldValue(stored.field, stored.value)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <TagBadges tags={activity.tags} className="mt-4" />
               </CardContent>
             </Card>
-          )}
-        </div>
 
-        <div className="flex justify-end">
+            {/* Observations */}
+            {activity.observations && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <MessageSquare className="w-5 h-5" />
+                    Observações
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">
+                    {activity.observations}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Subtasks */}
+            {activity.type === 'checklist' && activity.subtasks && activity.subtasks.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <CheckSquare className="w-5 h-5" />
+                    Subtarefas ({completedSubtasks}/{totalSubtasks})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {activity.subtasks.map((subtask) => (
+                      <div key={subtask.id} className="flex items-center gap-2">
+                        <CheckSquare
+                          className={`w-4 h-4 ${subtask.completed ? 'text-green-600' : 'text-muted-foreground'
+                            }`}
+                        />
+                        <span className={subtask.completed ? 'line-through text-muted-foreground' : ''}>
+                          {subtask.title}
+                        </span>
+                        {subtask.assignee && (
+                          <span className="text-xs text-muted-foreground">· {userName(subtask.assignee)}</span>
+                        )}
+                        {subtask.completedAt && (
+                          <span className="text-xs text-muted-foreground ml-auto">
+                            {completedByName(subtask) ? `${completedByName(subtask)}, ` : ''}
+                            {format(new Date(subtask.completedAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Completion Notes or Cancellation Reason */}
+            {activity.status === 'completed' && activity.completionNotes && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <MessageSquare className="w-5 h-5" />
+                    Observações da Conclusão
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">
+                    {activity.completionNotes}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {activity.status === 'cancelled' && activity.cancellationReason && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <MessageSquare className="w-5 h-5" />
+                    Motivo do Cancelamento
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">
+                    {activity.cancellationReason}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Blocked-by chain and activities waiting on this one */}
+            <ActivityDependencies activity={activity} />
+
+            {/* Time adjustments and session edits */}
+            <TimeAdjustmentHistory activityId={activity.id} />
+
+            {/* Discussion thread with @mentions */}
+            <ActivityComments activityId={activity.id} />
+
+            {/* Evidence gallery: before/after photos and documents, per activity or subtask */}
+            <ActivityAttachments activity={activity} />
+          </TabsContent>
+
+          <TabsContent value="history">
+            {/* Who changed which field, and from what to what */}
+            <ActivityHistory activityId={activity.id} />
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end gap-2">
+          {canArchive && (
+            <Button
+              onClick={handleArchive}
+              variant="outline"
+              disabled={archiveMutation.isPending}
+              data-testid="button-archive-activity"
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Arquivar
+            </Button>
+          )}
           <Button onClick={onClose} variant="outline">
             Fechar
           </Button>
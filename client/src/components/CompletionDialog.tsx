@@ -15,6 +15,13 @@ import { CheckCircle, Upload, X, FileText } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  useAttachmentUpload,
+  attachmentError,
+  ATTACHMENT_ACCEPT,
+  MAX_FILES_PER_UPLOAD,
+} from "@/hooks/useAttachmentUpload";
+import type { ActivityAttachment } from "@shared/schema";
 
 interface CompletionDialogProps {
   isOpen: boolean;
@@ -33,49 +40,34 @@ export default function CompletionDialog({
 }: CompletionDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [evidenceUrl, setEvidenceUrl] = useState<string>("");
-  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<ActivityAttachment[]>([]);
   const [notes, setNotes] = useState("");
-  const [isUploading, setIsUploading] = useState(false);
-
-  // Mutation para upload de arquivo
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('file', file);
-
-      const response = await fetch(`/api/activities/${activityId}/upload-evidence`, {
-        method: 'POST',
-        body: formData,
-      });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Erro ao enviar arquivo');
-      }
+  // Evidence files are uploaded right away; the gallery in the details dialog shows them afterwards
+  const uploadMutation = useAttachmentUpload(activityId);
 
-      return response.json();
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/attachments/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to delete attachment');
+      return id;
     },
-    onSuccess: (data) => {
-      setEvidenceUrl(data.file.url);
+    onSuccess: (id) => {
+      setAttachments((current) => current.filter((attachment) => attachment.id !== id));
+      queryClient.invalidateQueries({ queryKey: ["/api/activities", activityId, "attachments"] });
       toast({
-        title: "Arquivo enviado",
-        description: `${data.file.originalName} foi enviado com sucesso`,
+        title: "Evidência removida",
+        description: "Arquivo removido com sucesso",
       });
     },
     onError: (error) => {
-      console.error('Upload error:', error);
-      setEvidenceFile(null);
-      setEvidenceUrl("");
+      console.error('Error removing evidence:', error);
       toast({
-        title: "Erro no upload",
-        description: error instanceof Error ? error.message : "Erro ao enviar arquivo",
+        title: "Erro",
+        description: "Erro ao remover evidência",
         variant: "destructive",
       });
     },
-    onSettled: () => {
-      setIsUploading(false);
-    }
   });
 
   const completeMutation = useMutation({
@@ -116,8 +108,7 @@ export default function CompletionDialog({
   });
 
   const handleClose = () => {
-    setEvidenceUrl("");
-    setEvidenceFile(null);
+    setAttachments([]);
     setNotes("");
     onClose();
   };
@@ -127,67 +118,46 @@ export default function CompletionDialog({
   };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      // Validar tipo de arquivo
-      const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'application/pdf', 'text/plain'];
-      if (!allowedTypes.includes(file.type)) {
-        toast({
-          title: "Tipo de arquivo não permitido",
-          description: "Selecione um arquivo de imagem, PDF ou texto",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Validar tamanho (10MB)
-      const maxSize = 10 * 1024 * 1024;
-      if (file.size > maxSize) {
-        toast({
-          title: "Arquivo muito grande",
-          description: "O arquivo deve ter no máximo 10MB",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      setEvidenceFile(file);
-      setEvidenceUrl(""); // Limpar URL anterior
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
 
-      // Fazer upload imediatamente
-      setIsUploading(true);
-      uploadMutation.mutate(file);
+    if (files.length > MAX_FILES_PER_UPLOAD) {
+      toast({
+        title: "Muitos arquivos",
+        description: `Envie no máximo ${MAX_FILES_PER_UPLOAD} arquivos por vez`,
+        variant: "destructive",
+      });
+      return;
     }
-  };
 
-  const removeEvidence = async () => {
-    try {
-      // Se há uma URL de evidência (arquivo já foi enviado), deletar do servidor
-      if (evidenceUrl) {
-        await apiRequest("DELETE", `/api/activities/${activityId}/evidence`);
-        toast({
-          title: "Evidência removida",
-          description: "Arquivo removido com sucesso",
-        });
-      }
-    } catch (error) {
-      console.error('Error removing evidence:', error);
+    const error = files.map(attachmentError).find(Boolean);
+    if (error) {
       toast({
-        title: "Erro",
-        description: "Erro ao remover evidência",
+        title: "Arquivo não permitido",
+        description: error,
         variant: "destructive",
       });
+      return;
     }
 
-    // Limpar estado local
-    setEvidenceUrl("");
-    setEvidenceFile(null);
-
-    // Reset input file
-    const fileInput = document.getElementById('evidence-file') as HTMLInputElement;
-    if (fileInput) {
-      fileInput.value = '';
-    }
+    uploadMutation.mutate({ files }, {
+      onSuccess: (created) => {
+        setAttachments((current) => [...current, ...created]);
+        toast({
+          title: "Arquivos enviados",
+          description: `${created.length} arquivo(s) enviado(s) com sucesso`,
+        });
+      },
+      onError: (uploadError) => {
+        console.error('Upload error:', uploadError);
+        toast({
+          title: "Erro no upload",
+          description: uploadError.message,
+          variant: "destructive",
+        });
+      },
+    });
   };
 
   return (
@@ -208,82 +178,59 @@ export default function CompletionDialog({
           <div className="space-y-3">
             <Label className="text-sm font-medium">Evidência (opcional)</Label>
             <p className="text-sm text-muted-foreground">
-              Anexe um arquivo como comprovante da conclusão da atividade.
+              Anexe arquivos como comprovante da conclusão, como fotos de antes e depois.
             </p>
 
-            {(evidenceFile || evidenceUrl) ? (
-              <div className={`flex items-center justify-between p-3 rounded-lg ${isUploading
-                ? 'bg-blue-50 border border-blue-200'
-                : evidenceUrl
-                  ? 'bg-green-50 border border-green-200'
-                  : 'bg-yellow-50 border border-yellow-200'
-                }`}>
-                <div className="flex items-center space-x-2">
-                  <FileText className={`w-4 h-4 ${isUploading
-                    ? 'text-blue-600'
-                    : evidenceUrl
-                      ? 'text-green-600'
-                      : 'text-yellow-600'
-                    }`} />
-                  <span className={`text-sm font-medium ${isUploading
-                    ? 'text-blue-700'
-                    : evidenceUrl
-                      ? 'text-green-700'
-                      : 'text-yellow-700'
-                    }`}>
-                    {evidenceFile?.name || 'Arquivo anexado'}
+            {attachments.map((attachment) => (
+              <div
+                key={attachment.id}
+                className="flex items-center justify-between p-3 rounded-lg bg-green-50 border border-green-200"
+                data-testid={`evidence-${attachment.id}`}
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <FileText className="w-4 h-4 text-green-600 flex-shrink-0" />
+                  <span className="text-sm font-medium text-green-700 truncate">{attachment.originalName}</span>
+                  <span className="text-xs text-green-600 flex-shrink-0">
+                    ({((attachment.size || 0) / 1024 / 1024).toFixed(1)} MB)
                   </span>
-                  {evidenceFile && (
-                    <span className={`text-xs ${isUploading
-                      ? 'text-blue-600'
-                      : evidenceUrl
-                        ? 'text-green-600'
-                        : 'text-yellow-600'
-                      }`}>
-                      ({(evidenceFile.size / 1024 / 1024).toFixed(1)} MB)
-                    </span>
-                  )}
-                  {isUploading && (
-                    <span className="text-xs text-blue-600">Enviando...</span>
-                  )}
-                  {evidenceUrl && !isUploading && (
-                    <span className="text-xs text-green-600">✓ Enviado</span>
-                  )}
+                  <span className="text-xs text-green-600 flex-shrink-0">✓ Enviado</span>
                 </div>
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={removeEvidence}
-                  disabled={isUploading}
+                  onClick={() => removeMutation.mutate(attachment.id)}
+                  disabled={removeMutation.isPending}
                   className="text-red-600 hover:text-red-700 hover:bg-red-50 hover:scale-110 transition-transform disabled:opacity-50"
                   data-testid="button-remove-evidence"
                 >
                   <X className="w-4 h-4" />
                 </Button>
               </div>
-            ) : (
-              <label htmlFor="evidence-file" className="cursor-pointer">
-                <div className="w-full border-2 border-dashed border-gray-300 hover:border-gray-400 bg-transparent rounded-lg transition-colors">
-                  <div className="flex flex-col items-center py-4 space-y-2">
-                    <Upload className="text-gray-400 w-6 h-6" />
-                    <span className="text-sm font-medium text-gray-600">
-                      Clique para anexar evidência
-                    </span>
-                    <span className="text-xs text-gray-500">
-                      PDF, imagem ou documento (máx. 10MB)
-                    </span>
-                  </div>
+            ))}
+
+            <label htmlFor="evidence-file" className="cursor-pointer block">
+              <div className="w-full border-2 border-dashed border-gray-300 hover:border-gray-400 bg-transparent rounded-lg transition-colors">
+                <div className="flex flex-col items-center py-4 space-y-2">
+                  <Upload className="text-gray-400 w-6 h-6" />
+                  <span className="text-sm font-medium text-gray-600">
+                    {uploadMutation.isPending ? 'Enviando...' : 'Clique para anexar evidências'}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    PDF, imagem ou documento (máx. 10MB cada, até {MAX_FILES_PER_UPLOAD} por vez)
+                  </span>
                 </div>
-                <input
-                  id="evidence-file"
-                  type="file"
-                  accept=".pdf,.doc,.docx,.jpg,.jpeg,.png,.gif"
-                  onChange={handleFileSelect}
-                  className="hidden"
-                  data-testid="input-evidence-file"
-                />
-              </label>
-            )}
+              </div>
+              <input
+                id="evidence-file"
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                onChange={handleFileSelect}
+                disabled={uploadMutation.isPending}
+                className="hidden"
+                data-testid="input-evidence-file"
+              />
+            </label>
           </div>
 
           {/* Notes Section */}
@@ -0,0 +1,53 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { CustomField } from "@shared/schema";
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value?: string | null;
+  onChange: (value: string) => void;
+}
+
+// Control for one sector-defined field; every type is edited as the string the server stores
+export default function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  const testId = `input-custom-field-${field.id}`;
+
+  switch (field.type) {
+    case 'select':
+      return (
+        <Select value={value || '__none__'} onValueChange={(selected) => onChange(selected === '__none__' ? '' : selected)}>
+          <SelectTrigger data-testid={testId}>
+            <SelectValue placeholder="Selecione" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none__">Nenhum</SelectItem>
+            {(field.options || []).map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'boolean':
+      return (
+        <div className="flex items-center gap-2 h-10">
+          <Switch
+            checked={value === 'true'}
+            onCheckedChange={(checked) => onChange(checked ? 'true' : 'false')}
+            data-testid={testId}
+          />
+          <span className="text-sm text-muted-foreground">{value === 'true' ? 'Sim' : 'Não'}</span>
+        </div>
+      );
+    default:
+      return (
+        <Input
+          type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={field.type === 'text' ? 1000 : undefined}
+          data-testid={testId}
+        />
+      );
+  }
+}
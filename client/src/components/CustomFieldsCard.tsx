@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListPlus, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { customFieldTypes, customFieldTypeLabels, type CustomFieldType } from "@shared/customFields";
+import type { InsertCustomField, Sector } from "@shared/schema";
+
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+// Extra data each sector collects on its activities; removing a field removes its values
+export default function CustomFieldsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sectorId, setSectorId] = useState('');
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [options, setOptions] = useState('');
+  const [required, setRequired] = useState(false);
+
+  const { data: fields = [], isLoading } = useCustomFields();
+  const { data: sectors = [] } = useQuery<Sector[]>({
+    queryKey: ["/api/sectors"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertCustomField) => apiRequest("POST", "/api/custom-fields", data),
+    onSuccess: () => {
+      invalidate();
+      setName('');
+      setOptions('');
+      setRequired(false);
+      toast({ title: "Sucesso", description: "Campo cadastrado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: string } & Partial<InsertCustomField>) =>
+      apiRequest("PUT", `/api/custom-fields/${id}`, updates),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/custom-fields/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to delete custom field');
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover o campo", variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!sectorId || !name.trim()) {
+      toast({ title: "Erro", description: "Informe o setor e o nome do campo", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      sectorId,
+      name: name.trim(),
+      type,
+      options: type === 'select' ? options.split(',').map((option) => option.trim()).filter(Boolean) : [],
+      required,
+    });
+  };
+
+  const sectorName = (id: string) => sectors.find((sector) => sector.id === id)?.name ?? 'Setor removido';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListPlus className="w-5 h-5" />
+          Campos Personalizados
+        </CardTitle>
+        <CardDescription>
+          Informações extras pedidas nas atividades de cada setor (ordem de serviço, equipamento, chamado...). Remover um campo apaga os valores já preenchidos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label>Setor</Label>
+            <Select value={sectorId} onValueChange={setSectorId}>
+              <SelectTrigger data-testid="select-custom-field-sector">
+                <SelectValue placeholder="Selecione o setor" />
+              </SelectTrigger>
+              <SelectContent>
+                {sectors.map((sector) => (
+                  <SelectItem key={sector.id} value={sector.id}>{sector.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-field-name">Nome</Label>
+            <Input
+              id="custom-field-name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-custom-field-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Tipo</Label>
+            <Select value={type} onValueChange={(value) => setType(value as CustomFieldType)}>
+              <SelectTrigger data-testid="select-custom-field-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {customFieldTypes.map((fieldType) => (
+                  <SelectItem key={fieldType} value={fieldType}>{customFieldTypeLabels[fieldType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          {type === 'select' ? (
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="custom-field-options">Opções (separadas por vírgula)</Label>
+              <Input
+                id="custom-field-options"
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                placeholder="Linha 1, Linha 2, Linha 3"
+                data-testid="input-custom-field-options"
+              />
+            </div>
+          ) : (
+            <div className="md:col-span-2" />
+          )}
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Switch checked={required} onCheckedChange={setRequired} data-testid="switch-custom-field-required" />
+              <Label>Obrigatório</Label>
+            </div>
+            <Button
+              onClick={handleCreate}
+              disabled={createMutation.isPending}
+              className="flex items-center gap-2"
+              data-testid="button-add-custom-field"
+            >
+              <Plus className="w-4 h-4" />
+              Adicionar
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Carregando...</p>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nenhum campo cadastrado</p>
+        ) : (
+          <div className="space-y-2">
+            {fields.map((field) => (
+              <div
+                key={field.id}
+                className="flex items-center justify-between gap-3 border border-border rounded-lg p-3"
+                data-testid={`custom-field-${field.id}`}
+              >
+                <div className="text-sm space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{field.name}</span>
+                    <Badge variant="outline">{customFieldTypeLabels[field.type as CustomFieldType] ?? field.type}</Badge>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {sectorName(field.sectorId)}
+                    {field.type === 'select' && ` · ${(field.options || []).join(', ')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={!!field.required}
+                      onCheckedChange={(checked) => updateMutation.mutate({ id: field.id, required: checked })}
+                      data-testid={`switch-custom-field-required-${field.id}`}
+                    />
+                    <span className="text-xs text-muted-foreground">Obrigatório</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(field.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-custom-field-${field.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CalendarClock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { dueState, isLate } from "@shared/sla";
+import type { Activity } from "@shared/schema";
+
+interface DueBadgeProps {
+  activity: Pick<Activity, 'status' | 'dueDate' | 'completedAt'>;
+  className?: string;
+}
+
+// Overdue / at-risk flag for open activities, and "late" for activities completed after their due date
+export default function DueBadge({ activity, className }: DueBadgeProps) {
+  if (!activity.dueDate) return null;
+
+  const title = `Prazo: ${format(new Date(activity.dueDate), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`;
+  const state = dueState(activity);
+
+  if (state === 'overdue') {
+    return (
+      <Badge variant="destructive" className={cn("flex items-center gap-1", className)} title={title} data-testid="badge-activity-overdue">
+        <AlertTriangle className="w-3 h-3" />
+        Atrasada
+      </Badge>
+    );
+  }
+
+  if (state === 'at_risk') {
+    return (
+      <Badge variant="outline" className={cn("flex items-center gap-1 text-orange-600 border-orange-600", className)} title={title} data-testid="badge-activity-at-risk">
+        <CalendarClock className="w-3 h-3" />
+        Vence em breve
+      </Badge>
+    );
+  }
+
+  if (activity.status === 'completed' && isLate(activity)) {
+    return (
+      <Badge variant="outline" className={cn("text-destructive border-destructive", className)} title={title} data-testid="badge-activity-late">
+        Concluída com atraso
+      </Badge>
+    );
+  }
+
+  return null;
+}
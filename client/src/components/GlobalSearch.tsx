@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import CompletedActivityDetails from "@/components/CompletedActivityDetails";
+import { SEARCH_MIN_LENGTH, splitHighlights } from "@shared/search";
+import type { ActivitySearchResult, ActivityWithDetails } from "@shared/schema";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+const statusLabels: Record<string, string> = {
+  next: 'Próxima',
+  in_progress: 'Em andamento',
+  paused: 'Pausada',
+  completed: 'Concluída',
+  cancelled: 'Cancelada',
+};
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) => part.highlighted ? (
+        <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5 dark:bg-yellow-500/40">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </>
+  );
+}
+
+interface GlobalSearchProps {
+  className?: string;
+  shortcut?: boolean; // only one of the mounted boxes should answer Ctrl+K
+}
+
+// Search box of the header (Ctrl+K): finds activities by their texts, subtasks and comments
+export default function GlobalSearch({ className, shortcut = true }: GlobalSearchProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [selectedActivity, setSelectedActivity] = useState<ActivityWithDetails | null>(null);
+
+  useEffect(() => {
+    if (!shortcut) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setOpen((value) => !value);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [shortcut]);
+
+  // Only search once the user stops typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const { data: results = [], isFetching } = useQuery<ActivitySearchResult[]>({
+    queryKey: ["/api/search", query],
+    queryFn: async () => {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to search activities');
+      return response.json();
+    },
+    enabled: open && query.length >= SEARCH_MIN_LENGTH,
+  });
+
+  const openResult = async (result: ActivitySearchResult) => {
+    const response = await fetch(`/api/activities/${result.id}`, { credentials: "include" });
+    if (!response.ok) {
+      toast({ title: "Erro", description: "Não foi possível abrir a atividade", variant: "destructive" });
+      return;
+    }
+    setSelectedActivity(await response.json());
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className={cn("justify-start text-muted-foreground gap-2", className)}
+        data-testid="button-global-search"
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden lg:inline">Buscar atividades...</span>
+        <kbd className="hidden lg:inline ml-4 rounded border bg-muted px-1.5 text-xs">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Buscar atividades</DialogTitle>
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={input}
+              onValueChange={setInput}
+              placeholder="Título, solicitante, observações, subtarefas, comentários..."
+              data-testid="input-global-search"
+            />
+            <CommandList className="max-h-[420px]">
+              {query.length >= SEARCH_MIN_LENGTH && !isFetching && (
+                <CommandEmpty>Nenhuma atividade encontrada</CommandEmpty>
+              )}
+              {query.length < SEARCH_MIN_LENGTH && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  Digite ao menos {SEARCH_MIN_LENGTH} letras para buscar
+                </p>
+              )}
+              {results.length > 0 && (
+                <CommandGroup heading="Atividades">
+                  {results.map((result) => (
+                    <CommandItem
+                      key={result.id}
+                      value={result.id}
+                      onSelect={() => openResult(result)}
+                      className="flex flex-col items-start gap-1"
+                      data-testid={`search-result-${result.id}`}
+                    >
+                      <div className="flex w-full items-center justify-between gap-2">
+                        <span className="font-medium line-clamp-1">
+                          <Highlighted text={result.titleHighlight} />
+                        </span>
+                        <Badge variant="outline" className="shrink-0">{statusLabels[result.status] ?? result.status}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        <Highlighted text={result.snippet} />
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {result.collaboratorName}
+                        {result.createdAt && ` · ${format(new Date(result.createdAt), 'dd/MM/yyyy', { locale: ptBR })}`}
+                      </p>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+
+      {selectedActivity && (
+        <CompletedActivityDetails
+          isOpen={!!selectedActivity}
+          onClose={() => setSelectedActivity(null)}
+          activity={selectedActivity}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { User as UserIcon, Clock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import CompletionDialog from "@/components/CompletionDialog";
+import CancellationDialog from "@/components/CancellationDialog";
+import StartActivityDialog from "@/components/StartActivityDialog";
+import CompletedActivityDetails from "@/components/CompletedActivityDetails";
+import DueBadge from "@/components/DueBadge";
+import BlockedBadge, { isBlocked } from "@/components/BlockedBadge";
+import TagBadges from "@/components/TagBadges";
+import { kanbanColumns, kanbanColumnLabels, wipLimitFor, type KanbanColumn } from "@shared/kanban";
+import { activityTransitions, canTransition } from "@shared/activityStatus";
+import type { ActivityWithDetails, Sector } from "@shared/schema";
+
+interface KanbanBoardProps {
+  activities: ActivityWithDetails[];
+  isLoading?: boolean;
+  showCollaborator?: boolean; // team board: cards of several collaborators
+}
+
+const columnColors: Record<KanbanColumn, string> = {
+  next: 'border-t-blue-500',
+  in_progress: 'border-t-green-500',
+  paused: 'border-t-orange-500',
+  completed: 'border-t-emerald-600',
+  cancelled: 'border-t-red-500',
+};
+
+const priorityLabels: Record<string, string> = { high: 'Alta', medium: 'Média', low: 'Baixa' };
+
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+const formatTime = (seconds: number) => {
+  if (!seconds) return '0m';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const collaboratorName = (activity: ActivityWithDetails) => activity.collaborator?.firstName
+  ? `${activity.collaborator.firstName} ${activity.collaborator.lastName || ''}`.trim()
+  : activity.collaborator?.username;
+
+// Board of activities by status. Only the owner moves a card, along the shared status transitions
+// and through the same requests (and dialogs) as the card buttons; WIP limits come from the owner's sector.
+export default function KanbanBoard({ activities, isLoading, showCollaborator = false }: KanbanBoardProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [dragging, setDragging] = useState<ActivityWithDetails | null>(null);
+  const [dropTarget, setDropTarget] = useState<KanbanColumn | null>(null);
+  const [completing, setCompleting] = useState<ActivityWithDetails | null>(null);
+  const [cancelling, setCancelling] = useState<ActivityWithDetails | null>(null);
+  const [starting, setStarting] = useState<{ activity: ActivityWithDetails; active: ActivityWithDetails } | null>(null);
+  const [details, setDetails] = useState<ActivityWithDetails | null>(null);
+
+  const { data: sectors = [] } = useQuery<Sector[]>({
+    queryKey: ["/api/sectors"],
+  });
+  const sectorLimits = (sectorId?: string | null) => sectors.find((sector) => sector.id === sectorId)?.wipLimits;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/team/activities"] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: KanbanColumn }) => {
+      await apiRequest("PATCH", `/api/activities/${id}`, { status });
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Não autorizado",
+          description: "Você precisa fazer login novamente",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // The server has the final say on transitions and limits; the board goes back to its state
+      invalidate();
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const byColumn = (column: KanbanColumn) => activities.filter((activity) => activity.status === column);
+  const ownCount = (column: KanbanColumn) =>
+    activities.filter((activity) => activity.status === column && activity.collaboratorId === user?.id).length;
+
+  const canDrag = (activity: ActivityWithDetails) =>
+    activity.collaboratorId === user?.id &&
+    activity.assignmentStatus !== 'pending' && activity.assignmentStatus !== 'declined' &&
+    activityTransitions[activity.status].length > 0;
+
+  const canDrop = (activity: ActivityWithDetails | null, column: KanbanColumn) =>
+    !!activity && canTransition(activity.status, column);
+
+  // Collaborators over their sector's limit in a column (team board)
+  const overLimit = (column: KanbanColumn) => {
+    const counts: Record<string, { count: number; limit?: number }> = {};
+    byColumn(column).forEach((activity) => {
+      const entry = counts[activity.collaboratorId] ??= {
+        count: 0,
+        limit: wipLimitFor(sectorLimits(activity.collaborator?.sectorId), column),
+      };
+      entry.count++;
+    });
+    return Object.values(counts).filter((entry) => entry.limit !== undefined && entry.count > entry.limit).length;
+  };
+
+  const moveTo = (activity: ActivityWithDetails, column: KanbanColumn) => {
+    if (!canDrop(activity, column)) {
+      toast({
+        title: "Movimento não permitido",
+        description: `Uma atividade em "${kanbanColumnLabels[activity.status as KanbanColumn]}" não pode ir para "${kanbanColumnLabels[column]}"`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const limit = wipLimitFor(sectorLimits(user?.sectorId), column);
+    if (limit !== undefined && ownCount(column) >= limit) {
+      toast({
+        title: "Limite da coluna atingido",
+        description: `Seu setor permite no máximo ${limit} atividade(s) em "${kanbanColumnLabels[column]}"`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    switch (column) {
+      case 'in_progress': {
+        if (isBlocked(activity)) {
+          toast({ title: "Atividade bloqueada", description: "Conclua as atividades que a bloqueiam antes de iniciá-la", variant: "destructive" });
+          return;
+        }
+        const active = activities.find((candidate) =>
+          candidate.status === 'in_progress' && candidate.collaboratorId === user?.id && candidate.id !== activity.id);
+        if (active) {
+          setStarting({ activity, active });
+          return;
+        }
+        statusMutation.mutate({ id: activity.id, status: column });
+        return;
+      }
+      case 'completed':
+        if (activity.type === 'checklist' && activity.subtasks?.some((subtask) => !subtask.completed)) {
+          toast({ title: "Atenção", description: "Complete todas as subtarefas antes de finalizar", variant: "destructive" });
+          return;
+        }
+        setCompleting(activity);
+        return;
+      case 'cancelled':
+        setCancelling(activity);
+        return;
+      default:
+        statusMutation.mutate({ id: activity.id, status: column });
+    }
+  };
+
+  // Same flow as the card: the running activity is paused before the new one starts
+  const confirmStart = async () => {
+    if (!starting) return;
+    try {
+      await apiRequest("PATCH", `/api/activities/${starting.active.id}`, { status: 'paused' });
+      toast({
+        title: "Atividade pausada",
+        description: `"${starting.active.title}" foi pausada automaticamente`,
+      });
+      statusMutation.mutate({ id: starting.activity.id, status: 'in_progress' }, {
+        onSuccess: () => setStarting(null),
+      });
+    } catch (error) {
+      toast({ title: "Falha ao pausar atividade atual", description: errorMessage(error as Error), variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        {kanbanColumns.map((column) => (
+          <div key={column} className="h-64 bg-muted rounded animate-pulse"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4" data-testid="kanban-board">
+        {kanbanColumns.map((column) => {
+          const cards = byColumn(column);
+          const limit = showCollaborator ? undefined : wipLimitFor(sectorLimits(user?.sectorId), column);
+          const overCount = showCollaborator ? overLimit(column) : 0;
+          const droppable = canDrop(dragging, column);
+
+          return (
+            <div
+              key={column}
+              className={cn(
+                "flex flex-col rounded-lg border border-t-4 bg-muted/30 min-h-[300px] transition-colors",
+                columnColors[column],
+                droppable && "border-dashed",
+                dropTarget === column && droppable && "bg-primary/10"
+              )}
+              onDragOver={(e) => {
+                if (!droppable) return;
+                e.preventDefault();
+                setDropTarget(column);
+              }}
+              onDragLeave={() => setDropTarget((current) => current === column ? null : current)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDropTarget(null);
+                if (dragging) moveTo(dragging, column);
+                setDragging(null);
+              }}
+              data-testid={`kanban-column-${column}`}
+            >
+              <div className="flex items-center justify-between px-3 py-2 border-b">
+                <span className="font-medium text-sm">{kanbanColumnLabels[column]}</span>
+                <div className="flex items-center gap-1">
+                  {overCount > 0 && (
+                    <Badge variant="destructive" title="Colaboradores acima do limite do setor">
+                      {overCount} acima do limite
+                    </Badge>
+                  )}
+                  <Badge
+                    variant={limit !== undefined && cards.length > limit ? "destructive" : "secondary"}
+                    data-testid={`kanban-count-${column}`}
+                  >
+                    {limit !== undefined ? `${cards.length}/${limit}` : cards.length}
+                  </Badge>
+                </div>
+              </div>
+
+              <div className="flex-1 space-y-2 p-2 overflow-y-auto max-h-[70vh]">
+                {cards.map((activity) => (
+                  <Card
+                    key={activity.id}
+                    draggable={canDrag(activity)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragging(activity);
+                    }}
+                    onDragEnd={() => {
+                      setDragging(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => setDetails(activity)}
+                    className={cn(
+                      "cursor-pointer hover:shadow-md transition-shadow",
+                      canDrag(activity) && "cursor-grab active:cursor-grabbing",
+                      dragging?.id === activity.id && "opacity-50"
+                    )}
+                    data-testid={`kanban-card-${activity.id}`}
+                  >
+                    <CardContent className="p-3 space-y-2">
+                      <p className="text-sm font-medium line-clamp-2">{activity.title}</p>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge variant={activity.priority === 'high' ? 'destructive' : 'outline'} className="text-xs">
+                          {priorityLabels[activity.priority] ?? activity.priority}
+                        </Badge>
+                        <DueBadge activity={activity} />
+                        <BlockedBadge activity={activity} />
+                        {activity.assignmentStatus === 'pending' && (
+                          <Badge variant="secondary" className="text-xs">Aguardando aceite</Badge>
+                        )}
+                      </div>
+                      <TagBadges tags={activity.tags} />
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        {showCollaborator ? (
+                          <span className="flex items-center gap-1 truncate">
+                            <UserIcon className="w-3 h-3" />
+                            {collaboratorName(activity)}
+                          </span>
+                        ) : (
+                          <span className="truncate">{activity.plant || activity.plantRef?.name}</span>
+                        )}
+                        <span className="flex items-center gap-1 shrink-0">
+                          <Clock className="w-3 h-3" />
+                          {formatTime(activity.totalTime || 0)}
+                        </span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {completing && (
+        <CompletionDialog
+          isOpen={!!completing}
+          onClose={() => setCompleting(null)}
+          activityId={completing.id}
+          activityTitle={completing.title}
+          onSuccess={invalidate}
+        />
+      )}
+
+      {cancelling && (
+        <CancellationDialog
+          isOpen={!!cancelling}
+          onClose={() => setCancelling(null)}
+          activityId={cancelling.id}
+          activityTitle={cancelling.title}
+          onSuccess={invalidate}
+        />
+      )}
+
+      {starting && (
+        <StartActivityDialog
+          isOpen={!!starting}
+          onClose={() => setStarting(null)}
+          activeActivity={starting.active}
+          newActivityTitle={starting.activity.title}
+          onConfirm={confirmStart}
+          isLoading={statusMutation.isPending}
+        />
+      )}
+
+      {details && (
+        <CompletedActivityDetails
+          isOpen={!!details}
+          onClose={() => setDetails(null)}
+          activity={details}
+        />
+      )}
+    </>
+  );
+}
@@ -3,6 +3,8 @@ import Sidebar from "./Sidebar";
 import PWAInstallPrompt from "./PWAInstallPrompt";
 import MobileBottomNav from "./MobileBottomNav";
 import MobileHeader from "./MobileHeader";
+import NotificationBell from "./NotificationBell";
+import GlobalSearch from "./GlobalSearch";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
@@ -86,6 +88,9 @@ function LayoutContent({ children }: LayoutProps) {
                 </div>
               </div>
 
+              {/* Search */}
+              <GlobalSearch />
+
               {/* Actions */}
               <Button
                 className="gradient-bg font-medium hover:shadow-lg transition-all duration-200 flex items-center space-x-2"
@@ -96,6 +101,9 @@ function LayoutContent({ children }: LayoutProps) {
                 <span>Nova Atividade</span>
               </Button>
 
+              {/* Notifications */}
+              <NotificationBell />
+
               {/* Separator */}
               <div className="h-8 w-px bg-border"></div>
 
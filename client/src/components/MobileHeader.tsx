@@ -1,7 +1,9 @@
 import { Button } from "@/components/ui/button";
-import { Menu, Bell } from "lucide-react";
+import { Menu } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useSidebar } from "@/components/ui/sidebar";
+import NotificationBell from "./NotificationBell";
+import GlobalSearch from "./GlobalSearch";
 
 export default function MobileHeader() {
   const { user } = useAuth();
@@ -29,16 +31,11 @@ export default function MobileHeader() {
         </div>
 
         <div className="flex items-center space-x-2">
+          {/* Search */}
+          <GlobalSearch shortcut={false} className="h-8 w-8 p-0 justify-center border-0 hover:bg-transparent" />
+
           {/* Notifications */}
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-8 w-8 p-0 relative hover:bg-transparent"
-            data-testid="button-notifications"
-          >
-            <Bell className="h-5 w-5" />
-            <span className="absolute -top-1 -right-1 h-3 w-3 bg-primary rounded-full"></span>
-          </Button>
+          <NotificationBell className="hover:bg-transparent" />
 
           {/* User Avatar */}
           <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center">
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Bell, Check, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import TimeAdjustmentDialog from "./TimeAdjustmentDialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { Notification, ActivityWithDetails } from "@shared/schema";
+
+interface NotificationBellProps {
+  className?: string;
+}
+
+export default function NotificationBell({ className }: NotificationBellProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [adjustingActivity, setAdjustingActivity] = useState<ActivityWithDetails | null>(null);
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const unreadCount = notifications.filter((notification) => !notification.readAt).length;
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("PATCH", `/api/notifications/${id}/read`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/notifications/read-all"),
+    onSuccess: (data: Notification[]) => {
+      queryClient.setQueryData(["/api/notifications"], data);
+    },
+  });
+
+  const handleCorrectTime = async (notification: Notification) => {
+    if (!notification.activityId) return;
+    try {
+      const activity = await apiRequest("GET", `/api/activities/${notification.activityId}`);
+      markReadMutation.mutate(notification.id);
+      setIsOpen(false);
+      setAdjustingActivity(activity);
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível carregar a atividade.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn("h-8 w-8 p-0 relative", className)}
+            data-testid="button-notifications"
+          >
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span
+                className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 bg-primary text-white text-[10px] leading-4 rounded-full"
+                data-testid="text-notifications-unread"
+              >
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <p className="font-medium text-foreground text-sm">Notificações</p>
+            {unreadCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => markAllReadMutation.mutate()}
+                disabled={markAllReadMutation.isPending}
+                data-testid="button-notifications-read-all"
+              >
+                Marcar todas como lidas
+              </Button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Nenhuma notificação
+            </p>
+          ) : (
+            <ScrollArea className="max-h-96">
+              <div className="divide-y divide-border">
+                {notifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    className={cn("px-4 py-3 space-y-1", !notification.readAt && "bg-muted/50")}
+                    data-testid={`notification-${notification.id}`}
+                  >
+                    <p className="text-sm font-medium text-foreground">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground">{notification.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {notification.createdAt && formatDistanceToNow(new Date(notification.createdAt), {
+                        addSuffix: true,
+                        locale: ptBR
+                      })}
+                    </p>
+
+                    {!notification.readAt && (
+                      <div className="flex items-center gap-2 pt-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => markReadMutation.mutate(notification.id)}
+                          data-testid={`button-notification-confirm-${notification.id}`}
+                        >
+                          <Check className="w-3 h-3 mr-1" />
+                          {notification.type === 'activity_auto_paused' ? 'Confirmar' : 'Marcar como lida'}
+                        </Button>
+                        {notification.type === 'activity_auto_paused' && notification.activityId && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => handleCorrectTime(notification)}
+                            data-testid={`button-notification-correct-${notification.id}`}
+                          >
+                            <Clock className="w-3 h-3 mr-1" />
+                            Corrigir tempo
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {adjustingActivity && (
+        <TimeAdjustmentDialog
+          activity={adjustingActivity}
+          isOpen={!!adjustingActivity}
+          onClose={() => setAdjustingActivity(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, XCircle, ClipboardCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TimeAdjustmentLogWithDetails, ReviewTimeAdjustmentData } from "@shared/schema";
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(Math.abs(seconds) / 3600);
+  const minutes = Math.floor((Math.abs(seconds) % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export default function PendingAdjustments() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectNote, setRejectNote] = useState("");
+
+  const { data: adjustments = [], isLoading } = useQuery<TimeAdjustmentLogWithDetails[]>({
+    queryKey: ["/api/time-adjustments", "pending"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & ReviewTimeAdjustmentData) =>
+      apiRequest("POST", `/api/time-adjustments/${id}/review`, data),
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/time-adjustments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/stats"] });
+      setRejectingId(null);
+      setRejectNote("");
+      toast({
+        title: "Sucesso",
+        description: variables.decision === 'approved' ? "Ajuste aprovado" : "Ajuste rejeitado",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao registrar a decisão",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          Ajustes de Tempo Pendentes
+        </CardTitle>
+        <CardDescription>
+          Ajustes acima do limite e atividades retroativas antigas aguardando sua aprovação
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+        ) : adjustments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhum ajuste pendente</p>
+        ) : (
+          adjustments.map((adjustment) => {
+            const difference = adjustment.newTime - adjustment.previousTime;
+            const collaboratorName = `${adjustment.user.firstName || ''} ${adjustment.user.lastName || ''}`.trim() || adjustment.user.username;
+
+            return (
+              <div
+                key={adjustment.id}
+                className="border border-border rounded-lg p-4 space-y-3"
+                data-testid={`pending-adjustment-${adjustment.id}`}
+              >
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <p className="font-medium text-foreground">{adjustment.activity.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {collaboratorName}
+                      {adjustment.createdAt && ` · ${formatDistanceToNow(new Date(adjustment.createdAt), { addSuffix: true, locale: ptBR })}`}
+                    </p>
+                    {adjustment.reason && (
+                      <p className="text-sm text-foreground">{adjustment.reason}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm whitespace-nowrap">
+                    <span className="text-muted-foreground">{formatDuration(adjustment.previousTime)}</span>
+                    <span className="text-muted-foreground">→</span>
+                    <span className="font-medium">{formatDuration(adjustment.newTime)}</span>
+                    <Badge variant={difference >= 0 ? "default" : "destructive"}>
+                      {difference >= 0 ? '+' : '-'}{formatDuration(difference)}
+                    </Badge>
+                  </div>
+                </div>
+
+                {rejectingId === adjustment.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="Explique o motivo da rejeição..."
+                      rows={2}
+                      value={rejectNote}
+                      onChange={(e) => setRejectNote(e.target.value)}
+                      className="resize-none"
+                      data-testid="textarea-reject-note"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setRejectingId(null)}>
+                        Cancelar
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={!rejectNote.trim() || reviewMutation.isPending}
+                        onClick={() => reviewMutation.mutate({ id: adjustment.id, decision: 'rejected', note: rejectNote })}
+                        data-testid="button-confirm-reject"
+                      >
+                        Confirmar rejeição
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex items-center gap-1"
+                      onClick={() => {
+                        setRejectingId(adjustment.id);
+                        setRejectNote("");
+                      }}
+                      data-testid={`button-reject-${adjustment.id}`}
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Rejeitar
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="flex items-center gap-1"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: adjustment.id, decision: 'approved' })}
+                      data-testid={`button-approve-${adjustment.id}`}
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Aprovar
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserPlus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import DueBadge from "@/components/DueBadge";
+import type { ActivityWithDetails, User } from "@shared/schema";
+
+const displayName = (user?: User | null) =>
+  user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username : '';
+
+// Activities assigned to the team that nobody has accepted yet, with a way to hand them to someone else
+export default function PendingAssignments() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: assignments = [], isLoading } = useQuery<ActivityWithDetails[]>({
+    queryKey: ["/api/team/assignments"],
+  });
+
+  const { data: teamMembers = [] } = useQuery<User[]>({
+    queryKey: ['/api/team/members'],
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: ({ id, collaboratorId }: { id: string; collaboratorId: string }) =>
+      apiRequest("POST", `/api/activities/${id}/assign`, { collaboratorId }),
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team/assignments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Sucesso",
+        description: variables.collaboratorId === user?.id
+          ? "A atividade voltou para você"
+          : "Atividade reatribuída; o colaborador foi notificado",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao reatribuir a atividade",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="w-5 h-5" />
+          Atribuições Pendentes
+        </CardTitle>
+        <CardDescription>
+          Atividades atribuídas que ainda não foram aceitas. Recusadas podem ser reatribuídas ou assumidas por você.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+        ) : assignments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhuma atribuição pendente</p>
+        ) : (
+          assignments.map((activity) => {
+            const declined = activity.assignmentStatus === 'declined';
+
+            return (
+              <div
+                key={activity.id}
+                className="border border-border rounded-lg p-4 space-y-3"
+                data-testid={`pending-assignment-${activity.id}`}
+              >
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium text-foreground">{activity.title}</p>
+                      <Badge variant={declined ? "destructive" : "secondary"}>
+                        {declined ? 'Recusada' : 'Aguardando aceite'}
+                      </Badge>
+                      <DueBadge activity={activity} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Para {displayName(activity.collaborator)}
+                      {activity.assignedBy && ` · atribuída por ${displayName(activity.assignedBy)}`}
+                      {activity.createdAt && ` em ${format(new Date(activity.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}`}
+                    </p>
+                    {declined && activity.assignmentDeclineReason && (
+                      <p className="text-sm text-foreground">Motivo: {activity.assignmentDeclineReason}</p>
+                    )}
+                  </div>
+
+                  <Select
+                    value=""
+                    onValueChange={(collaboratorId) => reassignMutation.mutate({ id: activity.id, collaboratorId })}
+                    disabled={reassignMutation.isPending}
+                  >
+                    <SelectTrigger className="w-full md:w-56" data-testid={`select-reassign-${activity.id}`}>
+                      <SelectValue placeholder="Reatribuir para..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {user && <SelectItem value={user.id}>Assumir eu mesmo</SelectItem>}
+                      {teamMembers
+                        .filter((member) => member.isActive && member.id !== user?.id && member.id !== activity.collaboratorId)
+                        .map((member) => (
+                          <SelectItem key={member.id} value={member.id}>{displayName(member)}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
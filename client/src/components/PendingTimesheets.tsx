@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, XCircle, CalendarDays } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TimesheetWithUser, ReviewTimesheetData } from "@shared/schema";
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export default function PendingTimesheets() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectNote, setRejectNote] = useState("");
+
+  const { data: timesheets = [], isLoading } = useQuery<TimesheetWithUser[]>({
+    queryKey: ["/api/timesheets", "pending"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & ReviewTimesheetData) =>
+      apiRequest("POST", `/api/timesheets/${id}/review`, data),
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+      setRejectingId(null);
+      setRejectNote("");
+      toast({
+        title: "Sucesso",
+        description: variables.decision === 'approved' ? "Folha de horas aprovada" : "Folha de horas rejeitada",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao registrar a decisão",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          Folhas de Horas Pendentes
+        </CardTitle>
+        <CardDescription>
+          Semanas enviadas pela equipe; ao aprovar, o período fica bloqueado para alterações
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+        ) : timesheets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhuma folha de horas pendente</p>
+        ) : (
+          timesheets.map((timesheet) => {
+            const collaboratorName = `${timesheet.user.firstName || ''} ${timesheet.user.lastName || ''}`.trim() || timesheet.user.username;
+            const start = parseISO(timesheet.weekStart);
+
+            return (
+              <div
+                key={timesheet.id}
+                className="border border-border rounded-lg p-4 space-y-3"
+                data-testid={`pending-timesheet-${timesheet.id}`}
+              >
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <div className="space-y-1">
+                    <p className="font-medium text-foreground">{collaboratorName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Semana de {format(start, 'dd/MM')} a {format(addDays(start, 6), 'dd/MM/yyyy')}
+                    </p>
+                  </div>
+                  <Badge variant="secondary">{formatDuration(timesheet.totalTime || 0)}</Badge>
+                </div>
+
+                {rejectingId === timesheet.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="Explique o motivo da rejeição..."
+                      rows={2}
+                      value={rejectNote}
+                      onChange={(e) => setRejectNote(e.target.value)}
+                      className="resize-none"
+                      data-testid="textarea-timesheet-reject-note"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setRejectingId(null)}>
+                        Cancelar
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={!rejectNote.trim() || reviewMutation.isPending}
+                        onClick={() => reviewMutation.mutate({ id: timesheet.id, decision: 'rejected', note: rejectNote })}
+                        data-testid="button-confirm-timesheet-reject"
+                      >
+                        Confirmar rejeição
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex items-center gap-1"
+                      onClick={() => {
+                        setRejectingId(timesheet.id);
+                        setRejectNote("");
+                      }}
+                      data-testid={`button-reject-timesheet-${timesheet.id}`}
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Rejeitar
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="flex items-center gap-1"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: timesheet.id, decision: 'approved' })}
+                      data-testid={`button-approve-timesheet-${timesheet.id}`}
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Aprovar
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
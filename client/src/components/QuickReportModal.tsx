@@ -3,6 +3,7 @@ import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -17,6 +18,7 @@ interface QuickReportModalProps {
 
 export default function QuickReportModal({ isOpen, onClose }: QuickReportModalProps) {
   const [period, setPeriod] = useState<string>("today");
+  const [includeComments, setIncludeComments] = useState(false);
   const { toast } = useToast();
 
   const exportMutation = useMutation({
@@ -46,7 +48,8 @@ export default function QuickReportModal({ isOpen, onClose }: QuickReportModalPr
 
       const filters = {
         startDate: format(startDate, 'yyyy-MM-dd'),
-        endDate: format(endDate, 'yyyy-MM-dd')
+        endDate: format(endDate, 'yyyy-MM-dd'),
+        includeComments,
       };
 
       const response = await fetch(`/api/reports/export?format=docx`, {
@@ -161,9 +164,20 @@ export default function QuickReportModal({ isOpen, onClose }: QuickReportModalPr
               <li>Tempo total investido</li>
               <li>Status das atividades</li>
               <li>Detalhes dos colaboradores</li>
+              {includeComments && <li>Comentários de cada atividade</li>}
             </ul>
           </div>
 
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="include-comments"
+              checked={includeComments}
+              onCheckedChange={(checked) => setIncludeComments(!!checked)}
+              data-testid="checkbox-include-comments"
+            />
+            <Label htmlFor="include-comments" className="font-normal">Incluir comentários</Label>
+          </div>
+
           <div className="flex gap-3 pt-4">
             <Button
               variant="outline"
@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Pause, Play, Square, Repeat } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { describeRecurrence, type RecurrenceRule } from "@shared/recurrence";
+import type { ActivityRecurrence } from "@shared/schema";
+
+interface RecurrenceSeriesControlsProps {
+  recurrenceId: string;
+}
+
+const statusLabels: Record<string, string> = {
+  active: 'Ativa',
+  paused: 'Pausada',
+  ended: 'Encerrada',
+};
+
+// Pause, resume or end the series an activity belongs to
+export default function RecurrenceSeriesControls({ recurrenceId }: RecurrenceSeriesControlsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: series, isLoading } = useQuery<ActivityRecurrence>({
+    queryKey: ["/api/recurrences", recurrenceId],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (status: 'active' | 'paused' | 'ended') =>
+      apiRequest("PATCH", `/api/recurrences/${recurrenceId}`, { status }),
+    onSuccess: (_result, status) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurrences", recurrenceId] });
+      toast({
+        title: "Sucesso",
+        description: status === 'active' ? "Série retomada" : status === 'paused' ? "Série pausada" : "Série encerrada",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar a série",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !series) {
+    return <p className="text-xs text-muted-foreground">Carregando série...</p>;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="recurrence-series-controls">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Repeat className="w-4 h-4 text-muted-foreground" />
+          <span>{describeRecurrence(series as RecurrenceRule, series.endsOn)}</span>
+        </div>
+        <Badge variant={series.status === 'active' ? "default" : "secondary"}>{statusLabels[series.status]}</Badge>
+      </div>
+
+      {series.status === 'active' && series.nextRunAt && (
+        <p className="text-xs text-muted-foreground">
+          Próxima ocorrência em {format(new Date(series.nextRunAt), "dd/MM/yyyy", { locale: ptBR })}
+        </p>
+      )}
+
+      {series.status !== 'ended' && (
+        <div className="flex justify-end gap-2">
+          {series.status === 'active' ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateMutation.mutate('paused')}
+              disabled={updateMutation.isPending}
+              data-testid="button-pause-recurrence"
+            >
+              <Pause className="w-3 h-3 mr-1" />
+              Pausar série
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateMutation.mutate('active')}
+              disabled={updateMutation.isPending}
+              data-testid="button-resume-recurrence"
+            >
+              <Play className="w-3 h-3 mr-1" />
+              Retomar série
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="text-destructive border-destructive"
+            onClick={() => updateMutation.mutate('ended')}
+            disabled={updateMutation.isPending}
+            data-testid="button-end-recurrence"
+          >
+            <Square className="w-3 h-3 mr-1" />
+            Encerrar série
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Check, ChevronsUpDown, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useRequesters } from "@/hooks/useRequesters";
+import { normalizeRequesterName, sameRequesterName } from "@shared/requesters";
+import type { Requester } from "@shared/schema";
+
+interface RequesterInputProps {
+  requesterId: string | null | undefined;
+  requester: string | null | undefined;
+  onChange: (requester: { id: string | null; name: string | null }) => void;
+}
+
+// Same matching the server uses to spot duplicates: case, accents and spacing are ignored
+const matches = (search: string, keywords: string[] = []) =>
+  keywords.some((keyword) => normalizeRequesterName(keyword).includes(normalizeRequesterName(search))) ? 1 : 0;
+
+// Picks a registered requester, or registers the typed name when nobody matches it
+export default function RequesterInput({ requesterId, requester, onChange }: RequesterInputProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const { data: requesters = [] } = useRequesters();
+
+  const select = (selected: Requester | null) => {
+    onChange({ id: selected?.id ?? null, name: selected?.name ?? null });
+    setSearch("");
+    setOpen(false);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string): Promise<Requester> => {
+      const response = await fetch("/api/requesters", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+        credentials: "include",
+      });
+      const body = await response.json();
+      // Registered meanwhile (or inactive): the existing one is used
+      if (response.status === 409 && body.requester) return body.requester;
+      if (!response.ok) throw new Error(body.message || "Failed to create requester");
+      return body;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/requesters"] });
+      select(created);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao cadastrar o solicitante", variant: "destructive" });
+    },
+  });
+
+  const typed = search.trim();
+  const canCreate = !!typed && !requesters.some((candidate) => sameRequesterName(candidate.name, typed));
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="h-9 w-full justify-between font-normal"
+          data-testid="input-activity-requester"
+        >
+          <span className={requester ? "truncate" : "truncate text-muted-foreground"}>
+            {requester || "Selecione o solicitante (opcional)"}
+          </span>
+          <ChevronsUpDown className="w-4 h-4 ml-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command filter={(_value, searchText, keywords) => matches(searchText, keywords)}>
+          <CommandInput
+            placeholder="Buscar ou cadastrar..."
+            value={search}
+            onValueChange={setSearch}
+            data-testid="input-requester-search"
+          />
+          <CommandList>
+            <CommandEmpty>{canCreate ? "Nenhum solicitante encontrado" : "Digite um nome"}</CommandEmpty>
+            <CommandGroup>
+              {requesters.map((candidate) => (
+                <CommandItem
+                  key={candidate.id}
+                  value={candidate.id}
+                  keywords={[candidate.name, candidate.department || ""]}
+                  onSelect={() => select(candidate)}
+                >
+                  <Check className={`w-4 h-4 mr-2 ${candidate.id === requesterId ? "opacity-100" : "opacity-0"}`} />
+                  <span className="truncate">{candidate.name}</span>
+                  {candidate.department && (
+                    <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">{candidate.department}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {(canCreate || !!requester) && (
+              <CommandGroup>
+                {canCreate && (
+                  <CommandItem
+                    value="__create"
+                    forceMount
+                    onSelect={() => createMutation.mutate(typed)}
+                    disabled={createMutation.isPending}
+                    data-testid="button-create-requester"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Cadastrar "{typed}"
+                  </CommandItem>
+                )}
+                {!!requester && (
+                  <CommandItem value="__clear" forceMount onSelect={() => select(null)}>
+                    <X className="w-4 h-4 mr-2" />
+                    Sem solicitante
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
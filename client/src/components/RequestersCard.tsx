@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Contact, Merge, Plus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePlants } from "@/hooks/usePlants";
+import { normalizeRequesterName } from "@shared/requesters";
+import type { InsertRequester, RequesterWithUsage } from "@shared/schema";
+
+const NO_PLANT = 'none';
+
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+// Requesters of activities: registration, deactivation and merging of duplicates
+export default function RequestersCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [department, setDepartment] = useState('');
+  const [plantId, setPlantId] = useState(NO_PLANT);
+  const [email, setEmail] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [targetId, setTargetId] = useState('');
+
+  const { data: requesters = [], isLoading } = useQuery<RequesterWithUsage[]>({
+    queryKey: ["/api/requesters", "all"],
+    queryFn: async () => {
+      const response = await fetch("/api/requesters?all=true", { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch requesters');
+      return response.json();
+    },
+  });
+  const { data: plants = [] } = usePlants();
+
+  // The activities list shows the requester names, which a rename or merge changes
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/requesters"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertRequester) => apiRequest("POST", "/api/requesters", data),
+    onSuccess: () => {
+      invalidate();
+      setName('');
+      setDepartment('');
+      setPlantId(NO_PLANT);
+      setEmail('');
+      toast({ title: "Sucesso", description: "Solicitante cadastrado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: string } & Partial<InsertRequester>) =>
+      apiRequest("PUT", `/api/requesters/${id}`, updates),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      invalidate();
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ target, sourceIds }: { target: string; sourceIds: string[] }) =>
+      apiRequest("POST", `/api/requesters/${target}/merge`, { sourceIds }),
+    onSuccess: (result: { movedActivities: number }) => {
+      invalidate();
+      setSelectedIds([]);
+      setTargetId('');
+      toast({ title: "Sucesso", description: `Solicitantes mesclados; ${result.movedActivities} atividade(s) atualizada(s)` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!name.trim()) {
+      toast({ title: "Erro", description: "Informe o nome do solicitante", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      name: name.trim(),
+      department: department.trim() || null,
+      plantId: plantId === NO_PLANT ? null : plantId,
+      email: email.trim() || null,
+    });
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((ids) => checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id));
+    if (!checked && targetId === id) setTargetId('');
+  };
+
+  const selected = requesters.filter((requester) => selectedIds.includes(requester.id));
+
+  const handleMerge = () => {
+    const target = selected.find((requester) => requester.id === targetId);
+    if (!target) return;
+    const sources = selected.filter((requester) => requester.id !== target.id);
+    if (!confirm(`Mesclar ${sources.map((source) => `"${source.name}"`).join(', ')} em "${target.name}"? Os duplicados serão removidos.`)) return;
+    mergeMutation.mutate({ target: target.id, sourceIds: sources.map((source) => source.id) });
+  };
+
+  // Edits are saved when the field loses focus, only if something changed
+  const saveText = (requester: RequesterWithUsage, field: 'name' | 'department' | 'email', value: string) => {
+    const trimmed = value.trim();
+    if (trimmed === (requester[field] || '')) return;
+    if (field === 'name' && !trimmed) return;
+    updateMutation.mutate({ id: requester.id, [field]: trimmed || null });
+  };
+
+  const visible = search.trim()
+    ? requesters.filter((requester) => normalizeRequesterName(`${requester.name} ${requester.department || ''}`).includes(normalizeRequesterName(search)))
+    : requesters;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Contact className="w-5 h-5" />
+          Solicitantes
+        </CardTitle>
+        <CardDescription>
+          Quem solicita as atividades. Inativos deixam de ser sugeridos, mas seguem nas atividades. Para unir duplicados, marque-os, escolha qual manter e mescle.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="requester-name">Nome</Label>
+            <Input
+              id="requester-name"
+              value={name}
+              maxLength={255}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-requester-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="requester-department">Departamento</Label>
+            <Input
+              id="requester-department"
+              value={department}
+              maxLength={255}
+              onChange={(e) => setDepartment(e.target.value)}
+              data-testid="input-requester-department"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Planta</Label>
+            <Select value={plantId} onValueChange={setPlantId}>
+              <SelectTrigger data-testid="select-requester-plant">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PLANT}>Nenhuma</SelectItem>
+                {plants.map((plant) => (
+                  <SelectItem key={plant.id} value={plant.id}>{plant.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="requester-email">E-mail</Label>
+            <Input
+              id="requester-email"
+              type="email"
+              value={email}
+              maxLength={255}
+              onChange={(e) => setEmail(e.target.value)}
+              data-testid="input-requester-email"
+            />
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={createMutation.isPending}
+            className="flex items-center gap-2"
+            data-testid="button-add-requester"
+          >
+            <Plus className="w-4 h-4" />
+            Adicionar
+          </Button>
+        </div>
+
+        <Input
+          placeholder="Buscar solicitante..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          data-testid="input-requester-filter"
+        />
+
+        {selected.length >= 2 && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3 border border-border rounded-lg p-3 bg-muted/50">
+            <span className="text-sm">{selected.length} selecionados · manter</span>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger className="md:w-64" data-testid="select-merge-target">
+                <SelectValue placeholder="Escolha o solicitante" />
+              </SelectTrigger>
+              <SelectContent>
+                {selected.map((requester) => (
+                  <SelectItem key={requester.id} value={requester.id}>{requester.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleMerge}
+              disabled={!targetId || mergeMutation.isPending}
+              className="flex items-center gap-2"
+              data-testid="button-merge-requesters"
+            >
+              <Merge className="w-4 h-4" />
+              Mesclar
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Carregando...</p>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nenhum solicitante cadastrado</p>
+        ) : (
+          <div className="space-y-2">
+            {visible.map((requester) => (
+              <div
+                key={requester.id}
+                className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_1fr_1fr_auto] items-center gap-3 border border-border rounded-lg p-3"
+                data-testid={`requester-${requester.id}`}
+              >
+                <Checkbox
+                  checked={selectedIds.includes(requester.id)}
+                  onCheckedChange={(checked) => toggleSelected(requester.id, !!checked)}
+                  data-testid={`checkbox-requester-${requester.id}`}
+                />
+                <Input
+                  key={`name-${requester.name}`}
+                  defaultValue={requester.name}
+                  maxLength={255}
+                  className="h-8"
+                  onBlur={(e) => saveText(requester, 'name', e.target.value)}
+                  data-testid={`input-requester-name-${requester.id}`}
+                />
+                <Input
+                  key={`department-${requester.department}`}
+                  defaultValue={requester.department || ''}
+                  placeholder="Departamento"
+                  maxLength={255}
+                  className="h-8"
+                  onBlur={(e) => saveText(requester, 'department', e.target.value)}
+                />
+                <Select
+                  value={requester.plantId || NO_PLANT}
+                  onValueChange={(value) => updateMutation.mutate({ id: requester.id, plantId: value === NO_PLANT ? null : value })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PLANT}>Sem planta</SelectItem>
+                    {plants.map((plant) => (
+                      <SelectItem key={plant.id} value={plant.id}>{plant.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  key={`email-${requester.email}`}
+                  type="email"
+                  defaultValue={requester.email || ''}
+                  placeholder="E-mail"
+                  maxLength={255}
+                  className="h-8"
+                  onBlur={(e) => saveText(requester, 'email', e.target.value)}
+                />
+                <div className="flex items-center gap-3 text-sm text-muted-foreground whitespace-nowrap">
+                  <span>{requester.activityCount} atividade(s)</span>
+                  <Switch
+                    checked={requester.isActive !== false}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: requester.id, isActive: checked })}
+                    data-testid={`switch-requester-active-${requester.id}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
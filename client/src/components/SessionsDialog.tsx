@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Pencil, Scissors, Trash2, Merge, X, Check } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ActivitySession, ActivityWithDetails } from "@shared/schema";
+
+interface SessionsDialogProps {
+  activity: ActivityWithDetails;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type EditMode =
+  | { type: 'edit'; sessionId: string; startedAt: string; endedAt: string }
+  | { type: 'split'; sessionId: string; splitAt: string; resumeAt: string };
+
+const toInputValue = (date: Date | string) => format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+
+// Keeps the original timestamp (with seconds) when the user did not touch the field
+const fromInputValue = (value: string, original?: Date | string | null) =>
+  original && toInputValue(original) === value ? new Date(original) : new Date(value);
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+// Server errors arrive as "<status>: <json body>"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+export default function SessionsDialog({ activity, isOpen, onClose }: SessionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+  const [mode, setMode] = useState<EditMode | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data: sessions = [], isLoading } = useQuery<ActivitySession[]>({
+    queryKey: ["/api/activities", activity.id, "sessions"],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: ({ method, url, data }: { method: string; url: string; data: Record<string, unknown> }) =>
+      apiRequest(method, url, { ...data, reason }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setMode(null);
+      setSelected([]);
+      setReason("");
+      toast(result?.pendingAdjustment ? {
+        title: "Alteração enviada para aprovação",
+        description: "As sessões serão atualizadas quando o chefe de setor aprovar a alteração",
+      } : {
+        title: "Sucesso",
+        description: "Sessões atualizadas com sucesso",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requireReason = () => {
+    if (!reason.trim()) {
+      toast({
+        title: "Motivo obrigatório",
+        description: "Informe o motivo da alteração antes de salvar",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleSaveMode = (session: ActivitySession) => {
+    if (!mode || !requireReason()) return;
+
+    if (mode.type === 'edit') {
+      changeMutation.mutate({
+        method: "PATCH",
+        url: `/api/sessions/${session.id}`,
+        data: {
+          startedAt: fromInputValue(mode.startedAt, session.startedAt),
+          endedAt: fromInputValue(mode.endedAt, session.endedAt),
+        },
+      });
+    } else {
+      changeMutation.mutate({
+        method: "POST",
+        url: `/api/sessions/${session.id}/split`,
+        data: {
+          splitAt: new Date(mode.splitAt),
+          resumeAt: mode.resumeAt ? new Date(mode.resumeAt) : undefined,
+        },
+      });
+    }
+  };
+
+  const handleDelete = (session: ActivitySession) => {
+    if (!requireReason()) return;
+    changeMutation.mutate({ method: "DELETE", url: `/api/sessions/${session.id}`, data: {} });
+  };
+
+  const handleMerge = () => {
+    if (!requireReason()) return;
+    changeMutation.mutate({
+      method: "POST",
+      url: `/api/activities/${activity.id}/sessions/merge`,
+      data: { sessionIds: selected },
+    });
+  };
+
+  const toggleSelected = (sessionId: string, checked: boolean) => {
+    setSelected((current) => checked ? [...current, sessionId] : current.filter((id) => id !== sessionId));
+  };
+
+  const handleClose = () => {
+    setMode(null);
+    setSelected([]);
+    setReason("");
+    onClose();
+  };
+
+  const totalTracked = sessions.reduce((total, session) => total + (session.endedAt ? session.duration || 0 : 0), 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <CalendarClock className="w-5 h-5 text-blue-600" />
+            Sessões de Trabalho
+          </DialogTitle>
+          <DialogDescription>
+            {activity.title} · {sessions.length} sessões · {formatDuration(totalTracked)} em sessões
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Carregando sessões...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nenhuma sessão registrada</p>
+          ) : (
+            sessions.map((session) => {
+              const isRunning = !session.endedAt;
+              const isEditing = mode?.sessionId === session.id;
+
+              return (
+                <div
+                  key={session.id}
+                  className="border border-border rounded-lg p-3 space-y-3"
+                  data-testid={`session-${session.id}`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        checked={selected.includes(session.id)}
+                        onCheckedChange={(checked) => toggleSelected(session.id, checked === true)}
+                        disabled={isRunning}
+                        data-testid={`checkbox-session-${session.id}`}
+                      />
+                      <div className="text-sm">
+                        <p className="font-medium text-foreground">
+                          {format(new Date(session.startedAt), "dd/MM/yyyy HH:mm")}
+                          {" → "}
+                          {session.endedAt ? format(new Date(session.endedAt), "dd/MM/yyyy HH:mm") : "agora"}
+                        </p>
+                        <p className="text-muted-foreground text-xs">
+                          {isRunning ? "Em andamento" : formatDuration(session.duration || 0)}
+                        </p>
+                      </div>
+                    </div>
+
+                    {isRunning ? (
+                      <Badge variant="outline">Em andamento</Badge>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="p-1 h-7 w-7"
+                          title="Editar"
+                          onClick={() => setMode({
+                            type: 'edit',
+                            sessionId: session.id,
+                            startedAt: toInputValue(session.startedAt),
+                            endedAt: toInputValue(session.endedAt!),
+                          })}
+                          data-testid={`button-edit-session-${session.id}`}
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="p-1 h-7 w-7"
+                          title="Dividir"
+                          onClick={() => setMode({ type: 'split', sessionId: session.id, splitAt: '', resumeAt: '' })}
+                          data-testid={`button-split-session-${session.id}`}
+                        >
+                          <Scissors className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="p-1 h-7 w-7 text-destructive hover:text-destructive"
+                          title="Excluir"
+                          onClick={() => handleDelete(session)}
+                          disabled={changeMutation.isPending}
+                          data-testid={`button-delete-session-${session.id}`}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {isEditing && mode && (
+                    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                      <div className="space-y-1">
+                        <Label className="text-xs">{mode.type === 'edit' ? 'Início' : 'Pausar em'}</Label>
+                        <Input
+                          type="datetime-local"
+                          value={mode.type === 'edit' ? mode.startedAt : mode.splitAt}
+                          onChange={(e) => setMode(mode.type === 'edit'
+                            ? { ...mode, startedAt: e.target.value }
+                            : { ...mode, splitAt: e.target.value })}
+                          data-testid="input-session-start"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">{mode.type === 'edit' ? 'Fim' : 'Retomar em (opcional)'}</Label>
+                        <Input
+                          type="datetime-local"
+                          value={mode.type === 'edit' ? mode.endedAt : mode.resumeAt}
+                          onChange={(e) => setMode(mode.type === 'edit'
+                            ? { ...mode, endedAt: e.target.value }
+                            : { ...mode, resumeAt: e.target.value })}
+                          data-testid="input-session-end"
+                        />
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          onClick={() => handleSaveMode(session)}
+                          disabled={changeMutation.isPending || (mode.type === 'split' && !mode.splitAt)}
+                          data-testid="button-save-session"
+                        >
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setMode(null)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="session-reason" className="text-sm font-medium">Motivo da Alteração *</Label>
+          <Textarea
+            id="session-reason"
+            placeholder="Explique o motivo para alterar as sessões..."
+            rows={2}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="resize-none"
+            data-testid="textarea-session-reason"
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={handleMerge}
+            disabled={selected.length < 2 || changeMutation.isPending}
+            className="flex items-center gap-2"
+            data-testid="button-merge-sessions"
+          >
+            <Merge className="w-4 h-4" />
+            Mesclar selecionadas
+          </Button>
+          <Button variant="outline" onClick={handleClose}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ import {
   Activity,
   Building,
   FolderKanban,
+  CalendarDays,
 } from "lucide-react";
 
 const navigation = [
@@ -26,6 +27,7 @@ const navigation = [
   { name: 'Feed', href: '/feed', icon: Activity },
   { name: 'Histórico', href: '/history', icon: History },
   { name: 'Relatórios', href: '/reports', icon: BarChart3 },
+  { name: 'Folha de Horas', href: '/timesheet', icon: CalendarDays },
   { name: 'Configurações', href: '/settings', icon: Settings },
 ];
 
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Timer, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePlants } from "@/hooks/usePlants";
+import type { SlaTarget, InsertSlaTarget } from "@shared/schema";
+
+const priorityLabels: Record<string, string> = {
+  high: 'Alta',
+  medium: 'Média',
+  low: 'Baixa',
+};
+
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+// Default deadline, in hours, for activities created without an explicit due date
+export default function SlaTargetsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: plants = [] } = usePlants();
+  const [priority, setPriority] = useState<InsertSlaTarget['priority']>('high');
+  const [plantId, setPlantId] = useState('all');
+  const [targetHours, setTargetHours] = useState('');
+
+  const { data: targets = [], isLoading } = useQuery<SlaTarget[]>({
+    queryKey: ["/api/sla-targets"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertSlaTarget) => apiRequest("POST", "/api/sla-targets", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-targets"] });
+      setTargetHours('');
+      toast({ title: "Sucesso", description: "SLA cadastrado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, targetHours }: { id: string; targetHours: number }) =>
+      apiRequest("PUT", `/api/sla-targets/${id}`, { targetHours }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-targets"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/sla-targets/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to delete SLA target');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-targets"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover o SLA", variant: "destructive" });
+    },
+  });
+
+  const plantName = (id: string | null) =>
+    id ? plants.find((plant) => plant.id === id)?.name ?? 'Planta removida' : 'Todas as plantas';
+
+  const handleCreate = () => {
+    const hours = parseInt(targetHours, 10);
+    if (!hours || hours < 1) {
+      toast({ title: "Erro", description: "Informe o prazo em horas", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({ priority, plantId: plantId === 'all' ? null : plantId, targetHours: hours });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          SLA de Atividades
+        </CardTitle>
+        <CardDescription>
+          Prazo aplicado às atividades criadas sem prazo, por prioridade. Um SLA específico da planta tem precedência sobre o geral.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-2">
+            <Label>Prioridade</Label>
+            <Select value={priority} onValueChange={(value) => setPriority(value as InsertSlaTarget['priority'])}>
+              <SelectTrigger data-testid="select-sla-priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(priorityLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Planta</Label>
+            <Select value={plantId} onValueChange={setPlantId}>
+              <SelectTrigger data-testid="select-sla-plant">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as plantas</SelectItem>
+                {plants.map((plant) => (
+                  <SelectItem key={plant.id} value={plant.id}>{plant.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-hours">Prazo (horas)</Label>
+            <Input
+              id="sla-hours"
+              type="number"
+              min={1}
+              value={targetHours}
+              onChange={(e) => setTargetHours(e.target.value)}
+              data-testid="input-sla-hours"
+            />
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={createMutation.isPending}
+            className="flex items-center gap-2"
+            data-testid="button-add-sla"
+          >
+            <Plus className="w-4 h-4" />
+            Adicionar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Carregando...</p>
+        ) : targets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nenhum SLA cadastrado</p>
+        ) : (
+          <div className="space-y-2">
+            {targets.map((target) => (
+              <div
+                key={target.id}
+                className="flex items-center justify-between gap-3 border border-border rounded-lg p-3"
+                data-testid={`sla-target-${target.id}`}
+              >
+                <div className="text-sm">
+                  <span className="font-medium">{priorityLabels[target.priority]}</span>
+                  <span className="text-muted-foreground"> · {plantName(target.plantId)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    defaultValue={target.targetHours}
+                    className="w-24 h-8"
+                    onBlur={(e) => {
+                      const hours = parseInt(e.target.value, 10);
+                      if (hours >= 1 && hours !== target.targetHours) {
+                        updateMutation.mutate({ id: target.id, targetHours: hours });
+                      }
+                    }}
+                    data-testid={`input-sla-hours-${target.id}`}
+                  />
+                  <span className="text-sm text-muted-foreground">horas</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(target.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-sla-${target.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { Tag } from "@shared/schema";
+
+interface TagBadgesProps {
+  tags?: Pick<Tag, 'id' | 'name' | 'color'>[];
+  className?: string;
+}
+
+// Coloured labels of an activity
+export default function TagBadges({ tags, className }: TagBadgesProps) {
+  if (!tags?.length) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {tags.map((tag) => (
+        <Badge
+          key={tag.id}
+          variant="outline"
+          className="text-xs font-medium"
+          style={{ borderColor: tag.color, color: tag.color, backgroundColor: `${tag.color}1a` }}
+          data-testid={`badge-tag-${tag.id}`}
+        >
+          {tag.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tags, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/useTags";
+import TagBadges from "@/components/TagBadges";
+import type { InsertTag, Sector } from "@shared/schema";
+
+const DEFAULT_COLOR = '#6b7280';
+
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+// Labels used to classify activities; a sector tag is only offered to that sector
+export default function TagsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [sectorId, setSectorId] = useState('all');
+
+  const { data: tags = [], isLoading } = useTags();
+  const { data: sectors = [] } = useQuery<Sector[]>({
+    queryKey: ["/api/sectors"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertTag) => apiRequest("POST", "/api/tags", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setName('');
+      toast({ title: "Sucesso", description: "Tag cadastrada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: string } & Partial<InsertTag>) =>
+      apiRequest("PUT", `/api/tags/${id}`, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/tags/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to delete tag');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a tag", variant: "destructive" });
+    },
+  });
+
+  const sectorName = (id: string | null) =>
+    id ? sectors.find((sector) => sector.id === id)?.name ?? 'Setor removido' : 'Todos os setores';
+
+  const handleCreate = () => {
+    if (!name.trim()) {
+      toast({ title: "Erro", description: "Informe o nome da tag", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({ name: name.trim(), color, sectorId: sectorId === 'all' ? null : sectorId });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Tags de Atividades
+        </CardTitle>
+        <CardDescription>
+          Classificação das atividades por tags coloridas. Uma tag de setor só aparece para as atividades daquele setor. Remover uma tag a retira de todas as atividades.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">Nome</Label>
+            <Input
+              id="tag-name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-tag-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tag-color">Cor</Label>
+            <Input
+              id="tag-color"
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="h-10 p-1"
+              data-testid="input-tag-color"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Setor</Label>
+            <Select value={sectorId} onValueChange={setSectorId}>
+              <SelectTrigger data-testid="select-tag-sector">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os setores</SelectItem>
+                {sectors.map((sector) => (
+                  <SelectItem key={sector.id} value={sector.id}>{sector.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={createMutation.isPending}
+            className="flex items-center gap-2"
+            data-testid="button-add-tag"
+          >
+            <Plus className="w-4 h-4" />
+            Adicionar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Carregando...</p>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nenhuma tag cadastrada</p>
+        ) : (
+          <div className="space-y-2">
+            {tags.map((tag) => (
+              <div
+                key={tag.id}
+                className="flex items-center justify-between gap-3 border border-border rounded-lg p-3"
+                data-testid={`tag-${tag.id}`}
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <TagBadges tags={[tag]} />
+                  <span className="text-muted-foreground">· {sectorName(tag.sectorId)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="color"
+                    defaultValue={tag.color}
+                    className="w-12 h-8 p-1"
+                    onBlur={(e) => {
+                      if (e.target.value !== tag.color) {
+                        updateMutation.mutate({ id: tag.id, color: e.target.value });
+                      }
+                    }}
+                    data-testid={`input-tag-color-${tag.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(tag.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-tag-${tag.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
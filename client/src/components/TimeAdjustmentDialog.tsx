@@ -87,7 +87,7 @@ export default function TimeAdjustmentDialog({
         throw new Error("Não é possível subtrair mais tempo do que o disponível");
       }
 
-      await apiRequest("POST", `/api/activities/${activity.id}/adjust-time`, {
+      return await apiRequest("POST", `/api/activities/${activity.id}/adjust-time`, {
         newTotalTime: newTotalSeconds,
         reason: data.reason,
         previousTotalTime: currentTotalSeconds,
@@ -95,10 +95,13 @@ export default function TimeAdjustmentDialog({
         adjustmentSeconds,
       });
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-      toast({
+      toast(result?.pendingAdjustment ? {
+        title: "Ajuste enviado para aprovação",
+        description: "O tempo será atualizado quando o chefe de setor aprovar o ajuste",
+      } : {
         title: "Sucesso",
         description: `Tempo ${operation === "add" ? "adicionado" : "subtraído"} com sucesso`,
       });
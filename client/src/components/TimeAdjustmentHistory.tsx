@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import type { TimeAdjustmentLogWithDetails } from "@shared/schema";
+
+interface TimeAdjustmentHistoryProps {
+  activityId: string;
+}
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(Math.abs(seconds) / 3600);
+  const minutes = Math.floor((Math.abs(seconds) % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const statusBadges: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: 'Pendente', variant: 'secondary' },
+  rejected: { label: 'Rejeitado', variant: 'destructive' },
+};
+
+// Every manual adjustment and session edit of an activity, newest first
+export default function TimeAdjustmentHistory({ activityId }: TimeAdjustmentHistoryProps) {
+  const { data: adjustments = [] } = useQuery<TimeAdjustmentLogWithDetails[]>({
+    queryKey: ["/api/activities", activityId, "time-adjustments"],
+  });
+
+  if (adjustments.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Histórico de Ajustes de Tempo
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {adjustments.map((adjustment) => {
+          const difference = adjustment.newTime - adjustment.previousTime;
+          const author = `${adjustment.user.firstName || ''} ${adjustment.user.lastName || ''}`.trim() || adjustment.user.username;
+          const status = statusBadges[adjustment.status];
+
+          return (
+            <div
+              key={adjustment.id}
+              className="border-b border-border pb-3 last:border-0 last:pb-0 space-y-1"
+              data-testid={`time-adjustment-${adjustment.id}`}
+            >
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{formatDuration(adjustment.previousTime)}</span>
+                  <span className="text-muted-foreground">→</span>
+                  <span className="font-medium">{formatDuration(adjustment.newTime)}</span>
+                  <Badge variant={difference >= 0 ? "default" : "destructive"}>
+                    {difference >= 0 ? '+' : '-'}{formatDuration(difference)}
+                  </Badge>
+                  {status && <Badge variant={status.variant}>{status.label}</Badge>}
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {adjustment.createdAt && format(new Date(adjustment.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                </span>
+              </div>
+              {adjustment.reason && (
+                <p className="text-sm text-foreground">{adjustment.reason}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Por {author}
+                {adjustment.reviewedBy && ` · ${adjustment.status === 'rejected' ? 'Rejeitado' : 'Aprovado'} por ${adjustment.reviewedBy.firstName || adjustment.reviewedBy.username}`}
+                {adjustment.reviewNote && `: ${adjustment.reviewNote}`}
+              </p>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { TimeAdjustmentReport as TimeAdjustmentReportData, User } from "@shared/schema";
+
+interface ReportFilters {
+  collaboratorId: string;
+  startDate: string;
+  endDate: string;
+  includeArchived: boolean;
+}
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(Math.abs(seconds) / 3600);
+  const minutes = Math.floor((Math.abs(seconds) % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatSigned = (seconds: number) => `${seconds >= 0 ? '+' : '-'}${formatDuration(seconds)}`;
+
+const statusLabels: Record<string, string> = {
+  approved: 'Aprovado',
+  pending: 'Pendente',
+  rejected: 'Rejeitado',
+};
+
+const toParams = (filters: ReportFilters) => {
+  const params = new URLSearchParams();
+  if (filters.collaboratorId !== 'all') params.append('collaboratorId', filters.collaboratorId);
+  if (filters.startDate) params.append('startDate', filters.startDate);
+  if (filters.endDate) params.append('endDate', filters.endDate);
+  if (filters.includeArchived) params.append('includeArchived', 'true');
+  return params.toString();
+};
+
+// Audit of time adjustments per collaborator over a period, with the same export formats as the activity reports
+export default function TimeAdjustmentReport() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<ReportFilters>(() => {
+    const today = new Date();
+    return {
+      collaboratorId: 'all',
+      startDate: format(new Date(today.getFullYear(), today.getMonth(), 1), 'yyyy-MM-dd'),
+      endDate: format(today, 'yyyy-MM-dd'),
+      includeArchived: false,
+    };
+  });
+
+  const { data: teamMembers = [] } = useQuery<User[]>({
+    queryKey: ['/api/team/members'],
+  });
+
+  const { data: report, isLoading } = useQuery<TimeAdjustmentReportData>({
+    queryKey: ["/api/reports/time-adjustments", filters],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/time-adjustments?${toParams(filters)}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch time adjustment report');
+      return response.json();
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (exportFormat: 'csv' | 'excel' | 'pdf' | 'docx') => {
+      const response = await fetch(`/api/reports/time-adjustments/export?format=${exportFormat}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...filters,
+          collaboratorId: filters.collaboratorId === 'all' ? undefined : filters.collaboratorId,
+        }),
+      });
+
+      if (!response.ok) throw new Error('Export failed');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `ajustes-de-tempo-${filters.startDate}-${filters.endDate}.${exportFormat === 'pdf' ? 'pdf' : exportFormat === 'docx' ? 'docx' : 'csv'}`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao exportar o relatório",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateFilter = <K extends keyof ReportFilters>(key: K, value: ReportFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Auditoria de Ajustes de Tempo
+            </CardTitle>
+            <CardDescription>
+              Quem alterou o tempo de quais atividades, com o motivo e a diferença aplicada
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(['csv', 'excel', 'pdf', 'docx'] as const).map((exportFormat) => (
+              <Button
+                key={exportFormat}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-1"
+                disabled={exportMutation.isPending}
+                onClick={() => exportMutation.mutate(exportFormat)}
+                data-testid={`button-export-adjustments-${exportFormat}`}
+              >
+                <Download className="w-4 h-4" />
+                {exportFormat === 'excel' ? 'Excel' : exportFormat.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Colaborador</Label>
+            <Select value={filters.collaboratorId} onValueChange={(value) => updateFilter('collaboratorId', value)}>
+              <SelectTrigger data-testid="select-adjustments-collaborator">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {teamMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {`${member.firstName || ''} ${member.lastName || ''}`.trim() || member.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustments-start">Data inicial</Label>
+            <Input
+              id="adjustments-start"
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => updateFilter('startDate', e.target.value)}
+              data-testid="input-adjustments-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustments-end">Data final</Label>
+            <Input
+              id="adjustments-end"
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => updateFilter('endDate', e.target.value)}
+              data-testid="input-adjustments-end"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="adjustments-archived"
+            checked={filters.includeArchived}
+            onCheckedChange={(checked) => updateFilter('includeArchived', !!checked)}
+            data-testid="checkbox-adjustments-archived"
+          />
+          <Label htmlFor="adjustments-archived" className="text-sm font-normal text-muted-foreground">
+            Incluir ajustes de atividades arquivadas
+          </Label>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+        ) : !report || report.adjustments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhum ajuste de tempo no período</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm" data-testid="table-adjustments-summary">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left font-medium py-2 pr-4">Colaborador</th>
+                    <th className="text-right font-medium py-2 px-2">Alterações</th>
+                    <th className="text-right font-medium py-2 px-2">Adicionado</th>
+                    <th className="text-right font-medium py-2 px-2">Removido</th>
+                    <th className="text-right font-medium py-2 px-2">Saldo</th>
+                    <th className="text-right font-medium py-2 pl-2">Pendentes / Rejeitados</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.summary.map((row) => (
+                    <tr key={row.collaboratorId} className="border-b border-border/50">
+                      <td className="py-2 pr-4">{row.collaboratorName}</td>
+                      <td className="text-right py-2 px-2">{row.changes}</td>
+                      <td className="text-right py-2 px-2">{formatDuration(row.addedTime)}</td>
+                      <td className="text-right py-2 px-2">{formatDuration(row.removedTime)}</td>
+                      <td className="text-right py-2 px-2 font-medium">{formatSigned(row.netTime)}</td>
+                      <td className="text-right py-2 pl-2">{row.pending} / {row.rejected}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-3">
+              {report.adjustments.map((adjustment) => {
+                const difference = adjustment.newTime - adjustment.previousTime;
+                const author = `${adjustment.user.firstName || ''} ${adjustment.user.lastName || ''}`.trim() || adjustment.user.username;
+
+                return (
+                  <div
+                    key={adjustment.id}
+                    className="border border-border rounded-lg p-3 space-y-1"
+                    data-testid={`audit-adjustment-${adjustment.id}`}
+                  >
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                      <p className="font-medium text-foreground">{adjustment.activity.title}</p>
+                      <div className="flex items-center gap-2 text-sm whitespace-nowrap">
+                        <span className="text-muted-foreground">{formatDuration(adjustment.previousTime)}</span>
+                        <span className="text-muted-foreground">→</span>
+                        <span className="font-medium">{formatDuration(adjustment.newTime)}</span>
+                        <Badge variant={difference >= 0 ? "default" : "destructive"}>{formatSigned(difference)}</Badge>
+                        {adjustment.status !== 'approved' && (
+                          <Badge variant="outline">{statusLabels[adjustment.status]}</Badge>
+                        )}
+                      </div>
+                    </div>
+                    {adjustment.reason && <p className="text-sm text-foreground">{adjustment.reason}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {author}
+                      {adjustment.createdAt && ` · ${format(new Date(adjustment.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}`}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Archive, RotateCcw, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TrashItem, TrashKind } from "@shared/schema";
+
+const kindLabels: Record<TrashKind, string> = {
+  activity: 'Atividade',
+  project: 'Projeto',
+  plant: 'Planta',
+};
+
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+const formatDate = (value: string) => format(new Date(value), 'dd/MM/yyyy HH:mm', { locale: ptBR });
+
+// Archived activities, projects and plants: restored here, or removed for good once the retention period ends
+export default function TrashCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ retentionDays: number; items: TrashItem[] }>({
+    queryKey: ["/api/trash"],
+  });
+  const items = data?.items ?? [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    queryClient.invalidateQueries({ queryKey: ["plants"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest("POST", `/api/trash/${item.kind}/${item.id}/restore`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Sucesso", description: "Item restaurado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest("DELETE", `/api/trash/${item.kind}/${item.id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Sucesso", description: "Item excluído definitivamente" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handlePurge = (item: TrashItem) => {
+    if (!confirm(`Excluir "${item.name}" definitivamente? Esta ação não pode ser desfeita.`)) return;
+    purgeMutation.mutate(item);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="w-5 h-5" />
+          Lixeira
+        </CardTitle>
+        <CardDescription>
+          Atividades, projetos e plantas arquivados
+          {data && ` são excluídos definitivamente após ${data.retentionDays} dias`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">A lixeira está vazia</p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <div
+                key={`${item.kind}-${item.id}`}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 border-b border-border pb-3 last:border-0 last:pb-0"
+                data-testid={`trash-item-${item.kind}-${item.id}`}
+              >
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{kindLabels[item.kind]}</Badge>
+                    <span className="font-medium truncate">{item.name}</span>
+                    {item.details && <span className="text-sm text-muted-foreground truncate">· {item.details}</span>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Arquivado em {formatDate(item.deletedAt)}
+                    {item.deletedByName && ` por ${item.deletedByName}`}
+                    {` · exclusão definitiva em ${formatDate(item.purgeAt)}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(item)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-${item.id}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restaurar
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handlePurge(item)}
+                    disabled={purgeMutation.isPending}
+                    data-testid={`button-purge-${item.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Excluir definitivamente
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -45,13 +45,19 @@ export function ActivityModalProvider({ children }: ActivityModalProviderProps)
       retroactiveEndDate?: string
       retroactiveEndTime?: string
     }) => {
-      await apiRequest("POST", "/api/activities", data);
+      return await apiRequest("POST", "/api/activities", data);
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setIsOpen(false);
-      toast({
+      toast(result?.pendingAdjustment ? {
+        title: "Atividade criada",
+        description: "O tempo retroativo será contabilizado após a aprovação do chefe de setor",
+      } : result?.assignmentStatus === 'pending' ? {
+        title: "Atividade atribuída",
+        description: "O colaborador foi notificado e precisa aceitar a atividade",
+      } : {
         title: "Sucesso",
         description: "Atividade criada com sucesso",
       });
@@ -77,7 +83,7 @@ export function ActivityModalProvider({ children }: ActivityModalProviderProps)
   });
 
   const updateActivityMutation = useMutation({
-    mutationFn: async (data: { id: string } & Partial<InsertActivity> & { subtasks?: { title: string; completed?: boolean | null }[] }) => {
+    mutationFn: async (data: { id: string } & Partial<InsertActivity> & { subtasks?: { id?: string; title: string; completed?: boolean | null; assigneeId?: string | null }[] }) => {
       const { id, ...updateData } = data;
       await apiRequest("PATCH", `/api/activities/${id}`, updateData);
     },
@@ -140,10 +146,15 @@ export function ActivityModalProvider({ children }: ActivityModalProviderProps)
                 ...initialData,
                 project: initialData.project?.name || initialData.project || '', // Garantir que o projeto seja mapeado corretamente
                 isRetroactive: initialData.isRetroactive ?? false,
+                dueDate: isEditMode ? initialData.dueDate : undefined, // uma cópia recebe novo prazo
                 subtasks: initialData.subtasks?.map(s => ({
+                  id: isEditMode ? s.id : undefined, // uma cópia cria subtarefas novas
                   title: s.title,
-                  completed: s.completed ?? false
-                }))
+                  completed: s.completed ?? false,
+                  assigneeId: s.assigneeId ?? null,
+                })),
+                tagIds: initialData.tags?.map(t => t.id),
+                customFieldValues: Object.fromEntries(initialData.customFieldValues?.map(v => [v.fieldId, v.value]) || []),
               } : undefined}
               onSubmit={(data) => {
                 if (isEditMode && initialData?.id) {
@@ -153,6 +164,9 @@ export function ActivityModalProvider({ children }: ActivityModalProviderProps)
                 }
               }}
               isLoading={isEditMode ? updateActivityMutation.isPending : createActivityMutation.isPending}
+              allowAssignment={!isEditMode}
+              recurrenceId={isEditMode ? initialData?.recurrenceId : undefined}
+              ownerSectorId={isEditMode ? initialData?.collaborator?.sectorId : undefined}
               onCancel={closeModal}
             />
           </div>
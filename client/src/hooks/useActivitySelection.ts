@@ -0,0 +1,22 @@
+import { useCallback, useState } from "react";
+
+// Ids picked in an activity list for a bulk action
+export function useActivitySelection() {
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+    const toggle = useCallback((id: string, checked: boolean) => {
+        setSelectedIds((prev) => checked
+            ? (prev.includes(id) ? prev : [...prev, id])
+            : prev.filter((selectedId) => selectedId !== id));
+    }, []);
+
+    const clear = useCallback(() => setSelectedIds([]), []);
+
+    return {
+        selectedIds,
+        isSelected: (id: string) => selectedIds.includes(id),
+        toggle,
+        selectAll: setSelectedIds,
+        clear,
+    };
+}
@@ -0,0 +1,70 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ActivityAttachment } from "@shared/schema";
+
+// Mirrors the server limits in uploadConfig.ts
+export const ATTACHMENT_ACCEPT = ".pdf,.txt,.doc,.docx,.jpg,.jpeg,.png,.gif,.webp";
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_FILES_PER_UPLOAD = 10;
+
+const ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+// Error message for a file the server would refuse, or null when it is fine
+export function attachmentError(file: File): string | null {
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return `${file.name}: tipo de arquivo não permitido`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: o arquivo deve ter no máximo 10MB`;
+  }
+  return null;
+}
+
+export const isImageAttachment = (attachment: Pick<ActivityAttachment, 'mimeType'>) =>
+  !!attachment.mimeType?.startsWith('image/');
+
+export const attachmentUrl = (attachment: Pick<ActivityAttachment, 'filePath'>) => `/api/files${attachment.filePath}`;
+
+interface UploadVariables {
+  files: File[];
+  subtaskId?: string;
+  caption?: string;
+}
+
+export function useAttachmentUpload(activityId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ files, subtaskId, caption }: UploadVariables): Promise<ActivityAttachment[]> => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append('files', file));
+      if (subtaskId) formData.append('subtaskId', subtaskId);
+      if (caption) formData.append('caption', caption);
+
+      const response = await fetch(`/api/activities/${activityId}/attachments`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Erro ao enviar arquivo');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities", activityId, "attachments"] });
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CustomField } from "@shared/schema";
+
+// Custom fields of the current user's sector (every sector's, for admins)
+export function useCustomFields() {
+    return useQuery<CustomField[]>({
+        queryKey: ["/api/custom-fields"],
+    });
+}
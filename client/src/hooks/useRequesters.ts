@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Requester } from "@shared/schema";
+
+// Active requesters, offered when filling in an activity
+export function useRequesters() {
+    return useQuery<Requester[]>({
+        queryKey: ["/api/requesters"],
+    });
+}
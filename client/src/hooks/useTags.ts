@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Tag } from "@shared/schema";
+
+// Tags the current user can pick and filter by: global ones and those of their sector
+export function useTags() {
+    return useQuery<Tag[]>({
+        queryKey: ["/api/tags"],
+    });
+}
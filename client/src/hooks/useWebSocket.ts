@@ -3,6 +3,13 @@ import { useAuth } from "./useAuth";
 import { useQueryClient, useQuery } from "@tanstack/react-query";
 import { useToast } from "./use-toast";
 import type { UserSettings } from "@shared/schema";
+import {
+  WS_CLOSE_UNAUTHORIZED,
+  WS_HEARTBEAT_INTERVAL,
+  serverMessageSchema,
+  type ClientMessage,
+  type RealtimeEvent,
+} from "@shared/realtime";
 
 export function useWebSocket() {
   const { user } = useAuth();
@@ -11,6 +18,11 @@ export function useWebSocket() {
   const ws = useRef<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const heartbeatTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Position in the server's event stream, used to resume after a reconnect
+  const cursorRef = useRef<{ epoch: string; seq: number } | null>(null);
+  // Events received while a resume is being replayed; handled in order once the replay ends
+  const pendingEventsRef = useRef<{ seq: number; event: RealtimeEvent }[] | null>(null);
 
   // Buscar configurações do usuário para notificações
   const { data: userSettings } = useQuery<UserSettings>({
@@ -19,14 +31,133 @@ export function useWebSocket() {
     staleTime: 5 * 60 * 1000, // Cache por 5 minutos
   });
 
-  const invalidateQueries = useCallback(() => {
+  const invalidateActivityQueries = useCallback(() => {
     queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
     queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
     queryClient.invalidateQueries({ queryKey: ["/api/team/activities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/team/assignments"] });
     queryClient.invalidateQueries({ queryKey: ["/api/team/stats"] });
-    queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
   }, [queryClient]);
 
+  const invalidateAllQueries = useCallback(() => {
+    invalidateActivityQueries();
+    queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+  }, [queryClient, invalidateActivityQueries]);
+
+  const sendMessage = useCallback((message: ClientMessage) => {
+    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
+      ws.current.send(JSON.stringify(message));
+    }
+  }, []);
+
+  // Close the socket if the server stops sending heartbeats so onclose reconnects
+  const resetHeartbeat = useCallback(() => {
+    if (heartbeatTimeoutRef.current) {
+      clearTimeout(heartbeatTimeoutRef.current);
+    }
+    heartbeatTimeoutRef.current = setTimeout(() => {
+      ws.current?.close();
+    }, WS_HEARTBEAT_INTERVAL * 2);
+  }, []);
+
+  const handleEvent = useCallback((event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'activity_created':
+      case 'activity_overdue':
+      case 'activity_archived':
+      case 'activity_restored':
+      case 'activities_bulk_updated':
+      case 'subtask_updated':
+        invalidateActivityQueries();
+        break;
+
+      case 'activity_updated':
+        invalidateActivityQueries();
+
+        // Show notification for team supervision only if enabled in settings
+        if (user && (user.role === 'admin' || user.role === 'sector_chief') &&
+          userSettings?.teamNotificationsEnabled) {
+          const activity = event.activity;
+          const collaboratorName = activity.collaborator ?
+            `${activity.collaborator.firstName || ''} ${activity.collaborator.lastName || ''}`.trim() ||
+            activity.collaborator.username : 'Colaborador';
+
+          if (activity.status === 'in_progress') {
+            toast({
+              title: "🟢 Atividade Iniciada",
+              description: `${collaboratorName} iniciou: ${activity.title}`,
+              duration: 4000,
+            });
+          } else if (activity.status === 'paused') {
+            toast({
+              title: "🟡 Atividade Pausada",
+              description: `${collaboratorName} pausou: ${activity.title}`,
+              duration: 4000,
+            });
+          } else if (activity.status === 'completed') {
+            const totalTime = activity.totalTime || 0;
+            const hours = Math.floor(totalTime / 3600);
+            const minutes = Math.floor((totalTime % 3600) / 60);
+            const timeText = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+
+            toast({
+              title: "✅ Atividade Concluída",
+              description: `${collaboratorName} concluiu: ${activity.title} (${timeText})`,
+              duration: 6000,
+            });
+          } else if (activity.status === 'cancelled') {
+            toast({
+              title: "❌ Atividade Cancelada",
+              description: `${collaboratorName} cancelou: ${activity.title}`,
+              duration: 4000,
+            });
+          }
+        }
+        break;
+
+      case 'comment_created':
+      case 'comment_updated':
+      case 'comment_deleted':
+        queryClient.invalidateQueries({ queryKey: ["/api/activities", event.activityId, "comments"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+        break;
+
+      case 'project_created':
+      case 'project_updated':
+      case 'project_deleted':
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+        break;
+
+      case 'user_updated':
+        queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
+        break;
+
+      case 'time_adjustment_updated':
+        queryClient.invalidateQueries({ queryKey: ["/api/time-adjustments"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/reports/time-adjustments"] });
+        break;
+
+      case 'timesheet_updated':
+        queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+        break;
+
+      case 'notification_created':
+        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+        toast({
+          title: event.notification.title,
+          description: event.notification.message,
+          duration: 8000,
+        });
+        break;
+    }
+  }, [user, userSettings, queryClient, invalidateActivityQueries, toast]);
+
+  // Read through a ref so settings changes don't tear down the socket
+  const handleEventRef = useRef(handleEvent);
+  handleEventRef.current = handleEvent;
+
   const connect = useCallback(() => {
     if (!user || ws.current?.readyState === WebSocket.OPEN) return;
 
@@ -38,12 +169,7 @@ export function useWebSocket() {
     ws.current.onopen = () => {
       console.log("WebSocket connected");
       setIsConnected(true);
-
-      // Authenticate the connection
-      ws.current?.send(JSON.stringify({
-        type: 'authenticate',
-        userId: user.id,
-      }));
+      resetHeartbeat();
 
       // Clear any reconnection timeout
       if (reconnectTimeoutRef.current) {
@@ -52,72 +178,86 @@ export function useWebSocket() {
       }
     };
 
+    const deliver = (entry: { seq: number; event: RealtimeEvent }) => {
+      if (cursorRef.current && entry.seq <= cursorRef.current.seq) return; // already handled
+      if (cursorRef.current) cursorRef.current.seq = entry.seq;
+      handleEventRef.current(entry.event);
+    };
+
+    const flushPendingEvents = () => {
+      const pending = pendingEventsRef.current ?? [];
+      pendingEventsRef.current = null;
+      pending.sort((a, b) => a.seq - b.seq).forEach(deliver);
+    };
+
     ws.current.onmessage = (event) => {
       try {
-        const message = JSON.parse(event.data);
+        const parsed = serverMessageSchema.safeParse(JSON.parse(event.data));
+        if (!parsed.success) return;
 
+        const message = parsed.data;
         switch (message.type) {
-          case 'activity_updated':
-            console.log('Activity updated via WebSocket:', message.activity);
-            invalidateQueries();
-
-            // Show notification for team supervision only if enabled in settings
-            if ((user.role === 'admin' || user.role === 'sector_chief') &&
-              userSettings?.teamNotificationsEnabled) {
-              const activity = message.activity;
-              const collaboratorName = activity.collaborator ?
-                `${activity.collaborator.firstName || ''} ${activity.collaborator.lastName || ''}`.trim() ||
-                activity.collaborator.username : 'Colaborador';
-
-              if (activity.status === 'in_progress') {
-                toast({
-                  title: "🟢 Atividade Iniciada",
-                  description: `${collaboratorName} iniciou: ${activity.title}`,
-                  duration: 4000,
-                });
-              } else if (activity.status === 'paused') {
-                toast({
-                  title: "🟡 Atividade Pausada",
-                  description: `${collaboratorName} pausou: ${activity.title}`,
-                  duration: 4000,
-                });
-              } else if (activity.status === 'completed') {
-                const totalTime = activity.totalTime || 0;
-                const hours = Math.floor(totalTime / 3600);
-                const minutes = Math.floor((totalTime % 3600) / 60);
-                const timeText = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
-
-                toast({
-                  title: "✅ Atividade Concluída",
-                  description: `${collaboratorName} concluiu: ${activity.title} (${timeText})`,
-                  duration: 6000,
-                });
-              } else if (activity.status === 'cancelled') {
-                toast({
-                  title: "❌ Atividade Cancelada",
-                  description: `${collaboratorName} cancelou: ${activity.title}`,
-                  duration: 4000,
-                });
-              }
+          case 'welcome': {
+            const cursor = cursorRef.current;
+            cursorRef.current = { epoch: message.epoch, seq: cursor?.epoch === message.epoch ? cursor.seq : message.seq };
+            pendingEventsRef.current = null;
+
+            if (cursor) {
+              // Reconnected: ask for what was missed, the server answers with resync if it can't.
+              // Live events wait for the replay to end, or they would move the cursor past the missed ones.
+              pendingEventsRef.current = [];
+              sendMessage({ type: 'resume', epoch: cursor.epoch, lastSeq: cursor.seq });
+              // Running timers resync with the server time after any disconnection
+              queryClient.invalidateQueries({ predicate: (query) => query.queryKey[2] === 'elapsed' });
             }
             break;
+          }
 
-          case 'user_updated':
-            console.log('User updated via WebSocket');
-            queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
+          case 'event':
+            if (pendingEventsRef.current) {
+              pendingEventsRef.current.push(message);
+            } else {
+              deliver(message);
+            }
+            break;
+
+          case 'replayed':
+            flushPendingEvents();
+            if (cursorRef.current) cursorRef.current.seq = Math.max(cursorRef.current.seq, message.seq);
             break;
 
-          default:
-            console.log('Unknown WebSocket message type:', message.type);
+          case 'resync':
+            // Nothing was replayed; what arrived meanwhile is live and still handled
+            flushPendingEvents();
+            invalidateAllQueries();
+            break;
+
+          case 'ping':
+            resetHeartbeat();
+            sendMessage({ type: 'pong' });
+            break;
+
+          case 'error':
+            console.error('WebSocket server error:', message.message);
+            break;
         }
       } catch (error) {
         console.error('Error processing WebSocket message:', error);
       }
     };
 
-    ws.current.onclose = () => {
+    ws.current.onclose = (event) => {
       console.log("WebSocket disconnected");
       setIsConnected(false);
+      if (heartbeatTimeoutRef.current) {
+        clearTimeout(heartbeatTimeoutRef.current);
+      }
+
+      // Session is gone or the user was deactivated - refresh auth state instead of retrying
+      if (event.code === WS_CLOSE_UNAUTHORIZED) {
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+        return;
+      }
 
       // Attempt to reconnect after 3 seconds
       if (user) {
@@ -132,7 +272,7 @@ export function useWebSocket() {
       console.error("WebSocket error:", error);
       setIsConnected(false);
     };
-  }, [user, invalidateQueries, toast]);
+  }, [user, queryClient, sendMessage, resetHeartbeat, invalidateAllQueries]);
 
   useEffect(() => {
     if (user) {
@@ -143,16 +283,13 @@ export function useWebSocket() {
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
+      if (heartbeatTimeoutRef.current) {
+        clearTimeout(heartbeatTimeoutRef.current);
+      }
       ws.current?.close();
     };
   }, [user, connect]);
 
-  const sendMessage = (message: any) => {
-    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-      ws.current.send(JSON.stringify(message));
-    }
-  };
-
   return {
     isConnected,
     sendMessage,
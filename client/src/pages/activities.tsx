@@ -4,15 +4,20 @@ import { useAuth } from "@/hooks/useAuth";
 import Layout from "@/components/Layout";
 import ActivityForm from "@/components/ActivityForm";
 import ActivityCard from "@/components/ActivityCard";
+import BulkActionsBar from "@/components/BulkActionsBar";
+import KanbanBoard from "@/components/KanbanBoard";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Plus } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, List, Columns3 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { useTags } from "@/hooks/useTags";
+import { useActivitySelection } from "@/hooks/useActivitySelection";
 import type { ActivityWithDetails, InsertActivity } from "@shared/schema";
 
 export default function Activities() {
@@ -20,11 +25,20 @@ export default function Activities() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [tagFilter, setTagFilter] = useState("all");
+  const [tab, setTab] = useState("all");
+  const [view, setView] = useState<"list" | "board">("list");
+  const selection = useActivitySelection();
 
-  const { data: activities = [], isLoading } = useQuery({
+  const { data: allActivities = [], isLoading } = useQuery({
     queryKey: ["/api/activities"],
     enabled: isAuthenticated,
   });
+  const { data: tags = [] } = useTags();
+
+  const activities = tagFilter === "all"
+    ? allActivities
+    : (allActivities as ActivityWithDetails[]).filter((a) => a.tags?.some((tag) => tag.id === tagFilter));
 
   const createActivityMutation = useMutation({
     mutationFn: async (data: InsertActivity & { subtasks?: { title: string }[] }) => {
@@ -99,6 +113,8 @@ export default function Activities() {
       .sort((a: any, b: any) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
   };
 
+  const visibleActivities: any[] = tab === "all" ? (activities as any[]) : groupedActivities[tab as keyof typeof groupedActivities];
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -112,96 +128,156 @@ export default function Activities() {
             </p>
           </div>
 
-          <Dialog open={showCreateForm} onOpenChange={setShowCreateForm}>
-            <DialogTrigger asChild>
-              <Button className="gradient-bg" data-testid="button-create-activity">
-                <Plus className="w-4 h-4 mr-2" />
-                Nova Atividade
+          <div className="flex items-center gap-2">
+            <div className="flex rounded-md border" data-testid="toggle-activities-view">
+              <Button
+                variant={view === "list" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("list")}
+                title="Lista"
+                data-testid="button-view-list"
+              >
+                <List className="w-4 h-4" />
               </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Criar Nova Atividade</DialogTitle>
-              </DialogHeader>
-              <ActivityForm
-                onSubmit={(data) => createActivityMutation.mutate(data)}
-                isLoading={createActivityMutation.isPending}
-                onCancel={() => setShowCreateForm(false)}
-              />
-            </DialogContent>
-          </Dialog>
-        </div>
+              <Button
+                variant={view === "board" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("board")}
+                title="Quadro"
+                data-testid="button-view-board"
+              >
+                <Columns3 className="w-4 h-4" />
+              </Button>
+            </div>
 
-        <Tabs defaultValue="all" className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
-            <TabsTrigger value="all" data-testid="tab-all">
-              Todas ({(activities as any[]).length})
-            </TabsTrigger>
-            <TabsTrigger value="next" data-testid="tab-next">
-              Próximas ({groupedActivities.next.length})
-            </TabsTrigger>
-            <TabsTrigger value="in_progress" data-testid="tab-in-progress">
-              Ativas ({groupedActivities.in_progress.length})
-            </TabsTrigger>
-            <TabsTrigger value="paused" data-testid="tab-paused">
-              Pausadas ({groupedActivities.paused.length})
-            </TabsTrigger>
-            <TabsTrigger value="completed" data-testid="tab-completed">
-              Concluídas ({groupedActivities.completed.length})
-            </TabsTrigger>
-            <TabsTrigger value="cancelled" data-testid="tab-cancelled">
-              Canceladas ({groupedActivities.cancelled.length})
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="all" className="space-y-4" data-testid="content-all-activities">
-            {isLoading ? (
-              <div className="space-y-4">
-                {[1, 2, 3, 4, 5].map(i => (
-                  <div key={i} className="h-32 bg-muted rounded animate-pulse"></div>
-                ))}
-              </div>
-            ) : (activities as any[]).length === 0 ? (
-              <Card>
-                <CardContent className="py-8">
-                  <p className="text-center text-muted-foreground" data-testid="text-no-activities">
-                    Você ainda não tem atividades. Crie sua primeira atividade!
-                  </p>
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="space-y-4">
-                {(activities as any[]).map((activity: any) => (
-                  <ActivityCard key={activity.id} activity={activity} />
-                ))}
-              </div>
-            )}
-          </TabsContent>
-
-          {Object.entries(groupedActivities).map(([status, statusActivities]) => (
-            <TabsContent key={status} value={status} className="space-y-4" data-testid={`content-${status}-activities`}>
-              {statusActivities.length === 0 ? (
-                <Card>
-                  <CardContent className="py-8">
-                    <p className="text-center text-muted-foreground" data-testid={`text-no-${status}-activities`}>
-                      {status === 'history' 
-                        ? 'Nenhuma atividade concluída ou cancelada ainda'
-                        : `Nenhuma atividade com status "${getStatusDisplayName(status)}"`
-                      }
-                    </p>
-                  </CardContent>
-                </Card>
-              ) : (
-                <div className="space-y-4">
-                  {statusActivities.map((activity: any) => (
-                    <ActivityCard key={activity.id} activity={activity} />
+            {tags.length > 0 && (
+              <Select value={tagFilter} onValueChange={setTagFilter}>
+                <SelectTrigger className="w-48" data-testid="select-tag-filter">
+                  <SelectValue placeholder="Tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as tags</SelectItem>
+                  {tags.map((tag) => (
+                    <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
                   ))}
-                </div>
-              )}
-            </TabsContent>
-          ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Dialog open={showCreateForm} onOpenChange={setShowCreateForm}>
+              <DialogTrigger asChild>
+                <Button className="gradient-bg" data-testid="button-create-activity">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova Atividade
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Criar Nova Atividade</DialogTitle>
+                </DialogHeader>
+                <ActivityForm
+                  onSubmit={(data) => createActivityMutation.mutate(data)}
+                  isLoading={createActivityMutation.isPending}
+                  onCancel={() => setShowCreateForm(false)}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        {view === "board" ? (
+          <KanbanBoard activities={activities as ActivityWithDetails[]} isLoading={isLoading} />
+        ) : (
+          <>
+            <Tabs value={tab} onValueChange={setTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-6">
+                <TabsTrigger value="all" data-testid="tab-all">
+                  Todas ({(activities as any[]).length})
+                </TabsTrigger>
+                <TabsTrigger value="next" data-testid="tab-next">
+                  Próximas ({groupedActivities.next.length})
+                </TabsTrigger>
+                <TabsTrigger value="in_progress" data-testid="tab-in-progress">
+                  Ativas ({groupedActivities.in_progress.length})
+                </TabsTrigger>
+                <TabsTrigger value="paused" data-testid="tab-paused">
+                  Pausadas ({groupedActivities.paused.length})
+                </TabsTrigger>
+                <TabsTrigger value="completed" data-testid="tab-completed">
+                  Concluídas ({groupedActivities.completed.length})
+                </TabsTrigger>
+                <TabsTrigger value="cancelled" data-testid="tab-cancelled">
+                  Canceladas ({groupedActivities.cancelled.length})
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="all" className="space-y-4" data-testid="content-all-activities">
+                {isLoading ? (
+                  <div className="space-y-4">
+                    {[1, 2, 3, 4, 5].map(i => (
+                      <div key={i} className="h-32 bg-muted rounded animate-pulse"></div>
+                    ))}
+                  </div>
+                ) : (activities as any[]).length === 0 ? (
+                  <Card>
+                    <CardContent className="py-8">
+                      <p className="text-center text-muted-foreground" data-testid="text-no-activities">
+                        Você ainda não tem atividades. Crie sua primeira atividade!
+                      </p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <div className="space-y-4">
+                    {(activities as any[]).map((activity: any) => (
+                      <ActivityCard
+                        key={activity.id}
+                        activity={activity}
+                        selected={selection.isSelected(activity.id)}
+                        onSelectChange={(checked) => selection.toggle(activity.id, checked)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              {Object.entries(groupedActivities).map(([status, statusActivities]) => (
+                <TabsContent key={status} value={status} className="space-y-4" data-testid={`content-${status}-activities`}>
+                  {statusActivities.length === 0 ? (
+                    <Card>
+                      <CardContent className="py-8">
+                        <p className="text-center text-muted-foreground" data-testid={`text-no-${status}-activities`}>
+                          {status === 'history' 
+                            ? 'Nenhuma atividade concluída ou cancelada ainda'
+                            : `Nenhuma atividade com status "${getStatusDisplayName(status)}"`
+                          }
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <div className="space-y-4">
+                      {statusActivities.map((activity: any) => (
+                        <ActivityCard
+                          key={activity.id}
+                          activity={activity}
+                          selected={selection.isSelected(activity.id)}
+                          onSelectChange={(checked) => selection.toggle(activity.id, checked)}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+              ))}
+
+            </Tabs>
 
-        </Tabs>
+            <BulkActionsBar
+              selectedIds={selection.selectedIds}
+              visibleIds={visibleActivities.map((activity) => activity.id)}
+              onSelectAll={selection.selectAll}
+              onClear={selection.clear}
+            />
+          </>
+        )}
       </div>
     </Layout>
   );
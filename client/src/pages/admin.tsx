@@ -3,6 +3,12 @@ import Layout from "@/components/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Shield } from "lucide-react";
+import SlaTargetsCard from "@/components/SlaTargetsCard";
+import TagsCard from "@/components/TagsCard";
+import CustomFieldsCard from "@/components/CustomFieldsCard";
+import ActivityChangesCard from "@/components/ActivityChangesCard";
+import TrashCard from "@/components/TrashCard";
+import RequestersCard from "@/components/RequestersCard";
 
 export default function Admin() {
   const { user } = useAuth();
@@ -37,6 +43,18 @@ export default function Admin() {
             </p>
           </CardContent>
         </Card>
+
+        <SlaTargetsCard />
+
+        <TagsCard />
+
+        <CustomFieldsCard />
+
+        <RequestersCard />
+
+        <ActivityChangesCard />
+
+        <TrashCard />
       </div>
     </Layout>
   );
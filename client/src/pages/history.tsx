@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import Layout from "@/components/Layout";
 import ActivityCard from "@/components/ActivityCard";
+import BulkActionsBar from "@/components/BulkActionsBar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,6 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { useTags } from "@/hooks/useTags";
+import { useActivitySelection } from "@/hooks/useActivitySelection";
 import { Filter, Calendar, Users, Activity, BarChart3, X } from "lucide-react";
 import type { ActivityWithDetails, User } from "@shared/schema";
 import { format } from "date-fns";
@@ -20,6 +23,7 @@ interface HistoryFilters {
   collaborator: string;
   status: string;
   type: string;
+  tag: string;
   startDate: string;
   endDate: string;
   search: string;
@@ -33,11 +37,13 @@ export default function History() {
     collaborator: 'all',
     status: 'all',
     type: 'all',
+    tag: 'all',
     startDate: '',
     endDate: '',
     search: ''
   });
   const [showFilters, setShowFilters] = useState(false);
+  const selection = useActivitySelection();
 
   const { data: activities = [], isLoading, error } = useQuery({
     queryKey: ["/api/activities"],
@@ -62,6 +68,8 @@ export default function History() {
     enabled: isAuthenticated && (user?.role === 'admin' || user?.role === 'sector_chief'),
   });
 
+  const { data: tags = [] } = useTags();
+
   if (authLoading) {
     return (
       <Layout>
@@ -99,6 +107,10 @@ export default function History() {
       filtered = filtered.filter(activity => activity.type === filters.type);
     }
 
+    if (filters.tag && filters.tag !== 'all') {
+      filtered = filtered.filter(activity => activity.tags?.some(tag => tag.id === filters.tag));
+    }
+
     if (filters.search) {
       const searchLower = filters.search.toLowerCase();
       filtered = filtered.filter(activity =>
@@ -157,6 +169,7 @@ export default function History() {
       collaborator: 'all',
       status: 'all',
       type: 'all',
+      tag: 'all',
       startDate: '',
       endDate: '',
       search: ''
@@ -166,7 +179,8 @@ export default function History() {
   const hasActiveFilters = filters.search !== '' || filters.startDate !== '' || filters.endDate !== '' ||
     (filters.collaborator !== 'all' && filters.collaborator !== '') ||
     (filters.status !== 'all' && filters.status !== '') ||
-    (filters.type !== 'all' && filters.type !== '');
+    (filters.type !== 'all' && filters.type !== '') ||
+    (filters.tag !== 'all' && filters.tag !== '');
 
   return (
     <Layout>
@@ -265,7 +279,7 @@ export default function History() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 {/* Search */}
                 <div>
                   <Label htmlFor="search">Buscar</Label>
@@ -313,6 +327,25 @@ export default function History() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                {/* Tag Filter */}
+                <div>
+                  <Label htmlFor="tag">Tag</Label>
+                  <Select
+                    value={filters.tag}
+                    onValueChange={(value) => setFilters(prev => ({ ...prev, tag: value }))}
+                  >
+                    <SelectTrigger data-testid="select-tag">
+                      <SelectValue placeholder="Todas as tags" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todas as tags</SelectItem>
+                      {tags.map((tag) => (
+                        <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -395,11 +428,24 @@ export default function History() {
           ) : (
             <div className="space-y-4">
               {filteredActivities.map((activity) => (
-                <ActivityCard key={activity.id} activity={activity} />
+                <ActivityCard
+                  key={activity.id}
+                  activity={activity}
+                  selected={selection.isSelected(activity.id)}
+                  onSelectChange={(checked) => selection.toggle(activity.id, checked)}
+                />
               ))}
             </div>
           )}
         </div>
+
+        <BulkActionsBar
+          selectedIds={selection.selectedIds}
+          visibleIds={filteredActivities.map((activity) => activity.id)}
+          onSelectAll={selection.selectAll}
+          onClear={selection.clear}
+          exportOnly
+        />
       </div>
     </Layout>
   );
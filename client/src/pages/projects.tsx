@@ -87,14 +87,14 @@ export default function ProjectsPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
       toast({
-        title: "Projeto excluído",
-        description: "O projeto foi excluído com sucesso.",
+        title: "Projeto arquivado",
+        description: "O projeto foi movido para a lixeira.",
       });
     },
     onError: (error) => {
       toast({
         title: "Erro",
-        description: "Erro ao excluir projeto.",
+        description: "Erro ao arquivar projeto.",
         variant: "destructive",
       });
     },
@@ -166,7 +166,7 @@ export default function ProjectsPage() {
   };
 
   const handleDelete = (project: ProjectWithDetails) => {
-    if (window.confirm(`Tem certeza que deseja excluir o projeto "${project.name}"?`)) {
+    if (window.confirm(`Arquivar o projeto "${project.name}"? Ele poderá ser restaurado pela lixeira.`)) {
       deleteMutation.mutate(project.id);
     }
   };
@@ -405,7 +405,7 @@ export default function ProjectsPage() {
                         className="text-red-600"
                       >
                         <Trash className="h-4 w-4 mr-2" />
-                        Excluir
+                        Arquivar
                       </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
@@ -24,11 +24,18 @@ import {
   Circle,
   BarChart3,
   Search,
-  X
+  X,
+  AlertTriangle,
+  MessageCircle,
+  Tag as TagIcon,
+  ListPlus,
+  Archive
 } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import type { ActivityWithDetails } from "@shared/schema";
+import DueBadge from "@/components/DueBadge";
+import CustomFieldInput from "@/components/CustomFieldInput";
+import type { ActivityWithDetails, CustomField, Tag } from "@shared/schema";
 
 interface ReportFilters {
   plant?: string;
@@ -40,7 +47,13 @@ interface ReportFilters {
   endDate?: string;
   status?: string[];
   type?: string;
+  tagId?: string;
+  customFieldId?: string;
+  customFieldValue?: string;
   sectorId?: string;
+  overdue?: boolean;
+  includeComments?: boolean;
+  includeArchived?: boolean;
 }
 
 export default function Reports() {
@@ -81,7 +94,9 @@ export default function Reports() {
       plants: plants.map(plant => plant.name), // Use plant names from usePlants hook
       projects: (filterOptionsData as any)?.projects || [],
       requesters: (filterOptionsData as any)?.requesters || [],
-      collaborators: (filterOptionsData as any)?.collaborators || []
+      collaborators: (filterOptionsData as any)?.collaborators || [],
+      tags: ((filterOptionsData as any)?.tags || []) as Tag[],
+      customFields: ((filterOptionsData as any)?.customFields || []) as CustomField[]
     };
   }, [plants, filterOptionsData]);
 
@@ -121,6 +136,8 @@ export default function Reports() {
     },
   });
 
+  const selectedCustomField = filterOptions.customFields.find((field) => field.id === filters.customFieldId);
+
   const updateFilters = (key: keyof ReportFilters, value: any) => {
     setFilters(prev => ({ ...prev, [key]: value }));
   };
@@ -301,6 +318,60 @@ export default function Reports() {
                   </Select>
                 </div>
 
+                {/* Tag Filter */}
+                <div className="space-y-2">
+                  <Label className="flex items-center">
+                    <TagIcon className="w-4 h-4 mr-1" />
+                    Tag
+                  </Label>
+                  <Select onValueChange={(value) => updateFilters('tagId', value === 'all' ? undefined : value)}>
+                    <SelectTrigger data-testid="select-tag-filter">
+                      <SelectValue placeholder="Todas as tags" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todas as tags</SelectItem>
+                      {filterOptions.tags.map((tag) => (
+                        <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Custom Field Filter */}
+                {filterOptions.customFields.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="flex items-center">
+                      <ListPlus className="w-4 h-4 mr-1" />
+                      Campo Personalizado
+                    </Label>
+                    <Select
+                      value={filters.customFieldId || 'all'}
+                      onValueChange={(value) => setFilters(prev => ({
+                        ...prev,
+                        customFieldId: value === 'all' ? undefined : value,
+                        customFieldValue: undefined,
+                      }))}
+                    >
+                      <SelectTrigger data-testid="select-custom-field-filter">
+                        <SelectValue placeholder="Todos os campos" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Nenhum</SelectItem>
+                        {filterOptions.customFields.map((field) => (
+                          <SelectItem key={field.id} value={field.id}>{field.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedCustomField && (
+                      <CustomFieldInput
+                        field={selectedCustomField}
+                        value={filters.customFieldValue}
+                        onChange={(value) => updateFilters('customFieldValue', value || undefined)}
+                      />
+                    )}
+                  </div>
+                )}
+
                 {/* Collaborator Filter - Only for sector_chief and admin */}
                 {(user?.role === 'sector_chief' || user?.role === 'admin') && (
                   <div className="space-y-2">
@@ -388,7 +459,60 @@ export default function Reports() {
                     </span>
                   </div>
                 </div>
-                <div></div>
+
+                {/* Overdue */}
+                <div className="space-y-2">
+                  <Label className="flex items-center">
+                    <AlertTriangle className="w-4 h-4 mr-1" />
+                    Prazo
+                  </Label>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      checked={!!filters.overdue}
+                      onCheckedChange={(checked) => updateFilters('overdue', checked ? true : undefined)}
+                      data-testid="checkbox-overdue"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      Somente atividades atrasadas
+                    </span>
+                  </div>
+                </div>
+
+                {/* Comments in PDF export */}
+                <div className="space-y-2">
+                  <Label className="flex items-center">
+                    <MessageCircle className="w-4 h-4 mr-1" />
+                    Comentários
+                  </Label>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      checked={!!filters.includeComments}
+                      onCheckedChange={(checked) => updateFilters('includeComments', checked ? true : undefined)}
+                      data-testid="checkbox-include-comments"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      Incluir comentários no PDF
+                    </span>
+                  </div>
+                </div>
+
+                {/* Archived activities */}
+                <div className="space-y-2">
+                  <Label className="flex items-center">
+                    <Archive className="w-4 h-4 mr-1" />
+                    Arquivadas
+                  </Label>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      checked={!!filters.includeArchived}
+                      onCheckedChange={(checked) => updateFilters('includeArchived', checked ? true : undefined)}
+                      data-testid="checkbox-include-archived"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      Incluir atividades arquivadas
+                    </span>
+                  </div>
+                </div>
               </div>
 
               <div className="flex justify-end space-x-2">
@@ -443,6 +567,7 @@ export default function Reports() {
                             {activity.priority === 'high' ? 'Alta' :
                               activity.priority === 'medium' ? 'Média' : 'Baixa'}
                           </Badge>
+                          <DueBadge activity={activity} />
                         </div>
                       </div>
 
@@ -25,6 +25,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Building, Plus, Edit, Trash2, Users } from "lucide-react";
+import { wipLimitColumns, kanbanColumnLabels, type WipLimits } from "@shared/kanban";
 import type { Sector, InsertSector } from "@shared/schema";
 
 interface SectorForm {
@@ -40,6 +41,7 @@ export default function Sectors() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingSector, setEditingSector] = useState<Sector | null>(null);
   const [formData, setFormData] = useState<SectorForm>({ name: "" });
+  const [wipLimits, setWipLimits] = useState<Record<string, string>>({});
 
   const { data: sectors = [], isLoading } = useQuery<Sector[]>({
     queryKey: ['/api/sectors'],
@@ -126,9 +128,15 @@ export default function Sectors() {
   const handleEdit = (e: React.FormEvent) => {
     e.preventDefault();
     if (editingSector && formData.name.trim()) {
+      // Empty fields mean no limit for the column
+      const limits: WipLimits = {};
+      wipLimitColumns.forEach((column) => {
+        const value = parseInt(wipLimits[column]);
+        if (value > 0) limits[column] = value;
+      });
       updateMutation.mutate({
         id: editingSector.id,
-        data: { name: formData.name.trim() }
+        data: { name: formData.name.trim(), wipLimits: limits }
       });
     }
   };
@@ -142,6 +150,9 @@ export default function Sectors() {
   const openEditModal = (sector: Sector) => {
     setEditingSector(sector);
     setFormData({ name: sector.name });
+    setWipLimits(Object.fromEntries(
+      wipLimitColumns.map((column) => [column, sector.wipLimits?.[column]?.toString() ?? ""])
+    ));
     setIsEditModalOpen(true);
   };
 
@@ -336,6 +347,28 @@ export default function Sectors() {
                   data-testid="input-edit-sector-name"
                 />
               </div>
+              <div>
+                <Label>Limites do quadro (por colaborador)</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Máximo de atividades que cada colaborador do setor pode ter em cada coluna. Deixe em branco para não limitar.
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {wipLimitColumns.map((column) => (
+                    <div key={column}>
+                      <Label htmlFor={`wip-limit-${column}`} className="text-xs">{kanbanColumnLabels[column]}</Label>
+                      <Input
+                        id={`wip-limit-${column}`}
+                        type="number"
+                        min={1}
+                        max={99}
+                        value={wipLimits[column] ?? ""}
+                        onChange={(e) => setWipLimits({ ...wipLimits, [column]: e.target.value })}
+                        data-testid={`input-wip-limit-${column}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
               <div className="flex justify-end space-x-2">
                 <Button 
                   type="button" 
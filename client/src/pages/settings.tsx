@@ -4,12 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ThemeCard } from "@/components/ThemeCard";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useAuth } from "@/hooks/useAuth";
 import { useTheme } from "@/hooks/useTheme";
 import { useUserSettings } from "@/hooks/useUserSettings";
-import { Bell, Save, Palette, Layout as LayoutIcon, Monitor, Smartphone } from "lucide-react";
+import { Bell, Save, Palette, Layout as LayoutIcon, Monitor, Smartphone, Clock } from "lucide-react";
 import type { UserSettings } from "@shared/schema";
 
 export default function Settings() {
@@ -18,6 +19,7 @@ export default function Settings() {
   const { settings, updateSettings, isLoading, isUpdating } = useUserSettings();
   const [teamNotificationsEnabled, setTeamNotificationsEnabled] = useState(false);
   const [cardViewMode, setCardViewMode] = useState<'comfortable' | 'compact'>('comfortable');
+  const [shiftEnd, setShiftEnd] = useState('');
 
   // Verificar se é chefe de setor ou admin para mostrar configurações avançadas
   const canConfigureNotifications = user?.role === 'sector_chief' || user?.role === 'admin';
@@ -31,11 +33,12 @@ export default function Settings() {
       if (settings.cardViewMode) {
         setCardViewMode(settings.cardViewMode as 'comfortable' | 'compact');
       }
+      setShiftEnd(settings.shiftEnd || '');
     }
   }, [settings]);
 
   const handleSave = () => {
-    const newSettings: Partial<UserSettings> = { cardViewMode };
+    const newSettings: Partial<UserSettings> = { cardViewMode, shiftEnd: shiftEnd || null };
 
     if (canConfigureNotifications) {
       newSettings.teamNotificationsEnabled = teamNotificationsEnabled;
@@ -152,6 +155,36 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Jornada de Trabalho
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="shift-end" className="text-base font-medium">
+                  Fim do Expediente
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Atividades esquecidas em andamento após este horário são pausadas automaticamente no fim do expediente. Deixe em branco para usar apenas o limite geral de horas.
+                </p>
+              </div>
+              <Input
+                id="shift-end"
+                type="time"
+                value={shiftEnd}
+                onChange={(e) => setShiftEnd(e.target.value)}
+                disabled={isLoading}
+                className="w-32"
+                data-testid="input-shift-end"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
         {canConfigureNotifications && (
           <Card>
             <CardHeader>
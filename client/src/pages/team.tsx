@@ -4,13 +4,22 @@ import { useWebSocket } from "@/hooks/useWebSocket";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import Layout from "@/components/Layout";
+import BulkActionsBar from "@/components/BulkActionsBar";
+import KanbanBoard from "@/components/KanbanBoard";
 import CompletedActivityDetails from "@/components/CompletedActivityDetails";
+import DueBadge from "@/components/DueBadge";
+import PendingAdjustments from "@/components/PendingAdjustments";
+import PendingAssignments from "@/components/PendingAssignments";
+import PendingTimesheets from "@/components/PendingTimesheets";
+import TimeAdjustmentReport from "@/components/TimeAdjustmentReport";
 import { useAuth } from "@/hooks/useAuth";
+import { useActivitySelection } from "@/hooks/useActivitySelection";
 import {
   Users,
   Clock,
@@ -24,7 +33,8 @@ import {
   Eye,
   RefreshCw,
   BarChart3,
-  PieChart
+  PieChart,
+  Tags
 } from "lucide-react";
 import {
   BarChart,
@@ -43,7 +53,7 @@ import {
   Radar,
   Legend
 } from "recharts";
-import type { User as UserType, ActivityWithDetails, UserWithSector } from "@shared/schema";
+import type { User as UserType, ActivityWithDetails, UserWithSector, TimeAdjustmentLogWithDetails, TimesheetWithUser } from "@shared/schema";
 
 function TeamPage() {
   const { user } = useAuth();
@@ -53,6 +63,7 @@ function TeamPage() {
   const [userFilter, setUserFilter] = useState("all");
   const [showDetailsDialog, setShowDetailsDialog] = useState(false);
   const [selectedActivity, setSelectedActivity] = useState<ActivityWithDetails | null>(null);
+  const selection = useActivitySelection();
 
   // Verificar se é gerente de setor ou admin
   if (!user || (user.role !== 'sector_chief' && user.role !== 'admin')) {
@@ -102,6 +113,25 @@ function TeamPage() {
     refetchInterval: isConnected ? 30000 : false,
   });
 
+  // Ajustes de tempo aguardando aprovação
+  const { data: pendingAdjustments = [] } = useQuery<TimeAdjustmentLogWithDetails[]>({
+    queryKey: ["/api/time-adjustments", "pending"],
+    enabled: !!user && (user.role === 'sector_chief' || user.role === 'admin'),
+  });
+
+  // Folhas de horas aguardando aprovação
+  const { data: pendingTimesheets = [] } = useQuery<TimesheetWithUser[]>({
+    queryKey: ["/api/timesheets", "pending"],
+    enabled: !!user && (user.role === 'sector_chief' || user.role === 'admin'),
+  });
+  const pendingApprovals = pendingAdjustments.length + pendingTimesheets.length;
+
+  // Atribuições ainda não aceitas pelos colaboradores
+  const { data: pendingAssignments = [] } = useQuery<ActivityWithDetails[]>({
+    queryKey: ["/api/team/assignments"],
+    enabled: !!user && (user.role === 'sector_chief' || user.role === 'admin'),
+  });
+
   // Force refresh when WebSocket connects/disconnects
   useEffect(() => {
     if (isConnected) {
@@ -285,7 +315,26 @@ function TeamPage() {
       };
     }).filter(item => item.total > 0); // Só mostrar colaboradores com atividades
 
-    return { plantData, projectData, statusData, productivityData };
+    // Horas por tag (uma atividade com várias tags conta para cada uma)
+    const tagData = filteredActivities
+      .reduce((acc: any[], activity) => {
+        (activity.tags || []).forEach(tag => {
+          const existing = acc.find(item => item.id === tag.id);
+          const timeHours = (activity.totalTime || 0) / 3600;
+
+          if (existing) {
+            existing.totalTime += timeHours;
+            existing.activities += 1;
+          } else {
+            acc.push({ id: tag.id, name: tag.name, color: tag.color, totalTime: timeHours, activities: 1 });
+          }
+        });
+        return acc;
+      }, [])
+      .map(item => ({ ...item, totalTime: Math.round(item.totalTime * 100) / 100 }))
+      .sort((a, b) => b.totalTime - a.totalTime);
+
+    return { plantData, projectData, statusData, productivityData, tagData };
   };
 
   const chartData = getChartData();
@@ -411,7 +460,25 @@ function TeamPage() {
             <TabsTrigger value="status">Status Atual</TabsTrigger>
             <TabsTrigger value="reports">Relatórios</TabsTrigger>
             <TabsTrigger value="activities">Atividades</TabsTrigger>
+            <TabsTrigger value="board">Quadro</TabsTrigger>
             <TabsTrigger value="charts">Gráficos</TabsTrigger>
+            <TabsTrigger value="approvals" className="flex items-center gap-2">
+              Aprovações
+              {pendingApprovals > 0 && (
+                <Badge variant="destructive" className="h-5 px-1.5" data-testid="badge-pending-approvals">
+                  {pendingApprovals}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="assignments" className="flex items-center gap-2">
+              Atribuições
+              {pendingAssignments.length > 0 && (
+                <Badge variant="secondary" className="h-5 px-1.5" data-testid="badge-pending-assignments">
+                  {pendingAssignments.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="audit">Auditoria</TabsTrigger>
           </TabsList>
 
           {/* Status Atual da Equipe */}
@@ -684,6 +751,53 @@ function TeamPage() {
                   </ChartContainer>
                 </CardContent>
               </Card>
+
+              {/* Horas por Tag */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Tags className="w-5 h-5" />
+                    Horas por Tag
+                  </CardTitle>
+                  <CardDescription>
+                    Tempo investido em cada tag de atividade
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {chartData.tagData.length === 0 ? (
+                    <div className="h-[300px] flex items-center justify-center text-sm text-muted-foreground">
+                      Nenhuma atividade com tags no período
+                    </div>
+                  ) : (
+                    <ChartContainer
+                      config={{
+                        totalTime: { label: "Tempo Total (h)" }
+                      }}
+                      className="h-[300px]"
+                    >
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={chartData.tagData}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis
+                            dataKey="name"
+                            angle={-45}
+                            textAnchor="end"
+                            height={80}
+                            fontSize={12}
+                          />
+                          <YAxis />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <Bar dataKey="totalTime" name="Tempo Total (h)">
+                            {chartData.tagData.map((entry) => (
+                              <Cell key={entry.id} fill={entry.color} />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
             </div>
           </TabsContent>
 
@@ -703,12 +817,20 @@ function TeamPage() {
                   <div className="space-y-3">
                     {filteredActivities.map((activity: ActivityWithDetails) => (
                       <div key={activity.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <Checkbox
+                          checked={selection.isSelected(activity.id)}
+                          onCheckedChange={(checked) => selection.toggle(activity.id, checked === true)}
+                          className="mr-4"
+                          aria-label="Selecionar atividade"
+                          data-testid={`checkbox-select-team-activity-${activity.id}`}
+                        />
                         <div className="flex-1">
                           <div className="flex items-center space-x-2">
                             <h3 className="font-medium">{activity.title}</h3>
                             <Badge variant="outline">
                               {getStatusText(activity.status)}
                             </Badge>
+                            <DueBadge activity={activity} />
                           </div>
 
                           <div className="flex items-center space-x-4 text-sm text-muted-foreground mt-1">
@@ -750,6 +872,34 @@ function TeamPage() {
                 )}
               </CardContent>
             </Card>
+
+            <BulkActionsBar
+              selectedIds={selection.selectedIds}
+              visibleIds={filteredActivities.map((activity) => activity.id)}
+              onSelectAll={selection.selectAll}
+              onClear={selection.clear}
+            />
+          </TabsContent>
+
+          {/* Quadro Kanban */}
+          <TabsContent value="board" className="space-y-4">
+            <KanbanBoard activities={filteredActivities} isLoading={loadingActivities} showCollaborator />
+          </TabsContent>
+
+          {/* Aprovações de ajustes de tempo */}
+          <TabsContent value="approvals" className="space-y-4">
+            <PendingAdjustments />
+            <PendingTimesheets />
+          </TabsContent>
+
+          {/* Atividades atribuídas ainda não aceitas */}
+          <TabsContent value="assignments" className="space-y-4">
+            <PendingAssignments />
+          </TabsContent>
+
+          {/* Auditoria de ajustes de tempo */}
+          <TabsContent value="audit" className="space-y-4">
+            <TimeAdjustmentReport />
           </TabsContent>
         </Tabs>
       </div>
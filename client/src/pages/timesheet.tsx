@@ -0,0 +1,288 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import Layout from "@/components/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ChevronLeft, ChevronRight, Send, Lock, Unlock, CalendarDays } from "lucide-react";
+import { weekStartOf } from "@shared/timesheet";
+import type { TimesheetWeek, TimesheetRow, User } from "@shared/schema";
+
+type GroupBy = 'activity' | 'project' | 'plant';
+
+interface GridRow {
+  key: string;
+  label: string;
+  days: number[];
+  total: number;
+}
+
+const formatHours = (seconds: number) => {
+  if (!seconds) return '-';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}:${minutes.toString().padStart(2, '0')}`;
+};
+
+const statusLabels: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  submitted: { label: 'Aguardando aprovação', variant: 'secondary' },
+  approved: { label: 'Aprovada', variant: 'default' },
+  rejected: { label: 'Rejeitada', variant: 'destructive' },
+  reopened: { label: 'Reaberta', variant: 'outline' },
+};
+
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+const groupRows = (rows: TimesheetRow[], groupBy: GroupBy): GridRow[] => {
+  if (groupBy === 'activity') {
+    return rows.map((row) => ({ key: row.activityId, label: row.activityTitle, days: row.days, total: row.total }));
+  }
+
+  const groups = new Map<string, GridRow>();
+  for (const row of rows) {
+    const key = groupBy === 'project' ? row.projectId || row.projectName || 'none' : row.plantId || 'none';
+    const label = (groupBy === 'project' ? row.projectName : row.plantName) || 'Não informado';
+    const group = groups.get(key) ?? { key, label, days: [0, 0, 0, 0, 0, 0, 0], total: 0 };
+    row.days.forEach((seconds, index) => { group.days[index] += seconds; });
+    group.total += row.total;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.total - a.total);
+};
+
+export default function Timesheet() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(new Date()));
+  const [groupBy, setGroupBy] = useState<GroupBy>('activity');
+  const [memberId, setMemberId] = useState<string>('');
+
+  const canSeeTeam = user?.role === 'admin' || user?.role === 'sector_chief';
+  const targetUserId = memberId || user?.id;
+  const isOwn = targetUserId === user?.id;
+
+  const { data: teamMembers = [] } = useQuery<User[]>({
+    queryKey: ['/api/team/members'],
+    enabled: canSeeTeam,
+  });
+
+  const { data: week, isLoading } = useQuery<TimesheetWeek>({
+    queryKey: ["/api/timesheets", "week", weekStart, targetUserId],
+    queryFn: async () => {
+      const params = isOwn ? '' : `?userId=${targetUserId}`;
+      const response = await fetch(`/api/timesheets/week/${weekStart}${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch timesheet');
+      return response.json();
+    },
+    enabled: !!targetUserId,
+  });
+
+  const invalidateTimesheets = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/timesheets/week/${weekStart}/submit`),
+    onSuccess: () => {
+      invalidateTimesheets();
+      toast({ title: "Sucesso", description: "Folha de horas enviada para aprovação" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/timesheets/${id}/reopen`),
+    onSuccess: () => {
+      invalidateTimesheets();
+      toast({ title: "Sucesso", description: "Semana reaberta para edição" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const rows = useMemo(() => groupRows(week?.rows ?? [], groupBy), [week, groupBy]);
+  const days = useMemo(
+    () => Array.from({ length: 7 }, (_, index) => addDays(parseISO(weekStart), index)),
+    [weekStart]
+  );
+
+  const timesheet = week?.timesheet;
+  const status = timesheet ? statusLabels[timesheet.status] : undefined;
+  const isCurrentOrFuture = weekStart >= weekStartOf(new Date());
+  const canSubmit = isOwn && timesheet?.status !== 'approved' && timesheet?.status !== 'submitted' &&
+    parseISO(weekStart) <= new Date();
+
+  const moveWeek = (offset: number) => {
+    setWeekStart(format(addDays(parseISO(weekStart), offset * 7), 'yyyy-MM-dd'));
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold font-display" data-testid="text-page-title">
+              Folha de Horas
+            </h1>
+            <p className="text-muted-foreground">
+              Revise as horas registradas na semana e envie para aprovação
+            </p>
+          </div>
+          {canSeeTeam && (
+            <Select value={memberId || user!.id} onValueChange={(value) => setMemberId(value === user!.id ? '' : value)}>
+              <SelectTrigger className="w-full md:w-64" data-testid="select-timesheet-member">
+                <SelectValue placeholder="Colaborador" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={user!.id}>Minha folha</SelectItem>
+                {teamMembers.filter((member) => member.id !== user!.id).map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {`${member.firstName || ''} ${member.lastName || ''}`.trim() || member.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => moveWeek(-1)} data-testid="button-previous-week">
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <CalendarDays className="w-5 h-5" />
+                  {format(days[0], "dd 'de' MMM", { locale: ptBR })} - {format(days[6], "dd 'de' MMM yyyy", { locale: ptBR })}
+                </CardTitle>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => moveWeek(1)}
+                  disabled={isCurrentOrFuture}
+                  data-testid="button-next-week"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                {status && (
+                  <Badge variant={status.variant} className="flex items-center gap-1" data-testid="badge-timesheet-status">
+                    {timesheet?.status === 'approved' && <Lock className="w-3 h-3" />}
+                    {status.label}
+                  </Badge>
+                )}
+                <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+                  <SelectTrigger className="w-36" data-testid="select-timesheet-group">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="activity">Atividade</SelectItem>
+                    <SelectItem value="project">Projeto</SelectItem>
+                    <SelectItem value="plant">Planta</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {timesheet?.status === 'rejected' && timesheet.reviewNote && (
+              <CardDescription className="text-destructive" data-testid="text-review-note">
+                Motivo da rejeição: {timesheet.reviewNote}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+            ) : rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Nenhuma hora registrada nesta semana</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm" data-testid="table-timesheet">
+                  <thead>
+                    <tr className="border-b border-border text-muted-foreground">
+                      <th className="text-left font-medium py-2 pr-4">
+                        {groupBy === 'activity' ? 'Atividade' : groupBy === 'project' ? 'Projeto' : 'Planta'}
+                      </th>
+                      {days.map((day) => (
+                        <th key={day.toISOString()} className="text-right font-medium py-2 px-2 whitespace-nowrap">
+                          {format(day, 'EEE dd', { locale: ptBR })}
+                        </th>
+                      ))}
+                      <th className="text-right font-medium py-2 pl-2">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.key} className="border-b border-border/50">
+                        <td className="py-2 pr-4 max-w-xs truncate" title={row.label}>{row.label}</td>
+                        {row.days.map((seconds, index) => (
+                          <td key={index} className="text-right py-2 px-2 tabular-nums">{formatHours(seconds)}</td>
+                        ))}
+                        <td className="text-right py-2 pl-2 font-medium tabular-nums">{formatHours(row.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="font-semibold">
+                      <td className="py-2 pr-4">Total</td>
+                      {week!.dayTotals.map((seconds, index) => (
+                        <td key={index} className="text-right py-2 px-2 tabular-nums">{formatHours(seconds)}</td>
+                      ))}
+                      <td className="text-right py-2 pl-2 tabular-nums" data-testid="text-timesheet-total">
+                        {formatHours(week!.total)}
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {user?.role === 'admin' && !isOwn && timesheet?.status === 'approved' && (
+                <Button
+                  variant="outline"
+                  className="flex items-center gap-2"
+                  disabled={reopenMutation.isPending}
+                  onClick={() => reopenMutation.mutate(timesheet.id)}
+                  data-testid="button-reopen-timesheet"
+                >
+                  <Unlock className="w-4 h-4" />
+                  Reabrir semana
+                </Button>
+              )}
+              {canSubmit && (
+                <Button
+                  className="flex items-center gap-2"
+                  disabled={submitMutation.isPending}
+                  onClick={() => submitMutation.mutate()}
+                  data-testid="button-submit-timesheet"
+                >
+                  <Send className="w-4 h-4" />
+                  {timesheet?.status === 'rejected' || timesheet?.status === 'reopened' ? 'Reenviar' : 'Enviar para aprovação'}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -27,6 +27,14 @@ CREATE TYPE project_status AS ENUM (
 -- Extensão para UUIDs
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
+-- Extensão e configuração da busca textual (português, sem acentos)
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE TEXT SEARCH CONFIGURATION portuguese_unaccent (COPY = portuguese);
+
+ALTER TEXT SEARCH CONFIGURATION portuguese_unaccent
+    ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+
 -- Tabela de sessões (necessária para autenticação)
 CREATE TABLE sessions (
     sid VARCHAR PRIMARY KEY,
@@ -41,6 +49,8 @@ CREATE INDEX IDX_session_expire ON sessions (expire);
 CREATE TABLE sectors (
     id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
     name VARCHAR(255) NOT NULL,
+    wip_limits JSONB DEFAULT '{}',
+    -- limites do quadro Kanban por colaborador: { next, in_progress, paused }
     created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -52,6 +62,10 @@ CREATE TABLE plants (
     location VARCHAR(255),
     description TEXT,
     is_active BOOLEAN DEFAULT true,
+    deleted_at TIMESTAMP,
+    -- arquivada (lixeira); removida de vez após o período de retenção
+    deleted_by_id VARCHAR,
+    -- FK adicionada após users
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -73,6 +87,22 @@ CREATE TABLE users (
     updated_at TIMESTAMP DEFAULT NOW()
 );
 
+ALTER TABLE plants ADD CONSTRAINT plants_deleted_by_id_fkey
+    FOREIGN KEY (deleted_by_id) REFERENCES users(id);
+
+-- Tabela de solicitantes
+CREATE TABLE requesters (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    department VARCHAR(255),
+    plant_id VARCHAR REFERENCES plants(id),
+    email VARCHAR(255),
+    is_active BOOLEAN DEFAULT true,
+    -- inativos saem do autocompletar, mas seguem nas atividades
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Tabela de atividades
 CREATE TABLE activities (
     id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -85,7 +115,9 @@ CREATE TABLE activities (
     project_id VARCHAR REFERENCES projects(id),
     project VARCHAR(255),
     -- campo mantido para compatibilidade temporária
+    requester_id VARCHAR REFERENCES requesters(id),
     requester VARCHAR(255),
+    -- nome do solicitante, mantido para compatibilidade
     observations TEXT,
     -- observações da atividade
     status activity_status NOT NULL DEFAULT 'next',
@@ -93,6 +125,7 @@ CREATE TABLE activities (
     -- em segundos
     collaborator_id VARCHAR REFERENCES users(id) NOT NULL,
     evidence_url VARCHAR,
+    -- legado: evidências ficam em activity_attachments
     completion_notes TEXT,
     is_retroactive BOOLEAN DEFAULT false,
     started_at TIMESTAMP,
@@ -100,19 +133,151 @@ CREATE TABLE activities (
     completed_at TIMESTAMP,
     cancelled_at TIMESTAMP,
     cancellation_reason TEXT,
+    due_date TIMESTAMP,
+    -- prazo informado ou calculado pelo SLA
+    overdue_notified_at TIMESTAMP,
+    assigned_by_id VARCHAR REFERENCES users(id),
+    -- preenchido quando um chefe/admin cria a atividade para outro colaborador
+    assignment_status VARCHAR(20),
+    -- 'pending', 'accepted', 'declined'
+    assignment_responded_at TIMESTAMP,
+    assignment_decline_reason TEXT,
+    recurrence_id VARCHAR,
+    -- série recorrente que gerou a atividade (FK adicionada após activity_recurrences)
+    deleted_at TIMESTAMP,
+    -- arquivada (lixeira)
+    deleted_by_id VARCHAR REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de séries recorrentes (a atividade modelo é copiada a cada ocorrência)
+CREATE TABLE activity_recurrences (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_activity_id VARCHAR REFERENCES activities(id) NOT NULL,
+    frequency VARCHAR(20) NOT NULL,
+    -- 'daily', 'weekly', 'monthly', 'interval'
+    interval INTEGER,
+    -- a cada N dias
+    weekdays JSONB,
+    -- 0 = domingo ... 6 = sábado
+    month_day INTEGER,
+    ends_on DATE,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    -- 'active', 'paused', 'ended'
+    next_run_at TIMESTAMP,
+    created_by_id VARCHAR REFERENCES users(id) NOT NULL,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
 
+ALTER TABLE activities ADD CONSTRAINT activities_recurrence_id_fkey
+    FOREIGN KEY (recurrence_id) REFERENCES activity_recurrences(id);
+
+-- Tabela de dependências (activity_id só pode ser iniciada após blocker_id ser concluída ou cancelada)
+CREATE TABLE activity_dependencies (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    activity_id VARCHAR REFERENCES activities(id) NOT NULL,
+    blocker_id VARCHAR REFERENCES activities(id) NOT NULL,
+    created_by_id VARCHAR REFERENCES users(id) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de tags (gerenciadas pelo admin; com setor, só valem para as atividades daquele setor)
+CREATE TABLE tags (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    color VARCHAR(7) NOT NULL DEFAULT '#6b7280',
+    sector_id VARCHAR REFERENCES sectors(id),
+    -- NULL = vale para todos os setores
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de tags das atividades (many-to-many)
+CREATE TABLE activity_tags (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    activity_id VARCHAR REFERENCES activities(id) NOT NULL,
+    tag_id VARCHAR REFERENCES tags(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de campos personalizados (definidos pelo admin para cada setor)
+CREATE TABLE custom_fields (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    sector_id VARCHAR REFERENCES sectors(id) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR NOT NULL DEFAULT 'text',
+    -- 'text', 'number', 'date', 'select', 'boolean'
+    options JSONB DEFAULT '[]',
+    -- opções de um campo 'select'
+    required BOOLEAN DEFAULT false,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de valores dos campos personalizados (um por atividade e campo, sempre como texto)
+CREATE TABLE activity_custom_field_values (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    activity_id VARCHAR REFERENCES activities(id) NOT NULL,
+    field_id VARCHAR REFERENCES custom_fields(id) ON DELETE CASCADE NOT NULL,
+    value TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de comentários das atividades (menções @usuário notificam o mencionado)
+CREATE TABLE activity_comments (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    activity_id VARCHAR REFERENCES activities(id) NOT NULL,
+    author_id VARCHAR REFERENCES users(id) NOT NULL,
+    body TEXT NOT NULL,
+    mentioned_user_ids JSONB DEFAULT '[]',
+    -- usuários já notificados por menção
+    edited_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Tabela de subtarefas (para atividades tipo checklist)
 CREATE TABLE subtasks (
     id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
     activity_id VARCHAR REFERENCES activities(id) NOT NULL,
     title VARCHAR(500) NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    -- posição na checklist
+    assignee_id VARCHAR REFERENCES users(id),
     completed BOOLEAN DEFAULT false,
+    completed_at TIMESTAMP,
+    completed_by_id VARCHAR REFERENCES users(id),
     created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Tabela de anexos (evidências) das atividades, opcionalmente de uma subtarefa
+CREATE TABLE activity_attachments (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    activity_id VARCHAR REFERENCES activities(id) NOT NULL,
+    subtask_id VARCHAR REFERENCES subtasks(id) ON DELETE SET NULL,
+    file_path VARCHAR NOT NULL,
+    -- caminho relativo à pasta de uploads, servido por /api/files
+    original_name VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100),
+    size INTEGER,
+    -- em bytes
+    caption TEXT,
+    uploaded_by_id VARCHAR REFERENCES users(id) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Documento de busca textual de cada atividade, mantido pelos triggers abaixo
+CREATE TABLE activity_search_documents (
+    activity_id VARCHAR PRIMARY KEY REFERENCES activities(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    -- texto indexado, usado nos trechos destacados
+    document TSVECTOR NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Tabela de logs de ajuste de tempo
 CREATE TABLE time_adjustment_logs (
     id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -123,6 +288,14 @@ CREATE TABLE time_adjustment_logs (
     new_time INTEGER NOT NULL,
     -- em segundos
     reason TEXT,
+    kind VARCHAR(20) NOT NULL DEFAULT 'adjustment',
+    -- 'adjustment' altera o total; 'session' apenas registra a edição de sessões
+    details JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'approved',
+    -- 'pending', 'approved', 'rejected'; apenas ajustes aprovados contam no total
+    reviewed_by_id VARCHAR REFERENCES users(id),
+    reviewed_at TIMESTAMP,
+    review_note TEXT,
     created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -143,19 +316,79 @@ CREATE TABLE activity_logs (
     activity_id VARCHAR REFERENCES activities(id) NOT NULL,
     user_id VARCHAR REFERENCES users(id) NOT NULL,
     action VARCHAR NOT NULL,
-    -- 'created', 'started', 'paused', 'completed', 'cancelled'
+    -- 'created', 'started', 'paused', 'auto_paused', 'completed', 'cancelled', 'commented', 'subtask_completed'
     activity_title VARCHAR NOT NULL,
+    details VARCHAR(500),
+    -- contexto extra, p.ex. o título da subtarefa concluída
     time_spent INTEGER,
     -- em segundos, apenas para atividades completadas
     created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Histórico de alterações por campo das atividades
+CREATE TABLE activity_changes (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    activity_id VARCHAR REFERENCES activities(id) NOT NULL,
+    user_id VARCHAR REFERENCES users(id) NOT NULL,
+    field VARCHAR(150) NOT NULL,
+    -- 'title', 'status', 'tags'...; campos personalizados como 'custom:<nome>'
+    old_value JSONB,
+    new_value JSONB,
+    -- valores para exibição: nomes em vez de ids, datas ISO, listas
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Tabela de configurações de usuário
 CREATE TABLE user_settings (
     id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id VARCHAR NOT NULL UNIQUE REFERENCES users(id),
     team_notifications_enabled BOOLEAN DEFAULT false,
     card_view_mode VARCHAR(20) DEFAULT 'comfortable',
+    shift_end VARCHAR(5),
+    -- 'HH:MM', fim do expediente para pausa automática
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de notificações dos usuários
+CREATE TABLE notifications (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id VARCHAR REFERENCES users(id) NOT NULL,
+    type VARCHAR(50) NOT NULL,
+    -- 'activity_auto_paused', ...
+    title VARCHAR(255) NOT NULL,
+    message TEXT,
+    activity_id VARCHAR REFERENCES activities(id),
+    data JSONB,
+    read_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de folhas de horas semanais (segunda a domingo)
+CREATE TABLE timesheets (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id VARCHAR REFERENCES users(id) NOT NULL,
+    week_start DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'submitted',
+    -- 'submitted', 'approved', 'rejected', 'reopened'
+    total_time INTEGER DEFAULT 0,
+    submitted_at TIMESTAMP,
+    reviewed_by_id VARCHAR REFERENCES users(id),
+    reviewed_at TIMESTAMP,
+    review_note TEXT,
+    reopened_by_id VARCHAR REFERENCES users(id),
+    reopened_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tabela de SLAs (prazo padrão por prioridade e, opcionalmente, por planta)
+CREATE TABLE sla_targets (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    priority priority NOT NULL,
+    plant_id VARCHAR REFERENCES plants(id),
+    -- NULL = vale para todas as plantas
+    target_hours INTEGER NOT NULL,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -179,8 +412,38 @@ CREATE INDEX idx_activities_status ON activities(status);
 
 CREATE INDEX idx_activities_created_at ON activities(created_at);
 
+CREATE INDEX idx_activities_due_date ON activities(due_date);
+
+CREATE INDEX idx_activities_assigned_by_id ON activities(assigned_by_id);
+
+CREATE INDEX idx_activities_recurrence_id ON activities(recurrence_id);
+
+CREATE INDEX idx_activities_requester_id ON activities(requester_id);
+
+CREATE INDEX IDX_requesters_name ON requesters(name);
+
+CREATE INDEX idx_activity_recurrences_next_run_at ON activity_recurrences(status, next_run_at);
+
+CREATE UNIQUE INDEX IDX_activity_dependencies_pair ON activity_dependencies(activity_id, blocker_id);
+
+CREATE INDEX idx_activity_dependencies_blocker_id ON activity_dependencies(blocker_id);
+
+CREATE INDEX IDX_activity_comments_activity_id ON activity_comments(activity_id);
+
+CREATE UNIQUE INDEX IDX_activity_tags_pair ON activity_tags(activity_id, tag_id);
+
+CREATE INDEX idx_activity_tags_tag_id ON activity_tags(tag_id);
+
+CREATE INDEX IDX_custom_fields_sector_id ON custom_fields(sector_id);
+
+CREATE UNIQUE INDEX IDX_activity_custom_field_values_pair ON activity_custom_field_values(activity_id, field_id);
+
 CREATE INDEX idx_subtasks_activity_id ON subtasks(activity_id);
 
+CREATE INDEX IDX_activity_attachments_activity_id ON activity_attachments(activity_id);
+
+CREATE INDEX IDX_activity_search_documents_document ON activity_search_documents USING GIN (document);
+
 CREATE INDEX idx_activity_sessions_activity_id ON activity_sessions(activity_id);
 
 CREATE INDEX idx_activity_logs_activity_id ON activity_logs(activity_id);
@@ -189,8 +452,16 @@ CREATE INDEX idx_activity_logs_user_id ON activity_logs(user_id);
 
 CREATE INDEX idx_activity_logs_created_at ON activity_logs(created_at);
 
+CREATE INDEX IDX_activity_changes_activity_id ON activity_changes(activity_id);
+
+CREATE INDEX IDX_activity_changes_user_created ON activity_changes(user_id, created_at);
+
 CREATE INDEX idx_user_settings_user_id ON user_settings(user_id);
 
+CREATE INDEX IDX_notifications_user_id ON notifications(user_id);
+
+CREATE UNIQUE INDEX IDX_timesheets_user_week ON timesheets(user_id, week_start);
+
 -- Tabela de modelos de projetos
 CREATE TABLE project_templates (
     id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -219,6 +490,9 @@ CREATE TABLE projects (
     actual_hours INTEGER DEFAULT 0,
     completion_percentage INTEGER DEFAULT 0,
     color VARCHAR DEFAULT '#8B5CF6',
+    deleted_at TIMESTAMP,
+    -- arquivado (lixeira)
+    deleted_by_id VARCHAR REFERENCES users(id),
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -308,20 +582,46 @@ COMMENT ON TABLE plants IS 'Plantas/unidades industriais da organização';
 
 COMMENT ON TABLE sectors IS 'Setores/departamentos da organização';
 
+COMMENT ON TABLE requesters IS 'Solicitantes das atividades (nome, departamento, planta, e-mail)';
+
 COMMENT ON TABLE users IS 'Usuários do sistema com autenticação local';
 
 COMMENT ON TABLE activities IS 'Atividades principais do sistema';
 
+COMMENT ON TABLE activity_recurrences IS 'Séries de atividades recorrentes geradas automaticamente';
+
+COMMENT ON TABLE activity_dependencies IS 'Dependências entre atividades (bloqueada por)';
+
+COMMENT ON TABLE tags IS 'Tags coloridas para classificar atividades, opcionalmente por setor';
+
+COMMENT ON TABLE activity_tags IS 'Tags atribuídas às atividades';
+
+COMMENT ON TABLE custom_fields IS 'Campos personalizados das atividades, definidos por setor';
+
+COMMENT ON TABLE activity_custom_field_values IS 'Valores dos campos personalizados de cada atividade';
+
+COMMENT ON TABLE activity_comments IS 'Comentários das atividades, com menções a usuários';
+
 COMMENT ON TABLE subtasks IS 'Subtarefas para atividades tipo checklist';
 
+COMMENT ON TABLE activity_attachments IS 'Anexos de evidência das atividades e subtarefas';
+
 COMMENT ON TABLE time_adjustment_logs IS 'Logs de ajustes de tempo para auditoria';
 
 COMMENT ON TABLE activity_sessions IS 'Sessões de trabalho para controle de tempo';
 
 COMMENT ON TABLE activity_logs IS 'Histórico de ações para feed de atividades';
 
+COMMENT ON TABLE activity_changes IS 'Histórico de alterações por campo (quem, quando, antes e depois)';
+
 COMMENT ON TABLE user_settings IS 'Configurações personalizadas dos usuários';
 
+COMMENT ON TABLE notifications IS 'Notificações enviadas aos usuários (ex.: pausa automática)';
+
+COMMENT ON TABLE timesheets IS 'Folhas de horas semanais; semanas aprovadas ficam bloqueadas para alterações';
+
+COMMENT ON TABLE sla_targets IS 'Prazos padrão (SLA) por prioridade e planta';
+
 COMMENT ON TABLE project_templates IS 'Modelos de projetos para criação rápida de atividades';
 
 COMMENT ON TABLE projects IS 'Projetos do sistema para organização de atividades';
@@ -358,6 +658,69 @@ CREATE TRIGGER update_user_settings_updated_at BEFORE
 UPDATE
     ON user_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Busca textual: documento de cada atividade atualizado a cada escrita
+-- Recria o documento de uma atividade. Pesos: título (A), solicitante e subtarefas (B),
+-- textos livres e comentários (C).
+CREATE OR REPLACE FUNCTION refresh_activity_search(target_id VARCHAR) RETURNS void AS $$
+BEGIN
+    INSERT INTO activity_search_documents (activity_id, content, document, updated_at)
+    SELECT
+        a.id,
+        concat_ws(E'\n', a.title, a.requester, a.observations, a.completion_notes, a.cancellation_reason, st.titles, c.bodies),
+        setweight(to_tsvector('portuguese_unaccent', coalesce(a.title, '')), 'A') ||
+        setweight(to_tsvector('portuguese_unaccent', concat_ws(' ', a.requester, st.titles)), 'B') ||
+        setweight(to_tsvector('portuguese_unaccent', concat_ws(' ', a.observations, a.completion_notes, a.cancellation_reason, c.bodies)), 'C'),
+        NOW()
+    FROM activities a
+    LEFT JOIN LATERAL (
+        SELECT string_agg(s.title, E'\n' ORDER BY s."order") AS titles
+        FROM subtasks s WHERE s.activity_id = a.id
+    ) st ON true
+    LEFT JOIN LATERAL (
+        SELECT string_agg(ac.body, E'\n' ORDER BY ac.created_at) AS bodies
+        FROM activity_comments ac WHERE ac.activity_id = a.id
+    ) c ON true
+    WHERE a.id = target_id
+    ON CONFLICT (activity_id) DO UPDATE SET
+        content = EXCLUDED.content,
+        document = EXCLUDED.document,
+        updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION activities_search_trigger() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_activity_search(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION activity_children_search_trigger() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM refresh_activity_search(OLD.activity_id);
+    END IF;
+    IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.activity_id <> OLD.activity_id) THEN
+        PERFORM refresh_activity_search(NEW.activity_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER activities_search_refresh AFTER INSERT
+OR UPDATE OF title, requester, observations, completion_notes, cancellation_reason
+    ON activities FOR EACH ROW EXECUTE FUNCTION activities_search_trigger();
+
+CREATE TRIGGER subtasks_search_refresh AFTER INSERT
+OR UPDATE OF title
+OR DELETE
+    ON subtasks FOR EACH ROW EXECUTE FUNCTION activity_children_search_trigger();
+
+CREATE TRIGGER activity_comments_search_refresh AFTER INSERT
+OR UPDATE OF body
+OR DELETE
+    ON activity_comments FOR EACH ROW EXECUTE FUNCTION activity_children_search_trigger();
+
 -- Fim da migração ActivityPro
 -- Versão: 1.0.0
 -- Data: $(date)
@@ -0,0 +1,36 @@
+-- ActivityPro - Migração 001
+-- O tempo total das atividades passa a ser calculado a partir das sessões
+-- (activity_sessions) mais os ajustes explícitos (time_adjustment_logs).
+-- Atividades antigas cujo total foi gravado manualmente (ex.: retroativas)
+-- recebem um ajuste de reconciliação para manter o total atual.
+
+INSERT INTO
+    time_adjustment_logs (activity_id, user_id, previous_time, new_time, reason)
+SELECT
+    a.id,
+    a.collaborator_id,
+    tracked.total,
+    COALESCE(a.total_time, 0),
+    '[MIGRAÇÃO] Reconciliação do tempo total com as sessões'
+FROM
+    activities a
+    CROSS JOIN LATERAL (
+        SELECT
+            COALESCE(
+                (
+                    SELECT SUM(s.duration)
+                    FROM activity_sessions s
+                    WHERE s.activity_id = a.id AND s.ended_at IS NOT NULL
+                ),
+                0
+            ) + COALESCE(
+                (
+                    SELECT SUM(l.new_time - l.previous_time)
+                    FROM time_adjustment_logs l
+                    WHERE l.activity_id = a.id
+                ),
+                0
+            ) AS total
+    ) tracked
+WHERE
+    COALESCE(a.total_time, 0) <> tracked.total;
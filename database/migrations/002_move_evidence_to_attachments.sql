@@ -0,0 +1,40 @@
+-- ActivityPro - Migração 002
+-- As evidências passam a ser anexos (activity_attachments), vários por atividade.
+-- A evidência única de activities.evidence_url vira o primeiro anexo da atividade,
+-- enviado pelo colaborador na data de conclusão, e a coluna antiga é esvaziada.
+-- Execute após o npm run db:push que cria a tabela activity_attachments.
+
+INSERT INTO
+    activity_attachments (activity_id, file_path, original_name, mime_type, uploaded_by_id, created_at)
+SELECT
+    a.id,
+    a.evidence_url,
+    -- nome gravado no upload: activity_<id>_<data>_<nome original>.<ext>
+    COALESCE(
+        NULLIF(regexp_replace(regexp_replace(a.evidence_url, '^.*/', ''), '^activity_[^_]+_[^_]+_', ''), ''),
+        regexp_replace(a.evidence_url, '^.*/', '')
+    ),
+    CASE lower(substring(a.evidence_url from '\.([A-Za-z0-9]+)$'))
+        WHEN 'jpg' THEN 'image/jpeg'
+        WHEN 'jpeg' THEN 'image/jpeg'
+        WHEN 'png' THEN 'image/png'
+        WHEN 'gif' THEN 'image/gif'
+        WHEN 'webp' THEN 'image/webp'
+        WHEN 'pdf' THEN 'application/pdf'
+        WHEN 'txt' THEN 'text/plain'
+        WHEN 'doc' THEN 'application/msword'
+        WHEN 'docx' THEN 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    END,
+    a.collaborator_id,
+    COALESCE(a.completed_at, a.updated_at, NOW())
+FROM
+    activities a
+WHERE
+    a.evidence_url IS NOT NULL
+    AND a.evidence_url <> ''
+    AND NOT EXISTS (
+        SELECT 1 FROM activity_attachments t
+        WHERE t.activity_id = a.id AND t.file_path = a.evidence_url
+    );
+
+UPDATE activities SET evidence_url = NULL WHERE evidence_url IS NOT NULL;
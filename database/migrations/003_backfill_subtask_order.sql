@@ -0,0 +1,30 @@
+-- ActivityPro - Migração 003
+-- As subtarefas passam a ter posição explícita (subtasks."order") em vez de seguir a
+-- data de criação. A ordem atual de cada checklist é preservada numerando as
+-- subtarefas por created_at, e as já concluídas recebem a data da última atualização
+-- da atividade como data de conclusão, atribuída ao colaborador.
+-- Execute após o npm run db:push que cria as novas colunas.
+
+UPDATE subtasks s
+SET
+    "order" = ranked.position
+FROM (
+        SELECT id, ROW_NUMBER() OVER (
+                PARTITION BY
+                    activity_id
+                ORDER BY created_at, id
+            ) - 1 AS position
+        FROM subtasks
+    ) ranked
+WHERE
+    s.id = ranked.id;
+
+UPDATE subtasks s
+SET
+    completed_at = COALESCE(a.updated_at, s.created_at),
+    completed_by_id = a.collaborator_id
+FROM activities a
+WHERE
+    a.id = s.activity_id
+    AND s.completed = true
+    AND s.completed_at IS NULL;
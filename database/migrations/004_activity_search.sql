@@ -0,0 +1,88 @@
+-- ActivityPro - Migração 004
+-- Busca textual (/api/search). Cada atividade ganha um documento em
+-- activity_search_documents com título, solicitante, observações, notas de conclusão,
+-- motivo do cancelamento, títulos das subtarefas e comentários. O documento é mantido
+-- por triggers, então qualquer escrita nessas tabelas (inclusive fora da aplicação)
+-- já aparece na busca. A configuração portuguese_unaccent usa o dicionário português
+-- sem acentos: "valvula" encontra "válvula".
+-- Execute após o npm run db:push que cria a tabela activity_search_documents.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'portuguese_unaccent') THEN
+        CREATE TEXT SEARCH CONFIGURATION portuguese_unaccent (COPY = portuguese);
+        ALTER TEXT SEARCH CONFIGURATION portuguese_unaccent
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+    END IF;
+END;
+$$;
+
+-- Recria o documento de uma atividade. Pesos: título (A), solicitante e subtarefas (B),
+-- textos livres e comentários (C).
+CREATE OR REPLACE FUNCTION refresh_activity_search(target_id VARCHAR) RETURNS void AS $$
+BEGIN
+    INSERT INTO activity_search_documents (activity_id, content, document, updated_at)
+    SELECT
+        a.id,
+        concat_ws(E'\n', a.title, a.requester, a.observations, a.completion_notes, a.cancellation_reason, st.titles, c.bodies),
+        setweight(to_tsvector('portuguese_unaccent', coalesce(a.title, '')), 'A') ||
+        setweight(to_tsvector('portuguese_unaccent', concat_ws(' ', a.requester, st.titles)), 'B') ||
+        setweight(to_tsvector('portuguese_unaccent', concat_ws(' ', a.observations, a.completion_notes, a.cancellation_reason, c.bodies)), 'C'),
+        NOW()
+    FROM activities a
+    LEFT JOIN LATERAL (
+        SELECT string_agg(s.title, E'\n' ORDER BY s."order") AS titles
+        FROM subtasks s WHERE s.activity_id = a.id
+    ) st ON true
+    LEFT JOIN LATERAL (
+        SELECT string_agg(ac.body, E'\n' ORDER BY ac.created_at) AS bodies
+        FROM activity_comments ac WHERE ac.activity_id = a.id
+    ) c ON true
+    WHERE a.id = target_id
+    ON CONFLICT (activity_id) DO UPDATE SET
+        content = EXCLUDED.content,
+        document = EXCLUDED.document,
+        updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION activities_search_trigger() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_activity_search(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION activity_children_search_trigger() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM refresh_activity_search(OLD.activity_id);
+    END IF;
+    IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.activity_id <> OLD.activity_id) THEN
+        PERFORM refresh_activity_search(NEW.activity_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS activities_search_refresh ON activities;
+CREATE TRIGGER activities_search_refresh AFTER INSERT
+OR UPDATE OF title, requester, observations, completion_notes, cancellation_reason
+    ON activities FOR EACH ROW EXECUTE FUNCTION activities_search_trigger();
+
+DROP TRIGGER IF EXISTS subtasks_search_refresh ON subtasks;
+CREATE TRIGGER subtasks_search_refresh AFTER INSERT
+OR UPDATE OF title
+OR DELETE
+    ON subtasks FOR EACH ROW EXECUTE FUNCTION activity_children_search_trigger();
+
+DROP TRIGGER IF EXISTS activity_comments_search_refresh ON activity_comments;
+CREATE TRIGGER activity_comments_search_refresh AFTER INSERT
+OR UPDATE OF body
+OR DELETE
+    ON activity_comments FOR EACH ROW EXECUTE FUNCTION activity_children_search_trigger();
+
+-- Documentos das atividades já existentes
+SELECT refresh_activity_search(id) FROM activities;
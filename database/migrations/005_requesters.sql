@@ -0,0 +1,50 @@
+-- ActivityPro - Migração 005
+-- Solicitantes passam a ser cadastrados (tabela requesters) em vez de texto livre.
+-- Cada grafia de activities.requester, ignorando maiúsculas, acentos e espaços extras,
+-- vira um solicitante com o nome na grafia mais usada. As atividades passam a apontar
+-- para ele (requester_id) e a coluna requester recebe esse nome, que é o que relatórios,
+-- filtros e exportações agrupam; ela continua existindo para compatibilidade e acompanha
+-- o nome do solicitante. Duplicatas que a normalização não reconhece ("J. Silva" e
+-- "João Silva") são unidas pela mesclagem de solicitantes no painel administrativo.
+-- Execute após a migração 004 (extensão unaccent) e o npm run db:push que cria a
+-- tabela requesters. Pode ser executada de novo: só cria o que ainda não existe.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Mesma normalização de shared/requesters.ts
+CREATE OR REPLACE FUNCTION pg_temp.normalize_requester(name TEXT) RETURNS TEXT AS $$
+    SELECT lower(btrim(regexp_replace(unaccent(name), '\s+', ' ', 'g')));
+$$ LANGUAGE sql;
+
+INSERT INTO
+    requesters (name)
+SELECT DISTINCT ON (s.normalized)
+    s.spelling
+FROM (
+        SELECT
+            pg_temp.normalize_requester(requester) AS normalized,
+            btrim(regexp_replace(requester, '\s+', ' ', 'g')) AS spelling,
+            count(*) AS uses
+        FROM activities
+        WHERE
+            requester IS NOT NULL
+            AND btrim(requester) <> ''
+        GROUP BY 1, 2
+    ) s
+WHERE
+    NOT EXISTS (
+        SELECT 1 FROM requesters r
+        WHERE pg_temp.normalize_requester(r.name) = s.normalized
+    )
+ORDER BY s.normalized, s.uses DESC, s.spelling;
+
+UPDATE activities a
+SET
+    requester_id = r.id,
+    requester = r.name
+FROM requesters r
+WHERE
+    a.requester_id IS NULL
+    AND a.requester IS NOT NULL
+    AND btrim(a.requester) <> ''
+    AND pg_temp.normalize_requester(a.requester) = pg_temp.normalize_requester(r.name);
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { canViewActivity } from "./access";
+
+const user = (id: string, role: string, sectorId: string | null) => ({ id, username: id, role, sectorId, isActive: true }) as User;
+
+const owner = user("owner", "collaborator", "sector-1");
+const activity = { collaboratorId: owner.id, collaborator: owner };
+
+test("the collaborator, admins and the chief of the collaborator's sector open the activity", () => {
+  assert.equal(canViewActivity(owner, activity), true);
+  assert.equal(canViewActivity(user("admin", "admin", null), activity), true);
+  assert.equal(canViewActivity(user("chief", "sector_chief", "sector-1"), activity), true);
+});
+
+test("a sector colleague is refused", () => {
+  assert.equal(canViewActivity(user("colleague", "collaborator", "sector-1"), activity), false);
+});
+
+test("chiefs of other sectors are refused", () => {
+  assert.equal(canViewActivity(user("chief", "sector_chief", "sector-2"), activity), false);
+  assert.equal(canViewActivity(user("chief", "sector_chief", null), { ...activity, collaborator: { sectorId: null } }), false);
+});
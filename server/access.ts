@@ -0,0 +1,16 @@
+import type { User } from "@shared/schema";
+
+type Viewer = Pick<User, 'id'> & { role: string; sectorId?: string | null };
+
+interface OwnedActivity {
+  collaboratorId: string;
+  collaborator?: { sectorId?: string | null } | null;
+}
+
+// Who may open an activity and everything hanging off it (comments, history, sessions, evidence):
+// its collaborator, admins and the chief of the collaborator's sector
+export function canViewActivity(user: Viewer, activity: OwnedActivity) {
+  return activity.collaboratorId === user.id ||
+    user.role === 'admin' ||
+    (user.role === 'sector_chief' && !!user.sectorId && user.sectorId === activity.collaborator?.sectorId);
+}
@@ -0,0 +1,276 @@
+import { Document, Packer, Paragraph, HeadingLevel, TextRun, AlignmentType, Table, TableRow, TableCell, WidthType } from "docx";
+import type { TimeAdjustmentLogWithDetails, TimeAdjustmentReport, TimeAdjustmentSummary, User } from "@shared/schema";
+
+const displayName = (user: User) =>
+  `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(Math.abs(seconds) / 3600);
+  const minutes = Math.floor((Math.abs(seconds) % 3600) / 60);
+  return `${seconds < 0 ? '-' : ''}${hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`}`;
+};
+
+const formatSigned = (seconds: number) => `${seconds >= 0 ? '+' : ''}${formatDuration(seconds)}`;
+
+const toHours = (seconds: number) => (seconds / 3600).toFixed(2);
+
+const kindLabels: Record<string, string> = {
+  adjustment: 'Ajuste',
+  session: 'Sessão',
+};
+
+const statusLabels: Record<string, string> = {
+  approved: 'Aprovado',
+  pending: 'Pendente',
+  rejected: 'Rejeitado',
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Groups the changes by the activity's collaborator, busiest first
+export function buildTimeAdjustmentReport(
+  adjustments: TimeAdjustmentLogWithDetails[],
+  collaborators: User[]
+): TimeAdjustmentReport {
+  const names = new Map(collaborators.map((user) => [user.id, displayName(user)]));
+  const summaries = new Map<string, TimeAdjustmentSummary>();
+
+  for (const adjustment of adjustments) {
+    const collaboratorId = adjustment.activity.collaboratorId;
+    let summary = summaries.get(collaboratorId);
+    if (!summary) {
+      summary = {
+        collaboratorId,
+        collaboratorName: names.get(collaboratorId) ?? displayName(adjustment.user),
+        changes: 0,
+        addedTime: 0,
+        removedTime: 0,
+        netTime: 0,
+        pending: 0,
+        rejected: 0,
+      };
+      summaries.set(collaboratorId, summary);
+    }
+
+    summary.changes++;
+    if (adjustment.status === 'pending') {
+      summary.pending++;
+    } else if (adjustment.status === 'rejected') {
+      summary.rejected++;
+    } else {
+      const delta = adjustment.newTime - adjustment.previousTime;
+      if (delta >= 0) {
+        summary.addedTime += delta;
+      } else {
+        summary.removedTime -= delta;
+      }
+      summary.netTime += delta;
+    }
+  }
+
+  return {
+    summary: Array.from(summaries.values()).sort((a, b) => b.changes - a.changes),
+    adjustments,
+  };
+}
+
+const detailRow = (adjustment: TimeAdjustmentLogWithDetails) => ({
+  date: adjustment.createdAt ? new Date(adjustment.createdAt).toLocaleString('pt-BR') : '',
+  activity: adjustment.activity.title,
+  kind: kindLabels[adjustment.kind] ?? adjustment.kind,
+  status: statusLabels[adjustment.status] ?? adjustment.status,
+  delta: adjustment.newTime - adjustment.previousTime,
+  reason: adjustment.reason || '',
+  author: displayName(adjustment.user),
+  reviewer: adjustment.reviewedBy ? displayName(adjustment.reviewedBy) : '',
+});
+
+export function timeAdjustmentCsv(report: TimeAdjustmentReport): string {
+  const quote = (row: (string | number)[]) => row.map((field) => `"${String(field).replace(/"/g, '""')}"`).join(',');
+
+  const summary = [
+    ['Colaborador', 'Alterações', 'Adicionado (horas)', 'Removido (horas)', 'Saldo (horas)', 'Pendentes', 'Rejeitados'],
+    ...report.summary.map((row) => [
+      row.collaboratorName,
+      row.changes,
+      toHours(row.addedTime),
+      toHours(row.removedTime),
+      toHours(row.netTime),
+      row.pending,
+      row.rejected,
+    ]),
+  ];
+
+  const details = [
+    ['Data', 'Atividade', 'Tipo', 'Status', 'Tempo Anterior (horas)', 'Novo Tempo (horas)', 'Diferença (horas)', 'Motivo', 'Autor', 'Revisor'],
+    ...report.adjustments.map((adjustment) => {
+      const row = detailRow(adjustment);
+      return [
+        row.date,
+        row.activity,
+        row.kind,
+        row.status,
+        toHours(adjustment.previousTime),
+        toHours(adjustment.newTime),
+        toHours(row.delta),
+        row.reason,
+        row.author,
+        row.reviewer,
+      ];
+    }),
+  ];
+
+  return [...summary.map(quote), '', ...details.map(quote)].join('\n');
+}
+
+export async function timeAdjustmentDocx(report: TimeAdjustmentReport, period: string): Promise<Buffer> {
+  const cell = (text: string, bold = false) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold, size: 20 })] })],
+  });
+
+  const doc = new Document({
+    sections: [{
+      children: [
+        new Paragraph({
+          text: "Relatório de Ajustes de Tempo - ActivityPro",
+          heading: HeadingLevel.TITLE,
+          alignment: AlignmentType.CENTER,
+        }),
+        new Paragraph({
+          children: [new TextRun({ text: period, size: 24, color: "666666" })],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 400 }
+        }),
+
+        new Paragraph({
+          text: "Resumo por Colaborador",
+          heading: HeadingLevel.HEADING_1,
+          spacing: { before: 400, after: 200 }
+        }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({
+              children: ['Colaborador', 'Alterações', 'Adicionado', 'Removido', 'Saldo', 'Pendentes', 'Rejeitados']
+                .map((header) => cell(header, true)),
+            }),
+            ...report.summary.map((row) => new TableRow({
+              children: [
+                cell(row.collaboratorName),
+                cell(String(row.changes)),
+                cell(formatDuration(row.addedTime)),
+                cell(formatDuration(row.removedTime)),
+                cell(formatSigned(row.netTime)),
+                cell(String(row.pending)),
+                cell(String(row.rejected)),
+              ],
+            })),
+          ],
+        }),
+
+        new Paragraph({
+          text: "Detalhamento dos Ajustes",
+          heading: HeadingLevel.HEADING_1,
+          spacing: { before: 400, after: 200 }
+        }),
+        ...report.adjustments.flatMap((adjustment) => {
+          const row = detailRow(adjustment);
+          const details = [
+            `${row.date} | ${row.kind} | ${row.status}`,
+            `${formatDuration(adjustment.previousTime)} → ${formatDuration(adjustment.newTime)} (${formatSigned(row.delta)})`,
+            `Autor: ${row.author}${row.reviewer ? ` | Revisor: ${row.reviewer}` : ''}`,
+          ];
+
+          return [
+            new Paragraph({
+              children: [new TextRun({ text: row.activity, bold: true, size: 24, color: "1a365d" })],
+              spacing: { before: 200, after: 50 }
+            }),
+            new Paragraph({
+              children: details.map((text, index) => new TextRun({ text, size: 20, color: "666666", break: index > 0 ? 1 : 0 })),
+              spacing: { after: 50 }
+            }),
+            ...(row.reason ? [new Paragraph({
+              children: [new TextRun({ text: row.reason, size: 20, italics: true })],
+              spacing: { after: 150 }
+            })] : []),
+          ];
+        }),
+      ],
+    }],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+// HTML rendered to PDF by the export route
+export function timeAdjustmentHtml(report: TimeAdjustmentReport, period: string): string {
+  const summaryRows = report.summary.map((row) => `
+    <tr>
+      <td>${escapeHtml(row.collaboratorName)}</td>
+      <td class="number">${row.changes}</td>
+      <td class="number">${formatDuration(row.addedTime)}</td>
+      <td class="number">${formatDuration(row.removedTime)}</td>
+      <td class="number">${formatSigned(row.netTime)}</td>
+      <td class="number">${row.pending}</td>
+      <td class="number">${row.rejected}</td>
+    </tr>`).join('');
+
+  const detailRows = report.adjustments.map((adjustment) => {
+    const row = detailRow(adjustment);
+    return `
+    <tr>
+      <td>${row.date}</td>
+      <td>${escapeHtml(row.activity)}</td>
+      <td>${row.kind}</td>
+      <td>${row.status}</td>
+      <td class="number">${formatDuration(adjustment.previousTime)} → ${formatDuration(adjustment.newTime)}</td>
+      <td class="number">${formatSigned(row.delta)}</td>
+      <td>${escapeHtml(row.reason)}</td>
+      <td>${escapeHtml(row.author)}${row.reviewer ? `<br><small>Revisor: ${escapeHtml(row.reviewer)}</small>` : ''}</td>
+    </tr>`;
+  }).join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Relatório de Ajustes de Tempo - ActivityPro</title>
+      <style>
+        body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; margin: 0; padding: 20px; color: #333; font-size: 12px; }
+        .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #8b5cf6; padding-bottom: 20px; }
+        .header h1 { color: #8b5cf6; margin: 0 0 10px 0; font-size: 24px; }
+        .header p { color: #666; margin: 0; font-size: 14px; }
+        h2 { color: #1e293b; font-size: 16px; margin: 24px 0 10px 0; }
+        table { width: 100%; border-collapse: collapse; }
+        th { background-color: #f8fafc; color: #64748b; text-align: left; font-size: 11px; text-transform: uppercase; }
+        th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; vertical-align: top; }
+        tr { break-inside: avoid; }
+        .number { text-align: right; white-space: nowrap; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>Relatório de Ajustes de Tempo</h1>
+        <p>${period}</p>
+      </div>
+      <h2>Resumo por Colaborador</h2>
+      <table>
+        <thead>
+          <tr><th>Colaborador</th><th>Alterações</th><th>Adicionado</th><th>Removido</th><th>Saldo</th><th>Pendentes</th><th>Rejeitados</th></tr>
+        </thead>
+        <tbody>${summaryRows}</tbody>
+      </table>
+      <h2>Detalhamento dos Ajustes</h2>
+      <table>
+        <thead>
+          <tr><th>Data</th><th>Atividade</th><th>Tipo</th><th>Status</th><th>Tempo</th><th>Diferença</th><th>Motivo</th><th>Autor</th></tr>
+        </thead>
+        <tbody>${detailRows}</tbody>
+      </table>
+    </body>
+    </html>
+  `;
+}
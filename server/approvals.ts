@@ -0,0 +1,93 @@
+import { storage } from "./storage";
+import { publish } from "./realtime";
+import { notifyUser } from "./notifications";
+import { channel, type Channel } from "@shared/realtime";
+import type { Activity, TimeAdjustmentLog, User } from "@shared/schema";
+
+// Adjustments moving the total by more than this wait for the sector chief
+const ADJUSTMENT_APPROVAL_THRESHOLD_MINUTES = parseInt(process.env.ADJUSTMENT_APPROVAL_THRESHOLD_MINUTES || '60', 10);
+// Retroactive entries that started more than this many days ago wait for the sector chief
+const RETROACTIVE_APPROVAL_DAYS = parseInt(process.env.RETROACTIVE_APPROVAL_DAYS || '7', 10);
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(Math.abs(seconds) / 3600);
+  const minutes = Math.floor((Math.abs(seconds) % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+// Admins are trusted with their own adjustments
+export function adjustmentNeedsApproval(user: User, previousTime: number, newTime: number) {
+  return user.role !== 'admin' && Math.abs(newTime - previousTime) > ADJUSTMENT_APPROVAL_THRESHOLD_MINUTES * 60;
+}
+
+export function retroactiveNeedsApproval(user: User, startDate: Date) {
+  const limit = new Date();
+  limit.setDate(limit.getDate() - RETROACTIVE_APPROVAL_DAYS);
+  return user.role !== 'admin' && startDate < limit;
+}
+
+// Session edits move tracked time like an adjustment, and touching sessions older than the
+// retroactive window is a retroactive entry
+export function sessionChangeNeedsApproval(user: User, previousTime: number, newTime: number, touched: { startedAt: Date }[]) {
+  return adjustmentNeedsApproval(user, previousTime, newTime) ||
+    touched.some((interval) => retroactiveNeedsApproval(user, interval.startedAt));
+}
+
+// Whether the user may approve or reject what the collaborator submitted (adjustments, timesheets)
+export function canReview(reviewer: User, collaborator: User) {
+  if (reviewer.id === collaborator.id) return false;
+  return reviewer.role === 'admin' ||
+    (reviewer.role === 'sector_chief' && !!reviewer.sectorId && reviewer.sectorId === collaborator.sectorId);
+}
+
+function adjustmentChannels(collaborator: User): Channel[] {
+  const channels = [channel('user', collaborator.id)];
+  if (collaborator.sectorId) {
+    channels.push(channel('sector', collaborator.sectorId));
+  }
+  return channels;
+}
+
+// Chiefs of the collaborator's sector, or the admins when the sector has none
+export async function getReviewers(collaborator: User): Promise<User[]> {
+  const chiefs = collaborator.sectorId
+    ? (await storage.getUsersBySector(collaborator.sectorId)).filter((user) =>
+      user.role === 'sector_chief' && user.isActive && user.id !== collaborator.id)
+    : [];
+  if (chiefs.length > 0) return chiefs;
+
+  return (await storage.getAllUsers()).filter((user) =>
+    user.role === 'admin' && user.isActive && user.id !== collaborator.id);
+}
+
+export async function requestApproval(adjustment: TimeAdjustmentLog, activity: Activity, collaborator: User) {
+  publish(adjustmentChannels(collaborator), { type: 'time_adjustment_updated', adjustment });
+
+  const collaboratorName = `${collaborator.firstName || ''} ${collaborator.lastName || ''}`.trim() || collaborator.username;
+  const difference = adjustment.newTime - adjustment.previousTime;
+
+  for (const reviewer of await getReviewers(collaborator)) {
+    await notifyUser({
+      userId: reviewer.id,
+      type: 'time_adjustment_pending',
+      title: 'Ajuste de tempo aguardando aprovação',
+      message: `${collaboratorName} solicitou ${difference >= 0 ? '+' : '-'}${formatDuration(difference)} na atividade "${activity.title}".`,
+      activityId: activity.id,
+      data: { adjustmentId: adjustment.id },
+    });
+  }
+}
+
+export async function notifyReviewDecision(adjustment: TimeAdjustmentLog, activity: Activity, collaborator: User) {
+  publish(adjustmentChannels(collaborator), { type: 'time_adjustment_updated', adjustment });
+
+  const approved = adjustment.status === 'approved';
+  await notifyUser({
+    userId: collaborator.id,
+    type: approved ? 'time_adjustment_approved' : 'time_adjustment_rejected',
+    title: approved ? 'Ajuste de tempo aprovado' : 'Ajuste de tempo rejeitado',
+    message: `O ajuste na atividade "${activity.title}" foi ${approved ? 'aprovado' : 'rejeitado'}${adjustment.reviewNote ? `: ${adjustment.reviewNote}` : '.'}`,
+    activityId: activity.id,
+    data: { adjustmentId: adjustment.id },
+  });
+}
@@ -0,0 +1,103 @@
+import { storage, type Archived } from "./storage";
+import { deleteFile, getFilePath } from "./uploadConfig";
+import type { TrashItem, TrashKind, User } from "@shared/schema";
+
+// Days an archived record stays in the trash before it is purged, overridable per deployment
+export const ARCHIVE_RETENTION_DAYS = parseInt(process.env.ARCHIVE_RETENTION_DAYS || '30', 10);
+
+const days = (value: number) => value * 24 * 60 * 60 * 1000;
+
+const displayName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+function trashItem(kind: TrashKind, record: Archived<{ id: string; deletedAt: Date | null }>, name: string, details: string | null): TrashItem {
+  const deletedAt = new Date(record.deletedAt!);
+  return {
+    kind,
+    id: record.id,
+    name,
+    details,
+    deletedAt: deletedAt.toISOString(),
+    deletedByName: record.deletedBy ? displayName(record.deletedBy) : null,
+    purgeAt: new Date(deletedAt.getTime() + days(ARCHIVE_RETENTION_DAYS)).toISOString(),
+  };
+}
+
+// Everything in the trash, most recently archived first
+export async function getTrash(): Promise<TrashItem[]> {
+  const [activities, projects, plants, sectors] = await Promise.all([
+    storage.getArchivedActivities(),
+    storage.getArchivedProjects(),
+    storage.getArchivedPlants(),
+    storage.getSectors(),
+  ]);
+  const sectorName = (id: string | null) => sectors.find((sector) => sector.id === id)?.name ?? null;
+
+  return [
+    ...activities.map((activity) => trashItem('activity', activity, activity.title, displayName(activity.collaborator))),
+    ...projects.map((project) => trashItem('project', project, project.name, sectorName(project.sectorId))),
+    ...plants.map((plant) => trashItem('plant', plant, plant.name, plant.code)),
+  ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+// Returns false when there is no such record in the trash
+export async function restoreFromTrash(kind: TrashKind, id: string): Promise<boolean> {
+  switch (kind) {
+    case 'activity':
+      return !!await storage.restoreActivity(id);
+    case 'project':
+      return !!await storage.restoreProject(id);
+    case 'plant':
+      return !!await storage.restorePlant(id);
+  }
+}
+
+// Why the record cannot be removed for good yet, if anything keeps it: projects and plants
+// stay while activities (archived ones included) still point to them
+export async function purgeBlocker(kind: TrashKind, id: string): Promise<string | undefined> {
+  if (kind === 'project' && await storage.countActivitiesByProject(id) > 0) {
+    return "Project still has activities; purge or move them first";
+  }
+  if (kind === 'plant' && await storage.countActivitiesByPlant(id) > 0) {
+    return "Plant still has activities; purge or move them first";
+  }
+  return undefined;
+}
+
+export async function purgeFromTrash(kind: TrashKind, id: string) {
+  switch (kind) {
+    case 'activity': {
+      const filePaths = await storage.purgeActivity(id);
+      for (const filePath of filePaths) {
+        try {
+          await deleteFile(getFilePath(filePath));
+        } catch (error) {
+          // The database rows are gone, which is what matters
+          console.warn("Could not delete file:", error);
+        }
+      }
+      return;
+    }
+    case 'project':
+      return storage.purgeProject(id);
+    case 'plant':
+      return storage.purgePlant(id);
+  }
+}
+
+// Purges what has been in the trash longer than the retention period. Activities go first, so the
+// projects and plants they kept can follow in the same run; anything still referenced waits.
+export async function purgeExpiredArchives(now: Date) {
+  const before = new Date(now.getTime() - days(ARCHIVE_RETENTION_DAYS));
+
+  for (const activity of await storage.getArchivedActivities(before)) {
+    await purgeFromTrash('activity', activity.id);
+  }
+  for (const project of await storage.getArchivedProjects(before)) {
+    if (await purgeBlocker('project', project.id)) continue;
+    await purgeFromTrash('project', project.id);
+  }
+  for (const plant of await storage.getArchivedPlants(before)) {
+    if (await purgeBlocker('plant', plant.id)) continue;
+    await purgeFromTrash('plant', plant.id);
+  }
+}
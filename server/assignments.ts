@@ -0,0 +1,36 @@
+import { notifyUser } from "./notifications";
+import type { Activity, User } from "@shared/schema";
+
+const displayName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+// Chiefs assign within their own sector; admins assign to anyone
+export function canAssign(assigner: User, assignee: User) {
+  if (!assignee.isActive) return false;
+  return assigner.role === 'admin' ||
+    (assigner.role === 'sector_chief' && !!assigner.sectorId && assigner.sectorId === assignee.sectorId);
+}
+
+export async function notifyAssignment(activity: Activity, assigner: User) {
+  await notifyUser({
+    userId: activity.collaboratorId,
+    type: 'activity_assigned',
+    title: 'Nova atividade atribuída',
+    message: `${displayName(assigner)} atribuiu a você a atividade "${activity.title}". Aceite ou recuse em Minhas Atividades.`,
+    activityId: activity.id,
+  });
+}
+
+export async function notifyAssignmentResponse(activity: Activity, assignee: User) {
+  if (!activity.assignedById) return;
+
+  const accepted = activity.assignmentStatus === 'accepted';
+  await notifyUser({
+    userId: activity.assignedById,
+    type: accepted ? 'activity_assignment_accepted' : 'activity_assignment_declined',
+    title: accepted ? 'Atribuição aceita' : 'Atribuição recusada',
+    message: accepted
+      ? `${displayName(assignee)} aceitou a atividade "${activity.title}".`
+      : `${displayName(assignee)} recusou a atividade "${activity.title}": ${activity.assignmentDeclineReason}`,
+    activityId: activity.id,
+  });
+}
@@ -1,9 +1,10 @@
 import bcrypt from "bcryptjs";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import { storage } from "./storage";
-import { loginSchema, registerSchema } from "@shared/schema";
+import { loginSchema, registerSchema, type User } from "@shared/schema";
 import { z } from "zod";
 
 // Extend the Request interface to include user
@@ -43,11 +44,40 @@ export function getSession() {
   });
 }
 
+// Kept so WebSocket upgrades can be authenticated with the same session store
+let sessionParser: RequestHandler | undefined;
+
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionParser = getSession();
+  app.use(sessionParser);
 }
 
+// Resolves the active user behind a WebSocket upgrade request from its session cookie
+export const authenticateUpgrade = (req: IncomingMessage): Promise<User | undefined> => {
+  return new Promise((resolve) => {
+    if (!sessionParser) {
+      return resolve(undefined);
+    }
+
+    const request = req as Request;
+    sessionParser(request, {} as Response, async () => {
+      try {
+        const userId = request.session?.userId;
+        if (!userId) {
+          return resolve(undefined);
+        }
+
+        const user = await storage.getUserById(userId);
+        resolve(user && user.isActive ? user : undefined);
+      } catch (error) {
+        console.error("WebSocket auth error:", error);
+        resolve(undefined);
+      }
+    });
+  });
+};
+
 export const isAuthenticated = async (req: Request, res: Response, next: NextFunction) => {
   if (!req.session || !req.session.userId) {
     return res.status(401).json({ message: "Unauthorized" });
@@ -0,0 +1,130 @@
+import { storage, type BulkActivityChange } from "./storage";
+import { canAssign, notifyAssignment } from "./assignments";
+import { hasInvalidTags } from "./tags";
+import { notifyDependents } from "./dependencies";
+import { findLockedWeek, activityWeekDates, lockedWeekMessage } from "./timesheets";
+import { isClosedStatus } from "@shared/activityStatus";
+import type { ActivityWithDetails, BulkActivityAction, User } from "@shared/schema";
+
+export interface BulkFailure {
+  activityId: string;
+  title: string;
+  message: string;
+}
+
+const managesActivity = (user: User, activity: ActivityWithDetails) => user.role === 'admin' ||
+  (user.role === 'sector_chief' && !!user.sectorId && user.sectorId === activity.collaborator.sectorId);
+
+// Why the action cannot be applied to this activity. Edits follow PATCH /api/activities/:id
+// (owner only, open activities, unlocked weeks); reassigning follows POST /api/activities/:id/assign.
+export async function bulkActionError(
+  action: BulkActivityAction,
+  activity: ActivityWithDetails,
+  user: User,
+  assignee?: User
+): Promise<string | undefined> {
+  if (action.type === 'reassign') {
+    if (!managesActivity(user, activity) || !assignee || !canAssign(user, assignee)) {
+      return "Access denied";
+    }
+    if (activity.status !== 'next' || (activity.assignmentStatus !== 'pending' && activity.assignmentStatus !== 'declined')) {
+      return "Only assignments not yet accepted can be reassigned";
+    }
+    return undefined;
+  }
+
+  if (activity.collaboratorId !== user.id) {
+    return "Access denied";
+  }
+  if (isClosedStatus(activity.status)) {
+    return "Cannot edit completed or cancelled activities";
+  }
+
+  switch (action.type) {
+    case 'cancel': {
+      if (activity.assignmentStatus === 'pending' || activity.assignmentStatus === 'declined') {
+        return "Assignment must be accepted first";
+      }
+      const lockedWeek = await findLockedWeek(user.id, [new Date()]);
+      return lockedWeek ? lockedWeekMessage(lockedWeek) : undefined;
+    }
+    case 'update': {
+      const lockedWeek = await findLockedWeek(user.id, activityWeekDates(activity));
+      return lockedWeek ? lockedWeekMessage(lockedWeek) : undefined;
+    }
+    case 'add_tags':
+      return await hasInvalidTags(action.tagIds, activity.collaborator)
+        ? "Invalid tags for the collaborator's sector"
+        : undefined;
+  }
+}
+
+// The same field changes the single-activity routes make, gathered to be written in one transaction
+export async function buildBulkChange(
+  action: BulkActivityAction,
+  activity: ActivityWithDetails,
+  user: User,
+  now: Date,
+  plantName?: string
+): Promise<BulkActivityChange> {
+  switch (action.type) {
+    case 'cancel': {
+      const activeSession = await storage.getActiveSession(activity.id);
+      const closeSession = activeSession ? {
+        id: activeSession.id,
+        endedAt: now,
+        duration: Math.floor((now.getTime() - new Date(activeSession.startedAt).getTime()) / 1000),
+      } : undefined;
+
+      return {
+        activityId: activity.id,
+        updates: {
+          status: 'cancelled',
+          cancelledAt: now,
+          cancellationReason: action.reason,
+          totalTime: await storage.getTrackedTime(activity.id) + (closeSession?.duration ?? 0),
+        },
+        closeSession,
+        log: { activityId: activity.id, userId: user.id, action: 'cancelled', activityTitle: activity.title },
+      };
+    }
+    case 'reassign': {
+      const takenBack = action.collaboratorId === user.id;
+      return {
+        activityId: activity.id,
+        updates: {
+          collaboratorId: action.collaboratorId,
+          assignedById: takenBack ? null : user.id,
+          assignmentStatus: takenBack ? null : 'pending',
+          assignmentRespondedAt: null,
+          assignmentDeclineReason: null,
+        },
+      };
+    }
+    case 'update':
+      return {
+        activityId: activity.id,
+        updates: {
+          ...(action.plantId !== undefined && { plantId: action.plantId, plant: plantName }),
+          ...(action.project !== undefined && { project: action.project || null }),
+          ...(action.priority !== undefined && { priority: action.priority }),
+        },
+      };
+    case 'add_tags':
+      return {
+        activityId: activity.id,
+        updates: {},
+        addTagIds: action.tagIds.filter((tagId) => !activity.tags?.some((tag) => tag.id === tagId)),
+      };
+  }
+}
+
+// Notifications the single-activity routes send, once the batch is saved
+export async function notifyBulkChange(action: BulkActivityAction, activity: ActivityWithDetails, user: User) {
+  if (action.type === 'cancel') {
+    await notifyDependents(activity, user);
+  }
+  if (action.type === 'reassign' && action.collaboratorId !== user.id) {
+    await notifyAssignment(activity, user);
+  }
+}
@@ -0,0 +1,91 @@
+import { Paragraph, TextRun } from "docx";
+import { storage } from "./storage";
+import { notifyUser } from "./notifications";
+import { canViewActivity } from "./access";
+import { extractMentions } from "@shared/mentions";
+import type { ActivityComment, ActivityCommentWithAuthor, ActivityWithDetails, User } from "@shared/schema";
+
+const displayName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+// Longest excerpt of the comment quoted in a mention notification
+const EXCERPT_LENGTH = 140;
+
+// Active users mentioned in the body who can see the activity; unknown usernames are ignored
+export async function resolveMentions(body: string, activity: ActivityWithDetails): Promise<User[]> {
+  const mentioned: User[] = [];
+  for (const username of extractMentions(body)) {
+    const user = await storage.getUserByUsername(username);
+    if (user && user.isActive && canViewActivity(user, activity)) {
+      mentioned.push(user);
+    }
+  }
+  return mentioned;
+}
+
+export async function notifyMentions(comment: ActivityComment, activity: ActivityWithDetails, author: User, mentioned: User[]) {
+  const excerpt = comment.body.length > EXCERPT_LENGTH ? `${comment.body.slice(0, EXCERPT_LENGTH)}...` : comment.body;
+
+  for (const user of mentioned) {
+    if (user.id === author.id) continue;
+
+    await notifyUser({
+      userId: user.id,
+      type: 'comment_mention',
+      title: 'Você foi mencionado',
+      message: `${displayName(author)} mencionou você em "${activity.title}": ${excerpt}`,
+      activityId: activity.id,
+      data: { commentId: comment.id },
+    });
+  }
+}
+
+// Comments grouped by activity, for exports that opt into them
+export async function commentsByActivity(activityIds: string[]) {
+  const grouped = new Map<string, ActivityCommentWithAuthor[]>();
+  for (const comment of await storage.getCommentsByActivities(activityIds)) {
+    grouped.set(comment.activityId, [...(grouped.get(comment.activityId) || []), comment]);
+  }
+  return grouped;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const commentHeading = (comment: ActivityCommentWithAuthor) =>
+  `${displayName(comment.author)} em ${comment.createdAt ? new Date(comment.createdAt).toLocaleString('pt-BR') : '-'}${comment.editedAt ? ' (editado)' : ''}`;
+
+export function commentDocxParagraphs(comments: ActivityCommentWithAuthor[]): Paragraph[] {
+  if (comments.length === 0) return [];
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: "Comentários", bold: true, size: 22 })],
+      indent: { left: 720 },
+      spacing: { before: 100, after: 50 }
+    }),
+    ...comments.map((comment) => new Paragraph({
+      children: [
+        new TextRun({ text: commentHeading(comment), size: 18, color: "666666" }),
+        new TextRun({ text: comment.body, size: 22, break: 1 }),
+      ],
+      indent: { left: 1080 },
+      spacing: { after: 80 }
+    })),
+  ];
+}
+
+export function commentsHtml(comments: ActivityCommentWithAuthor[]): string {
+  if (comments.length === 0) return '';
+
+  return `
+    <div class="comments">
+      <h4>Comentários</h4>
+      ${comments.map((comment) => `
+        <div class="comment">
+          <div class="comment-meta">${escapeHtml(commentHeading(comment))}</div>
+          <div class="comment-body">${escapeHtml(comment.body)}</div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import { customFieldValueError, formatCustomFieldValue } from "@shared/customFields";
+import type { ActivityWithDetails, CustomField, CustomFieldValues, User } from "@shared/schema";
+
+// Fields of the user's own sector; admins see every sector's, or the one asked for
+export async function customFieldsForUser(user: User, sectorId?: string): Promise<CustomField[]> {
+  if (user.role === 'admin') return storage.getCustomFields(sectorId);
+  if (!user.sectorId) return [];
+  return storage.getCustomFields(user.sectorId);
+}
+
+export const selectOptionsError = (field: { type: string; options?: string[] | null }) =>
+  field.type === 'select' && !field.options?.length ? "Informe ao menos uma opção" : undefined;
+
+// Values are checked against the fields of the activity owner's sector. On updates only the
+// fields sent are checked, so a field made required later does not block unrelated edits.
+export async function customFieldValuesError(values: CustomFieldValues, owner: User, partial = false) {
+  const fields = owner.sectorId ? await storage.getCustomFields(owner.sectorId) : [];
+
+  if (Object.keys(values).some((fieldId) => !fields.some((field) => field.id === fieldId))) {
+    return "Invalid custom fields for the collaborator's sector";
+  }
+
+  for (const field of fields) {
+    if (partial && !(field.id in values)) continue;
+    const error = customFieldValueError(field, values[field.id]);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+// Export columns: every field that has a value on at least one of the activities
+export function customFieldColumns(activities: ActivityWithDetails[]): CustomField[] {
+  const columns: CustomField[] = [];
+  for (const activity of activities) {
+    for (const value of activity.customFieldValues || []) {
+      if (!columns.some((field) => field.id === value.fieldId)) columns.push(value.field);
+    }
+  }
+  return columns.sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+}
+
+export function customFieldCell(activity: ActivityWithDetails, field: CustomField) {
+  const stored = activity.customFieldValues?.find((value) => value.fieldId === field.id);
+  return formatCustomFieldValue(field, stored?.value);
+}
+
+// Text fields match by substring, the other types by their exact stored value
+export function matchesCustomField(activity: ActivityWithDetails, fieldId: string, value: string) {
+  const stored = activity.customFieldValues?.find((candidate) => candidate.fieldId === fieldId);
+  if (!stored) return false;
+  return stored.field.type === 'text'
+    ? stored.value.toLowerCase().includes(value.toLowerCase())
+    : stored.value === value;
+}
@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { publish, activityChannels } from "./realtime";
+import { notifyUser } from "./notifications";
+import type { Activity, ActivityWithDetails, DependencyNode, User } from "@shared/schema";
+
+// Long chains are cut off rather than walked to the end
+const MAX_CHAIN_DEPTH = 10;
+
+const displayName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+// The owner, or whoever manages their sector, decides what an activity waits on
+export function canManageDependencies(user: User, activity: ActivityWithDetails) {
+  return activity.collaboratorId === user.id ||
+    user.role === 'admin' ||
+    (user.role === 'sector_chief' && !!user.sectorId && user.sectorId === activity.collaborator.sectorId);
+}
+
+// A blocker can be anything the user's own sector works on
+export function canUseAsBlocker(user: User, blocker: ActivityWithDetails) {
+  return blocker.collaboratorId === user.id ||
+    user.role === 'admin' ||
+    (!!user.sectorId && user.sectorId === blocker.collaborator.sectorId);
+}
+
+// Whether blockerId already waits on activityId, directly or through other activities
+export async function wouldCreateCycle(activityId: string, blockerId: string) {
+  const visited = new Set<string>();
+  const queue = [blockerId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === activityId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    const blockers = await storage.getBlockers(current);
+    queue.push(...blockers.map(({ activity }) => activity.id));
+  }
+
+  return false;
+}
+
+// Blockers of the activity and, recursively, their own blockers
+export async function getBlockerChain(activityId: string, depth = 0, path: string[] = []): Promise<DependencyNode[]> {
+  if (depth >= MAX_CHAIN_DEPTH) return [];
+
+  const ancestors = [...path, activityId];
+  const blockers = await storage.getBlockers(activityId);
+  return Promise.all(blockers.map(async ({ activity, collaborator }) => ({
+    id: activity.id,
+    title: activity.title,
+    status: activity.status,
+    collaboratorId: activity.collaboratorId,
+    collaboratorName: displayName(collaborator),
+    blockers: ancestors.includes(activity.id)
+      ? []
+      : await getBlockerChain(activity.id, depth + 1, ancestors),
+  })));
+}
+
+// Tells the owners of waiting activities that a blocker is done, and refreshes their boards
+export async function notifyDependents(blocker: Activity, finishedBy: User) {
+  const dependents = await storage.getDependents(blocker.id);
+  const finished = blocker.status === 'completed' ? 'concluiu' : 'cancelou';
+
+  for (const { activity } of dependents) {
+    if (activity.status === 'completed' || activity.status === 'cancelled') continue;
+
+    const stillBlocked = (await storage.getOpenBlockers(activity.id)).length > 0;
+    if (activity.collaboratorId !== finishedBy.id) {
+      await notifyUser({
+        userId: activity.collaboratorId,
+        type: stillBlocked ? 'activity_blocker_finished' : 'activity_unblocked',
+        title: stillBlocked ? 'Dependência finalizada' : 'Atividade desbloqueada',
+        message: stillBlocked
+          ? `${displayName(finishedBy)} ${finished} "${blocker.title}". "${activity.title}" ainda aguarda outras atividades.`
+          : `${displayName(finishedBy)} ${finished} "${blocker.title}". "${activity.title}" já pode ser iniciada.`,
+        activityId: activity.id,
+        data: { blockerId: blocker.id },
+      });
+    }
+
+    const fullActivity = await storage.getActivity(activity.id);
+    publish(activityChannels(fullActivity!), {
+      type: 'activity_updated',
+      activity: fullActivity,
+    });
+  }
+}
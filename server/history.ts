@@ -0,0 +1,73 @@
+import { storage } from "./storage";
+import {
+  historyFields,
+  CUSTOM_FIELD_PREFIX,
+  SUBTASK_DONE_MARK,
+  SUBTASK_OPEN_MARK,
+  type ActivityChangeValue,
+  type HistoryField,
+} from "@shared/activityHistory";
+import { formatCustomFieldValue } from "@shared/customFields";
+import type { ActivityWithDetails, InsertActivityChange, User } from "@shared/schema";
+
+const displayName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+const text = (value: string | null | undefined) => value || null;
+
+// What each history field shows of an activity: names instead of ids, dates as ISO strings.
+// Custom field values are stored formatted, so they still read right once the field is removed.
+const fieldValue: Record<HistoryField, (activity: ActivityWithDetails) => ActivityChangeValue> = {
+  title: (activity) => activity.title,
+  type: (activity) => activity.type,
+  priority: (activity) => activity.priority,
+  status: (activity) => activity.status,
+  collaborator: (activity) => displayName(activity.collaborator),
+  assignment: (activity) => text(activity.assignmentStatus),
+  plant: (activity) => text(activity.plantRef?.name ?? activity.plant),
+  project: (activity) => text(activity.projectRef?.name ?? activity.project),
+  requester: (activity) => text(activity.requester),
+  observations: (activity) => text(activity.observations),
+  dueDate: (activity) => activity.dueDate ? new Date(activity.dueDate).toISOString() : null,
+  completionNotes: (activity) => text(activity.completionNotes),
+  cancellationReason: (activity) => text(activity.cancellationReason),
+  tags: (activity) => (activity.tags || []).map((tag) => tag.name).sort(),
+  subtasks: (activity) => (activity.subtasks || []).map((subtask) =>
+    `${subtask.completed ? SUBTASK_DONE_MARK : SUBTASK_OPEN_MARK}${subtask.title}`),
+};
+
+function snapshot(activity: ActivityWithDetails): Record<string, ActivityChangeValue> {
+  const values: Record<string, ActivityChangeValue> = {};
+  historyFields.forEach((field) => {
+    values[field] = fieldValue[field](activity);
+  });
+  (activity.customFieldValues || []).forEach((value) => {
+    values[`${CUSTOM_FIELD_PREFIX}${value.field.name}`] = text(formatCustomFieldValue(value.field, value.value));
+  });
+  return values;
+}
+
+const sameValue = (a: ActivityChangeValue | undefined, b: ActivityChangeValue | undefined) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// One entry per field that differs between the two versions of the activity.
+// Tracked time is left out: its adjustments have their own log (time_adjustment_logs).
+export function activityChangesBetween(before: ActivityWithDetails, after: ActivityWithDetails, userId: string): InsertActivityChange[] {
+  const oldValues = snapshot(before);
+  const newValues = snapshot(after);
+  const fields = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)]));
+
+  return fields
+    .filter((field) => !sameValue(oldValues[field], newValues[field]))
+    .map((field) => ({
+      activityId: after.id,
+      userId,
+      field,
+      oldValue: oldValues[field] ?? null,
+      newValue: newValues[field] ?? null,
+    }));
+}
+
+// Called by every route that changes an activity, with the activity as loaded before and after the change
+export async function recordActivityChanges(before: ActivityWithDetails, after: ActivityWithDetails, userId: string) {
+  await storage.createActivityChanges(activityChangesBetween(before, after, userId));
+}
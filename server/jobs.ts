@@ -0,0 +1,175 @@
+import { storage } from "./storage";
+import { publish, activityChannels } from "./realtime";
+import { notifyUser } from "./notifications";
+import { getReviewers } from "./approvals";
+import { createOccurrence, upcomingOccurrence } from "./recurrences";
+import { recordActivityChanges } from "./history";
+import { purgeExpiredArchives } from "./archive";
+import type { ActivitySession, UserSettings } from "@shared/schema";
+
+const minutes = (value: number) => value * 60 * 1000;
+const hours = (value: number) => value * 60 * 60 * 1000;
+
+// Auto-pause limits, overridable per deployment
+const AUTO_PAUSE_INTERVAL_MINUTES = parseInt(process.env.AUTO_PAUSE_INTERVAL_MINUTES || '5', 10);
+const AUTO_PAUSE_MAX_HOURS = parseFloat(process.env.AUTO_PAUSE_MAX_HOURS || '12');
+const AUTO_PAUSE_SHIFT_GRACE_MINUTES = parseInt(process.env.AUTO_PAUSE_SHIFT_GRACE_MINUTES || '60', 10);
+const OVERDUE_CHECK_INTERVAL_MINUTES = parseInt(process.env.OVERDUE_CHECK_INTERVAL_MINUTES || '15', 10);
+const RECURRENCE_CHECK_INTERVAL_MINUTES = parseInt(process.env.RECURRENCE_CHECK_INTERVAL_MINUTES || '15', 10);
+const ARCHIVE_PURGE_INTERVAL_HOURS = parseFloat(process.env.ARCHIVE_PURGE_INTERVAL_HOURS || '24');
+
+// Runs a job on a fixed interval, skipping a tick while the previous run is still going
+function schedule(name: string, intervalMs: number, job: () => Promise<void>) {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job();
+    } catch (error) {
+      console.error(`Error running scheduled job ${name}:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setInterval(run, intervalMs);
+  run();
+}
+
+// First occurrence of the user's shift end ("HH:MM", server time) after the session started
+function shiftEndAfter(startedAt: Date, shiftEnd: string): Date {
+  const [hour, minute] = shiftEnd.split(':').map(Number);
+  const end = new Date(startedAt);
+  end.setHours(hour, minute, 0, 0);
+  if (end <= startedAt) {
+    end.setDate(end.getDate() + 1);
+  }
+  return end;
+}
+
+// Moment a forgotten session should have stopped, or undefined while it is still within limits
+function autoPauseCutoff(session: ActivitySession, settings: UserSettings | null, now: Date): Date | undefined {
+  const startedAt = new Date(session.startedAt);
+  const cutoffs: Date[] = [];
+
+  const maxEnd = new Date(startedAt.getTime() + hours(AUTO_PAUSE_MAX_HOURS));
+  if (now > maxEnd) {
+    cutoffs.push(maxEnd);
+  }
+
+  if (settings?.shiftEnd) {
+    const shiftEnd = shiftEndAfter(startedAt, settings.shiftEnd);
+    if (now.getTime() > shiftEnd.getTime() + minutes(AUTO_PAUSE_SHIFT_GRACE_MINUTES)) {
+      cutoffs.push(shiftEnd);
+    }
+  }
+
+  if (cutoffs.length === 0) return undefined;
+  return new Date(Math.min(...cutoffs.map((cutoff) => cutoff.getTime())));
+}
+
+async function autoPauseForgottenTimers() {
+  const now = new Date();
+  const openSessions = await storage.getOpenSessions();
+
+  for (const { session, activity, settings } of openSessions) {
+    const cutoff = autoPauseCutoff(session, settings, now);
+    if (!cutoff) continue;
+
+    // Another instance (or the user) may have stopped it in the meantime
+    const closedSession = await storage.closeOpenSession(session.id, cutoff);
+    if (!closedSession) continue;
+
+    const before = await storage.getActivity(activity.id);
+    await storage.updateActivity(activity.id, {
+      status: 'paused',
+      pausedAt: cutoff,
+    });
+    await storage.recalculateTotalTime(activity.id);
+
+    await storage.createActivityLog({
+      activityId: activity.id,
+      userId: activity.collaboratorId,
+      action: 'auto_paused',
+      activityTitle: activity.title,
+      timeSpent: closedSession.duration || 0,
+    });
+
+    const fullActivity = await storage.getActivity(activity.id);
+    await recordActivityChanges(before!, fullActivity!, activity.collaboratorId);
+    publish(activityChannels(fullActivity!), {
+      type: 'activity_updated',
+      activity: fullActivity,
+    });
+
+    await notifyUser({
+      userId: activity.collaboratorId,
+      type: 'activity_auto_paused',
+      title: 'Atividade pausada automaticamente',
+      message: `A atividade "${activity.title}" ficou em andamento além do limite e foi pausada em ${cutoff.toLocaleString('pt-BR')}. Confirme o tempo registrado ou corrija-o.`,
+      activityId: activity.id,
+      data: { sessionId: closedSession.id, pausedAt: cutoff.toISOString() },
+    });
+  }
+}
+
+// Alerts the collaborator and the sector chief once when an open activity passes its due date
+async function checkOverdueActivities() {
+  const now = new Date();
+  const overdue = await storage.getNewlyOverdueActivities(now);
+
+  for (const activity of overdue) {
+    const flagged = await storage.markOverdueNotified(activity.id, now);
+    if (!flagged) continue;
+
+    const fullActivity = await storage.getActivity(activity.id);
+    publish(activityChannels(fullActivity!), {
+      type: 'activity_overdue',
+      activity: fullActivity,
+    });
+
+    const dueDate = new Date(activity.dueDate!).toLocaleString('pt-BR');
+    await notifyUser({
+      userId: activity.collaboratorId,
+      type: 'activity_overdue',
+      title: 'Atividade atrasada',
+      message: `O prazo da atividade "${activity.title}" venceu em ${dueDate}.`,
+      activityId: activity.id,
+    });
+
+    const collaboratorName = `${fullActivity!.collaborator.firstName || ''} ${fullActivity!.collaborator.lastName || ''}`.trim() ||
+      fullActivity!.collaborator.username;
+    for (const reviewer of await getReviewers(fullActivity!.collaborator)) {
+      await notifyUser({
+        userId: reviewer.id,
+        type: 'activity_overdue',
+        title: 'Atividade da equipe atrasada',
+        message: `A atividade "${activity.title}" de ${collaboratorName} venceu em ${dueDate}.`,
+        activityId: activity.id,
+      });
+    }
+  }
+}
+
+// Creates the due occurrence of each active series, once even when several instances run the job
+async function generateRecurringActivities() {
+  const now = new Date();
+  const dueSeries = await storage.getDueRecurrences(now);
+
+  for (const series of dueSeries) {
+    const schedule = upcomingOccurrence(series, series.nextRunAt!, now);
+    const advanced = await storage.advanceRecurrence(series.id, series.nextRunAt!, schedule);
+    if (!advanced) continue;
+
+    await createOccurrence(series);
+  }
+}
+
+export function startScheduledJobs() {
+  schedule('auto-pause', minutes(AUTO_PAUSE_INTERVAL_MINUTES), autoPauseForgottenTimers);
+  schedule('overdue-check', minutes(OVERDUE_CHECK_INTERVAL_MINUTES), checkOverdueActivities);
+  schedule('recurring-activities', minutes(RECURRENCE_CHECK_INTERVAL_MINUTES), generateRecurringActivities);
+  schedule('archive-purge', hours(ARCHIVE_PURGE_INTERVAL_HOURS), () => purgeExpiredArchives(new Date()));
+}
@@ -0,0 +1,18 @@
+import { storage } from "./storage";
+import { kanbanColumnLabels, wipLimitFor } from "@shared/kanban";
+import type { Activity, User } from "@shared/schema";
+
+// Why the collaborator cannot take `adding` more activities into the column, or undefined when
+// the sector's limit allows it. The board checks it before a move; this holds for any client.
+export async function wipLimitError(collaborator: User, column: Activity['status'], adding = 1): Promise<string | undefined> {
+  if (!collaborator.sectorId) return undefined;
+
+  const sector = await storage.getSector(collaborator.sectorId);
+  const limit = wipLimitFor(sector?.wipLimits, column);
+  if (limit === undefined) return undefined;
+
+  const count = await storage.countActivitiesByStatus(collaborator.id, column);
+  return count + adding > limit
+    ? `O setor permite no máximo ${limit} atividade(s) em "${kanbanColumnLabels[column]}" por colaborador`
+    : undefined;
+}
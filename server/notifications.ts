@@ -0,0 +1,14 @@
+import { storage } from "./storage";
+import { publish } from "./realtime";
+import { channel } from "@shared/realtime";
+import type { InsertNotification, Notification } from "@shared/schema";
+
+// Stores a notification and pushes it to the user's open sockets
+export async function notifyUser(notification: InsertNotification): Promise<Notification> {
+  const created = await storage.createNotification(notification);
+  publish([channel('user', created.userId)], {
+    type: 'notification_created',
+    notification: created,
+  });
+  return created;
+}
@@ -0,0 +1,100 @@
+import { Client } from "@neondatabase/serverless";
+import { nanoid } from "nanoid";
+import { pool } from "./db";
+import type { Channel, RealtimeEvent } from "@shared/realtime";
+
+// Postgres channel shared by every instance behind the load balancer
+const PG_CHANNEL = 'activitypro_realtime';
+
+// NOTIFY payloads are limited to 8000 bytes by Postgres
+const MAX_PAYLOAD_BYTES = 7900;
+
+const RECONNECT_DELAY = 5000;
+
+// Lets an instance ignore the echo of its own notifications
+export const instanceId = nanoid();
+
+interface PubSubMessage {
+  origin: string;
+  channels: Channel[];
+  event: RealtimeEvent;
+}
+
+type Handler = (channels: Channel[], event: RealtimeEvent) => void;
+
+let listener: Client | null = null;
+
+// Drops the heaviest nested data when an event does not fit in a NOTIFY payload
+function serialize(message: PubSubMessage): string | null {
+  let payload = JSON.stringify(message);
+  if (Buffer.byteLength(payload) <= MAX_PAYLOAD_BYTES) return payload;
+
+  const event: any = { ...message.event };
+  if (event.activity) {
+    const { subtasks, sessions, activeSession, ...activity } = event.activity;
+    event.activity = activity;
+  }
+  if (event.subtask) {
+    event.subtask = { id: event.subtask.id, completed: event.subtask.completed };
+  }
+
+  payload = JSON.stringify({ ...message, event });
+  return Buffer.byteLength(payload) <= MAX_PAYLOAD_BYTES ? payload : null;
+}
+
+// Keeps a dedicated connection LISTENing and hands remote events to the local handler
+export function startPubSub(onRemoteEvent: Handler) {
+  const connect = async () => {
+    const client = new Client({ connectionString: process.env.DATABASE_URL });
+
+    const retry = () => {
+      if (listener !== client) return;
+      listener = null;
+      client.end().catch(() => { });
+      setTimeout(connect, RECONNECT_DELAY);
+    };
+
+    client.on('notification', (notification) => {
+      if (notification.channel !== PG_CHANNEL || !notification.payload) return;
+      try {
+        const message: PubSubMessage = JSON.parse(notification.payload);
+        if (message.origin !== instanceId) {
+          onRemoteEvent(message.channels, message.event);
+        }
+      } catch (error) {
+        console.error('Invalid realtime notification:', error);
+      }
+    });
+    client.on('error', (error) => {
+      console.error('Realtime listener error:', error);
+      retry();
+    });
+    client.on('end', retry);
+
+    listener = client;
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${PG_CHANNEL}`);
+    } catch (error) {
+      console.error('Failed to start realtime listener:', error);
+      retry();
+    }
+  };
+
+  connect();
+}
+
+// Sends an event to the other instances; local delivery is done by the caller
+export async function notifyInstances(channels: Channel[], event: RealtimeEvent) {
+  const payload = serialize({ origin: instanceId, channels, event });
+  if (!payload) {
+    console.warn(`Realtime event ${event.type} too large for NOTIFY, skipped`);
+    return;
+  }
+
+  try {
+    await pool.query('SELECT pg_notify($1, $2)', [PG_CHANNEL, payload]);
+  } catch (error) {
+    console.error('Failed to publish realtime event:', error);
+  }
+}
@@ -0,0 +1,237 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { nanoid } from "nanoid";
+import { storage } from "./storage";
+import { authenticateUpgrade } from "./auth";
+import { canViewActivity } from "./access";
+import { startPubSub, notifyInstances } from "./pubsub";
+import {
+  WS_CLOSE_UNAUTHORIZED,
+  WS_HEARTBEAT_INTERVAL,
+  channel,
+  parseChannel,
+  clientMessageSchema,
+  type Channel,
+  type RealtimeEvent,
+  type ServerMessage,
+} from "@shared/realtime";
+
+interface RealtimeClient extends WebSocket {
+  userId: string;
+  role: string;
+  sectorId?: string;
+  channels: Set<Channel>;
+  isAlive: boolean;
+}
+
+interface BufferedEvent {
+  seq: number;
+  channels: Channel[];
+  event: RealtimeEvent;
+}
+
+// How many recent events are kept for clients resuming after a reconnect
+const REPLAY_BUFFER_SIZE = 1000;
+
+// Identifies this process' sequence; a client holding another epoch cannot resume.
+// Behind a load balancer a reconnect may land on another instance, which answers with resync.
+const epoch = nanoid();
+let seq = 0;
+const replayBuffer: BufferedEvent[] = [];
+const clients = new Set<RealtimeClient>();
+
+function send(client: WebSocket, message: ServerMessage) {
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(message));
+  }
+}
+
+function isSubscribed(client: RealtimeClient, channels: Channel[]) {
+  return channels.some((value) =>
+    client.channels.has(value) || client.channels.has(channel(parseChannel(value).kind, '*'))
+  );
+}
+
+// Checks whether a user may listen on a channel, using the same rules as the REST routes
+async function canSubscribe(client: RealtimeClient, value: Channel): Promise<boolean> {
+  const { kind, id } = parseChannel(value);
+
+  if (client.role === 'admin') return true;
+  if (id === '*') return false;
+
+  switch (kind) {
+    case 'user':
+      return id === client.userId;
+    case 'sector':
+      return id === client.sectorId;
+    case 'project': {
+      const project = await storage.getProjectById(id);
+      if (!project) return false;
+      return project.ownerId === client.userId ||
+        (client.role === 'sector_chief' && project.sectorId === client.sectorId) ||
+        await storage.isProjectMember(id, client.userId);
+    }
+    case 'activity': {
+      const activity = await storage.getActivity(id);
+      if (!activity) return false;
+      return canViewActivity({ id: client.userId, role: client.role, sectorId: client.sectorId }, activity);
+    }
+    default:
+      return false;
+  }
+}
+
+async function subscribe(client: RealtimeClient, channels: Channel[]) {
+  const granted: Channel[] = [];
+  for (const value of channels) {
+    if (await canSubscribe(client, value)) {
+      client.channels.add(value);
+      granted.push(value);
+    }
+  }
+  send(client, { type: 'subscribed', channels: granted });
+}
+
+function resume(client: RealtimeClient, clientEpoch: string, lastSeq: number) {
+  const oldest = replayBuffer[0]?.seq ?? seq + 1;
+
+  // Different process, or the gap has already been evicted from the buffer
+  if (clientEpoch !== epoch || lastSeq > seq || lastSeq < oldest - 1) {
+    send(client, { type: 'resync' });
+    return;
+  }
+
+  const missed = replayBuffer.filter((entry) => entry.seq > lastSeq && isSubscribed(client, entry.channels));
+  missed.forEach((entry) => send(client, { type: 'event', ...entry }));
+  send(client, { type: 'replayed', count: missed.length, seq });
+}
+
+export function setupRealtime(httpServer: Server) {
+  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+
+  wss.on('connection', async (ws: WebSocket, req) => {
+    // Identity comes from the session cookie sent with the upgrade request, never from the client
+    const user = await authenticateUpgrade(req);
+    if (!user) {
+      ws.close(WS_CLOSE_UNAUTHORIZED, 'Unauthorized');
+      return;
+    }
+
+    const client = Object.assign(ws, {
+      userId: user.id,
+      role: user.role,
+      sectorId: user.sectorId || undefined,
+      channels: new Set<Channel>(),
+      isAlive: true,
+    }) as RealtimeClient;
+
+    // Default subscriptions: own user, own sector, and every sector for admins
+    client.channels.add(channel('user', user.id));
+    if (client.sectorId) {
+      client.channels.add(channel('sector', client.sectorId));
+    }
+    if (client.role === 'admin') {
+      client.channels.add(channel('sector', '*'));
+    }
+    clients.add(client);
+
+    send(client, { type: 'welcome', epoch, seq, channels: Array.from(client.channels) });
+
+    client.on('message', async (data) => {
+      let parsed;
+      try {
+        parsed = clientMessageSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        parsed = undefined;
+      }
+
+      if (!parsed?.success) {
+        send(client, { type: 'error', message: 'Invalid message' });
+        return;
+      }
+
+      const message = parsed.data;
+      try {
+        switch (message.type) {
+          case 'subscribe':
+            await subscribe(client, message.channels);
+            break;
+          case 'unsubscribe':
+            message.channels.forEach((value) => client.channels.delete(value));
+            send(client, { type: 'unsubscribed', channels: message.channels });
+            break;
+          case 'resume':
+            resume(client, message.epoch, message.lastSeq);
+            break;
+          case 'ping':
+            send(client, { type: 'pong' });
+            break;
+          case 'pong':
+            client.isAlive = true;
+            break;
+        }
+      } catch (error) {
+        console.error('WebSocket message error:', error);
+        send(client, { type: 'error', message: 'Failed to process message' });
+      }
+    });
+
+    client.on('close', () => {
+      clients.delete(client);
+    });
+  });
+
+  // Heartbeat: drop sockets that did not answer the previous ping
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.isAlive) {
+        clients.delete(client);
+        client.terminate();
+        return;
+      }
+      client.isAlive = false;
+      send(client, { type: 'ping' });
+    });
+  }, WS_HEARTBEAT_INTERVAL);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  // Events published by other instances are delivered to this instance's sockets too
+  startPubSub(deliver);
+
+  return wss;
+}
+
+// Sends an event to the local sockets subscribed to at least one of the channels
+function deliver(channels: Channel[], event: RealtimeEvent) {
+  const entry: BufferedEvent = { seq: ++seq, channels, event };
+
+  replayBuffer.push(entry);
+  if (replayBuffer.length > REPLAY_BUFFER_SIZE) {
+    replayBuffer.shift();
+  }
+
+  clients.forEach((client) => {
+    if (isSubscribed(client, channels)) {
+      send(client, { type: 'event', ...entry });
+    }
+  });
+}
+
+// Publishes an event to every subscribed socket, on this and every other instance
+export function publish(channels: Channel[], event: RealtimeEvent) {
+  deliver(channels, event);
+  notifyInstances(channels, event);
+}
+
+// Channels an activity change is relevant to
+export function activityChannels(activity: { id: string; collaboratorId: string; projectId?: string | null; collaborator?: { sectorId?: string | null } }): Channel[] {
+  const channels = [channel('activity', activity.id), channel('user', activity.collaboratorId)];
+  if (activity.collaborator?.sectorId) {
+    channels.push(channel('sector', activity.collaborator.sectorId));
+  }
+  if (activity.projectId) {
+    channels.push(channel('project', activity.projectId));
+  }
+  return channels;
+}
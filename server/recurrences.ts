@@ -0,0 +1,111 @@
+import { storage } from "./storage";
+import { publish, activityChannels } from "./realtime";
+import { notifyAssignment } from "./assignments";
+import { nextOccurrence, occursBeforeEnd, type RecurrenceRule } from "@shared/recurrence";
+import type { Activity, ActivityRecurrence, ActivityWithDetails, RecurrenceRuleData, User } from "@shared/schema";
+
+// The collaborator owning the template, or whoever manages their sector
+export function canManageRecurrence(user: User, template: ActivityWithDetails) {
+  return template.collaboratorId === user.id ||
+    user.role === 'admin' ||
+    (user.role === 'sector_chief' && !!user.sectorId && user.sectorId === template.collaborator.sectorId);
+}
+
+// Next occurrence strictly in the future; missed ones (e.g. while the server was down) are skipped
+export function upcomingOccurrence(
+  series: Pick<ActivityRecurrence, 'frequency' | 'interval' | 'weekdays' | 'monthDay' | 'endsOn'> | RecurrenceRuleData,
+  after: Date,
+  now: Date = new Date(),
+) {
+  const rule = series as RecurrenceRule;
+  let next = nextOccurrence(rule, after);
+  while (next <= now) {
+    next = nextOccurrence(rule, next);
+  }
+  return occursBeforeEnd(next, series.endsOn)
+    ? { nextRunAt: next, status: 'active' }
+    : { nextRunAt: null, status: 'ended' };
+}
+
+// Turns the activity into the template (and first occurrence) of a new series
+export async function startRecurrence(activity: Activity, rule: RecurrenceRuleData, createdById: string) {
+  const schedule = upcomingOccurrence(rule, new Date());
+  const series = await storage.createRecurrence({
+    templateActivityId: activity.id,
+    frequency: rule.frequency,
+    interval: rule.frequency === 'interval' ? rule.interval : null,
+    weekdays: rule.frequency === 'weekly' ? rule.weekdays : null,
+    monthDay: rule.frequency === 'monthly' ? rule.monthDay : null,
+    endsOn: rule.endsOn || null,
+    createdById,
+    ...schedule,
+  });
+  await storage.updateActivity(activity.id, { recurrenceId: series.id });
+  return series;
+}
+
+// Copies the template, subtasks included, as a new "next" activity of the series
+export async function createOccurrence(series: ActivityRecurrence): Promise<ActivityWithDetails | undefined> {
+  const template = await storage.getActivity(series.templateActivityId);
+  if (!template) return undefined;
+
+  let dueDate: Date | null = null;
+  const slaTarget = await storage.findSlaTarget(template.priority, template.plantId);
+  if (slaTarget) {
+    dueDate = new Date(Date.now() + slaTarget.targetHours * 60 * 60 * 1000);
+  }
+
+  const activity = await storage.createActivity({
+    title: template.title,
+    type: template.type,
+    priority: template.priority,
+    plantId: template.plantId,
+    plant: template.plant,
+    projectId: template.projectId,
+    project: template.project,
+    requesterId: template.requesterId,
+    requester: template.requester,
+    observations: template.observations,
+    status: 'next',
+    collaboratorId: template.collaboratorId,
+    // A series set up by a chief keeps arriving as assignments
+    assignedById: template.assignedById,
+    assignmentStatus: template.assignedById ? 'pending' : null,
+    dueDate,
+    recurrenceId: series.id,
+  });
+
+  for (const subtask of template.subtasks || []) {
+    await storage.createSubtask({
+      activityId: activity.id,
+      title: subtask.title,
+      order: subtask.order,
+      assigneeId: subtask.assigneeId,
+      completed: false,
+    });
+  }
+
+  await storage.setActivityTags(activity.id, (template.tags || []).map((tag) => tag.id));
+  await storage.setCustomFieldValues(activity.id, Object.fromEntries(
+    (template.customFieldValues || []).map((stored) => [stored.fieldId, stored.value])
+  ));
+
+  await storage.createActivityLog({
+    activityId: activity.id,
+    userId: template.collaboratorId,
+    action: 'created',
+    activityTitle: activity.title,
+  });
+
+  const fullActivity = await storage.getActivity(activity.id);
+  publish(activityChannels(fullActivity!), {
+    type: 'activity_created',
+    activity: fullActivity,
+  });
+
+  if (template.assignedBy) {
+    await notifyAssignment(activity, template.assignedBy);
+  }
+
+  return fullActivity;
+}
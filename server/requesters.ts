@@ -0,0 +1,44 @@
+import { storage } from "./storage";
+import { sameRequesterName } from "@shared/requesters";
+import type { Requester } from "@shared/schema";
+
+// The requester going by this name, ignoring case, accents and spacing
+export async function findRequesterByName(name: string): Promise<Requester | undefined> {
+  const requesters = await storage.getRequesters();
+  return requesters.find((requester) => sameRequesterName(requester.name, name));
+}
+
+// Fills both requester fields of an activity being saved. A requesterId sets the legacy name;
+// a name alone (older clients, API users) is matched to a requester. Fields the payload leaves
+// out stay as they are. Nothing is written here: a name nobody goes by is registered by
+// registerRequester once the request passed every check. Returns an error message for an unknown id.
+export async function resolveRequester(data: { requesterId?: string | null; requester?: string | null }) {
+  if (data.requesterId) {
+    const requester = await storage.getRequester(data.requesterId);
+    if (!requester) {
+      return "Requester not found";
+    }
+    data.requester = requester.name;
+    return undefined;
+  }
+
+  const name = data.requester?.trim();
+  if (name) {
+    const requester = await findRequesterByName(name);
+    data.requesterId = requester?.id;
+    data.requester = requester?.name ?? name;
+  } else if ('requesterId' in data || 'requester' in data) {
+    data.requesterId = null;
+    data.requester = null;
+  }
+  return undefined;
+}
+
+// Registers the name resolveRequester could not match, right before the activity is saved
+export async function registerRequester(data: { requesterId?: string | null; requester?: string | null }) {
+  if (data.requesterId || !data.requester) return;
+
+  const requester = await findRequesterByName(data.requester) ?? await storage.createRequester({ name: data.requester });
+  data.requesterId = requester.id;
+  data.requester = requester.name;
+}
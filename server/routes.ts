@@ -1,21 +1,41 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, login, logout, getCurrentUser } from "./auth";
-import { insertActivitySchema, insertSubtaskSchema, insertTimeAdjustmentLogSchema, insertSectorSchema, insertProjectSchema, insertProjectMemberSchema, insertPlantSchema } from "@shared/schema";
+import { setupRealtime, publish, activityChannels } from "./realtime";
+import { startScheduledJobs } from "./jobs";
+import { validateSessionChange, applySessionChange, approveSessionChange } from "./sessions";
+import { notifyUser } from "./notifications";
+import { buildTimeAdjustmentReport, timeAdjustmentCsv, timeAdjustmentDocx, timeAdjustmentHtml } from "./adjustmentReport";
+import { buildTimesheetWeek, findLockedWeek, findLockedWeekInIntervals, activityWeekDates, lockedWeekMessage, publishTimesheet, notifyTimesheetDecision, LOCKED_STATUS } from "./timesheets";
+import { adjustmentNeedsApproval, retroactiveNeedsApproval, canReview, getReviewers, requestApproval, notifyReviewDecision } from "./approvals";
+import { canAssign, notifyAssignment, notifyAssignmentResponse } from "./assignments";
+import { canManageRecurrence, startRecurrence, upcomingOccurrence } from "./recurrences";
+import { resolveMentions, notifyMentions, commentsByActivity, commentDocxParagraphs, commentsHtml } from "./comments";
+import { canManageDependencies, canUseAsBlocker, wouldCreateCycle, getBlockerChain, notifyDependents } from "./dependencies";
+import { tagIdsSchema, tagsForUser, hasInvalidTags, tagNames } from "./tags";
+import { customFieldsForUser, selectOptionsError, customFieldValuesError, customFieldColumns, customFieldCell, matchesCustomField } from "./customFields";
+import { bulkActionError, buildBulkChange, notifyBulkChange, type BulkFailure } from "./bulk";
+import { hasInvalidAssignee, completionFields, logSubtaskCompleted, notifySubtaskAssignee, syncSubtasks } from "./subtasks";
+import { recordActivityChanges } from "./history";
+import { ARCHIVE_RETENTION_DAYS, getTrash, restoreFromTrash, purgeBlocker, purgeFromTrash } from "./archive";
+import { findRequesterByName, resolveRequester, registerRequester } from "./requesters";
+import { wipLimitError } from "./kanban";
+import { canViewActivity } from "./access";
+import { insertActivitySchema, insertSubtaskSchema, insertTimeAdjustmentLogSchema, insertSectorSchema, insertProjectSchema, insertProjectMemberSchema, insertPlantSchema, insertRequesterSchema, mergeRequestersSchema, insertSlaTargetSchema, insertTagSchema, insertCustomFieldSchema, customFieldValuesSchema, editSessionSchema, splitSessionSchema, mergeSessionsSchema, deleteSessionSchema, reviewTimeAdjustmentSchema, reviewTimesheetSchema, respondAssignmentSchema, reassignActivitySchema, bulkActivitySchema, updateActivitySchema, activityChangesQuerySchema, timeAdjustmentReportQuerySchema, recurrenceRuleSchema, updateRecurrenceSchema, addDependencySchema, commentBodySchema, attachmentCaptionSchema, subtaskInputSchema, type TimeAdjustmentLog, type User, type ActivityWithDetails, type CustomFieldValues, type SubtaskInput, type TrashKind, trashKinds } from "@shared/schema";
+import { isWeekStart, weekRange } from "@shared/timesheet";
+import { isLate } from "@shared/sla";
+import { SEARCH_MIN_LENGTH } from "@shared/search";
+import { canTransition, isClosedStatus } from "@shared/activityStatus";
+import { channel } from "@shared/realtime";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
+import { format, parseISO, startOfDay, endOfDay } from "date-fns";
 import { Document, Packer, Paragraph, HeadingLevel, TextRun, AlignmentType, Table, TableRow, TableCell, WidthType } from "docx";
 import { upload, getFilePath, getFileUrl, deleteFile, UPLOAD_BASE_PATH } from "./uploadConfig";
 import path from "path";
 import fs from "fs";
 
-interface WebSocketClient extends WebSocket {
-  userId?: string;
-  sectorId?: string;
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -78,6 +98,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(sector);
     } catch (error) {
       console.error("Error updating sector:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update sector" });
     }
   });
@@ -158,17 +181,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only admins can delete plants" });
       }
 
-      const { id } = req.params;
-
-      // Check if plant has activities before deleting
-      const activitiesInPlant = await storage.getActivitiesByPlant(id);
-      if (activitiesInPlant.length > 0) {
-        return res.status(400).json({
-          message: "Cannot delete plant with associated activities. Please reassign activities first."
-        });
+      // Goes to the trash; its activities keep pointing to it until it is purged
+      const archived = await storage.archivePlant(req.params.id, user.id);
+      if (!archived) {
+        return res.status(404).json({ message: "Plant not found" });
       }
-
-      await storage.deletePlant(id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting plant:", error);
@@ -176,6 +193,350 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Requester routes
+  app.get('/api/requesters', isAuthenticated, async (req, res) => {
+    try {
+      // Admins manage every requester, with usage counts; everyone else picks from the active ones
+      if (req.query.all === 'true') {
+        const user = await storage.getUser(req.user!.id);
+        if (user?.role !== 'admin') {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        return res.json(await storage.getRequestersWithUsage());
+      }
+
+      const requesters = await storage.getRequesters();
+      res.json(requesters.filter((requester) => requester.isActive));
+    } catch (error) {
+      console.error("Error fetching requesters:", error);
+      res.status(500).json({ message: "Failed to fetch requesters" });
+    }
+  });
+
+  // Anyone filling in an activity may register a requester missing from the list
+  app.post('/api/requesters', isAuthenticated, async (req, res) => {
+    try {
+      const requesterData = insertRequesterSchema.parse(req.body);
+      const existing = await findRequesterByName(requesterData.name);
+      if (existing) {
+        return res.status(409).json({ message: "Já existe um solicitante com este nome", requester: existing });
+      }
+
+      const requester = await storage.createRequester({ ...requesterData, email: requesterData.email || null });
+      res.status(201).json(requester);
+    } catch (error) {
+      console.error("Error creating requester:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create requester" });
+    }
+  });
+
+  app.put('/api/requesters/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage requesters" });
+      }
+
+      const updates = insertRequesterSchema.partial().parse(req.body);
+      if (updates.name) {
+        const existing = await findRequesterByName(updates.name);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: "Já existe um solicitante com este nome; use a mesclagem" });
+        }
+      }
+      if (updates.email === '') {
+        updates.email = null;
+      }
+
+      const requester = await storage.updateRequester(req.params.id, updates);
+      if (!requester) {
+        return res.status(404).json({ message: "Requester not found" });
+      }
+      res.json(requester);
+    } catch (error) {
+      console.error("Error updating requester:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update requester" });
+    }
+  });
+
+  // Consolidates duplicates into this requester: their activities move here and they are removed
+  app.post('/api/requesters/:id/merge', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage requesters" });
+      }
+
+      const { sourceIds } = mergeRequestersSchema.parse(req.body);
+      const target = await storage.getRequester(req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Requester not found" });
+      }
+      if (sourceIds.includes(target.id)) {
+        return res.status(400).json({ message: "Cannot merge a requester into itself" });
+      }
+      const sources = await Promise.all(sourceIds.map((id) => storage.getRequester(id)));
+      if (sources.some((source) => !source)) {
+        return res.status(404).json({ message: "Requester not found" });
+      }
+
+      const movedActivities = await storage.mergeRequesters(target.id, sourceIds);
+      res.json({ requester: target, movedActivities });
+    } catch (error) {
+      console.error("Error merging requesters:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to merge requesters" });
+    }
+  });
+
+  // SLA target routes
+  app.get('/api/sla-targets', isAuthenticated, async (req, res) => {
+    try {
+      const targets = await storage.getSlaTargets();
+      res.json(targets);
+    } catch (error) {
+      console.error("Error fetching SLA targets:", error);
+      res.status(500).json({ message: "Failed to fetch SLA targets" });
+    }
+  });
+
+  app.post('/api/sla-targets', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage SLA targets" });
+      }
+
+      const targetData = insertSlaTargetSchema.parse(req.body);
+      const existing = (await storage.getSlaTargets()).find((target) =>
+        target.priority === targetData.priority && (target.plantId ?? null) === (targetData.plantId ?? null));
+      if (existing) {
+        return res.status(409).json({ message: "Já existe um SLA para esta prioridade e planta" });
+      }
+
+      const target = await storage.createSlaTarget(targetData);
+      res.status(201).json(target);
+    } catch (error) {
+      console.error("Error creating SLA target:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create SLA target" });
+    }
+  });
+
+  app.put('/api/sla-targets/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage SLA targets" });
+      }
+
+      const { targetHours } = insertSlaTargetSchema.pick({ targetHours: true }).parse(req.body);
+      const target = await storage.updateSlaTarget(req.params.id, { targetHours });
+      if (!target) {
+        return res.status(404).json({ message: "SLA target not found" });
+      }
+      res.json(target);
+    } catch (error) {
+      console.error("Error updating SLA target:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update SLA target" });
+    }
+  });
+
+  app.delete('/api/sla-targets/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage SLA targets" });
+      }
+
+      await storage.deleteSlaTarget(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting SLA target:", error);
+      res.status(500).json({ message: "Failed to delete SLA target" });
+    }
+  });
+
+  // Tag routes
+  app.get('/api/tags', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await tagsForUser(user));
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  app.post('/api/tags', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage tags" });
+      }
+
+      const tagData = insertTagSchema.parse(req.body);
+      const existing = (await storage.getTags()).find((tag) =>
+        tag.name.toLowerCase() === tagData.name.toLowerCase() && (tag.sectorId ?? null) === (tagData.sectorId ?? null));
+      if (existing) {
+        return res.status(409).json({ message: "Já existe uma tag com este nome para este setor" });
+      }
+
+      const tag = await storage.createTag(tagData);
+      res.status(201).json(tag);
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create tag" });
+    }
+  });
+
+  app.put('/api/tags/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage tags" });
+      }
+
+      const updates = insertTagSchema.partial().parse(req.body);
+      const tag = await storage.updateTag(req.params.id, updates);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json(tag);
+    } catch (error) {
+      console.error("Error updating tag:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update tag" });
+    }
+  });
+
+  app.delete('/api/tags/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage tags" });
+      }
+
+      await storage.deleteTag(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // Custom field routes
+  app.get('/api/custom-fields', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await customFieldsForUser(user, req.query.sectorId as string | undefined));
+    } catch (error) {
+      console.error("Error fetching custom fields:", error);
+      res.status(500).json({ message: "Failed to fetch custom fields" });
+    }
+  });
+
+  app.post('/api/custom-fields', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage custom fields" });
+      }
+
+      const fieldData = insertCustomFieldSchema.parse(req.body);
+      const optionsError = selectOptionsError(fieldData);
+      if (optionsError) {
+        return res.status(400).json({ message: optionsError });
+      }
+
+      const sectorFields = await storage.getCustomFields(fieldData.sectorId);
+      if (sectorFields.some((field) => field.name.toLowerCase() === fieldData.name.toLowerCase())) {
+        return res.status(409).json({ message: "Já existe um campo com este nome neste setor" });
+      }
+
+      const field = await storage.createCustomField({
+        ...fieldData,
+        options: fieldData.type === 'select' ? fieldData.options : [],
+        order: fieldData.order ?? sectorFields.length,
+      });
+      res.status(201).json(field);
+    } catch (error) {
+      console.error("Error creating custom field:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create custom field" });
+    }
+  });
+
+  app.put('/api/custom-fields/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage custom fields" });
+      }
+
+      const field = await storage.getCustomField(req.params.id);
+      if (!field) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+
+      // A field stays in its sector; values already stored are kept as they are
+      const { sectorId, ...updates } = insertCustomFieldSchema.partial().parse(req.body);
+      const optionsError = selectOptionsError({ type: updates.type ?? field.type, options: updates.options ?? field.options });
+      if (optionsError) {
+        return res.status(400).json({ message: optionsError });
+      }
+
+      res.json(await storage.updateCustomField(field.id, updates));
+    } catch (error) {
+      console.error("Error updating custom field:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update custom field" });
+    }
+  });
+
+  app.delete('/api/custom-fields/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage custom fields" });
+      }
+
+      await storage.deleteCustomField(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting custom field:", error);
+      res.status(500).json({ message: "Failed to delete custom field" });
+    }
+  });
+
   // User management routes
   app.get('/api/users', isAuthenticated, async (req, res) => {
     try {
@@ -304,7 +665,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Esta rota é para "Minhas Atividades" - sempre retorna apenas as atividades do usuário logado
       const activities = await storage.getActivitiesByCollaborator(userId);
 
-      res.json(activities);
+      // Declined assignments go back to whoever assigned them
+      res.json(activities.filter((activity) => activity.assignmentStatus !== 'declined'));
     } catch (error) {
       console.error("Error fetching activities:", error);
       res.status(500).json({ message: "Failed to fetch activities" });
@@ -321,18 +683,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user!.id;
       const user = await storage.getUser(userId);
 
-      // Check permissions
-      if (user?.role === 'collaborator' && activity.collaboratorId !== userId) {
+      if (!user || !canViewActivity(user, activity)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      if (user?.role === 'sector_chief' && activity.collaborator.sectorId !== user.sectorId) {
+      res.json(activity);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch activity" });
+    }
+  });
+
+  // Authoritative elapsed time, used by the client timer to resync
+  app.get('/api/activities/:id/elapsed', isAuthenticated, async (req, res) => {
+    try {
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      const userId = req.user!.id;
+      const user = await storage.getUser(userId);
+
+      if (!user || !canViewActivity(user, activity)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      res.json(activity);
+      const now = new Date();
+      const trackedTime = await storage.getTrackedTime(activity.id);
+      const activeSession = await storage.getActiveSession(activity.id);
+      const runningTime = activeSession
+        ? Math.max(0, Math.floor((now.getTime() - new Date(activeSession.startedAt).getTime()) / 1000))
+        : 0;
+
+      res.json({
+        activityId: activity.id,
+        status: activity.status,
+        trackedTime,
+        activeSessionStartedAt: activeSession?.startedAt ?? null,
+        elapsed: trackedTime + runningTime,
+        serverTime: now,
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch activity" });
+      console.error("Error fetching elapsed time:", error);
+      res.status(500).json({ message: "Failed to fetch elapsed time" });
     }
   });
 
@@ -348,14 +741,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
         retroactiveHours,
         retroactiveMinutes,
         totalTime,
+        collaboratorId: assigneeId,
+        recurrence,
+        tagIds,
+        customFieldValues,
         ...activityData
       } = req.body;
 
+      // Recurring activities repeat from now on; past work cannot start a series
+      const recurrenceRule = recurrence ? recurrenceRuleSchema.parse(recurrence) : undefined;
+      if (recurrenceRule && isRetroactive) {
+        return res.status(400).json({ message: "Retroactive activities cannot repeat" });
+      }
+
+      // Chiefs and admins may create the activity for someone else, who then accepts or declines it
+      let assigner: User | undefined;
+      let assignee: User | undefined;
+      if (assigneeId && assigneeId !== userId) {
+        assigner = await storage.getUser(userId);
+        assignee = await storage.getUser(assigneeId);
+        if (!assignee) {
+          return res.status(404).json({ message: "Collaborator not found" });
+        }
+        if (!assigner || !canAssign(assigner, assignee)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        if (isRetroactive) {
+          return res.status(400).json({ message: "Retroactive activities cannot be assigned" });
+        }
+      }
+
+      // Checklist items may go to the owner or to someone of the owner's sector
+      const owner = assignee ?? (await storage.getUser(userId))!;
+      const subtaskItems = z.array(subtaskInputSchema).parse(req.body.subtasks || []);
+      if (await hasInvalidAssignee(subtaskItems, owner)) {
+        return res.status(400).json({ message: "Subtask assignee must belong to the collaborator's sector" });
+      }
+      const activityTagIds = tagIdsSchema.parse(tagIds || []);
+      if (await hasInvalidTags(activityTagIds, owner)) {
+        return res.status(400).json({ message: "Invalid tags for the collaborator's sector" });
+      }
+      const fieldValues = customFieldValuesSchema.parse(customFieldValues || {});
+      const fieldValuesError = await customFieldValuesError(fieldValues, owner);
+      if (fieldValuesError) {
+        return res.status(400).json({ message: fieldValuesError });
+      }
+
       const fullActivityData = {
         ...activityData,
-        collaboratorId: userId,
+        collaboratorId: assignee?.id ?? userId,
+        assignedById: assignee ? userId : null,
+        assignmentStatus: assignee ? 'pending' : null,
       };
 
+      // Nobody else's timer is started on their behalf
+      if (assignee) {
+        fullActivityData.status = 'next';
+      }
+
       // Populate plant name from plantId if not provided
       if (fullActivityData.plantId && !fullActivityData.plant) {
         const plant = await storage.getPlant(fullActivityData.plantId);
@@ -364,6 +807,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // The requester is picked from the registered ones; a typed name is matched, or registered on save
+      const requesterError = await resolveRequester(fullActivityData);
+      if (requesterError) {
+        return res.status(400).json({ message: requesterError });
+      }
+
       // Handle retroactive activities
       // Declare variables outside the if block
       let startDate: Date;
@@ -416,6 +865,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Retroactive activities cannot be more than 2 years old" });
         }
 
+        // Approved timesheet weeks are locked
+        const lockedWeek = await findLockedWeekInIntervals(userId, [{ startedAt: startDate, endedAt: endDate }]);
+        if (lockedWeek) {
+          return res.status(LOCKED_STATUS).json({ message: lockedWeekMessage(lockedWeek) });
+        }
+
         console.log('Retroactive activity validation passed');
 
         // Use totalTime from frontend (already calculated in seconds)
@@ -431,6 +886,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const validatedActivityData = insertActivitySchema.parse(fullActivityData);
 
+      // Without an explicit due date, the SLA for the priority (and plant) sets one
+      if (!isRetroactive && !validatedActivityData.dueDate) {
+        const slaTarget = await storage.findSlaTarget(validatedActivityData.priority, validatedActivityData.plantId);
+        if (slaTarget) {
+          validatedActivityData.dueDate = new Date(Date.now() + slaTarget.targetHours * 60 * 60 * 1000);
+        }
+      }
+
       // Check if user has an active activity (only for non-retroactive activities)
       if (!isRetroactive && validatedActivityData.status === 'in_progress') {
         const userActivities = await storage.getActivitiesByCollaborator(userId);
@@ -441,32 +904,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // The sector's board limits apply to new cards as well
+      if (!isRetroactive) {
+        const wipError = await wipLimitError(owner, validatedActivityData.status || 'next');
+        if (wipError) {
+          return res.status(409).json({ message: wipError });
+        }
+      }
+
+      await registerRequester(validatedActivityData);
+
       // Create activity with proper dates for retroactive activities
       const activity = isRetroactive
         ? await storage.createRetroactiveActivity(validatedActivityData, startDate!, endDate!)
         : await storage.createActivity(validatedActivityData);
 
-      // Create subtasks if provided
-      if (req.body.subtasks && Array.isArray(req.body.subtasks)) {
-        for (const subtaskData of req.body.subtasks) {
-          // For retroactive activities with completeAllSubtasks option, mark all subtasks as completed
-          const completed = isRetroactive && completeAllSubtasks ? true : (subtaskData.completed || false);
+      await storage.setActivityTags(activity.id, activityTagIds);
+      await storage.setCustomFieldValues(activity.id, fieldValues);
 
-          await storage.createSubtask({
-            ...subtaskData,
-            activityId: activity.id,
-            completed,
-          });
+      // Retroactive time has no sessions behind it, so it is recorded as an explicit adjustment
+      let pendingAdjustment: TimeAdjustmentLog | undefined;
+      if (isRetroactive && activity.totalTime) {
+        const user = await storage.getUser(userId);
+        const needsApproval = retroactiveNeedsApproval(user!, startDate!);
+
+        const adjustment = await storage.createTimeAdjustmentLog({
+          activityId: activity.id,
+          userId,
+          previousTime: 0,
+          newTime: activity.totalTime,
+          reason: '[RETROATIVA] Tempo informado na criação',
+          status: needsApproval ? 'pending' : 'approved',
+        });
+
+        // Old entries only count once the sector chief approves them
+        if (needsApproval) {
+          await storage.recalculateTotalTime(activity.id);
+          await requestApproval(adjustment, activity, user!);
+          pendingAdjustment = adjustment;
         }
       }
 
+      // Create subtasks if provided, in the order they were listed
+      for (let order = 0; order < subtaskItems.length; order++) {
+        const subtaskData = subtaskItems[order];
+        // For retroactive activities with completeAllSubtasks option, mark all subtasks as completed
+        const completed = isRetroactive && completeAllSubtasks ? true : (subtaskData.completed || false);
+
+        const subtask = await storage.createSubtask({
+          activityId: activity.id,
+          title: subtaskData.title,
+          order,
+          assigneeId: subtaskData.assigneeId || null,
+          ...completionFields(completed, userId),
+        });
+        await notifySubtaskAssignee(subtask, activity, assigner ?? owner);
+      }
+
       // Start session if activity is in progress
       if (activity.status === 'in_progress') {
         await storage.startActivitySession(activity.id);
         await storage.updateActivity(activity.id, { startedAt: new Date() });
       }
 
-      const fullActivity = await storage.getActivity(activity.id);
+      if (recurrenceRule) {
+        await startRecurrence(activity, recurrenceRule, userId);
+      }
+
+      const fullActivity = await storage.getActivity(activity.id);
 
       // Create activity log for creation
       let logAction = 'created';
@@ -476,7 +981,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         logAction = 'started';
       } else if (activity.status === 'completed' && isRetroactive) {
         logAction = 'completed';
-        timeSpent = activity.totalTime;
+        timeSpent = fullActivity!.totalTime;
       }
 
       await storage.createActivityLog({
@@ -488,12 +993,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Broadcast to WebSocket clients
-      broadcastToSector(fullActivity!.collaborator.sectorId!, {
+      publish(activityChannels(fullActivity!), {
         type: 'activity_created',
         activity: fullActivity,
       });
 
-      res.status(201).json(fullActivity);
+      if (assigner && assignee) {
+        await notifyAssignment(activity, assigner);
+      }
+
+      res.status(201).json(pendingAdjustment ? { ...fullActivity, pendingAdjustment } : fullActivity);
     } catch (error) {
       console.error("Error creating activity:", error);
       if (error instanceof z.ZodError) {
@@ -503,6 +1012,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One action on many activities: every activity is checked first and nothing is saved unless all pass
+  app.post('/api/activities/bulk', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { activityIds, action } = bulkActivitySchema.parse(req.body);
+      if (action.type === 'update' && action.plantId === undefined && action.project === undefined && action.priority === undefined) {
+        return res.status(400).json({ message: "Nothing to change" });
+      }
+
+      let assignee: User | undefined;
+      if (action.type === 'reassign') {
+        assignee = await storage.getUser(action.collaboratorId);
+        if (!assignee) {
+          return res.status(404).json({ message: "Collaborator not found" });
+        }
+      }
+
+      let plantName: string | undefined;
+      if (action.type === 'update' && action.plantId) {
+        const plant = await storage.getPlant(action.plantId);
+        if (!plant) {
+          return res.status(404).json({ message: "Plant not found" });
+        }
+        plantName = plant.name;
+      }
+
+      const selected: ActivityWithDetails[] = [];
+      const failures: BulkFailure[] = [];
+      for (const id of Array.from(new Set(activityIds))) {
+        const activity = await storage.getActivity(id);
+        if (!activity) {
+          failures.push({ activityId: id, title: '', message: "Activity not found" });
+          continue;
+        }
+        const error = await bulkActionError(action, activity, user, assignee);
+        if (error) {
+          failures.push({ activityId: id, title: activity.title, message: error });
+        } else {
+          selected.push(activity);
+        }
+      }
+      if (failures.length > 0) {
+        return res.status(409).json({ message: "No activity was changed", failures });
+      }
+
+      // Reassigned activities land in the new collaborator's column all at once
+      if (action.type === 'reassign') {
+        const moving = selected.filter((activity) => activity.collaboratorId !== assignee!.id);
+        const wipError = moving.length > 0 ? await wipLimitError(assignee!, 'next', moving.length) : undefined;
+        if (wipError) {
+          return res.status(409).json({ message: wipError });
+        }
+      }
+
+      const now = new Date();
+      const changes = [];
+      for (const activity of selected) {
+        changes.push(await buildBulkChange(action, activity, user, now, plantName));
+      }
+      await storage.applyBulkActivityChanges(changes);
+
+      const updated: ActivityWithDetails[] = [];
+      for (const activity of selected) {
+        const fullActivity = (await storage.getActivity(activity.id))!;
+        await recordActivityChanges(activity, fullActivity, user.id);
+        updated.push(fullActivity);
+      }
+
+      // A single event for the whole batch; previous owners' views drop reassigned activities too
+      const channels = new Set(selected.concat(updated).flatMap((activity) => activityChannels(activity)));
+      publish(Array.from(channels), {
+        type: 'activities_bulk_updated',
+        activityIds: updated.map((activity) => activity.id),
+      });
+
+      for (const activity of updated) {
+        await notifyBulkChange(action, activity, user);
+      }
+
+      res.json({ updated: updated.length, activities: updated });
+    } catch (error) {
+      console.error("Error applying bulk action:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to apply bulk action" });
+    }
+  });
+
   app.patch('/api/activities/:id', isAuthenticated, async (req, res) => {
     try {
       const activityId = req.params.id;
@@ -518,13 +1120,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Prevent editing completed/cancelled activities (except for reverting completed to paused)
-      const isRevertingToPaused = activity.status === 'completed' && req.body.status === 'paused';
-      if ((activity.status === 'completed' || activity.status === 'cancelled') && !isRevertingToPaused) {
+      // Only the editable fields get through; owner, tracked time and timestamps are stripped
+      const updates: Record<string, any> = updateActivitySchema.parse(req.body);
+
+      // The edit form resends the current status, which is not a move
+      if (updates.status === activity.status) {
+        delete updates.status;
+      }
+      if (updates.status && !canTransition(activity.status, updates.status)) {
+        return res.status(409).json({
+          message: `Cannot change status from ${activity.status} to ${updates.status}`,
+          from: activity.status,
+          to: updates.status,
+        });
+      }
+
+      // Assigned activities are only worked on once accepted
+      if (updates.status && (activity.assignmentStatus === 'pending' || activity.assignmentStatus === 'declined')) {
+        return res.status(409).json({ message: "Assignment must be accepted first" });
+      }
+
+      // The sector's board limits hold for every move, not only the ones made on the board
+      if (updates.status) {
+        const wipError = await wipLimitError(activity.collaborator, updates.status);
+        if (wipError) {
+          return res.status(409).json({ message: wipError });
+        }
+      }
+
+      // Closed activities only change through their allowed moves (reopening a completed one)
+      if (isClosedStatus(activity.status) && !updates.status) {
         return res.status(400).json({ message: "Cannot edit completed or cancelled activities" });
       }
 
-      const updates = req.body;
+      // Approved timesheet weeks are locked: status changes record time now,
+      // while editing other fields rewrites every week the activity has time in
+      const lockDates: Date[] = [];
+      if (updates.status) {
+        lockDates.push(new Date());
+      }
+      if (Object.keys(updates).some((key) => !['status', 'notes', 'cancellationReason', 'dueDate', 'tagIds', 'customFieldValues'].includes(key))) {
+        lockDates.push(...activityWeekDates(activity));
+      }
+      const lockedWeek = await findLockedWeek(userId, lockDates);
+      if (lockedWeek) {
+        return res.status(LOCKED_STATUS).json({ message: lockedWeekMessage(lockedWeek) });
+      }
+
+      // Series are managed through /api/recurrences once started
+      const recurrenceRule = updates.recurrence && !activity.recurrenceId ? updates.recurrence : undefined;
+      delete updates.recurrence;
+
+      // A new due date can become overdue again
+      if ('dueDate' in updates) {
+        if (updates.dueDate?.getTime() !== (activity.dueDate ? new Date(activity.dueDate).getTime() : undefined)) {
+          updates.overdueNotifiedAt = null;
+        }
+      }
+
+      // Tags, custom fields and subtask assignees are checked before anything is saved
+      const subtaskItems: SubtaskInput[] | undefined = updates.subtasks && activity.type === 'checklist' ? updates.subtasks : undefined;
+      if (subtaskItems && await hasInvalidAssignee(subtaskItems, activity.collaborator)) {
+        return res.status(400).json({ message: "Subtask assignee must belong to the collaborator's sector" });
+      }
+      const tagIds = 'tagIds' in updates ? tagIdsSchema.parse(updates.tagIds || []) : undefined;
+      if (tagIds && await hasInvalidTags(tagIds, activity.collaborator)) {
+        return res.status(400).json({ message: "Invalid tags for the collaborator's sector" });
+      }
+      const fieldValues: CustomFieldValues | undefined = 'customFieldValues' in updates ? updates.customFieldValues || {} : undefined;
+      const fieldValuesError = fieldValues && await customFieldValuesError(fieldValues, activity.collaborator, true);
+      if (fieldValuesError) {
+        return res.status(400).json({ message: fieldValuesError });
+      }
+      const requesterError = await resolveRequester(updates);
+      if (requesterError) {
+        return res.status(400).json({ message: requesterError });
+      }
 
       // Handle status changes
       if (updates.status) {
@@ -539,36 +1210,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
             return res.status(400).json({ message: "You already have an active activity" });
           }
 
+          // Work already under way is not interrupted if a blocker reopens
+          if (activity.status === 'next' && activity.blockedBy?.length) {
+            return res.status(409).json({
+              message: "Activity is blocked by unfinished activities",
+              blockedBy: activity.blockedBy,
+            });
+          }
+
           updates.startedAt = new Date();
           await storage.startActivitySession(activityId);
         }
 
-        if (updates.status === 'paused') {
+        if (updates.status === 'paused' || updates.status === 'completed' || updates.status === 'cancelled') {
           const activeSession = await storage.getActiveSession(activityId);
           if (activeSession) {
-            const endedSession = await storage.endActivitySession(activeSession.id, new Date());
-            // Update total time
-            const currentTotal = activity.totalTime || 0;
-            updates.totalTime = currentTotal + (endedSession.duration || 0);
+            await storage.endActivitySession(activeSession.id, new Date());
           }
+          updates.totalTime = await storage.getTrackedTime(activityId);
+        }
+
+        if (updates.status === 'paused') {
           updates.pausedAt = new Date();
         }
 
         if (updates.status === 'completed') {
-          const activeSession = await storage.getActiveSession(activityId);
-          if (activeSession) {
-            const endedSession = await storage.endActivitySession(activeSession.id, new Date());
-            const currentTotal = activity.totalTime || 0;
-            updates.totalTime = currentTotal + (endedSession.duration || 0);
-          }
           updates.completedAt = new Date();
         }
 
         if (updates.status === 'cancelled') {
-          const activeSession = await storage.getActiveSession(activityId);
-          if (activeSession) {
-            await storage.endActivitySession(activeSession.id, new Date());
-          }
           updates.cancelledAt = new Date();
         }
       }
@@ -580,25 +1250,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Handle subtasks update for checklist activities
-      if (updates.subtasks && activity.type === 'checklist') {
-        // Remove existing subtasks and create new ones
-        await storage.deleteSubtasksByActivity(activityId);
+      if (subtaskItems) {
+        await syncSubtasks(activity, subtaskItems, (await storage.getUser(userId))!);
+      }
+      // Remove subtasks from updates to prevent DB error
+      delete updates.subtasks;
 
-        // Create new subtasks preserving their completion status
-        for (const subtask of updates.subtasks) {
-          await storage.createSubtask({
-            activityId,
-            title: subtask.title,
-            completed: subtask.completed || false,
-          });
-        }
+      if (tagIds) {
+        await storage.setActivityTags(activityId, tagIds);
+      }
+      delete updates.tagIds;
 
-        // Remove subtasks from updates to prevent DB error
-        delete updates.subtasks;
+      if (fieldValues) {
+        await storage.setCustomFieldValues(activityId, fieldValues);
       }
+      delete updates.customFieldValues;
 
+      await registerRequester(updates);
       const updatedActivity = await storage.updateActivity(activityId, updates);
+      if (recurrenceRule) {
+        await startRecurrence(updatedActivity, recurrenceRule, userId);
+      }
       const fullActivity = await storage.getActivity(activityId);
+      await recordActivityChanges(activity, fullActivity!, userId);
 
       // Create activity log for status changes
       if (updates.status && updates.status !== activity.status) {
@@ -633,285 +1307,1477 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Broadcast to WebSocket clients
-      broadcastToSector(fullActivity!.collaborator.sectorId!, {
+      publish(activityChannels(fullActivity!), {
         type: 'activity_updated',
         activity: fullActivity,
       });
 
-      // Also broadcast to all admins
-      broadcastToAdmins({
-        type: 'activity_updated',
-        activity: fullActivity,
-      });
+      if ((updates.status === 'completed' || updates.status === 'cancelled') && updates.status !== activity.status) {
+        await notifyDependents(updatedActivity, (await storage.getUser(userId))!);
+      }
 
       res.json(fullActivity);
     } catch (error) {
       console.error("Error updating activity:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update activity" });
     }
   });
 
-  // Time adjustment route
-  app.post('/api/activities/:id/adjust-time', isAuthenticated, async (req: any, res) => {
+  // Moves the activity to the trash; the owner or whoever manages their sector can do it
+  app.delete('/api/activities/:id', isAuthenticated, async (req, res) => {
     try {
-      const activityId = req.params.id;
-      const userId = req.user.id;
-      const { newTotalTime, reason, previousTotalTime, operation, adjustmentSeconds } = req.body;
-
-      const activity = await storage.getActivity(activityId);
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
       if (!activity) {
         return res.status(404).json({ message: "Activity not found" });
       }
 
-      // Check permissions
-      if (activity.collaboratorId !== userId) {
+      const canArchive = activity.collaboratorId === user?.id || user?.role === 'admin' ||
+        (user?.role === 'sector_chief' && !!user.sectorId && user.sectorId === activity.collaborator.sectorId);
+      if (!user || !canArchive) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Allow time adjustment for paused and completed activities
-      if (activity.status !== 'completed' && activity.status !== 'paused') {
-        return res.status(400).json({ message: "Can only adjust time for paused or completed activities" });
+      // A running timer would keep counting in the trash
+      if (activity.status === 'in_progress') {
+        return res.status(409).json({ message: "Pause the activity before archiving it" });
       }
 
-      // Validação adicional para operação de subtração
-      if (operation === 'subtract' && (activity.totalTime || 0) < adjustmentSeconds) {
-        return res.status(400).json({ message: "Não é possível subtrair mais tempo do que o disponível" });
+      const archived = await storage.archiveActivity(activity.id, user.id);
+      if (!archived) {
+        return res.status(404).json({ message: "Activity not found" });
       }
 
-      // Create audit log with operation info
-      const reasonWithOperation = `[${operation === 'add' ? 'ADIÇÃO' : 'SUBTRAÇÃO'}] ${reason}`;
-      await storage.createTimeAdjustmentLog({
-        activityId,
-        userId,
-        previousTime: previousTotalTime || activity.totalTime || 0,
-        newTime: newTotalTime,
-        reason: reasonWithOperation,
+      publish(activityChannels(activity), {
+        type: 'activity_archived',
+        activityId: activity.id,
       });
 
-      // Update activity time
-      await storage.updateActivity(activityId, { totalTime: newTotalTime });
-
-      const updatedActivity = await storage.getActivity(activityId);
-
-      // Broadcast to WebSocket clients
-      broadcastToSector(updatedActivity!.collaborator.sectorId!, {
-        type: 'activity_updated',
-        activity: updatedActivity,
-      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error archiving activity:", error);
+      res.status(500).json({ message: "Failed to archive activity" });
+    }
+  });
 
-      // Also broadcast to all admins
-      broadcastToAdmins({
-        type: 'activity_updated',
-        activity: updatedActivity,
-      });
+  // Trash (admins): archived activities, projects and plants, restored or purged for good
+  app.get('/api/trash', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      res.json(updatedActivity);
+      res.json({ retentionDays: ARCHIVE_RETENTION_DAYS, items: await getTrash() });
     } catch (error) {
-      console.error("Error adjusting time:", error);
-      res.status(500).json({ message: "Failed to adjust time" });
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
     }
   });
 
-  // Activity logs route (feed/timeline)
-  app.get('/api/activity-logs', isAuthenticated, async (req, res) => {
+  app.post('/api/trash/:kind/:id/restore', isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const user = await storage.getUser(userId);
-
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      // Parse query parameters for pagination and filtering
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50); // Max 50 per page
-      const days = parseInt(req.query.days as string) || 7; // Default: last 7 days
-      const offset = (page - 1) * limit;
-      const filterUserId = req.query.userId as string; // Parâmetro para filtrar por usuário
+      const kind = req.params.kind as TrashKind;
+      if (!trashKinds.includes(kind)) {
+        return res.status(404).json({ message: "Unknown record type" });
+      }
+      if (!await restoreFromTrash(kind, req.params.id)) {
+        return res.status(404).json({ message: "Record not found in trash" });
+      }
 
-      let logs: any[];
-      if (user.role === 'admin') {
-        // Admin pode ver todos os logs ou filtrar por usuário específico
-        if (filterUserId) {
-          logs = await storage.getActivityLogsByUser(filterUserId, limit, offset, days);
-        } else {
-          logs = await storage.getActivityLogs(limit, offset, days);
-        }
-      } else if (user.role === 'sector_chief' && user.sectorId) {
-        // Chefe de setor pode ver logs do setor ou filtrar por usuário específico do setor
-        if (filterUserId) {
-          logs = await storage.getActivityLogsByUser(filterUserId, limit, offset, days);
-        } else {
-          logs = await storage.getActivityLogsBySector(user.sectorId, limit, offset, days);
+      if (kind === 'activity') {
+        const activity = await storage.getActivity(req.params.id);
+        publish(activityChannels(activity!), {
+          type: 'activity_restored',
+          activity,
+        });
+      } else if (kind === 'project') {
+        const project = await storage.getProjectById(req.params.id);
+        if (project?.sectorId) {
+          publish([channel('sector', project.sectorId), channel('project', project.id)], {
+            type: 'project_created',
+            data: project,
+          });
         }
-      } else {
-        // Colaboradores só podem ver seus próprios logs
-        logs = await storage.getActivityLogsByUser(userId, limit, offset, days);
       }
 
-      // Add cache headers for better performance
-      res.set('Cache-Control', 'public, max-age=30'); // Cache for 30 seconds
-      res.json({
-        logs,
-        pagination: {
-          page,
-          limit,
-          hasMore: logs.length === limit
-        }
-      });
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching activity logs:", error);
-      res.status(500).json({ message: "Failed to fetch activity logs" });
+      console.error("Error restoring from trash:", error);
+      res.status(500).json({ message: "Failed to restore record" });
     }
   });
 
-  // Subtask routes
-  app.post('/api/activities/:id/subtasks', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/trash/:kind/:id', isAuthenticated, async (req, res) => {
     try {
-      const activityId = req.params.id;
-      const userId = req.user.id;
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      const activity = await storage.getActivity(activityId);
-      if (!activity || activity.collaboratorId !== userId) {
-        return res.status(404).json({ message: "Activity not found" });
+      const kind = req.params.kind as TrashKind;
+      if (!trashKinds.includes(kind)) {
+        return res.status(404).json({ message: "Unknown record type" });
+      }
+      const items = await getTrash();
+      if (!items.some((item) => item.kind === kind && item.id === req.params.id)) {
+        return res.status(404).json({ message: "Record not found in trash" });
       }
 
-      const subtaskData = insertSubtaskSchema.parse({
-        ...req.body,
-        activityId,
-      });
+      const blocker = await purgeBlocker(kind, req.params.id);
+      if (blocker) {
+        return res.status(409).json({ message: blocker });
+      }
 
-      const subtask = await storage.createSubtask(subtaskData);
-      res.status(201).json(subtask);
+      await purgeFromTrash(kind, req.params.id);
+      res.status(204).send();
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to create subtask" });
+      console.error("Error purging from trash:", error);
+      res.status(500).json({ message: "Failed to purge record" });
     }
   });
 
-  // Endpoint duplicado removido - usar o endpoint com validações abaixo
-
-  // Subtask routes
-  app.patch('/api/subtasks/:id', isAuthenticated, async (req, res) => {
+  // Recurring series
+  app.get('/api/recurrences/:id', isAuthenticated, async (req, res) => {
     try {
-      const subtaskId = req.params.id;
-      const userId = req.user!.id;
-      const { completed } = req.body;
-
-      console.log('Updating subtask:', { subtaskId, userId, completed });
+      const user = await storage.getUser(req.user!.id);
+      const series = await storage.getRecurrence(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Recurrence not found" });
+      }
 
-      // Get subtask with activity details
-      const subtask = await storage.getSubtask(subtaskId);
-      if (!subtask) {
-        return res.status(404).json({ message: "Subtask not found" });
+      const template = await storage.getActivity(series.templateActivityId);
+      if (!user || !template || !canManageRecurrence(user, template)) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      // Get activity to check permissions
-      const activity = await storage.getActivity(subtask.activityId);
-      if (!activity) {
-        return res.status(404).json({ message: "Activity not found" });
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching recurrence:", error);
+      res.status(500).json({ message: "Failed to fetch recurrence" });
+    }
+  });
+
+  // Pause, resume or end a series; resuming continues from the next occurrence, without catching up
+  app.patch('/api/recurrences/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const series = await storage.getRecurrence(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Recurrence not found" });
       }
 
-      // Check permissions - only the activity owner can update subtasks
-      if (activity.collaboratorId !== userId) {
+      const template = await storage.getActivity(series.templateActivityId);
+      if (!user || !template || !canManageRecurrence(user, template)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Update subtask
-      const updatedSubtask = await storage.updateSubtask(subtaskId, { completed });
+      if (series.status === 'ended') {
+        return res.status(409).json({ message: "Recurrence has already ended" });
+      }
 
-      // Get updated activity with all subtasks
-      const fullActivity = await storage.getActivity(activity.id);
+      const { status } = updateRecurrenceSchema.parse(req.body);
 
-      // Broadcast to WebSocket clients if sector exists
-      if (fullActivity?.collaborator?.sectorId) {
-        broadcastToSector(fullActivity.collaborator.sectorId, {
-          type: 'subtask_updated',
-          activity: fullActivity,
-          subtask: updatedSubtask,
-        });
+      let updates;
+      if (status === 'active') {
+        updates = upcomingOccurrence(series, new Date());
+      } else if (status === 'ended') {
+        updates = { status, nextRunAt: null };
+      } else {
+        updates = { status };
       }
 
-      res.json(updatedSubtask);
+      const updated = await storage.updateRecurrence(series.id, updates);
+      res.json(updated);
     } catch (error) {
-      console.error("Error updating subtask:", error);
-      res.status(500).json({ message: "Failed to update subtask", error: error instanceof Error ? error.message : 'Unknown error' });
+      console.error("Error updating recurrence:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update recurrence" });
     }
   });
 
-  // File upload routes
-  app.post('/api/activities/:activityId/upload-evidence', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  // The assignee accepts or declines an activity assigned by a chief/admin
+  app.post('/api/activities/:id/assignment', isAuthenticated, async (req, res) => {
     try {
-      console.log(`[UPLOAD] Iniciando upload para atividade ${req.params.activityId}`);
-      const { activityId } = req.params;
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      if (activity.collaboratorId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, reason } = respondAssignmentSchema.parse(req.body);
+
+      const responded = await storage.respondToAssignment(activity.id, decision, reason);
+      if (!responded) {
+        return res.status(409).json({ message: "Assignment is not awaiting a response" });
+      }
+
+      const fullActivity = await storage.getActivity(activity.id);
+      await recordActivityChanges(activity, fullActivity!, req.user!.id);
+      publish(activityChannels(fullActivity!), {
+        type: 'activity_updated',
+        activity: fullActivity,
+      });
+
+      await notifyAssignmentResponse(responded, activity.collaborator);
+      res.json(fullActivity);
+    } catch (error) {
+      console.error("Error responding to assignment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to respond to assignment" });
+    }
+  });
+
+  // Hands a pending or declined assignment to another collaborator; assigning it to yourself takes it back
+  app.post('/api/activities/:id/assign', isAuthenticated, async (req, res) => {
+    try {
+      const assigner = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      const managesActivity = assigner?.role === 'admin' ||
+        (assigner?.role === 'sector_chief' && !!assigner.sectorId && assigner.sectorId === activity.collaborator.sectorId);
+      if (!assigner || !managesActivity) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (activity.status !== 'next' || (activity.assignmentStatus !== 'pending' && activity.assignmentStatus !== 'declined')) {
+        return res.status(409).json({ message: "Only assignments not yet accepted can be reassigned" });
+      }
+
+      const { collaboratorId } = reassignActivitySchema.parse(req.body);
+      const assignee = await storage.getUser(collaboratorId);
+      if (!assignee) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+      if (!canAssign(assigner, assignee)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (assignee.id !== activity.collaboratorId) {
+        const wipError = await wipLimitError(assignee, activity.status);
+        if (wipError) {
+          return res.status(409).json({ message: wipError });
+        }
+      }
+
+      const takenBack = assignee.id === assigner.id;
+      const updated = await storage.updateActivity(activity.id, {
+        collaboratorId: assignee.id,
+        assignedById: takenBack ? null : assigner.id,
+        assignmentStatus: takenBack ? null : 'pending',
+        assignmentRespondedAt: null,
+        assignmentDeclineReason: null,
+      });
+      const fullActivity = await storage.getActivity(activity.id);
+      await recordActivityChanges(activity, fullActivity!, assigner.id);
+
+      // The previous assignee's views drop the activity as well
+      publish(Array.from(new Set([...activityChannels(activity), ...activityChannels(fullActivity!)])), {
+        type: 'activity_updated',
+        activity: fullActivity,
+      });
+
+      if (!takenBack) {
+        await notifyAssignment(updated, assigner);
+      }
+      res.json(fullActivity);
+    } catch (error) {
+      console.error("Error reassigning activity:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reassign activity" });
+    }
+  });
+
+  // Dependency chain: what the activity waits on (recursively) and what waits on it
+  app.get('/api/activities/:id/dependencies', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canUseAsBlocker(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const blockers = await getBlockerChain(activity.id);
+      const dependents = await storage.getDependents(activity.id);
+
+      res.json({
+        blockers,
+        dependents: dependents.map(({ activity: dependent, collaborator }) => ({
+          id: dependent.id,
+          title: dependent.title,
+          status: dependent.status,
+          collaboratorId: dependent.collaboratorId,
+          collaboratorName: `${collaborator.firstName || ''} ${collaborator.lastName || ''}`.trim() || collaborator.username,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching activity dependencies:", error);
+      res.status(500).json({ message: "Failed to fetch activity dependencies" });
+    }
+  });
+
+  // Open activities the user may pick as blockers: their sector's, or everything for admins
+  app.get('/api/activities/:id/blocker-candidates', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canManageDependencies(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let candidates;
+      if (user.role === 'admin') {
+        candidates = await storage.getAllActivities();
+      } else if (user.sectorId) {
+        candidates = await storage.getActivitiesBySector(user.sectorId);
+      } else {
+        candidates = await storage.getActivitiesByCollaborator(user.id);
+      }
+
+      const existing = new Set((await storage.getBlockers(activity.id)).map(({ activity: blocker }) => blocker.id));
+      res.json(candidates
+        .filter((candidate) =>
+          candidate.id !== activity.id &&
+          !existing.has(candidate.id) &&
+          candidate.status !== 'completed' &&
+          candidate.status !== 'cancelled')
+        .map((candidate) => ({
+          id: candidate.id,
+          title: candidate.title,
+          status: candidate.status,
+          collaboratorId: candidate.collaboratorId,
+          collaboratorName: `${candidate.collaborator.firstName || ''} ${candidate.collaborator.lastName || ''}`.trim() || candidate.collaborator.username,
+        })));
+    } catch (error) {
+      console.error("Error fetching blocker candidates:", error);
+      res.status(500).json({ message: "Failed to fetch blocker candidates" });
+    }
+  });
+
+  app.post('/api/activities/:id/dependencies', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canManageDependencies(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (activity.status === 'completed' || activity.status === 'cancelled') {
+        return res.status(400).json({ message: "Cannot edit completed or cancelled activities" });
+      }
+
+      const { blockerId } = addDependencySchema.parse(req.body);
+      if (blockerId === activity.id) {
+        return res.status(400).json({ message: "An activity cannot block itself" });
+      }
+
+      const blocker = await storage.getActivity(blockerId);
+      if (!blocker) {
+        return res.status(404).json({ message: "Blocking activity not found" });
+      }
+      if (!canUseAsBlocker(user, blocker)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (await storage.getDependency(activity.id, blockerId)) {
+        return res.status(409).json({ message: "Dependency already exists" });
+      }
+      if (await wouldCreateCycle(activity.id, blockerId)) {
+        return res.status(400).json({ message: "Dependency would create a cycle" });
+      }
+
+      await storage.addDependency({
+        activityId: activity.id,
+        blockerId,
+        createdById: user.id,
+      });
+
+      const fullActivity = await storage.getActivity(activity.id);
+      publish(activityChannels(fullActivity!), {
+        type: 'activity_updated',
+        activity: fullActivity,
+      });
+
+      res.status(201).json(fullActivity);
+    } catch (error) {
+      console.error("Error adding activity dependency:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add activity dependency" });
+    }
+  });
+
+  app.delete('/api/activities/:id/dependencies/:blockerId', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canManageDependencies(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!(await storage.getDependency(activity.id, req.params.blockerId))) {
+        return res.status(404).json({ message: "Dependency not found" });
+      }
+
+      await storage.removeDependency(activity.id, req.params.blockerId);
+
+      const fullActivity = await storage.getActivity(activity.id);
+      publish(activityChannels(fullActivity!), {
+        type: 'activity_updated',
+        activity: fullActivity,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing activity dependency:", error);
+      res.status(500).json({ message: "Failed to remove activity dependency" });
+    }
+  });
+
+  // Comment threads
+  app.get('/api/activities/:id/comments', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canViewActivity(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const comments = await storage.getCommentsByActivity(activity.id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  // Field-level change history of an activity, newest first
+  app.get('/api/activities/:id/history', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canViewActivity(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const changes = await storage.getActivityChanges(activity.id);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error fetching activity history:", error);
+      res.status(500).json({ message: "Failed to fetch activity history" });
+    }
+  });
+
+  // Admins: every change a user made to any activity in a period
+  app.get('/api/activity-changes', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { userId, startDate, endDate, limit, offset } = activityChangesQuerySchema.parse(req.query);
+      const from = startOfDay(parseISO(startDate));
+      const to = endOfDay(parseISO(endDate));
+      if (from > to) {
+        return res.status(400).json({ message: "Start date must be before end date" });
+      }
+
+      const changes = await storage.getActivityChangesByUser(userId, from, to, limit, offset);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error fetching activity changes:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch activity changes" });
+    }
+  });
+
+  app.post('/api/activities/:id/comments', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canViewActivity(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { body } = commentBodySchema.parse(req.body);
+      const mentioned = await resolveMentions(body, activity);
+
+      const comment = await storage.createComment({
+        activityId: activity.id,
+        authorId: user.id,
+        body,
+        mentionedUserIds: mentioned.map((mentionedUser) => mentionedUser.id),
+      });
+
+      await storage.createActivityLog({
+        activityId: activity.id,
+        userId: user.id,
+        action: 'commented',
+        activityTitle: activity.title,
+      });
+
+      const created = { ...comment, author: user };
+      publish(activityChannels(activity), {
+        type: 'comment_created',
+        activityId: activity.id,
+        comment: created,
+      });
+
+      await notifyMentions(comment, activity, user, mentioned);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating comment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create comment" });
+    }
+  });
+
+  // Only the author edits; people mentioned for the first time in the edit are notified
+  app.patch('/api/comments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const comment = await storage.getComment(req.params.id);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!user || comment.authorId !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const activity = await storage.getActivity(comment.activityId);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      const { body } = commentBodySchema.parse(req.body);
+      const mentioned = await resolveMentions(body, activity);
+      const alreadyNotified = new Set(comment.mentionedUserIds || []);
+
+      const updated = await storage.updateComment(comment.id, {
+        body,
+        mentionedUserIds: Array.from(new Set([...(comment.mentionedUserIds || []), ...mentioned.map((mentionedUser) => mentionedUser.id)])),
+        editedAt: new Date(),
+      });
+
+      const result = { ...updated, author: user };
+      publish(activityChannels(activity), {
+        type: 'comment_updated',
+        activityId: activity.id,
+        comment: result,
+      });
+
+      await notifyMentions(updated, activity, user, mentioned.filter((mentionedUser) => !alreadyNotified.has(mentionedUser.id)));
+      res.json(result);
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  app.delete('/api/comments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const comment = await storage.getComment(req.params.id);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.authorId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteComment(comment.id);
+
+      const activity = await storage.getActivity(comment.activityId);
+      if (activity) {
+        publish(activityChannels(activity), {
+          type: 'comment_deleted',
+          activityId: activity.id,
+          commentId: comment.id,
+        });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // Time adjustment route
+  app.post('/api/activities/:id/adjust-time', isAuthenticated, async (req: any, res) => {
+    try {
+      const activityId = req.params.id;
+      const userId = req.user.id;
+      const { newTotalTime, reason, operation, adjustmentSeconds } = req.body;
+
+      const activity = await storage.getActivity(activityId);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      // Check permissions
+      if (activity.collaboratorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Allow time adjustment for paused and completed activities
+      if (activity.status !== 'completed' && activity.status !== 'paused') {
+        return res.status(400).json({ message: "Can only adjust time for paused or completed activities" });
+      }
+
+      const lockedWeek = await findLockedWeek(userId, activityWeekDates(activity));
+      if (lockedWeek) {
+        return res.status(LOCKED_STATUS).json({ message: lockedWeekMessage(lockedWeek) });
+      }
+
+      // The previous total comes from the sessions, not from what the client displayed
+      const currentTotal = await storage.getTrackedTime(activityId);
+      const seconds = Number(adjustmentSeconds);
+      const newTime = Number.isFinite(seconds) && (operation === 'add' || operation === 'subtract')
+        ? currentTotal + (operation === 'add' ? seconds : -seconds)
+        : Number(newTotalTime);
+
+      if (!Number.isFinite(newTime)) {
+        return res.status(400).json({ message: "Invalid adjustment" });
+      }
+
+      // Validação adicional para operação de subtração
+      if (newTime < 0) {
+        return res.status(400).json({ message: "Não é possível subtrair mais tempo do que o disponível" });
+      }
+
+      const user = await storage.getUser(userId);
+      const needsApproval = adjustmentNeedsApproval(user!, currentTotal, newTime);
+
+      // Create audit log with operation info
+      const reasonWithOperation = `[${operation === 'add' ? 'ADIÇÃO' : 'SUBTRAÇÃO'}] ${reason}`;
+      const adjustment = await storage.createTimeAdjustmentLog({
+        activityId,
+        userId,
+        previousTime: currentTotal,
+        newTime,
+        reason: reasonWithOperation,
+        status: needsApproval ? 'pending' : 'approved',
+      });
+
+      // Large adjustments leave the total untouched until the sector chief decides
+      if (needsApproval) {
+        await requestApproval(adjustment, activity, user!);
+        return res.status(202).json({ ...activity, pendingAdjustment: adjustment });
+      }
+
+      // Update activity time
+      await storage.recalculateTotalTime(activityId);
+
+      const updatedActivity = await storage.getActivity(activityId);
+
+      // Broadcast to WebSocket clients
+      publish(activityChannels(updatedActivity!), {
+        type: 'activity_updated',
+        activity: updatedActivity,
+      });
+
+      res.json(updatedActivity);
+    } catch (error) {
+      console.error("Error adjusting time:", error);
+      res.status(500).json({ message: "Failed to adjust time" });
+    }
+  });
+
+  // Time adjustment approval routes
+  app.get('/api/time-adjustments/pending', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+
+      if (user?.role === 'admin') {
+        const adjustments = await storage.getPendingTimeAdjustments();
+        return res.json(adjustments.filter((adjustment) => adjustment.userId !== user.id));
+      }
+
+      if (user?.role === 'sector_chief' && user.sectorId) {
+        const adjustments = await storage.getPendingTimeAdjustments(user.sectorId);
+        return res.json(adjustments.filter((adjustment) => adjustment.userId !== user.id));
+      }
+
+      res.status(403).json({ message: "Access denied" });
+    } catch (error) {
+      console.error("Error fetching pending time adjustments:", error);
+      res.status(500).json({ message: "Failed to fetch pending time adjustments" });
+    }
+  });
+
+  app.post('/api/time-adjustments/:id/review', isAuthenticated, async (req, res) => {
+    try {
+      const reviewer = await storage.getUser(req.user!.id);
+      const adjustment = await storage.getTimeAdjustmentLog(req.params.id);
+      if (!adjustment) {
+        return res.status(404).json({ message: "Time adjustment not found" });
+      }
+
+      const collaborator = await storage.getUser(adjustment.userId);
+      if (!reviewer || !collaborator || !canReview(reviewer, collaborator)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, note } = reviewTimeAdjustmentSchema.parse(req.body);
+
+      let reviewed: TimeAdjustmentLog | undefined;
+      if (decision === 'approved') {
+        const activity = await storage.getActivity(adjustment.activityId);
+        const lockedWeek = await findLockedWeek(collaborator.id, activityWeekDates(activity!));
+        if (lockedWeek) {
+          return res.status(LOCKED_STATUS).json({ message: lockedWeekMessage(lockedWeek) });
+        }
+
+        // Session changes waiting for approval are only applied now
+        if (adjustment.kind === 'session') {
+          const result = await approveSessionChange(adjustment, activity!, reviewer.id, note);
+          if (result.error) {
+            return res.status(result.error.status).json({ message: result.error.message });
+          }
+          reviewed = result.reviewed;
+        } else {
+          reviewed = await storage.reviewTimeAdjustment(adjustment.id, reviewer.id, decision, note);
+        }
+      } else {
+        reviewed = await storage.reviewTimeAdjustment(adjustment.id, reviewer.id, decision, note);
+      }
+
+      if (!reviewed) {
+        return res.status(409).json({ message: "Time adjustment was already reviewed" });
+      }
+
+      // Approved adjustments and session changes start counting towards the total
+      if (decision === 'approved') {
+        await storage.recalculateTotalTime(adjustment.activityId);
+      }
+
+      const activity = await storage.getActivity(adjustment.activityId);
+      publish(activityChannels(activity!), {
+        type: 'activity_updated',
+        activity,
+      });
+      await notifyReviewDecision(reviewed, activity!, collaborator);
+
+      res.json(reviewed);
+    } catch (error) {
+      console.error("Error reviewing time adjustment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to review time adjustment" });
+    }
+  });
+
+  // Timesheet routes
+  app.get('/api/timesheets/week/:weekStart', isAuthenticated, async (req, res) => {
+    try {
+      const { weekStart } = req.params;
+      if (!isWeekStart(weekStart)) {
+        return res.status(400).json({ message: "Invalid week" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      const targetUserId = (req.query.userId as string) || req.user!.id;
+
+      // Others' timesheets are visible to their reviewers
+      if (targetUserId !== req.user!.id) {
+        const target = await storage.getUser(targetUserId);
+        if (!user || !target || !canReview(user, target)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const week = await buildTimesheetWeek(targetUserId, weekStart);
+      res.json(week);
+    } catch (error) {
+      console.error("Error fetching timesheet:", error);
+      res.status(500).json({ message: "Failed to fetch timesheet" });
+    }
+  });
+
+  app.post('/api/timesheets/week/:weekStart/submit', isAuthenticated, async (req, res) => {
+    try {
+      const { weekStart } = req.params;
+      if (!isWeekStart(weekStart)) {
+        return res.status(400).json({ message: "Invalid week" });
+      }
+
+      if (weekRange(weekStart).start > new Date()) {
+        return res.status(400).json({ message: "Não é possível enviar uma semana que ainda não começou" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      const existing = await storage.getTimesheet(user!.id, weekStart);
+      if (existing?.status === 'approved') {
+        return res.status(LOCKED_STATUS).json({ message: lockedWeekMessage(weekStart) });
+      }
+
+      const week = await buildTimesheetWeek(user!.id, weekStart);
+      const timesheet = await storage.submitTimesheet(user!.id, weekStart, week.total);
+
+      publishTimesheet(timesheet, user!);
+      const collaboratorName = `${user!.firstName || ''} ${user!.lastName || ''}`.trim() || user!.username;
+      for (const reviewer of await getReviewers(user!)) {
+        await notifyUser({
+          userId: reviewer.id,
+          type: 'timesheet_submitted',
+          title: 'Folha de horas aguardando aprovação',
+          message: `${collaboratorName} enviou a folha de horas da semana de ${format(parseISO(weekStart), 'dd/MM/yyyy')}.`,
+          data: { timesheetId: timesheet.id, weekStart },
+        });
+      }
+
+      res.json({ ...week, timesheet });
+    } catch (error) {
+      console.error("Error submitting timesheet:", error);
+      res.status(500).json({ message: "Failed to submit timesheet" });
+    }
+  });
+
+  app.get('/api/timesheets/pending', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+
+      if (user?.role === 'admin') {
+        const pending = await storage.getSubmittedTimesheets();
+        return res.json(pending.filter((timesheet) => timesheet.userId !== user.id));
+      }
+
+      if (user?.role === 'sector_chief' && user.sectorId) {
+        const pending = await storage.getSubmittedTimesheets(user.sectorId);
+        return res.json(pending.filter((timesheet) => timesheet.userId !== user.id));
+      }
+
+      res.status(403).json({ message: "Access denied" });
+    } catch (error) {
+      console.error("Error fetching pending timesheets:", error);
+      res.status(500).json({ message: "Failed to fetch pending timesheets" });
+    }
+  });
+
+  app.post('/api/timesheets/:id/review', isAuthenticated, async (req, res) => {
+    try {
+      const reviewer = await storage.getUser(req.user!.id);
+      const timesheet = await storage.getTimesheetById(req.params.id);
+      if (!timesheet) {
+        return res.status(404).json({ message: "Timesheet not found" });
+      }
+
+      const collaborator = await storage.getUser(timesheet.userId);
+      if (!reviewer || !collaborator || !canReview(reviewer, collaborator)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, note } = reviewTimesheetSchema.parse(req.body);
+
+      const reviewed = await storage.reviewTimesheet(timesheet.id, reviewer.id, decision, note);
+      if (!reviewed) {
+        return res.status(409).json({ message: "Timesheet is not awaiting review" });
+      }
+
+      await notifyTimesheetDecision(reviewed, collaborator);
+      res.json(reviewed);
+    } catch (error) {
+      console.error("Error reviewing timesheet:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to review timesheet" });
+    }
+  });
+
+  // Only admins can unlock an approved week
+  app.post('/api/timesheets/:id/reopen', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const timesheet = await storage.getTimesheetById(req.params.id);
+      if (!timesheet) {
+        return res.status(404).json({ message: "Timesheet not found" });
+      }
+
+      const reopened = await storage.reopenTimesheet(timesheet.id, user.id);
+      if (!reopened) {
+        return res.status(409).json({ message: "Timesheet is not approved" });
+      }
+
+      const collaborator = await storage.getUser(timesheet.userId);
+      await notifyTimesheetDecision(reopened, collaborator!);
+      res.json(reopened);
+    } catch (error) {
+      console.error("Error reopening timesheet:", error);
+      res.status(500).json({ message: "Failed to reopen timesheet" });
+    }
+  });
+
+  // Session interval routes
+  app.get('/api/activities/:id/sessions', isAuthenticated, async (req, res) => {
+    try {
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      const userId = req.user!.id;
+      const user = await storage.getUser(userId);
+
+      if (!user || !canViewActivity(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const sessions = await storage.getSessionsByActivity(activity.id);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Audit trail of the activity's time: manual adjustments and session edits
+  app.get('/api/activities/:id/time-adjustments', isAuthenticated, async (req, res) => {
+    try {
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      const userId = req.user!.id;
+      const user = await storage.getUser(userId);
+
+      if (!user || !canViewActivity(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const adjustments = await storage.getTimeAdjustmentHistory({ activityId: activity.id });
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Error fetching time adjustments:", error);
+      res.status(500).json({ message: "Failed to fetch time adjustments" });
+    }
+  });
+
+  app.patch('/api/sessions/:id', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const activity = await storage.getActivity(session.activityId);
+      if (!activity || activity.collaboratorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { startedAt, endedAt, reason } = editSessionSchema.parse(req.body);
+      const intervals = [{ startedAt, endedAt }];
+
+      const invalid = await validateSessionChange(activity, [session], intervals);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const user = await storage.getUser(userId);
+      const { activity: updatedActivity, pendingAdjustment } = await applySessionChange(activity, user!, 'edit', [session], intervals, reason);
+      if (pendingAdjustment) {
+        return res.status(202).json({ ...updatedActivity, pendingAdjustment });
+      }
+      res.json(updatedActivity);
+    } catch (error) {
+      console.error("Error editing session:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to edit session" });
+    }
+  });
+
+  app.post('/api/sessions/:id/split', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const activity = await storage.getActivity(session.activityId);
+      if (!activity || activity.collaboratorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { splitAt, resumeAt = splitAt, reason } = splitSessionSchema.parse(req.body);
+      if (!session.endedAt || splitAt <= session.startedAt || resumeAt < splitAt || resumeAt >= session.endedAt) {
+        return res.status(400).json({ message: "O ponto de divisão deve estar dentro da sessão" });
+      }
+
+      const intervals = [
+        { startedAt: session.startedAt, endedAt: splitAt },
+        { startedAt: resumeAt, endedAt: session.endedAt },
+      ];
+
+      const invalid = await validateSessionChange(activity, [session], intervals);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const user = await storage.getUser(userId);
+      const { activity: updatedActivity, pendingAdjustment } = await applySessionChange(activity, user!, 'split', [session], intervals, reason);
+      if (pendingAdjustment) {
+        return res.status(202).json({ ...updatedActivity, pendingAdjustment });
+      }
+      res.json(updatedActivity);
+    } catch (error) {
+      console.error("Error splitting session:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to split session" });
+    }
+  });
+
+  app.post('/api/activities/:id/sessions/merge', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const activity = await storage.getActivity(req.params.id);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      if (activity.collaboratorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { sessionIds, reason } = mergeSessionsSchema.parse(req.body);
+      const activitySessions = await storage.getSessionsByActivity(activity.id);
+      const sessions = activitySessions.filter((session) => sessionIds.includes(session.id));
+      if (sessions.length !== new Set(sessionIds).size) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Only consecutive sessions can be merged; the gaps between them become tracked time
+      const positions = sessions.map((session) => activitySessions.indexOf(session));
+      if (Math.max(...positions) - Math.min(...positions) !== sessions.length - 1) {
+        return res.status(400).json({ message: "Apenas sessões consecutivas podem ser mescladas" });
+      }
+
+      const intervals = [{
+        startedAt: sessions[0].startedAt,
+        endedAt: sessions[sessions.length - 1].endedAt ?? new Date(),
+      }];
+
+      const invalid = await validateSessionChange(activity, sessions, intervals);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const user = await storage.getUser(userId);
+      const { activity: updatedActivity, pendingAdjustment } = await applySessionChange(activity, user!, 'merge', sessions, intervals, reason);
+      if (pendingAdjustment) {
+        return res.status(202).json({ ...updatedActivity, pendingAdjustment });
+      }
+      res.json(updatedActivity);
+    } catch (error) {
+      console.error("Error merging sessions:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to merge sessions" });
+    }
+  });
+
+  app.delete('/api/sessions/:id', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const activity = await storage.getActivity(session.activityId);
+      if (!activity || activity.collaboratorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { reason } = deleteSessionSchema.parse(req.body);
+
+      const invalid = await validateSessionChange(activity, [session], []);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const user = await storage.getUser(userId);
+      const { activity: updatedActivity, pendingAdjustment } = await applySessionChange(activity, user!, 'delete', [session], [], reason);
+      if (pendingAdjustment) {
+        return res.status(202).json({ ...updatedActivity, pendingAdjustment });
+      }
+      res.json(updatedActivity);
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to delete session" });
+    }
+  });
+
+  // Activity logs route (feed/timeline)
+  app.get('/api/activity-logs', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Parse query parameters for pagination and filtering
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50); // Max 50 per page
+      const days = parseInt(req.query.days as string) || 7; // Default: last 7 days
+      const offset = (page - 1) * limit;
+      const filterUserId = req.query.userId as string; // Parâmetro para filtrar por usuário
+
+      let logs: any[];
+      if (user.role === 'admin') {
+        // Admin pode ver todos os logs ou filtrar por usuário específico
+        if (filterUserId) {
+          logs = await storage.getActivityLogsByUser(filterUserId, limit, offset, days);
+        } else {
+          logs = await storage.getActivityLogs(limit, offset, days);
+        }
+      } else if (user.role === 'sector_chief' && user.sectorId) {
+        // Chefe de setor pode ver logs do setor ou filtrar por usuário específico do setor
+        if (filterUserId) {
+          logs = await storage.getActivityLogsByUser(filterUserId, limit, offset, days);
+        } else {
+          logs = await storage.getActivityLogsBySector(user.sectorId, limit, offset, days);
+        }
+      } else {
+        // Colaboradores só podem ver seus próprios logs
+        logs = await storage.getActivityLogsByUser(userId, limit, offset, days);
+      }
+
+      // Add cache headers for better performance
+      res.set('Cache-Control', 'public, max-age=30'); // Cache for 30 seconds
+      res.json({
+        logs,
+        pagination: {
+          page,
+          limit,
+          hasMore: logs.length === limit
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching activity logs:", error);
+      res.status(500).json({ message: "Failed to fetch activity logs" });
+    }
+  });
+
+  // Subtask routes
+  app.post('/api/activities/:id/subtasks', isAuthenticated, async (req: any, res) => {
+    try {
+      const activityId = req.params.id;
+      const userId = req.user.id;
+
+      const activity = await storage.getActivity(activityId);
+      if (!activity || activity.collaboratorId !== userId) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      // New items go to the end of the checklist
+      const subtaskData = insertSubtaskSchema.parse({
+        title: req.body.title,
+        activityId,
+        order: activity.subtasks?.length || 0,
+      });
+
+      const subtask = await storage.createSubtask(subtaskData);
+      await recordActivityChanges(activity, (await storage.getActivity(activityId))!, userId);
+      res.status(201).json(subtask);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create subtask" });
+    }
+  });
+
+  // People a checklist item can be handed to: the caller's sector (everyone active, for admins)
+  app.get('/api/subtasks/assignee-candidates', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const members = user.role === 'admin'
+        ? await storage.getAllUsers()
+        : user.sectorId ? await storage.getUsersBySector(user.sectorId) : [user];
+
+      res.json(members.filter((member) => member.isActive));
+    } catch (error) {
+      console.error("Error fetching subtask assignee candidates:", error);
+      res.status(500).json({ message: "Failed to fetch assignee candidates" });
+    }
+  });
+
+  // Subtask routes
+  app.patch('/api/subtasks/:id', isAuthenticated, async (req, res) => {
+    try {
+      const subtaskId = req.params.id;
+      const userId = req.user!.id;
+      const { completed } = req.body;
+
+      console.log('Updating subtask:', { subtaskId, userId, completed });
+
+      // Get subtask with activity details
+      const subtask = await storage.getSubtask(subtaskId);
+      if (!subtask) {
+        return res.status(404).json({ message: "Subtask not found" });
+      }
+
+      // Get activity to check permissions
+      const activity = await storage.getActivity(subtask.activityId);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      // Check permissions - the activity owner and the subtask assignee can tick it
+      if (activity.collaboratorId !== userId && subtask.assigneeId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Update subtask
+      const updatedSubtask = await storage.updateSubtask(subtaskId, completionFields(!!completed, userId));
+      if (updatedSubtask.completed && !subtask.completed) {
+        await logSubtaskCompleted(activity, updatedSubtask, userId);
+      }
+
+      // Get updated activity with all subtasks
+      const fullActivity = await storage.getActivity(activity.id);
+      await recordActivityChanges(activity, fullActivity!, userId);
+
+      // Broadcast to WebSocket clients
+      publish(activityChannels(fullActivity!), {
+        type: 'subtask_updated',
+        activity: fullActivity,
+        subtask: updatedSubtask,
+      });
+
+      res.json(updatedSubtask);
+    } catch (error) {
+      console.error("Error updating subtask:", error);
+      res.status(500).json({ message: "Failed to update subtask", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Attachment routes (evidence files; several per activity, optionally per subtask)
+  app.get('/api/activities/:activityId/attachments', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const activity = await storage.getActivity(req.params.activityId);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!user || !canViewActivity(user, activity)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const attachments = await storage.getAttachmentsByActivity(activity.id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post('/api/activities/:activityId/attachments', isAuthenticated, upload.array('files'), async (req: any, res) => {
+    const files: Express.Multer.File[] = req.files || [];
+
+    // Uploaded files are discarded whenever the request is refused
+    const discardFiles = async () => {
+      for (const file of files) {
+        try {
+          await deleteFile(file.path);
+        } catch (deleteError) {
+          console.error("Error deleting file after upload failure:", deleteError);
+        }
+      }
+    };
+
+    try {
+      const { activityId } = req.params;
       const userId = req.user.id;
 
-      if (!req.file) {
-        console.log(`[UPLOAD] Nenhum arquivo foi enviado`);
+      if (files.length === 0) {
         return res.status(400).json({ message: "Nenhum arquivo foi enviado" });
       }
 
-      console.log(`[UPLOAD] Arquivo recebido: ${req.file.originalname}, tamanho: ${req.file.size}, salvo em: ${req.file.path}`);
+      console.log(`[UPLOAD] ${files.length} arquivo(s) recebido(s) para atividade ${activityId}`);
 
-      // Verificar se a atividade existe e se o usuário tem permissão
       const activity = await storage.getActivity(activityId);
       if (!activity) {
-        console.log(`[UPLOAD] Atividade ${activityId} não encontrada`);
-        // Deletar arquivo se atividade não existir
-        await deleteFile(req.file.path);
+        await discardFiles();
         return res.status(404).json({ message: "Activity not found" });
       }
 
-      // Verificar permissão (apenas o colaborador da atividade pode fazer upload)
+      // Apenas o colaborador da atividade anexa evidências
       if (activity.collaboratorId !== userId) {
-        console.log(`[UPLOAD] Usuário ${userId} não tem permissão para atividade ${activityId}`);
-        // Deletar arquivo se usuário não tem permissão
-        await deleteFile(req.file.path);
+        await discardFiles();
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Gerar URL relativa do arquivo
-      const fileUrl = getFileUrl(req.file.path);
-      console.log(`[UPLOAD] URL do arquivo gerada: ${fileUrl}`);
+      const subtaskId = req.body.subtaskId || null;
+      if (subtaskId && !activity.subtasks?.some((subtask) => subtask.id === subtaskId)) {
+        await discardFiles();
+        return res.status(400).json({ message: "Subtask does not belong to this activity" });
+      }
 
-      // Atualizar atividade com URL da evidência
-      const updatedActivity = await storage.updateActivity(activityId, {
-        evidenceUrl: fileUrl
-      });
+      const { caption } = attachmentCaptionSchema.parse({ caption: req.body.caption || null });
+
+      const attachments = [];
+      for (const file of files) {
+        attachments.push(await storage.createAttachment({
+          activityId,
+          subtaskId,
+          filePath: getFileUrl(file.path),
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+          caption: caption || null,
+          uploadedById: userId,
+        }));
+      }
 
-      console.log(`[UPLOAD] Upload concluído com sucesso para atividade ${activityId}`);
+      // Subscribers get the activity with the new attachments
+      const updatedActivity = await storage.getActivity(activityId);
+      publish(activityChannels(updatedActivity!), {
+        type: 'activity_updated',
+        activity: updatedActivity,
+      });
 
-      res.json({
-        message: "Arquivo enviado com sucesso",
-        file: {
-          originalName: req.file.originalname,
-          filename: req.file.filename,
-          size: req.file.size,
-          mimetype: req.file.mimetype,
-          url: fileUrl
-        },
-        activity: updatedActivity
+      res.status(201).json(attachments);
+    } catch (error) {
+      console.error("Error uploading attachments:", error);
+      await discardFiles();
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({
+        message: "Erro ao enviar arquivo",
+        error: error instanceof Error ? error.message : 'Unknown error'
       });
+    }
+  });
+
+  app.patch('/api/attachments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const activity = await storage.getActivity(attachment.activityId);
+      if (!activity || (attachment.uploadedById !== req.user!.id && activity.collaboratorId !== req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { caption } = attachmentCaptionSchema.parse(req.body);
+      const updated = await storage.updateAttachment(attachment.id, { caption: caption || null });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating attachment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update attachment" });
+    }
+  });
+
+  // Removes one attachment and its file; the others stay
+  app.delete('/api/attachments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const activity = await storage.getActivity(attachment.activityId);
+      if (!activity || (attachment.uploadedById !== req.user!.id && activity.collaboratorId !== req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-    } catch (error) {
-      console.error("Error uploading file:", error);
+      await storage.deleteAttachment(attachment.id);
 
-      // Tentar deletar arquivo em caso de erro
-      if (req.file) {
-        try {
-          await deleteFile(req.file.path);
-          console.log(`[UPLOAD] Arquivo deletado após erro: ${req.file.path}`);
-        } catch (deleteError) {
-          console.error("Error deleting file after upload failure:", deleteError);
-        }
+      try {
+        await deleteFile(getFilePath(attachment.filePath));
+        console.log(`[DELETE] Arquivo deletado: ${attachment.filePath}`);
+      } catch (deleteError) {
+        // A referência no banco já foi removida, que é o que importa
+        console.warn("Could not delete file:", deleteError);
       }
 
-      res.status(500).json({
-        message: "Erro ao enviar arquivo",
-        error: error instanceof Error ? error.message : 'Unknown error'
+      publish(activityChannels(activity), {
+        type: 'activity_updated',
+        activity,
       });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
     }
   });
 
@@ -936,23 +2802,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (activityIdMatch) {
         const activityId = activityIdMatch[1];
-        const activity = await storage.getActivity(activityId);
-
-        if (activity) {
-          const userId = req.user.id;
-          const userRole = req.user.role;
-          const userSectorId = req.user.sectorId;
-
-          // Verificar permissão: colaborador da atividade, admin, ou chefe do mesmo setor
-          const hasPermission =
-            activity.collaboratorId === userId ||
-            userRole === 'admin' ||
-            (userRole === 'sector_chief' && activity.collaborator?.sectorId === userSectorId);
-
-          if (!hasPermission) {
-            console.log(`[SERVE] Acesso negado ao arquivo ${filename} para usuário ${userId}`);
-            return res.status(403).json({ message: "Acesso negado ao arquivo" });
-          }
+        // Archived activities keep their files until purged, and they stay just as protected
+        const activity = await storage.getActivity(activityId, { includeArchived: true });
+        if (!activity) {
+          console.log(`[SERVE] Atividade do arquivo ${filename} não encontrada`);
+          return res.status(404).json({ message: "Arquivo não encontrado" });
+        }
+
+        const userId = req.user.id;
+        const user = await storage.getUser(userId);
+
+        // Verificar permissão: colaborador da atividade, admin, ou chefe do mesmo setor
+        const hasPermission = !!user && canViewActivity(user, activity);
+
+        if (!hasPermission) {
+          console.log(`[SERVE] Acesso negado ao arquivo ${filename} para usuário ${userId}`);
+          return res.status(403).json({ message: "Acesso negado ao arquivo" });
         }
       }
 
@@ -969,58 +2834,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Rota para deletar evidência
-  app.delete('/api/activities/:activityId/evidence', isAuthenticated, async (req: any, res) => {
-    try {
-      const { activityId } = req.params;
-      const userId = req.user.id;
-
-      console.log(`[DELETE] Tentando deletar evidência da atividade ${activityId}`);
-
-      // Verificar se a atividade existe e se o usuário tem permissão
-      const activity = await storage.getActivity(activityId);
-      if (!activity) {
-        return res.status(404).json({ message: "Activity not found" });
-      }
-
-      // Verificar permissão
-      if (activity.collaboratorId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      // Deletar arquivo físico se existir
-      if (activity.evidenceUrl) {
-        try {
-          const fullPath = getFilePath(activity.evidenceUrl);
-          await deleteFile(fullPath);
-          console.log(`[DELETE] Arquivo deletado: ${fullPath}`);
-        } catch (deleteError) {
-          console.warn("Could not delete file:", deleteError);
-          // Não retornar erro, pois o importante é limpar a referência no banco
-        }
-      }
-
-      // Limpar URL da evidência na atividade
-      const updatedActivity = await storage.updateActivity(activityId, {
-        evidenceUrl: null
-      });
-
-      console.log(`[DELETE] Evidência removida da atividade ${activityId}`);
-
-      res.json({
-        message: "Evidência removida com sucesso",
-        activity: updatedActivity
-      });
-
-    } catch (error) {
-      console.error("Error deleting evidence:", error);
-      res.status(500).json({
-        message: "Erro ao remover evidência",
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
   // Dashboard data routes
   app.get('/api/dashboard/stats', isAuthenticated, async (req: any, res) => {
     try {
@@ -1203,6 +3016,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Assignments the assignee has not accepted yet, pending or declined
+  app.get('/api/team/assignments', isAuthenticated, async (req, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user!.id);
+      if (!currentUser || (currentUser.role !== 'sector_chief' && currentUser.role !== 'admin')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let activities;
+      if (currentUser.role === 'admin') {
+        activities = await storage.getAllActivities();
+      } else if (currentUser.sectorId) {
+        activities = await storage.getActivitiesBySector(currentUser.sectorId);
+      } else {
+        return res.status(400).json({ message: "No sector assigned" });
+      }
+
+      res.json(activities.filter((activity) =>
+        activity.status === 'next' &&
+        (activity.assignmentStatus === 'pending' || activity.assignmentStatus === 'declined')
+      ));
+    } catch (error) {
+      console.error("Error fetching team assignments:", error);
+      res.status(500).json({ message: "Failed to fetch team assignments" });
+    }
+  });
+
   app.get('/api/team/stats', isAuthenticated, async (req, res) => {
     try {
       const currentUser = await storage.getUser(req.user!.id);
@@ -1303,6 +3143,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         plants: plantNames,
+        tags: await tagsForUser(user),
+        customFields: await customFieldsForUser(user),
         projects: projects.sort(),
         requesters: requesters.sort(),
         collaborators: collaborators.map(c => ({ id: c.id, username: c.username })).sort((a, b) => a.username.localeCompare(b.username))
@@ -1313,6 +3155,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Full-text search over the activities the user can report on
+  app.get('/api/search', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim().slice(0, 200) : '';
+      if (query.length < SEARCH_MIN_LENGTH) {
+        return res.json([]);
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+
+      const scope = user.role === 'admin' ? {}
+        : user.role === 'sector_chief' && user.sectorId ? { sectorId: user.sectorId }
+          : { collaboratorId: userId };
+
+      res.json(await storage.searchActivities(query, scope, limit));
+    } catch (error) {
+      console.error("Error searching activities:", error);
+      res.status(500).json({ message: "Failed to search activities" });
+    }
+  });
+
   app.get('/api/reports/activities', isAuthenticated, async (req, res) => {
     try {
       const userId = req.user!.id;
@@ -1331,16 +3200,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         endDate,
         status,
         type,
-        sectorId
+        sectorId,
+        overdue,
+        tagId,
+        customFieldId,
+        customFieldValue
       } = req.query;
 
+      // Archived activities only when the report asks for them
+      const archiveOptions = { includeArchived: req.query.includeArchived === 'true' };
       let activities;
       if (user.role === 'admin') {
-        activities = await storage.getAllActivities();
+        activities = await storage.getAllActivities(archiveOptions);
       } else if (user.role === 'sector_chief' && user.sectorId) {
-        activities = await storage.getActivitiesBySector(user.sectorId);
+        activities = await storage.getActivitiesBySector(user.sectorId, archiveOptions);
       } else {
-        activities = await storage.getActivitiesByCollaborator(userId);
+        activities = await storage.getActivitiesByCollaborator(userId, archiveOptions);
       }
 
       // Apply filters
@@ -1353,6 +3228,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (collaboratorId && activity.collaboratorId !== collaboratorId) matches = false;
         if (type && activity.type !== type) matches = false;
         if (status && activity.status !== status) matches = false;
+        if (overdue === 'true' && !isLate(activity)) matches = false;
+        if (tagId && !activity.tags?.some((tag: any) => tag.id === tagId)) matches = false;
+        if (customFieldId && customFieldValue && !matchesCustomField(activity, customFieldId as string, customFieldValue as string)) matches = false;
 
 
         // Filter by date range
@@ -1384,6 +3262,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Time adjustments per collaborator over a period, scoped like the activity reports
+  const getTimeAdjustmentReport = async (user: User, filters: { collaboratorId?: string; startDate?: string; endDate?: string; includeArchived?: boolean }) => {
+    let collaborators: User[];
+    let sectorId: string | undefined;
+    let collaboratorId = filters.collaboratorId || undefined;
+
+    if (user.role === 'admin') {
+      collaborators = await storage.getAllUsers();
+    } else if (user.role === 'sector_chief' && user.sectorId) {
+      collaborators = await storage.getUsersBySector(user.sectorId);
+      sectorId = user.sectorId;
+    } else {
+      collaborators = [user];
+      collaboratorId = user.id;
+    }
+
+    const adjustments = await storage.getTimeAdjustmentHistory({
+      collaboratorId,
+      sectorId,
+      startDate: filters.startDate ? startOfDay(parseISO(filters.startDate)) : undefined,
+      endDate: filters.endDate ? endOfDay(parseISO(filters.endDate)) : undefined,
+      includeArchived: !!filters.includeArchived,
+    });
+    return buildTimeAdjustmentReport(adjustments, collaborators);
+  };
+
+  app.get('/api/reports/time-adjustments', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const filters = timeAdjustmentReportQuerySchema.parse({
+        ...req.query,
+        includeArchived: req.query.includeArchived === 'true',
+      });
+      const report = await getTimeAdjustmentReport(user, filters);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching time adjustment report:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch time adjustment report" });
+    }
+  });
+
+  app.post('/api/reports/time-adjustments/export', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const filters = timeAdjustmentReportQuerySchema.parse(req.body);
+      const exportFormat = req.query.format as 'csv' | 'excel' | 'pdf' | 'docx';
+      const report = await getTimeAdjustmentReport(user, filters);
+      const period = `Período: ${filters.startDate ? format(parseISO(filters.startDate), 'dd/MM/yyyy') : 'Início'} a ${filters.endDate ? format(parseISO(filters.endDate), 'dd/MM/yyyy') : 'Hoje'}`;
+
+      if (exportFormat === 'csv' || exportFormat === 'excel') {
+        res.setHeader('Content-Type', exportFormat === 'csv' ? 'text/csv; charset=utf-8' : 'application/vnd.ms-excel');
+        res.setHeader('Content-Disposition', 'attachment; filename="ajustes-de-tempo.csv"');
+        res.send('\ufeff' + timeAdjustmentCsv(report)); // UTF-8 BOM for Excel compatibility
+      } else if (exportFormat === 'docx') {
+        const buffer = await timeAdjustmentDocx(report, period);
+
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+        res.setHeader('Content-Disposition', 'attachment; filename="ajustes-de-tempo.docx"');
+        res.send(buffer);
+      } else if (exportFormat === 'pdf') {
+        const puppeteer = await import('puppeteer');
+
+        try {
+          const browser = await puppeteer.launch({
+            headless: true,
+            executablePath: '/usr/bin/chromium-browser',
+            args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--no-zygote', '--single-process', '--disable-gpu']
+          });
+          const page = await browser.newPage();
+          await page.setContent(timeAdjustmentHtml(report, period), { waitUntil: 'networkidle0' });
+
+          const pdfBuffer = await page.pdf({
+            format: 'A4',
+            landscape: true,
+            printBackground: true,
+            margin: { top: '20px', right: '20px', bottom: '20px', left: '20px' }
+          });
+
+          await browser.close();
+
+          res.setHeader('Content-Type', 'application/pdf');
+          res.setHeader('Content-Disposition', 'attachment; filename="ajustes-de-tempo.pdf"');
+          res.send(pdfBuffer);
+        } catch (pdfError) {
+          console.error("PDF generation error:", pdfError);
+          res.status(500).json({ message: "Failed to generate PDF" });
+        }
+      } else {
+        res.status(400).json({ message: "Invalid format" });
+      }
+    } catch (error) {
+      console.error("Error exporting time adjustment report:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export time adjustment report" });
+    }
+  });
+
   app.post('/api/reports/export', isAuthenticated, async (req, res) => {
     try {
       const userId = req.user!.id;
@@ -1396,13 +3384,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const filters = req.body;
       const format = req.query.format as 'csv' | 'excel' | 'pdf' | 'docx';
 
+      // Archived activities only when the report asks for them
+      const archiveOptions = { includeArchived: filters.includeArchived === true };
       let activities;
       if (user.role === 'admin') {
-        activities = await storage.getAllActivities();
+        activities = await storage.getAllActivities(archiveOptions);
       } else if (user.role === 'sector_chief' && user.sectorId) {
-        activities = await storage.getActivitiesBySector(user.sectorId);
+        activities = await storage.getActivitiesBySector(user.sectorId, archiveOptions);
       } else {
-        activities = await storage.getActivitiesByCollaborator(userId);
+        activities = await storage.getActivitiesByCollaborator(userId, archiveOptions);
       }
 
       // Apply same filters as reports/activities endpoint
@@ -1414,6 +3404,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (filters.requester && activity.requester !== filters.requester) matches = false;
         if (filters.collaboratorId && activity.collaboratorId !== filters.collaboratorId) matches = false;
         if (filters.type && activity.type !== filters.type) matches = false;
+        if (filters.overdue && !isLate(activity)) matches = false;
+        if (filters.tagId && !activity.tags?.some((tag: any) => tag.id === filters.tagId)) matches = false;
+        // Exporting a selection made in the activity lists
+        if (filters.activityIds && !filters.activityIds.includes(activity.id)) matches = false;
+        if (filters.customFieldId && filters.customFieldValue && !matchesCustomField(activity, filters.customFieldId, filters.customFieldValue)) matches = false;
 
 
         if (filters.startDate || filters.endDate) {
@@ -1425,12 +3420,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return matches;
       });
 
+      // One extra column per custom field used by the exported activities
+      const fieldColumns = customFieldColumns(filteredActivities);
+
+      // Comment threads only go into the Word/PDF documents, and only when asked for
+      const comments = filters.includeComments && (format === 'docx' || format === 'pdf')
+        ? await commentsByActivity(filteredActivities.map((activity: any) => activity.id))
+        : new Map();
+
       // Generate CSV content
       if (format === 'csv') {
         const csvHeaders = [
           'Título', 'Descrição', 'Tipo', 'Status', 'Prioridade',
           'Planta', 'Projeto', 'Solicitante', 'Colaborador',
-          'Tempo Total (horas)', 'Data Criação', 'Data Conclusão'
+          'Tempo Total (horas)', 'Data Criação', 'Data Conclusão', 'Prazo', 'Atrasada', 'Tags',
+          ...fieldColumns.map((field) => field.name)
         ];
 
         const csvRows = filteredActivities.map((activity: any) => [
@@ -1449,7 +3453,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           activity.collaborator?.username || '',
           ((activity.totalTime || 0) / (1000 * 60 * 60)).toFixed(2),
           activity.createdAt ? new Date(activity.createdAt).toLocaleDateString('pt-BR') : '',
-          activity.completedAt ? new Date(activity.completedAt).toLocaleDateString('pt-BR') : ''
+          activity.completedAt ? new Date(activity.completedAt).toLocaleDateString('pt-BR') : '',
+          activity.dueDate ? new Date(activity.dueDate).toLocaleString('pt-BR') : '',
+          isLate(activity) ? 'Sim' : 'Não',
+          tagNames(activity.tags),
+          ...fieldColumns.map((field) => customFieldCell(activity, field))
         ]);
 
         const csvContent = [csvHeaders, ...csvRows]
@@ -1464,7 +3472,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const csvHeaders = [
           'Título', 'Descrição', 'Tipo', 'Status', 'Prioridade',
           'Planta', 'Projeto', 'Solicitante', 'Colaborador',
-          'Tempo Total (horas)', 'Data Criação', 'Data Conclusão'
+          'Tempo Total (horas)', 'Data Criação', 'Data Conclusão', 'Prazo', 'Atrasada', 'Tags',
+          ...fieldColumns.map((field) => field.name)
         ];
 
         const csvRows = filteredActivities.map((activity: any) => [
@@ -1483,7 +3492,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           activity.collaborator?.username || '',
           ((activity.totalTime || 0) / (1000 * 60 * 60)).toFixed(2),
           activity.createdAt ? new Date(activity.createdAt).toLocaleDateString('pt-BR') : '',
-          activity.completedAt ? new Date(activity.completedAt).toLocaleDateString('pt-BR') : ''
+          activity.completedAt ? new Date(activity.completedAt).toLocaleDateString('pt-BR') : '',
+          activity.dueDate ? new Date(activity.dueDate).toLocaleString('pt-BR') : '',
+          isLate(activity) ? 'Sim' : 'Não',
+          tagNames(activity.tags),
+          ...fieldColumns.map((field) => customFieldCell(activity, field))
         ]);
 
         const csvContent = [csvHeaders, ...csvRows]
@@ -1579,6 +3592,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 if (activity.createdAt) {
                   details.push(`Criada em: ${new Date(activity.createdAt).toLocaleDateString('pt-BR')}`);
                 }
+                if (activity.tags?.length) {
+                  details.push(`Tags: ${tagNames(activity.tags)}`);
+                }
+                fieldColumns.forEach((field) => {
+                  const value = customFieldCell(activity, field);
+                  if (value) details.push(`${field.name}: ${value}`);
+                });
 
                 if (details.length > 0) {
                   activityParagraphs.push(
@@ -1630,6 +3650,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   );
                 }
 
+                activityParagraphs.push(...commentDocxParagraphs(comments.get(activity.id) || []));
+
                 // Add spacing between activities
                 activityParagraphs.push(
                   new Paragraph({
@@ -1844,6 +3866,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   text-decoration: line-through;
                   color: #9ca3af;
                 }
+                .comments {
+                  margin-top: 15px;
+                  padding-top: 15px;
+                  border-top: 1px solid #e2e8f0;
+                }
+                .comments h4 {
+                  margin: 0 0 10px 0;
+                  color: #1e293b;
+                  font-size: 14px;
+                }
+                .comment {
+                  margin-bottom: 10px;
+                  font-size: 13px;
+                }
+                .comment-meta {
+                  color: #64748b;
+                  font-size: 11px;
+                }
+                .comment-body {
+                  white-space: pre-wrap;
+                }
                 .summary {
                   background-color: #f8fafc;
                   padding: 20px;
@@ -1898,6 +3941,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 ${filters.requester ? `<p><strong>Solicitante:</strong> ${filters.requester}</p>` : ''}
                 ${filters.collaboratorId ? `<p><strong>Colaborador Filtrado:</strong> ${activities.find((a: any) => a.collaboratorId === filters.collaboratorId)?.collaborator?.username || 'Desconhecido'}</p>` : ''}
                 ${filters.type ? `<p><strong>Tipo:</strong> ${filters.type === 'simple' ? 'Simples' : 'Checklist'}</p>` : ''}
+                ${filters.tagId ? `<p><strong>Tag:</strong> ${(await storage.getTag(filters.tagId))?.name || 'Desconhecida'}</p>` : ''}
+                ${filters.customFieldId && filters.customFieldValue ? `<p><strong>${(await storage.getCustomField(filters.customFieldId))?.name || 'Campo'}:</strong> ${filters.customFieldValue}</p>` : ''}
                 ${filters.startDate ? `<p><strong>Data Início:</strong> ${new Date(filters.startDate).toLocaleDateString('pt-BR')}</p>` : ''}
                 ${filters.endDate ? `<p><strong>Data Fim:</strong> ${new Date(filters.endDate).toLocaleDateString('pt-BR')}</p>` : ''}
                 ${filters.showTimeColumn !== false ? '<p><strong>Exibir Tempo:</strong> Sim</p>' : '<p><strong>Exibir Tempo:</strong> Não</p>'}
@@ -1962,6 +4007,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
                       <span class="detail-value">${activity.collaborator.username}</span>
                     </div>
                     ` : ''}
+                    ${activity.tags?.length ? `
+                    <div class="detail">
+                      <span class="detail-label">Tags</span>
+                      <span class="detail-value">${tagNames(activity.tags)}</span>
+                    </div>
+                    ` : ''}
+                    ${fieldColumns.map((field) => customFieldCell(activity, field) ? `
+                    <div class="detail">
+                      <span class="detail-label">${field.name}</span>
+                      <span class="detail-value">${customFieldCell(activity, field)}</span>
+                    </div>
+                    ` : '').join('')}
                   </div>
 
                   ${activity.type === 'checklist' && activity.subtasks && activity.subtasks.length > 0 ? `
@@ -1975,6 +4032,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     `).join('')}
                   </div>
                   ` : ''}
+
+                  ${commentsHtml(comments.get(activity.id) || [])}
                 </div>
               `).join('')}
 
@@ -2032,105 +4091,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/subtasks/:id', isAuthenticated, async (req, res) => {
-    try {
-      const subtaskId = req.params.id;
-      const { completed } = req.body;
-      const userId = req.user!.id;
-
-      // Get the subtask and verify permissions
-      const subtask = await storage.getSubtask(subtaskId);
-      if (!subtask) {
-        return res.status(404).json({ message: "Subtask not found" });
-      }
-
-      const activity = await storage.getActivity(subtask.activityId);
-      if (!activity) {
-        return res.status(404).json({ message: "Activity not found" });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      // Check permissions
-      if (user.role === 'collaborator' && activity.collaboratorId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      if (user.role === 'sector_chief' && activity.collaborator.sectorId !== user.sectorId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      // Update the subtask
-      await storage.updateSubtask(subtaskId, { completed });
-
-      const updatedSubtask = await storage.getSubtask(subtaskId);
-      res.json(updatedSubtask);
-    } catch (error) {
-      console.error("Error updating subtask:", error);
-      res.status(500).json({ message: "Failed to update subtask" });
-    }
-  });
-
-  // WebSocket setup for real-time updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  const clients = new Map<string, WebSocketClient>();
-
-  wss.on('connection', (ws: WebSocketClient, req) => {
-    //console.log('WebSocket client connected');
-
-    ws.on('message', async (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-
-        if (message.type === 'authenticate' && message.userId) {
-          ws.userId = message.userId;
-          const user = await storage.getUser(message.userId);
-          if (user?.sectorId) {
-            ws.sectorId = user.sectorId;
-          }
-          clients.set(message.userId, ws);
-        }
-      } catch (error) {
-        // console.error('WebSocket message error:', error);
-      }
-    });
-
-    ws.on('close', () => {
-      if (ws.userId) {
-        clients.delete(ws.userId);
-      }
-      //console.log('WebSocket client disconnected');
-    });
-  });
-
-  // Broadcast function for real-time updates
-  function broadcastToSector(sectorId: string, message: any) {
-    clients.forEach((client) => {
-      if (client.sectorId === sectorId && client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(message));
-      }
-    });
-  }
-
-  // Broadcast to all admins
-  function broadcastToAdmins(message: any) {
-    clients.forEach(async (client) => {
-      if (client.userId && client.readyState === WebSocket.OPEN) {
-        try {
-          const user = await storage.getUser(client.userId);
-          if (user?.role === 'admin') {
-            client.send(JSON.stringify(message));
-          }
-        } catch (error) {
-          console.error('Error checking user role for broadcast:', error);
-        }
-      }
-    });
-  }
-
   // Project routes
   app.get('/api/projects', isAuthenticated, async (req, res) => {
     try {
@@ -2171,8 +4131,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const project = await storage.createProject(projectData);
 
       // Broadcast to sector
-      if (user?.sectorId) {
-        broadcastToSector(user.sectorId, {
+      if (project.sectorId) {
+        publish([channel('sector', project.sectorId), channel('project', project.id)], {
           type: 'project_created',
           data: project
         });
@@ -2236,7 +4196,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Broadcast to sector
       if (project.sectorId) {
-        broadcastToSector(project.sectorId, {
+        publish([channel('sector', project.sectorId), channel('project', id)], {
           type: 'project_updated',
           data: updatedProject
         });
@@ -2266,11 +4226,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      await storage.deleteProject(id);
+      // Goes to the trash; admins can restore it until the retention period ends
+      await storage.archiveProject(id, user!.id);
 
       // Broadcast to sector
       if (project.sectorId) {
-        broadcastToSector(project.sectorId, {
+        publish([channel('sector', project.sectorId), channel('project', id)], {
           type: 'project_deleted',
           data: { id }
         });
@@ -2359,7 +4320,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/user/settings', isAuthenticated, async (req, res) => {
     try {
       const userId = req.user!.id;
-      const { teamNotificationsEnabled, cardViewMode } = req.body;
+      const { teamNotificationsEnabled, cardViewMode, shiftEnd } = req.body;
 
       const updates: any = {};
 
@@ -2375,6 +4336,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updates.cardViewMode = cardViewMode;
       }
 
+      // Shift end ("HH:MM") lets running timers be auto-paused when the workday is over
+      if (shiftEnd === null || (typeof shiftEnd === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(shiftEnd))) {
+        updates.shiftEnd = shiftEnd;
+      }
+
       if (Object.keys(updates).length === 0) {
         return res.status(400).json({ message: "No valid settings to update" });
       }
@@ -2387,13 +4353,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Make broadcastToSector available globally
-  (global as any).broadcastToSector = broadcastToSector;
+  // Notification routes
+  app.get('/api/notifications', isAuthenticated, async (req, res) => {
+    try {
+      const notifications = await storage.getNotificationsByUser(req.user!.id);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', isAuthenticated, async (req, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.user!.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
 
-  return httpServer;
-}
+  app.post('/api/notifications/read-all', isAuthenticated, async (req, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user!.id);
+      const notifications = await storage.getNotificationsByUser(req.user!.id);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
 
-// Make broadcastToSector available for use in routes
-declare global {
-  var broadcastToSector: (sectorId: string, message: any) => void;
+  // WebSocket setup for real-time updates
+  setupRealtime(httpServer);
+
+  // Background jobs (auto-pause of forgotten timers)
+  startScheduledJobs();
+
+  return httpServer;
 }
@@ -0,0 +1,177 @@
+import { storage } from "./storage";
+import { publish, activityChannels } from "./realtime";
+import { findLockedWeekInIntervals, lockedWeekMessage, LOCKED_STATUS } from "./timesheets";
+import { sessionChangeNeedsApproval, requestApproval } from "./approvals";
+import type { Activity, ActivitySession, ActivityWithDetails, TimeAdjustmentLog, User } from "@shared/schema";
+
+export type SessionOperation = 'edit' | 'split' | 'merge' | 'delete';
+
+export interface SessionInterval {
+  startedAt: Date;
+  endedAt: Date;
+}
+
+const operationLabels: Record<SessionOperation, string> = {
+  edit: 'EDIÇÃO',
+  split: 'DIVISÃO',
+  merge: 'MESCLAGEM',
+  delete: 'EXCLUSÃO',
+};
+
+const durationOf = (interval: SessionInterval) =>
+  Math.floor((interval.endedAt.getTime() - interval.startedAt.getTime()) / 1000);
+
+const formatInterval = (startedAt: Date, endedAt: Date | null) =>
+  `${startedAt.toLocaleString('pt-BR')} - ${endedAt ? endedAt.toLocaleString('pt-BR') : 'em andamento'}`;
+
+export interface SessionChangeError {
+  status: number;
+  message: string;
+}
+
+export interface SessionChangeResult {
+  activity: ActivityWithDetails;
+  // Set when the change waits for the sector chief; the sessions are untouched until then
+  pendingAdjustment?: TimeAdjustmentLog;
+}
+
+// What a session change log records in its details column
+interface SessionChangeDetails {
+  operation: SessionOperation;
+  before: { id: string; startedAt: string | Date; endedAt: string | Date | null; duration: number | null }[];
+  after: { startedAt: string | Date; endedAt: string | Date | null }[];
+}
+
+// Returns why the intervals cannot replace the given sessions, or undefined when the change is valid
+export async function validateSessionChange(
+  activity: Activity,
+  sessions: ActivitySession[],
+  intervals: SessionInterval[]
+): Promise<SessionChangeError | undefined> {
+  const invalid = (message: string) => ({ status: 400, message });
+
+  if (sessions.some((session) => !session.endedAt)) {
+    return invalid("Pause a atividade antes de alterar a sessão em andamento");
+  }
+
+  const now = new Date();
+  for (const interval of intervals) {
+    if (isNaN(interval.startedAt.getTime()) || isNaN(interval.endedAt.getTime())) {
+      return invalid("Data inválida");
+    }
+    if (interval.endedAt <= interval.startedAt) {
+      return invalid("O fim da sessão deve ser posterior ao início");
+    }
+    if (interval.endedAt > now) {
+      return invalid("A sessão não pode terminar no futuro");
+    }
+  }
+
+  const sorted = [...intervals].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startedAt < sorted[i - 1].endedAt) {
+      return invalid("As sessões resultantes não podem se sobrepor");
+    }
+  }
+
+  // A collaborator cannot be working on two things at once, across all of their activities
+  const replacedIds = sessions.map((session) => session.id);
+  for (const interval of sorted) {
+    const overlap = await storage.findOverlappingSession(activity.collaboratorId, interval.startedAt, interval.endedAt, replacedIds);
+    if (overlap) {
+      return invalid(`O intervalo se sobrepõe a uma sessão da atividade "${overlap.activityTitle}" (${formatInterval(overlap.session.startedAt, overlap.session.endedAt)})`);
+    }
+  }
+
+  // Weeks of an approved timesheet cannot change
+  const touched = [
+    ...sessions.map((session) => ({ startedAt: session.startedAt, endedAt: session.endedAt! })),
+    ...sorted,
+  ];
+  const lockedWeek = await findLockedWeekInIntervals(activity.collaboratorId, touched);
+  if (lockedWeek) {
+    return { status: LOCKED_STATUS, message: lockedWeekMessage(lockedWeek) };
+  }
+
+  return undefined;
+}
+
+// Replaces the sessions with the intervals, logs the change for audit and broadcasts the new total.
+// Changes beyond the adjustment limits are only logged as pending and wait for approval.
+export async function applySessionChange(
+  activity: Activity,
+  user: User,
+  operation: SessionOperation,
+  sessions: ActivitySession[],
+  intervals: SessionInterval[],
+  reason: string
+): Promise<SessionChangeResult> {
+  const previousTime = await storage.getTrackedTime(activity.id);
+  const removedTime = sessions.reduce((total, session) => total + (session.duration || 0), 0);
+  const addedTime = intervals.reduce((total, interval) => total + durationOf(interval), 0);
+  const newTime = Math.max(0, previousTime - removedTime + addedTime);
+
+  const log = {
+    activityId: activity.id,
+    userId: user.id,
+    previousTime,
+    newTime,
+    reason: `[SESSÃO: ${operationLabels[operation]}] ${reason}`,
+    kind: 'session',
+  };
+  const before = sessions.map(({ id, startedAt, endedAt, duration }) => ({ id, startedAt, endedAt, duration }));
+
+  const touched = [...sessions, ...intervals];
+  if (sessionChangeNeedsApproval(user, previousTime, newTime, touched)) {
+    const pendingAdjustment = await storage.createTimeAdjustmentLog({
+      ...log,
+      status: 'pending',
+      details: { operation, before, after: intervals },
+    });
+    await requestApproval(pendingAdjustment, activity, user);
+    return { activity: (await storage.getActivity(activity.id))!, pendingAdjustment };
+  }
+
+  await storage.replaceSessions(activity.id, sessions.map((session) => session.id), intervals, {
+    ...log,
+    details: { operation, before },
+  });
+
+  await storage.recalculateTotalTime(activity.id);
+  const updatedActivity = await storage.getActivity(activity.id);
+
+  publish(activityChannels(updatedActivity!), {
+    type: 'activity_updated',
+    activity: updatedActivity,
+  });
+
+  return { activity: updatedActivity! };
+}
+
+// Approves a pending session change and swaps the sessions. The sessions may have changed since
+// the request, so it is validated again against what exists now. No log means it was already reviewed.
+export async function approveSessionChange(
+  adjustment: TimeAdjustmentLog,
+  activity: Activity,
+  reviewerId: string,
+  note: string | undefined
+): Promise<{ error?: SessionChangeError; reviewed?: TimeAdjustmentLog }> {
+  const details = adjustment.details as SessionChangeDetails;
+  const current = await storage.getSessionsByActivity(activity.id);
+  const sessions = current.filter((session) => details.before.some((snapshot) => snapshot.id === session.id));
+  if (sessions.length !== details.before.length) {
+    return { error: { status: 409, message: "As sessões foram alteradas depois da solicitação" } };
+  }
+
+  const intervals = details.after.map((interval) => ({
+    startedAt: new Date(interval.startedAt),
+    endedAt: new Date(interval.endedAt!),
+  }));
+  const invalid = await validateSessionChange(activity, sessions, intervals);
+  if (invalid) {
+    return { error: invalid };
+  }
+
+  const reviewed = await storage.approveSessionChange(adjustment.id, reviewerId, note, sessions.map((session) => session.id), intervals);
+  return { reviewed };
+}
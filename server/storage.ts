@@ -2,35 +2,76 @@ import {
   users,
   sectors,
   plants,
+  requesters,
   activities,
   subtasks,
   timeAdjustmentLogs,
   activitySessions,
   activityLogs,
+  activityChanges,
   projects,
   projectMembers,
   projectTemplates,
   templateActivities,
   userSettings,
+  notifications,
+  timesheets,
+  slaTargets,
+  tags,
+  activityTags,
+  customFields,
+  activityCustomFieldValues,
+  activityRecurrences,
+  activityDependencies,
+  activityComments,
+  activityAttachments,
+  activitySearchDocuments,
   type User,
   type UpsertUser,
   type Sector,
   type InsertSector,
   type Plant,
   type InsertPlant,
+  type Requester,
+  type InsertRequester,
+  type RequesterWithUsage,
+  type SlaTarget,
+  type InsertSlaTarget,
+  type Tag,
+  type InsertTag,
+  type CustomField,
+  type InsertCustomField,
+  type CustomFieldValues,
+  type CustomFieldValueWithField,
+  type ActivityRecurrence,
+  type InsertActivityRecurrence,
+  type ActivityDependency,
+  type InsertActivityDependency,
+  type ActivitySummary,
+  type ActivitySearchResult,
+  type ActivityComment,
+  type InsertActivityComment,
+  type ActivityCommentWithAuthor,
+  type ActivityAttachment,
+  type InsertActivityAttachment,
+  type ActivityAttachmentWithUploader,
   type Activity,
   type InsertActivity,
   type ActivityWithDetails,
   type UserWithSector,
   type Subtask,
   type InsertSubtask,
+  type SubtaskWithAssignee,
   type TimeAdjustmentLog,
   type InsertTimeAdjustmentLog,
+  type TimeAdjustmentLogWithDetails,
   type ActivitySession,
   type InsertActivitySession,
   type ActivityLog,
   type InsertActivityLog,
   type ActivityLogWithUser,
+  type InsertActivityChange,
+  type ActivityChangeWithUser,
   type Project,
   type InsertProject,
   type ProjectWithDetails,
@@ -42,9 +83,93 @@ import {
   type InsertTemplateActivity,
   type UserSettings,
   type InsertUserSettings,
+  type Notification,
+  type InsertNotification,
+  type Timesheet,
+  type TimesheetWithUser,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, sql, gte, lte, or } from "drizzle-orm";
+import { eq, ne, and, desc, asc, sql, gte, lte, lt, gt, or, isNull, isNotNull, inArray, notInArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { SEARCH_CONFIG, HIGHLIGHT_START, HIGHLIGHT_END } from "@shared/search";
+
+// Who assigned an activity, joined next to its collaborator
+const assigners = alias(users, "assigners");
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Deletes closed sessions of an activity and inserts the intervals in their place
+async function swapSessions(
+  tx: Transaction,
+  activityId: string,
+  removeSessionIds: string[],
+  intervals: { startedAt: Date; endedAt: Date }[]
+): Promise<ActivitySession[]> {
+  if (removeSessionIds.length > 0) {
+    await tx
+      .delete(activitySessions)
+      .where(and(
+        eq(activitySessions.activityId, activityId),
+        inArray(activitySessions.id, removeSessionIds)
+      ));
+  }
+
+  return intervals.length > 0
+    ? await tx
+      .insert(activitySessions)
+      .values(intervals.map((interval) => ({
+        activityId,
+        startedAt: interval.startedAt,
+        endedAt: interval.endedAt,
+        duration: Math.floor((interval.endedAt.getTime() - interval.startedAt.getTime()) / 1000),
+      })))
+      .returning()
+    : [];
+}
+
+const sessionSnapshots = (sessions: ActivitySession[]) =>
+  sessions.map(({ id, startedAt, endedAt, duration }) => ({ id, startedAt, endedAt, duration }));
+
+// Rows of a relation loaded for many activities at once, grouped by the activity they belong to
+function groupByActivity<T extends { activityId: string }, R>(rows: T[], toItem: (row: T) => R): Record<string, R[]> {
+  const groups: Record<string, R[]> = {};
+  rows.forEach((row) => {
+    (groups[row.activityId] ??= []).push(toItem(row));
+  });
+  return groups;
+}
+
+// An activity row of the list queries, joined with its collaborator, project, plant and assigner
+interface ActivityListRow {
+  activities: Activity;
+  users: User | null;
+  projects: Project | null;
+  plants: Plant | null;
+  assigners: User | null;
+}
+
+// One activity's share of a bulk action, prepared by the route and written with the others atomically
+export interface BulkActivityChange {
+  activityId: string;
+  updates: Partial<Activity>;
+  closeSession?: { id: string; endedAt: Date; duration: number };
+  addTagIds?: string[];
+  log?: InsertActivityLog;
+}
+
+// Archived (soft-deleted) records are left out of every query unless a report asks for them
+export interface ArchiveOptions {
+  includeArchived?: boolean;
+}
+
+// A record in the trash, with who archived it
+export type Archived<T> = T & { deletedBy: User | null };
+
+// Which activities a search may return, the same scoping as the reports routes; empty = all
+export interface ActivitySearchScope {
+  collaboratorId?: string;
+  sectorId?: string;
+}
 
 export interface IStorage {
   // User operations (local auth)
@@ -67,37 +192,132 @@ export interface IStorage {
   // Plant operations
   createPlant(plant: InsertPlant): Promise<Plant>;
   getPlants(): Promise<Plant[]>;
-  getPlant(id: string): Promise<Plant | undefined>;
+  getPlant(id: string, options?: ArchiveOptions): Promise<Plant | undefined>;
   updatePlant(id: string, updates: Partial<Plant>): Promise<Plant>;
-  deletePlant(id: string): Promise<void>;
-  getActivitiesByPlant(plantId: string): Promise<ActivityWithDetails[]>;
+  archivePlant(id: string, deletedById: string): Promise<Plant | undefined>;
+  restorePlant(id: string): Promise<Plant | undefined>;
+  purgePlant(id: string): Promise<void>;
+  getArchivedPlants(before?: Date): Promise<Archived<Plant>[]>;
+  countActivitiesByPlant(plantId: string): Promise<number>;
+
+  // Requester operations
+  getRequesters(): Promise<Requester[]>;
+  getRequestersWithUsage(): Promise<RequesterWithUsage[]>;
+  getRequester(id: string): Promise<Requester | undefined>;
+  createRequester(requester: InsertRequester): Promise<Requester>;
+  updateRequester(id: string, updates: Partial<InsertRequester>): Promise<Requester | undefined>;
+  mergeRequesters(targetId: string, sourceIds: string[]): Promise<number>;
+
+  // SLA target operations
+  getSlaTargets(): Promise<SlaTarget[]>;
+  getSlaTarget(id: string): Promise<SlaTarget | undefined>;
+  findSlaTarget(priority: string, plantId: string | null): Promise<SlaTarget | undefined>;
+  createSlaTarget(target: InsertSlaTarget): Promise<SlaTarget>;
+  updateSlaTarget(id: string, updates: Partial<InsertSlaTarget>): Promise<SlaTarget>;
+  deleteSlaTarget(id: string): Promise<void>;
+
+  // Tag operations
+  getTags(): Promise<Tag[]>;
+  getTag(id: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: string, updates: Partial<InsertTag>): Promise<Tag>;
+  deleteTag(id: string): Promise<void>;
+  getTagsByActivity(activityId: string): Promise<Tag[]>;
+  setActivityTags(activityId: string, tagIds: string[]): Promise<void>;
+
+  // Custom field operations
+  getCustomFields(sectorId?: string): Promise<CustomField[]>;
+  getCustomField(id: string): Promise<CustomField | undefined>;
+  createCustomField(field: InsertCustomField): Promise<CustomField>;
+  updateCustomField(id: string, updates: Partial<InsertCustomField>): Promise<CustomField>;
+  deleteCustomField(id: string): Promise<void>;
+  getCustomFieldValuesByActivity(activityId: string): Promise<CustomFieldValueWithField[]>;
+  setCustomFieldValues(activityId: string, values: CustomFieldValues): Promise<void>;
 
   // Activity operations
-  createActivity(activity: InsertActivity): Promise<Activity>;
+  createActivity(activity: InsertActivity & Partial<Pick<Activity, 'recurrenceId'>>): Promise<Activity>;
   createRetroactiveActivity(activity: InsertActivity, retroactiveStartDate: Date, retroactiveEndDate: Date): Promise<Activity>;
-  getActivity(id: string): Promise<ActivityWithDetails | undefined>;
-  getAllActivities(): Promise<ActivityWithDetails[]>;
-  getActivitiesByCollaborator(collaboratorId: string): Promise<ActivityWithDetails[]>;
-  getActivitiesBySector(sectorId: string): Promise<ActivityWithDetails[]>;
+  getActivity(id: string, options?: ArchiveOptions): Promise<ActivityWithDetails | undefined>;
+  getAllActivities(options?: ArchiveOptions): Promise<ActivityWithDetails[]>;
+  getActivitiesByCollaborator(collaboratorId: string, options?: ArchiveOptions): Promise<ActivityWithDetails[]>;
+  getActivitiesBySector(sectorId: string, options?: ArchiveOptions): Promise<ActivityWithDetails[]>;
+  countActivitiesByStatus(collaboratorId: string, status: Activity['status']): Promise<number>;
   updateActivity(id: string, updates: Partial<Activity>): Promise<Activity>;
-  deleteActivity(id: string): Promise<void>;
+  applyBulkActivityChanges(changes: BulkActivityChange[]): Promise<void>;
+  respondToAssignment(id: string, decision: 'accepted' | 'declined', reason?: string): Promise<Activity | undefined>;
+  archiveActivity(id: string, deletedById: string): Promise<Activity | undefined>;
+  restoreActivity(id: string): Promise<Activity | undefined>;
+  purgeActivity(id: string): Promise<string[]>;
+  getArchivedActivities(before?: Date): Promise<Archived<Activity & { collaborator: User }>[]>;
+  getNewlyOverdueActivities(now: Date): Promise<Activity[]>;
+  markOverdueNotified(id: string, notifiedAt: Date): Promise<Activity | undefined>;
+  searchActivities(query: string, scope: ActivitySearchScope, limit: number): Promise<ActivitySearchResult[]>;
+
+  // Recurring series operations
+  createRecurrence(recurrence: InsertActivityRecurrence): Promise<ActivityRecurrence>;
+  getRecurrence(id: string): Promise<ActivityRecurrence | undefined>;
+  updateRecurrence(id: string, updates: Partial<ActivityRecurrence>): Promise<ActivityRecurrence>;
+  getDueRecurrences(now: Date): Promise<ActivityRecurrence[]>;
+  advanceRecurrence(id: string, expectedRunAt: Date, updates: Partial<ActivityRecurrence>): Promise<ActivityRecurrence | undefined>;
+
+  // Activity dependency operations
+  addDependency(dependency: InsertActivityDependency): Promise<ActivityDependency>;
+  getDependency(activityId: string, blockerId: string): Promise<ActivityDependency | undefined>;
+  removeDependency(activityId: string, blockerId: string): Promise<void>;
+  getBlockers(activityId: string): Promise<{ activity: Activity; collaborator: User }[]>;
+  getDependents(blockerId: string): Promise<{ activity: Activity; collaborator: User }[]>;
+  getOpenBlockers(activityId: string): Promise<ActivitySummary[]>;
+
+  // Activity comment operations
+  createComment(comment: InsertActivityComment): Promise<ActivityComment>;
+  getComment(id: string): Promise<ActivityComment | undefined>;
+  getCommentsByActivity(activityId: string): Promise<ActivityCommentWithAuthor[]>;
+  getCommentsByActivities(activityIds: string[]): Promise<ActivityCommentWithAuthor[]>;
+  updateComment(id: string, updates: Partial<ActivityComment>): Promise<ActivityComment>;
+  deleteComment(id: string): Promise<void>;
+
+  // Activity attachment operations
+  createAttachment(attachment: InsertActivityAttachment): Promise<ActivityAttachment>;
+  getAttachment(id: string): Promise<ActivityAttachment | undefined>;
+  getAttachmentsByActivity(activityId: string): Promise<ActivityAttachmentWithUploader[]>;
+  updateAttachment(id: string, updates: Partial<ActivityAttachment>): Promise<ActivityAttachment>;
+  deleteAttachment(id: string): Promise<void>;
 
   // Activity session operations
   startActivitySession(activityId: string): Promise<ActivitySession>;
   endActivitySession(sessionId: string, endTime: Date): Promise<ActivitySession>;
   getActiveSession(activityId: string): Promise<ActivitySession | undefined>;
+  getOpenSessions(): Promise<{ session: ActivitySession; activity: Activity; settings: UserSettings | null }[]>;
+  closeOpenSession(sessionId: string, endTime: Date): Promise<ActivitySession | undefined>;
+  getSession(id: string): Promise<ActivitySession | undefined>;
+  getSessionsByActivity(activityId: string): Promise<ActivitySession[]>;
+  findOverlappingSession(collaboratorId: string, startedAt: Date, endedAt: Date, excludeSessionIds?: string[]): Promise<{ session: ActivitySession; activityTitle: string } | undefined>;
+  replaceSessions(activityId: string, removeSessionIds: string[], intervals: { startedAt: Date; endedAt: Date }[], log: InsertTimeAdjustmentLog): Promise<ActivitySession[]>;
+  approveSessionChange(id: string, reviewedById: string, reviewNote: string | undefined, removeSessionIds: string[], intervals: { startedAt: Date; endedAt: Date }[]): Promise<TimeAdjustmentLog | undefined>;
+  getTrackedTime(activityId: string): Promise<number>;
+  recalculateTotalTime(activityId: string): Promise<Activity>;
 
   // Subtask operations
   createSubtask(subtask: InsertSubtask): Promise<Subtask>;
   getSubtask(id: string): Promise<Subtask | undefined>;
-  getSubtasksByActivity(activityId: string): Promise<Subtask[]>;
-  updateSubtask(id: string, data: { completed?: boolean }): Promise<Subtask>;
+  getSubtasksByActivity(activityId: string): Promise<SubtaskWithAssignee[]>;
+  updateSubtask(id: string, data: Partial<InsertSubtask>): Promise<Subtask>;
   deleteSubtask(id: string): Promise<void>;
-  deleteSubtasksByActivity(activityId: string): Promise<void>;
 
   // Time adjustment operations
   createTimeAdjustmentLog(log: InsertTimeAdjustmentLog): Promise<TimeAdjustmentLog>;
   getTimeAdjustmentLogs(activityId: string): Promise<TimeAdjustmentLog[]>;
+  getTimeAdjustmentLog(id: string): Promise<TimeAdjustmentLog | undefined>;
+  getPendingTimeAdjustments(sectorId?: string): Promise<TimeAdjustmentLogWithDetails[]>;
+  getTimeAdjustmentHistory(filters: {
+    activityId?: string;
+    collaboratorId?: string;
+    sectorId?: string;
+    startDate?: Date;
+    endDate?: Date;
+    includeArchived?: boolean;
+  }): Promise<TimeAdjustmentLogWithDetails[]>;
+  reviewTimeAdjustment(id: string, reviewedById: string, status: 'approved' | 'rejected', reviewNote?: string): Promise<TimeAdjustmentLog | undefined>;
 
   // Activity log operations
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
@@ -105,14 +325,23 @@ export interface IStorage {
   getActivityLogsBySector(sectorId: string, limit?: number): Promise<ActivityLogWithUser[]>;
   getActivityLogsByUser(userId: string, limit?: number, offset?: number, days?: number): Promise<ActivityLogWithUser[]>;
 
+  // Activity change history operations
+  createActivityChanges(changes: InsertActivityChange[]): Promise<void>;
+  getActivityChanges(activityId: string): Promise<ActivityChangeWithUser[]>;
+  getActivityChangesByUser(userId: string, from: Date, to: Date, limit: number, offset: number): Promise<ActivityChangeWithUser[]>;
+
   // Project operations
   createProject(project: InsertProject): Promise<Project>;
   getProjects(): Promise<ProjectWithDetails[]>;
-  getProjectById(id: string): Promise<ProjectWithDetails | undefined>;
+  getProjectById(id: string, options?: ArchiveOptions): Promise<ProjectWithDetails | undefined>;
   getProjectsBySector(sectorId: string): Promise<ProjectWithDetails[]>;
   getProjectsByUser(userId: string): Promise<ProjectWithDetails[]>;
   updateProject(id: string, updates: Partial<Project>): Promise<Project>;
-  deleteProject(id: string): Promise<void>;
+  archiveProject(id: string, deletedById: string): Promise<Project | undefined>;
+  restoreProject(id: string): Promise<Project | undefined>;
+  purgeProject(id: string): Promise<void>;
+  getArchivedProjects(before?: Date): Promise<Archived<Project>[]>;
+  countActivitiesByProject(projectId: string): Promise<number>;
 
   // Project member operations
   addProjectMember(member: InsertProjectMember): Promise<ProjectMember>;
@@ -128,6 +357,22 @@ export interface IStorage {
   // User settings operations
   getUserSettings(userId: string): Promise<UserSettings | null>;
   updateUserSettings(userId: string, settings: Partial<InsertUserSettings>): Promise<UserSettings>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsByUser(userId: string, limit?: number): Promise<Notification[]>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+
+  // Timesheet operations
+  getSessionsForUserInRange(userId: string, start: Date, end: Date): Promise<{ session: ActivitySession; activity: Activity; projectName: string | null; plantName: string | null }[]>;
+  getTimesheet(userId: string, weekStart: string): Promise<Timesheet | undefined>;
+  getTimesheetById(id: string): Promise<Timesheet | undefined>;
+  getSubmittedTimesheets(sectorId?: string): Promise<TimesheetWithUser[]>;
+  getApprovedWeeks(userId: string, weekStarts: string[]): Promise<string[]>;
+  submitTimesheet(userId: string, weekStart: string, totalTime: number): Promise<Timesheet>;
+  reviewTimesheet(id: string, reviewedById: string, status: 'approved' | 'rejected', reviewNote?: string): Promise<Timesheet | undefined>;
+  reopenTimesheet(id: string, reopenedById: string): Promise<Timesheet | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -222,11 +467,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getPlants(): Promise<Plant[]> {
-    return await db.select().from(plants).where(eq(plants.isActive, true)).orderBy(plants.name);
+    return await db.select().from(plants).where(and(eq(plants.isActive, true), isNull(plants.deletedAt))).orderBy(plants.name);
   }
 
-  async getPlant(id: string): Promise<Plant | undefined> {
-    const [plant] = await db.select().from(plants).where(eq(plants.id, id));
+  async getPlant(id: string, options: ArchiveOptions = {}): Promise<Plant | undefined> {
+    const [plant] = await db
+      .select()
+      .from(plants)
+      .where(and(eq(plants.id, id), options.includeArchived ? undefined : isNull(plants.deletedAt)));
     return plant;
   }
 
@@ -239,27 +487,313 @@ export class DatabaseStorage implements IStorage {
     return plant;
   }
 
-  async deletePlant(id: string): Promise<void> {
-    await db.delete(plants).where(eq(plants.id, id));
+  // Archive operations return undefined when the record is already in the trash
+  async archivePlant(id: string, deletedById: string): Promise<Plant | undefined> {
+    const [plant] = await db
+      .update(plants)
+      .set({ deletedAt: new Date(), deletedById })
+      .where(and(eq(plants.id, id), isNull(plants.deletedAt)))
+      .returning();
+    return plant;
   }
 
-  async getActivitiesByPlant(plantId: string): Promise<ActivityWithDetails[]> {
+  async restorePlant(id: string): Promise<Plant | undefined> {
+    const [plant] = await db
+      .update(plants)
+      .set({ deletedAt: null, deletedById: null, updatedAt: new Date() })
+      .where(and(eq(plants.id, id), isNotNull(plants.deletedAt)))
+      .returning();
+    return plant;
+  }
+
+  // Only called once no activity references the plant; its SLA targets go with it
+  async purgePlant(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(slaTargets).where(eq(slaTargets.plantId, id));
+      // Requesters outlive the plant they were filed under
+      await tx.update(requesters).set({ plantId: null, updatedAt: new Date() }).where(eq(requesters.plantId, id));
+      await tx.delete(plants).where(eq(plants.id, id));
+    });
+  }
+
+  async getArchivedPlants(before?: Date): Promise<Archived<Plant>[]> {
     const results = await db
       .select()
+      .from(plants)
+      .leftJoin(users, eq(plants.deletedById, users.id))
+      .where(before ? lt(plants.deletedAt, before) : isNotNull(plants.deletedAt))
+      .orderBy(desc(plants.deletedAt));
+
+    return results.map(result => ({
+      ...result.plants,
+      deletedBy: result.users,
+    }));
+  }
+
+  // Archived activities included: they still reference the plant
+  async countActivitiesByPlant(plantId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
       .from(activities)
-      .leftJoin(users, eq(activities.collaboratorId, users.id))
-      .leftJoin(plants, eq(activities.plantId, plants.id))
       .where(eq(activities.plantId, plantId));
+    return result.count;
+  }
 
-    return results.map(result => ({
-      ...result.activities,
-      collaborator: result.users!,
-      plantRef: result.plants || undefined,
-    })) as ActivityWithDetails[];
+  // Requester operations
+  async getRequesters(): Promise<Requester[]> {
+    return await db.select().from(requesters).orderBy(asc(requesters.name));
+  }
+
+  async getRequestersWithUsage(): Promise<RequesterWithUsage[]> {
+    const results = await db
+      .select({
+        requester: requesters,
+        plant: plants,
+        activityCount: sql<number>`(select count(*)::int from ${activities} where ${activities.requesterId} = ${requesters.id})`,
+      })
+      .from(requesters)
+      .leftJoin(plants, eq(requesters.plantId, plants.id))
+      .orderBy(asc(requesters.name));
+
+    return results.map((result) => ({
+      ...result.requester,
+      plant: result.plant,
+      activityCount: result.activityCount,
+    }));
+  }
+
+  async getRequester(id: string): Promise<Requester | undefined> {
+    const [requester] = await db.select().from(requesters).where(eq(requesters.id, id));
+    return requester;
+  }
+
+  async createRequester(requester: InsertRequester): Promise<Requester> {
+    const [newRequester] = await db.insert(requesters).values(requester).returning();
+    return newRequester;
+  }
+
+  // A new name is copied to the legacy text of its activities, which reports and search read
+  async updateRequester(id: string, updates: Partial<InsertRequester>): Promise<Requester | undefined> {
+    return await db.transaction(async (tx) => {
+      const [requester] = await tx
+        .update(requesters)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(requesters.id, id))
+        .returning();
+      if (requester && updates.name !== undefined) {
+        await tx
+          .update(activities)
+          .set({ requester: requester.name })
+          .where(eq(activities.requesterId, id));
+      }
+      return requester;
+    });
+  }
+
+  // Moves the activities of the duplicates to the target and removes the duplicates. The legacy
+  // text of every activity left with the target gets its name, so reports group them as one.
+  // Returns how many activities were moved.
+  async mergeRequesters(targetId: string, sourceIds: string[]): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx.select().from(requesters).where(eq(requesters.id, targetId));
+      const moved = await tx
+        .update(activities)
+        .set({ requesterId: target.id, requester: target.name })
+        .where(inArray(activities.requesterId, sourceIds))
+        .returning({ id: activities.id });
+      await tx
+        .update(activities)
+        .set({ requester: target.name })
+        .where(and(
+          eq(activities.requesterId, target.id),
+          or(isNull(activities.requester), ne(activities.requester, target.name))
+        ));
+      await tx.delete(requesters).where(inArray(requesters.id, sourceIds));
+      return moved.length;
+    });
+  }
+
+  // SLA target operations
+  async getSlaTargets(): Promise<SlaTarget[]> {
+    return await db.select().from(slaTargets).orderBy(slaTargets.priority, slaTargets.plantId);
+  }
+
+  async getSlaTarget(id: string): Promise<SlaTarget | undefined> {
+    const [target] = await db.select().from(slaTargets).where(eq(slaTargets.id, id));
+    return target;
+  }
+
+  // The plant-specific target wins over the one for all plants
+  async findSlaTarget(priority: string, plantId: string | null): Promise<SlaTarget | undefined> {
+    const targets = await db
+      .select()
+      .from(slaTargets)
+      .where(and(
+        eq(slaTargets.priority, priority as SlaTarget['priority']),
+        plantId ? or(eq(slaTargets.plantId, plantId), isNull(slaTargets.plantId)) : isNull(slaTargets.plantId)
+      ));
+    return targets.find((target) => target.plantId) ?? targets[0];
+  }
+
+  async createSlaTarget(target: InsertSlaTarget): Promise<SlaTarget> {
+    const [newTarget] = await db.insert(slaTargets).values(target).returning();
+    return newTarget;
+  }
+
+  async updateSlaTarget(id: string, updates: Partial<InsertSlaTarget>): Promise<SlaTarget> {
+    const [target] = await db
+      .update(slaTargets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(slaTargets.id, id))
+      .returning();
+    return target;
+  }
+
+  async deleteSlaTarget(id: string): Promise<void> {
+    await db.delete(slaTargets).where(eq(slaTargets.id, id));
+  }
+
+  // Tag operations
+  async getTags(): Promise<Tag[]> {
+    return await db.select().from(tags).orderBy(asc(tags.name));
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
+
+  async createTag(tag: InsertTag): Promise<Tag> {
+    const [newTag] = await db.insert(tags).values(tag).returning();
+    return newTag;
+  }
+
+  async updateTag(id: string, updates: Partial<InsertTag>): Promise<Tag> {
+    const [tag] = await db
+      .update(tags)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tags.id, id))
+      .returning();
+    return tag;
+  }
+
+  // Links to activities go with the tag (ON DELETE CASCADE)
+  async deleteTag(id: string): Promise<void> {
+    await db.delete(tags).where(eq(tags.id, id));
+  }
+
+  async getTagsByActivity(activityId: string): Promise<Tag[]> {
+    return (await this.getTagsByActivities([activityId]))[activityId] ?? [];
+  }
+
+  // Tags of many activities in one query, by activity id
+  private async getTagsByActivities(activityIds: string[]): Promise<Record<string, Tag[]>> {
+    if (activityIds.length === 0) return {};
+
+    const rows = await db
+      .select({
+        activityId: activityTags.activityId,
+        id: tags.id,
+        name: tags.name,
+        color: tags.color,
+        sectorId: tags.sectorId,
+        createdAt: tags.createdAt,
+        updatedAt: tags.updatedAt,
+      })
+      .from(activityTags)
+      .innerJoin(tags, eq(activityTags.tagId, tags.id))
+      .where(inArray(activityTags.activityId, activityIds))
+      .orderBy(asc(tags.name));
+
+    return groupByActivity(rows, ({ activityId, ...tag }) => tag);
+  }
+
+  // Replaces the activity's tags with the given set
+  async setActivityTags(activityId: string, tagIds: string[]): Promise<void> {
+    await db.delete(activityTags).where(eq(activityTags.activityId, activityId));
+    if (tagIds.length > 0) {
+      await db.insert(activityTags).values(tagIds.map((tagId) => ({ activityId, tagId })));
+    }
+  }
+
+  // Custom field operations
+  async getCustomFields(sectorId?: string): Promise<CustomField[]> {
+    return await db
+      .select()
+      .from(customFields)
+      .where(sectorId ? eq(customFields.sectorId, sectorId) : undefined)
+      .orderBy(asc(customFields.order), asc(customFields.name));
+  }
+
+  async getCustomField(id: string): Promise<CustomField | undefined> {
+    const [field] = await db.select().from(customFields).where(eq(customFields.id, id));
+    return field;
+  }
+
+  async createCustomField(field: InsertCustomField): Promise<CustomField> {
+    const [newField] = await db.insert(customFields).values(field).returning();
+    return newField;
+  }
+
+  async updateCustomField(id: string, updates: Partial<InsertCustomField>): Promise<CustomField> {
+    const [updated] = await db
+      .update(customFields)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(customFields.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Stored values go with the field (ON DELETE CASCADE)
+  async deleteCustomField(id: string): Promise<void> {
+    await db.delete(customFields).where(eq(customFields.id, id));
+  }
+
+  async getCustomFieldValuesByActivity(activityId: string): Promise<CustomFieldValueWithField[]> {
+    return (await this.getCustomFieldValuesByActivities([activityId]))[activityId] ?? [];
+  }
+
+  // Custom field values of many activities in one query, by activity id
+  private async getCustomFieldValuesByActivities(activityIds: string[]): Promise<Record<string, CustomFieldValueWithField[]>> {
+    if (activityIds.length === 0) return {};
+
+    const results = await db
+      .select()
+      .from(activityCustomFieldValues)
+      .innerJoin(customFields, eq(activityCustomFieldValues.fieldId, customFields.id))
+      .where(inArray(activityCustomFieldValues.activityId, activityIds))
+      .orderBy(asc(customFields.order), asc(customFields.name));
+
+    return groupByActivity(
+      results.map(result => ({ ...result.activity_custom_field_values, field: result.custom_fields })),
+      (value) => value
+    );
+  }
+
+  // Upserts the given fields only; an empty value removes the stored one
+  async setCustomFieldValues(activityId: string, values: CustomFieldValues): Promise<void> {
+    for (const [fieldId, raw] of Object.entries(values)) {
+      const value = raw?.trim();
+
+      if (!value) {
+        await db
+          .delete(activityCustomFieldValues)
+          .where(and(eq(activityCustomFieldValues.activityId, activityId), eq(activityCustomFieldValues.fieldId, fieldId)));
+        continue;
+      }
+
+      await db
+        .insert(activityCustomFieldValues)
+        .values({ activityId, fieldId, value })
+        .onConflictDoUpdate({
+          target: [activityCustomFieldValues.activityId, activityCustomFieldValues.fieldId],
+          set: { value, updatedAt: new Date() },
+        });
+    }
   }
 
   // Activity operations
-  async createActivity(activity: InsertActivity): Promise<Activity> {
+  async createActivity(activity: InsertActivity & Partial<Pick<Activity, 'recurrenceId'>>): Promise<Activity> {
     const [newActivity] = await db.insert(activities).values(activity as any).returning();
     return newActivity;
   }
@@ -279,16 +813,20 @@ export class DatabaseStorage implements IStorage {
     return newActivity;
   }
 
-  async getActivity(id: string): Promise<ActivityWithDetails | undefined> {
+  async getActivity(id: string, options: ArchiveOptions = {}): Promise<ActivityWithDetails | undefined> {
     const [activity] = await db
       .select()
       .from(activities)
       .leftJoin(users, eq(activities.collaboratorId, users.id))
-      .where(eq(activities.id, id));
+      .leftJoin(assigners, eq(activities.assignedById, assigners.id))
+      .where(and(eq(activities.id, id), options.includeArchived ? undefined : isNull(activities.deletedAt)));
 
-    if (!activity.activities) return undefined;
+    if (!activity?.activities) return undefined;
 
     const subtasks = await this.getSubtasksByActivity(id);
+    const blockedBy = await this.getOpenBlockers(id);
+    const tags = await this.getTagsByActivity(id);
+    const customFieldValues = await this.getCustomFieldValuesByActivity(id);
     const sessions = await db
       .select()
       .from(activitySessions)
@@ -297,21 +835,26 @@ export class DatabaseStorage implements IStorage {
     return {
       ...activity.activities,
       collaborator: activity.users!,
+      assignedBy: activity.assigners,
+      blockedBy,
       subtasks,
+      tags,
+      customFieldValues,
       sessions,
     };
   }
 
-  async getAllActivities(): Promise<ActivityWithDetails[]> {
-    const results = await db
-      .select()
-      .from(activities)
-      .leftJoin(users, eq(activities.collaboratorId, users.id))
-      .leftJoin(projects, eq(activities.projectId, projects.id))
-      .leftJoin(plants, eq(activities.plantId, plants.id))
-      .orderBy(desc(activities.createdAt));
-
-    const activitiesWithDetails = await Promise.all(
+  // Details of the activity lists. Blockers, tags and custom fields are loaded once for the
+  // whole list instead of once per activity.
+  private async withListDetails(results: ActivityListRow[]): Promise<ActivityWithDetails[]> {
+    const activityIds = results.map((result) => result.activities.id);
+    const [blockersById, tagsById, fieldValuesById] = await Promise.all([
+      this.getOpenBlockersByActivities(activityIds),
+      this.getTagsByActivities(activityIds),
+      this.getCustomFieldValuesByActivities(activityIds),
+    ]);
+
+    return await Promise.all(
       results.map(async (result) => {
         const subtasks = await this.getSubtasksByActivity(result.activities.id);
         let activeSession = null;
@@ -324,96 +867,462 @@ export class DatabaseStorage implements IStorage {
         return {
           ...result.activities,
           collaborator: result.users!,
+          assignedBy: result.assigners,
+          blockedBy: blockersById[result.activities.id] ?? [],
           projectRef: result.projects || null, // Manter relação como projectRef para não sobrescrever o campo project
           plantRef: result.plants || undefined,
           subtasks,
+          tags: tagsById[result.activities.id] ?? [],
+          customFieldValues: fieldValuesById[result.activities.id] ?? [],
           activeSession,
         } as ActivityWithDetails;
       })
     );
+  }
+
+  async getAllActivities(options: ArchiveOptions = {}): Promise<ActivityWithDetails[]> {
+    const results = await db
+      .select()
+      .from(activities)
+      .leftJoin(users, eq(activities.collaboratorId, users.id))
+      .leftJoin(projects, eq(activities.projectId, projects.id))
+      .leftJoin(plants, eq(activities.plantId, plants.id))
+      .leftJoin(assigners, eq(activities.assignedById, assigners.id))
+      .where(options.includeArchived ? undefined : isNull(activities.deletedAt))
+      .orderBy(desc(activities.createdAt));
 
-    return activitiesWithDetails;
+    return await this.withListDetails(results);
   }
 
-  async getActivitiesByCollaborator(collaboratorId: string): Promise<ActivityWithDetails[]> {
+  async getActivitiesByCollaborator(collaboratorId: string, options: ArchiveOptions = {}): Promise<ActivityWithDetails[]> {
     const results = await db
       .select()
       .from(activities)
       .leftJoin(users, eq(activities.collaboratorId, users.id))
       .leftJoin(projects, eq(activities.projectId, projects.id))
       .leftJoin(plants, eq(activities.plantId, plants.id))
-      .where(eq(activities.collaboratorId, collaboratorId))
+      .leftJoin(assigners, eq(activities.assignedById, assigners.id))
+      .where(and(
+        eq(activities.collaboratorId, collaboratorId),
+        options.includeArchived ? undefined : isNull(activities.deletedAt)
+      ))
       .orderBy(desc(activities.createdAt));
 
-    const activitiesWithDetails = await Promise.all(
-      results.map(async (result) => {
-        const subtasks = await this.getSubtasksByActivity(result.activities.id);
-        let activeSession = null;
+    return await this.withListDetails(results);
+  }
 
-        // Include active session for in-progress activities
-        if (result.activities.status === 'in_progress') {
-          activeSession = await this.getActiveSession(result.activities.id);
-        }
+  // Open activities past their due date that have not been flagged yet
+  async getNewlyOverdueActivities(now: Date): Promise<Activity[]> {
+    return await db
+      .select()
+      .from(activities)
+      .where(and(
+        lt(activities.dueDate, now),
+        isNull(activities.overdueNotifiedAt),
+        notInArray(activities.status, ['completed', 'cancelled']),
+        isNull(activities.deletedAt)
+      ));
+  }
 
-        return {
-          ...result.activities,
-          collaborator: result.users!,
-          projectRef: result.projects || null, // Manter relação como projectRef para não sobrescrever o campo project
-          plantRef: result.plants || undefined,
-          subtasks,
-          activeSession,
-        } as ActivityWithDetails;
+  // Returns undefined if another instance flagged it first
+  async markOverdueNotified(id: string, notifiedAt: Date): Promise<Activity | undefined> {
+    const [activity] = await db
+      .update(activities)
+      .set({ overdueNotifiedAt: notifiedAt })
+      .where(and(eq(activities.id, id), isNull(activities.overdueNotifiedAt)))
+      .returning();
+    return activity;
+  }
+
+  // Recurring series operations
+  async createRecurrence(recurrence: InsertActivityRecurrence): Promise<ActivityRecurrence> {
+    const [created] = await db.insert(activityRecurrences).values(recurrence as any).returning();
+    return created;
+  }
+
+  async getRecurrence(id: string): Promise<ActivityRecurrence | undefined> {
+    const [recurrence] = await db.select().from(activityRecurrences).where(eq(activityRecurrences.id, id));
+    return recurrence;
+  }
+
+  async updateRecurrence(id: string, updates: Partial<ActivityRecurrence>): Promise<ActivityRecurrence> {
+    const [updated] = await db
+      .update(activityRecurrences)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(activityRecurrences.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getDueRecurrences(now: Date): Promise<ActivityRecurrence[]> {
+    return await db
+      .select()
+      .from(activityRecurrences)
+      .where(and(
+        eq(activityRecurrences.status, 'active'),
+        lte(activityRecurrences.nextRunAt, now)
+      ));
+  }
+
+  // Moves the series past an occurrence; returns undefined if another instance already did
+  async advanceRecurrence(id: string, expectedRunAt: Date, updates: Partial<ActivityRecurrence>): Promise<ActivityRecurrence | undefined> {
+    const [advanced] = await db
+      .update(activityRecurrences)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(activityRecurrences.id, id),
+        eq(activityRecurrences.status, 'active'),
+        eq(activityRecurrences.nextRunAt, expectedRunAt)
+      ))
+      .returning();
+    return advanced;
+  }
+
+  // Activity dependency operations
+  async addDependency(dependency: InsertActivityDependency): Promise<ActivityDependency> {
+    const [created] = await db.insert(activityDependencies).values(dependency).returning();
+    return created;
+  }
+
+  async getDependency(activityId: string, blockerId: string): Promise<ActivityDependency | undefined> {
+    const [dependency] = await db
+      .select()
+      .from(activityDependencies)
+      .where(and(eq(activityDependencies.activityId, activityId), eq(activityDependencies.blockerId, blockerId)));
+    return dependency;
+  }
+
+  async removeDependency(activityId: string, blockerId: string): Promise<void> {
+    await db
+      .delete(activityDependencies)
+      .where(and(eq(activityDependencies.activityId, activityId), eq(activityDependencies.blockerId, blockerId)));
+  }
+
+  // Activities the given one waits on, with their owners
+  async getBlockers(activityId: string): Promise<{ activity: Activity; collaborator: User }[]> {
+    const results = await db
+      .select({ activity: activities, collaborator: users })
+      .from(activityDependencies)
+      .innerJoin(activities, eq(activityDependencies.blockerId, activities.id))
+      .innerJoin(users, eq(activities.collaboratorId, users.id))
+      .where(and(eq(activityDependencies.activityId, activityId), isNull(activities.deletedAt)))
+      .orderBy(asc(activityDependencies.createdAt));
+    return results;
+  }
+
+  // Activities waiting on the given one, with their owners
+  async getDependents(blockerId: string): Promise<{ activity: Activity; collaborator: User }[]> {
+    const results = await db
+      .select({ activity: activities, collaborator: users })
+      .from(activityDependencies)
+      .innerJoin(activities, eq(activityDependencies.activityId, activities.id))
+      .innerJoin(users, eq(activities.collaboratorId, users.id))
+      .where(and(eq(activityDependencies.blockerId, blockerId), isNull(activities.deletedAt)))
+      .orderBy(asc(activityDependencies.createdAt));
+    return results;
+  }
+
+  // Blockers still keeping the activity from starting
+  async getOpenBlockers(activityId: string): Promise<ActivitySummary[]> {
+    return (await this.getOpenBlockersByActivities([activityId]))[activityId] ?? [];
+  }
+
+  // Open blockers of many activities in one query, by activity id
+  private async getOpenBlockersByActivities(activityIds: string[]): Promise<Record<string, ActivitySummary[]>> {
+    if (activityIds.length === 0) return {};
+
+    const rows = await db
+      .select({
+        activityId: activityDependencies.activityId,
+        id: activities.id,
+        title: activities.title,
+        status: activities.status,
+        collaboratorId: activities.collaboratorId,
       })
-    );
+      .from(activityDependencies)
+      .innerJoin(activities, eq(activityDependencies.blockerId, activities.id))
+      .where(and(
+        inArray(activityDependencies.activityId, activityIds),
+        notInArray(activities.status, ['completed', 'cancelled']),
+        isNull(activities.deletedAt)
+      ));
+
+    return groupByActivity(rows, ({ activityId, ...blocker }) => blocker);
+  }
+
+  // Activity comment operations
+  async createComment(comment: InsertActivityComment): Promise<ActivityComment> {
+    const [created] = await db.insert(activityComments).values(comment as any).returning();
+    return created;
+  }
+
+  async getComment(id: string): Promise<ActivityComment | undefined> {
+    const [comment] = await db.select().from(activityComments).where(eq(activityComments.id, id));
+    return comment;
+  }
+
+  async getCommentsByActivity(activityId: string): Promise<ActivityCommentWithAuthor[]> {
+    return this.getCommentsByActivities([activityId]);
+  }
+
+  // Oldest first, so threads read top to bottom
+  async getCommentsByActivities(activityIds: string[]): Promise<ActivityCommentWithAuthor[]> {
+    if (activityIds.length === 0) return [];
+
+    const results = await db
+      .select()
+      .from(activityComments)
+      .innerJoin(users, eq(activityComments.authorId, users.id))
+      .where(inArray(activityComments.activityId, activityIds))
+      .orderBy(asc(activityComments.createdAt));
+
+    return results.map((result) => ({
+      ...result.activity_comments,
+      author: result.users,
+    }));
+  }
+
+  async updateComment(id: string, updates: Partial<ActivityComment>): Promise<ActivityComment> {
+    const [updated] = await db
+      .update(activityComments)
+      .set(updates)
+      .where(eq(activityComments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    await db.delete(activityComments).where(eq(activityComments.id, id));
+  }
+
+  // Activity attachment operations
+  async createAttachment(attachment: InsertActivityAttachment): Promise<ActivityAttachment> {
+    const [created] = await db.insert(activityAttachments).values(attachment).returning();
+    return created;
+  }
 
-    return activitiesWithDetails;
+  async getAttachment(id: string): Promise<ActivityAttachment | undefined> {
+    const [attachment] = await db.select().from(activityAttachments).where(eq(activityAttachments.id, id));
+    return attachment;
+  }
+
+  async getAttachmentsByActivity(activityId: string): Promise<ActivityAttachmentWithUploader[]> {
+    const results = await db
+      .select()
+      .from(activityAttachments)
+      .innerJoin(users, eq(activityAttachments.uploadedById, users.id))
+      .where(eq(activityAttachments.activityId, activityId))
+      .orderBy(asc(activityAttachments.createdAt));
+
+    return results.map((result) => ({
+      ...result.activity_attachments,
+      uploadedBy: result.users,
+    }));
+  }
+
+  async updateAttachment(id: string, updates: Partial<ActivityAttachment>): Promise<ActivityAttachment> {
+    const [updated] = await db
+      .update(activityAttachments)
+      .set(updates)
+      .where(eq(activityAttachments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    await db.delete(activityAttachments).where(eq(activityAttachments.id, id));
+  }
+
+  // Cards a collaborator has in one board column; archived activities are off the board
+  async countActivitiesByStatus(collaboratorId: string, status: Activity['status']): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(activities)
+      .where(and(
+        eq(activities.collaboratorId, collaboratorId),
+        eq(activities.status, status),
+        isNull(activities.deletedAt)
+      ));
+    return Number(result.count);
   }
 
-  async getActivitiesBySector(sectorId: string): Promise<ActivityWithDetails[]> {
+  async getActivitiesBySector(sectorId: string, options: ArchiveOptions = {}): Promise<ActivityWithDetails[]> {
     const results = await db
       .select()
       .from(activities)
       .leftJoin(users, eq(activities.collaboratorId, users.id))
       .leftJoin(projects, eq(activities.projectId, projects.id))
       .leftJoin(plants, eq(activities.plantId, plants.id))
-      .where(eq(users.sectorId, sectorId))
+      .leftJoin(assigners, eq(activities.assignedById, assigners.id))
+      .where(and(
+        eq(users.sectorId, sectorId),
+        options.includeArchived ? undefined : isNull(activities.deletedAt)
+      ))
       .orderBy(desc(activities.createdAt));
 
-    const activitiesWithDetails = await Promise.all(
-      results.map(async (result) => {
-        const subtasks = await this.getSubtasksByActivity(result.activities.id);
-        let activeSession = null;
+    return await this.withListDetails(results);
+  }
 
-        // Include active session for in-progress activities
-        if (result.activities.status === 'in_progress') {
-          activeSession = await this.getActiveSession(result.activities.id);
+  async updateActivity(id: string, updates: Partial<Activity>): Promise<Activity> {
+    const [updated] = await db
+      .update(activities)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(activities.id, id))
+      .returning();
+    return updated;
+  }
+
+  // All or nothing: a failure on any activity rolls back the whole batch
+  async applyBulkActivityChanges(changes: BulkActivityChange[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const change of changes) {
+        if (change.closeSession) {
+          await tx
+            .update(activitySessions)
+            .set({ endedAt: change.closeSession.endedAt, duration: change.closeSession.duration })
+            .where(eq(activitySessions.id, change.closeSession.id));
         }
 
-        return {
-          ...result.activities,
-          collaborator: result.users!,
-          projectRef: result.projects || null, // Manter relação como projectRef para não sobrescrever o campo project
-          plantRef: result.plants || undefined,
-          subtasks,
-          activeSession,
-        } as ActivityWithDetails;
+        await tx
+          .update(activities)
+          .set({ ...change.updates, updatedAt: new Date() })
+          .where(eq(activities.id, change.activityId));
+
+        if (change.addTagIds?.length) {
+          await tx
+            .insert(activityTags)
+            .values(change.addTagIds.map((tagId) => ({ activityId: change.activityId, tagId })))
+            .onConflictDoNothing();
+        }
+
+        if (change.log) {
+          await tx.insert(activityLogs).values(change.log);
+        }
+      }
+    });
+  }
+
+  // Returns undefined if the assignment was already answered
+  async respondToAssignment(id: string, decision: 'accepted' | 'declined', reason?: string): Promise<Activity | undefined> {
+    const [activity] = await db
+      .update(activities)
+      .set({
+        assignmentStatus: decision,
+        assignmentRespondedAt: new Date(),
+        assignmentDeclineReason: decision === 'declined' ? reason : null,
+        updatedAt: new Date(),
       })
-    );
+      .where(and(eq(activities.id, id), eq(activities.assignmentStatus, 'pending')))
+      .returning();
+    return activity;
+  }
+
+  async archiveActivity(id: string, deletedById: string): Promise<Activity | undefined> {
+    const [activity] = await db
+      .update(activities)
+      .set({ deletedAt: new Date(), deletedById })
+      .where(and(eq(activities.id, id), isNull(activities.deletedAt)))
+      .returning();
+    return activity;
+  }
+
+  async restoreActivity(id: string): Promise<Activity | undefined> {
+    const [activity] = await db
+      .update(activities)
+      .set({ deletedAt: null, deletedById: null, updatedAt: new Date() })
+      .where(and(eq(activities.id, id), isNotNull(activities.deletedAt)))
+      .returning();
+    return activity;
+  }
+
+  // Removes the activity and everything hanging off it; returns the attachment files left to delete from disk.
+  // A series started from it ends, and its occurrences stay as plain activities.
+  async purgeActivity(id: string): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const attachments = await tx
+        .select({ filePath: activityAttachments.filePath })
+        .from(activityAttachments)
+        .where(eq(activityAttachments.activityId, id));
+
+      const series = tx
+        .select({ id: activityRecurrences.id })
+        .from(activityRecurrences)
+        .where(eq(activityRecurrences.templateActivityId, id));
+      await tx.update(activities).set({ recurrenceId: null }).where(inArray(activities.recurrenceId, series));
+      await tx.delete(activityRecurrences).where(eq(activityRecurrences.templateActivityId, id));
+
+      await tx.delete(activityDependencies).where(or(
+        eq(activityDependencies.activityId, id),
+        eq(activityDependencies.blockerId, id)
+      ));
+      await tx.update(notifications).set({ activityId: null }).where(eq(notifications.activityId, id));
+      await tx.delete(activityAttachments).where(eq(activityAttachments.activityId, id));
+      await tx.delete(activityComments).where(eq(activityComments.activityId, id));
+      await tx.delete(subtasks).where(eq(subtasks.activityId, id));
+      await tx.delete(activityTags).where(eq(activityTags.activityId, id));
+      await tx.delete(activityCustomFieldValues).where(eq(activityCustomFieldValues.activityId, id));
+      await tx.delete(timeAdjustmentLogs).where(eq(timeAdjustmentLogs.activityId, id));
+      await tx.delete(activitySessions).where(eq(activitySessions.activityId, id));
+      await tx.delete(activityLogs).where(eq(activityLogs.activityId, id));
+      await tx.delete(activityChanges).where(eq(activityChanges.activityId, id));
+      await tx.delete(activities).where(eq(activities.id, id));
+
+      return attachments.map((attachment) => attachment.filePath);
+    });
+  }
 
-    return activitiesWithDetails;
+  async getArchivedActivities(before?: Date): Promise<Archived<Activity & { collaborator: User }>[]> {
+    const deleters = alias(users, "deleters");
+    const results = await db
+      .select()
+      .from(activities)
+      .innerJoin(users, eq(activities.collaboratorId, users.id))
+      .leftJoin(deleters, eq(activities.deletedById, deleters.id))
+      .where(before ? lt(activities.deletedAt, before) : isNotNull(activities.deletedAt))
+      .orderBy(desc(activities.deletedAt));
+
+    return results.map(result => ({
+      ...result.activities,
+      collaborator: result.users,
+      deletedBy: result.deleters,
+    }));
   }
 
-  async updateActivity(id: string, updates: Partial<Activity>): Promise<Activity> {
-    const [updated] = await db
-      .update(activities)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(activities.id, id))
-      .returning();
-    return updated;
-  }
+  async searchActivities(query: string, scope: ActivitySearchScope, limit: number): Promise<ActivitySearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${query})`;
+    const rank = sql`ts_rank(${activitySearchDocuments.document}, ${tsQuery})`;
+    const headline = (text: unknown, options: string) =>
+      sql<string>`ts_headline(${SEARCH_CONFIG}::regconfig, ${text}, ${tsQuery}, ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, ${options}`})`;
+
+    const results = await db
+      .select({
+        id: activities.id,
+        title: activities.title,
+        status: activities.status,
+        collaboratorId: activities.collaboratorId,
+        createdAt: activities.createdAt,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        username: users.username,
+        titleHighlight: headline(activities.title, 'HighlightAll=true'),
+        snippet: headline(activitySearchDocuments.content, 'MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'),
+      })
+      .from(activitySearchDocuments)
+      .innerJoin(activities, eq(activitySearchDocuments.activityId, activities.id))
+      .innerJoin(users, eq(activities.collaboratorId, users.id))
+      .where(and(
+        sql`${activitySearchDocuments.document} @@ ${tsQuery}`,
+        isNull(activities.deletedAt),
+        scope.collaboratorId ? eq(activities.collaboratorId, scope.collaboratorId) : undefined,
+        scope.sectorId ? eq(users.sectorId, scope.sectorId) : undefined
+      ))
+      .orderBy(desc(rank), desc(activities.createdAt))
+      .limit(limit);
 
-  async deleteActivity(id: string): Promise<void> {
-    await db.delete(activities).where(eq(activities.id, id));
+    return results.map(({ firstName, lastName, username, ...result }) => ({
+      ...result,
+      collaboratorName: firstName ? `${firstName} ${lastName || ''}`.trim() : username,
+    }));
   }
 
   // Activity session operations
@@ -465,6 +1374,181 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
+  // Running sessions of in-progress activities, with the owner's settings (shift end)
+  async getOpenSessions(): Promise<{ session: ActivitySession; activity: Activity; settings: UserSettings | null }[]> {
+    const results = await db
+      .select()
+      .from(activitySessions)
+      .innerJoin(activities, eq(activitySessions.activityId, activities.id))
+      .leftJoin(userSettings, eq(activities.collaboratorId, userSettings.userId))
+      .where(and(
+        isNull(activitySessions.endedAt),
+        eq(activities.status, 'in_progress')
+      ));
+
+    return results.map(result => ({
+      session: result.activity_sessions,
+      activity: result.activities,
+      settings: result.user_settings,
+    }));
+  }
+
+  // Ends a session only if it is still open, so concurrent callers cannot close it twice
+  async closeOpenSession(sessionId: string, endTime: Date): Promise<ActivitySession | undefined> {
+    const [currentSession] = await db
+      .select()
+      .from(activitySessions)
+      .where(eq(activitySessions.id, sessionId));
+
+    if (!currentSession || currentSession.endedAt) return undefined;
+
+    // Calculate duration in JavaScript to avoid timezone issues
+    const duration = Math.max(0, Math.floor((endTime.getTime() - new Date(currentSession.startedAt).getTime()) / 1000));
+
+    const [session] = await db
+      .update(activitySessions)
+      .set({
+        endedAt: endTime,
+        duration,
+      })
+      .where(and(
+        eq(activitySessions.id, sessionId),
+        isNull(activitySessions.endedAt)
+      ))
+      .returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<ActivitySession | undefined> {
+    const [session] = await db
+      .select()
+      .from(activitySessions)
+      .where(eq(activitySessions.id, id));
+    return session;
+  }
+
+  async getSessionsByActivity(activityId: string): Promise<ActivitySession[]> {
+    return await db
+      .select()
+      .from(activitySessions)
+      .where(eq(activitySessions.activityId, activityId))
+      .orderBy(asc(activitySessions.startedAt));
+  }
+
+  // First session of any of the collaborator's activities intersecting [startedAt, endedAt); running sessions extend to now
+  async findOverlappingSession(
+    collaboratorId: string,
+    startedAt: Date,
+    endedAt: Date,
+    excludeSessionIds: string[] = []
+  ): Promise<{ session: ActivitySession; activityTitle: string } | undefined> {
+    const conditions = [
+      eq(activities.collaboratorId, collaboratorId),
+      lt(activitySessions.startedAt, endedAt),
+      or(isNull(activitySessions.endedAt), gt(activitySessions.endedAt, startedAt)),
+    ];
+    if (excludeSessionIds.length > 0) {
+      conditions.push(notInArray(activitySessions.id, excludeSessionIds));
+    }
+
+    const [result] = await db
+      .select({ session: activitySessions, activityTitle: activities.title })
+      .from(activitySessions)
+      .innerJoin(activities, eq(activitySessions.activityId, activities.id))
+      .where(and(...conditions))
+      .orderBy(asc(activitySessions.startedAt))
+      .limit(1);
+    return result;
+  }
+
+  // Swaps a set of closed sessions for new intervals and records the change, atomically
+  async replaceSessions(
+    activityId: string,
+    removeSessionIds: string[],
+    intervals: { startedAt: Date; endedAt: Date }[],
+    log: InsertTimeAdjustmentLog
+  ): Promise<ActivitySession[]> {
+    return await db.transaction(async (tx) => {
+      const created = await swapSessions(tx, activityId, removeSessionIds, intervals);
+
+      await tx.insert(timeAdjustmentLogs).values({
+        ...log,
+        details: {
+          ...(log.details as object),
+          after: sessionSnapshots(created),
+        },
+      });
+
+      return created;
+    });
+  }
+
+  // Approves a pending session change and applies it, atomically; undefined if it was already reviewed
+  async approveSessionChange(
+    id: string,
+    reviewedById: string,
+    reviewNote: string | undefined,
+    removeSessionIds: string[],
+    intervals: { startedAt: Date; endedAt: Date }[]
+  ): Promise<TimeAdjustmentLog | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(timeAdjustmentLogs)
+        .where(and(
+          eq(timeAdjustmentLogs.id, id),
+          eq(timeAdjustmentLogs.status, 'pending')
+        ))
+        .for('update');
+      if (!pending) return undefined;
+
+      const created = await swapSessions(tx, pending.activityId, removeSessionIds, intervals);
+
+      const [log] = await tx
+        .update(timeAdjustmentLogs)
+        .set({
+          status: 'approved',
+          reviewedById,
+          reviewedAt: new Date(),
+          reviewNote,
+          details: {
+            ...(pending.details as object),
+            after: sessionSnapshots(created),
+          },
+        })
+        .where(eq(timeAdjustmentLogs.id, id))
+        .returning();
+      return log;
+    });
+  }
+
+  // Tracked time = closed sessions + approved adjustments; activities.totalTime only caches it
+  async getTrackedTime(activityId: string): Promise<number> {
+    const [sessionsTotal] = await db
+      .select({ total: sql<number>`coalesce(sum(${activitySessions.duration}), 0)::int` })
+      .from(activitySessions)
+      .where(and(
+        eq(activitySessions.activityId, activityId),
+        isNotNull(activitySessions.endedAt)
+      ));
+
+    const [adjustmentsTotal] = await db
+      .select({ total: sql<number>`coalesce(sum(${timeAdjustmentLogs.newTime} - ${timeAdjustmentLogs.previousTime}), 0)::int` })
+      .from(timeAdjustmentLogs)
+      .where(and(
+        eq(timeAdjustmentLogs.activityId, activityId),
+        eq(timeAdjustmentLogs.kind, 'adjustment'),
+        eq(timeAdjustmentLogs.status, 'approved')
+      ));
+
+    return Math.max(0, Number(sessionsTotal.total) + Number(adjustmentsTotal.total));
+  }
+
+  async recalculateTotalTime(activityId: string): Promise<Activity> {
+    const totalTime = await this.getTrackedTime(activityId);
+    return this.updateActivity(activityId, { totalTime });
+  }
+
   // Subtask operations
   async createSubtask(subtask: InsertSubtask): Promise<Subtask> {
     const [newSubtask] = await db.insert(subtasks).values(subtask).returning();
@@ -479,15 +1563,21 @@ export class DatabaseStorage implements IStorage {
     return subtask;
   }
 
-  async getSubtasksByActivity(activityId: string): Promise<Subtask[]> {
-    return await db
+  async getSubtasksByActivity(activityId: string): Promise<SubtaskWithAssignee[]> {
+    const results = await db
       .select()
       .from(subtasks)
+      .leftJoin(users, eq(subtasks.assigneeId, users.id))
       .where(eq(subtasks.activityId, activityId))
-      .orderBy(asc(subtasks.createdAt));
+      .orderBy(asc(subtasks.order), asc(subtasks.createdAt));
+
+    return results.map(result => ({
+      ...result.subtasks,
+      assignee: result.users,
+    }));
   }
 
-  async updateSubtask(id: string, data: { completed?: boolean }): Promise<Subtask> {
+  async updateSubtask(id: string, data: Partial<InsertSubtask>): Promise<Subtask> {
     // First get the subtask to find its activity
     const [subtask] = await db
       .select()
@@ -518,10 +1608,6 @@ export class DatabaseStorage implements IStorage {
     await db.delete(subtasks).where(eq(subtasks.id, id));
   }
 
-  async deleteSubtasksByActivity(activityId: string): Promise<void> {
-    await db.delete(subtasks).where(eq(subtasks.activityId, activityId));
-  }
-
   // Time adjustment operations
   async createTimeAdjustmentLog(log: InsertTimeAdjustmentLog): Promise<TimeAdjustmentLog> {
     const [newLog] = await db.insert(timeAdjustmentLogs).values(log).returning();
@@ -536,6 +1622,108 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(timeAdjustmentLogs.createdAt));
   }
 
+  async getTimeAdjustmentLog(id: string): Promise<TimeAdjustmentLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(timeAdjustmentLogs)
+      .where(eq(timeAdjustmentLogs.id, id));
+    return log;
+  }
+
+  async getPendingTimeAdjustments(sectorId?: string): Promise<TimeAdjustmentLogWithDetails[]> {
+    const conditions = [eq(timeAdjustmentLogs.status, 'pending'), isNull(activities.deletedAt)];
+    if (sectorId) {
+      conditions.push(eq(users.sectorId, sectorId));
+    }
+
+    const results = await db
+      .select()
+      .from(timeAdjustmentLogs)
+      .innerJoin(users, eq(timeAdjustmentLogs.userId, users.id))
+      .innerJoin(activities, eq(timeAdjustmentLogs.activityId, activities.id))
+      .where(and(...conditions))
+      .orderBy(asc(timeAdjustmentLogs.createdAt));
+
+    return results.map(result => ({
+      ...result.time_adjustment_logs,
+      user: result.users,
+      activity: result.activities,
+    }));
+  }
+
+  // Every adjustment and session edit, with author and reviewer, scoped by the activity's collaborator
+  async getTimeAdjustmentHistory(filters: {
+    activityId?: string;
+    collaboratorId?: string;
+    sectorId?: string;
+    startDate?: Date;
+    endDate?: Date;
+    includeArchived?: boolean;
+  }): Promise<TimeAdjustmentLogWithDetails[]> {
+    const reviewers = alias(users, "reviewers");
+    const conditions = [];
+    if (!filters.includeArchived) {
+      conditions.push(isNull(activities.deletedAt));
+    }
+    if (filters.activityId) {
+      conditions.push(eq(timeAdjustmentLogs.activityId, filters.activityId));
+    }
+    if (filters.collaboratorId) {
+      conditions.push(eq(activities.collaboratorId, filters.collaboratorId));
+    }
+    if (filters.sectorId) {
+      conditions.push(inArray(
+        activities.collaboratorId,
+        db.select({ id: users.id }).from(users).where(eq(users.sectorId, filters.sectorId))
+      ));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(timeAdjustmentLogs.createdAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(timeAdjustmentLogs.createdAt, filters.endDate));
+    }
+
+    const results = await db
+      .select()
+      .from(timeAdjustmentLogs)
+      .innerJoin(users, eq(timeAdjustmentLogs.userId, users.id))
+      .innerJoin(activities, eq(timeAdjustmentLogs.activityId, activities.id))
+      .leftJoin(reviewers, eq(timeAdjustmentLogs.reviewedById, reviewers.id))
+      .where(and(...conditions))
+      .orderBy(desc(timeAdjustmentLogs.createdAt));
+
+    return results.map(result => ({
+      ...result.time_adjustment_logs,
+      user: result.users,
+      activity: result.activities,
+      reviewedBy: result.reviewers,
+    }));
+  }
+
+  // Decides a pending adjustment; returns undefined if it was already reviewed
+  async reviewTimeAdjustment(
+    id: string,
+    reviewedById: string,
+    status: 'approved' | 'rejected',
+    reviewNote?: string
+  ): Promise<TimeAdjustmentLog | undefined> {
+    const [log] = await db
+      .update(timeAdjustmentLogs)
+      .set({
+        status,
+        reviewedById,
+        reviewedAt: new Date(),
+        reviewNote,
+      })
+      .where(and(
+        eq(timeAdjustmentLogs.id, id),
+        eq(timeAdjustmentLogs.status, 'pending')
+      ))
+      .returning();
+    return log;
+  }
+
   // Dashboard queries
   async getUserWithSector(id: string): Promise<UserWithSector | undefined> {
     const [result] = await db
@@ -559,7 +1747,8 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(users, eq(activities.collaboratorId, users.id))
       .where(and(
         eq(users.sectorId, sectorId),
-        eq(activities.status, 'in_progress')
+        eq(activities.status, 'in_progress'),
+        isNull(activities.deletedAt)
       ));
 
     return results.map(result => ({
@@ -585,7 +1774,8 @@ export class DatabaseStorage implements IStorage {
         eq(activities.collaboratorId, collaboratorId),
         eq(activities.status, 'completed'),
         gte(activities.completedAt, startDate),
-        lte(activities.completedAt, endDate)
+        lte(activities.completedAt, endDate),
+        isNull(activities.deletedAt)
       ))
       .orderBy(desc(activities.completedAt));
 
@@ -664,6 +1854,49 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Activity change history operations
+  async createActivityChanges(changes: InsertActivityChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    await db.insert(activityChanges).values(changes);
+  }
+
+  async getActivityChanges(activityId: string): Promise<ActivityChangeWithUser[]> {
+    const results = await db
+      .select()
+      .from(activityChanges)
+      .innerJoin(users, eq(activityChanges.userId, users.id))
+      .where(eq(activityChanges.activityId, activityId))
+      .orderBy(desc(activityChanges.createdAt));
+
+    return results.map(result => ({
+      ...result.activity_changes,
+      user: result.users,
+    }));
+  }
+
+  // Everything a user changed between from and to, newest first
+  async getActivityChangesByUser(userId: string, from: Date, to: Date, limit: number, offset: number): Promise<ActivityChangeWithUser[]> {
+    const results = await db
+      .select()
+      .from(activityChanges)
+      .innerJoin(users, eq(activityChanges.userId, users.id))
+      .innerJoin(activities, eq(activityChanges.activityId, activities.id))
+      .where(and(
+        eq(activityChanges.userId, userId),
+        gte(activityChanges.createdAt, from),
+        lte(activityChanges.createdAt, to)
+      ))
+      .orderBy(desc(activityChanges.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return results.map(result => ({
+      ...result.activity_changes,
+      user: result.users,
+      activityTitle: result.activities.title,
+    }));
+  }
+
   // Project operations
   async createProject(projectData: InsertProject): Promise<Project> {
     const [project] = await db.insert(projects).values(projectData).returning();
@@ -676,6 +1909,7 @@ export class DatabaseStorage implements IStorage {
       .from(projects)
       .leftJoin(users, eq(projects.ownerId, users.id))
       .leftJoin(sectors, eq(projects.sectorId, sectors.id))
+      .where(isNull(projects.deletedAt))
       .orderBy(desc(projects.createdAt));
 
     return results.map(result => ({
@@ -685,13 +1919,13 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async getProjectById(id: string): Promise<ProjectWithDetails | undefined> {
+  async getProjectById(id: string, options: ArchiveOptions = {}): Promise<ProjectWithDetails | undefined> {
     const results = await db
       .select()
       .from(projects)
       .leftJoin(users, eq(projects.ownerId, users.id))
       .leftJoin(sectors, eq(projects.sectorId, sectors.id))
-      .where(eq(projects.id, id));
+      .where(and(eq(projects.id, id), options.includeArchived ? undefined : isNull(projects.deletedAt)));
 
     if (results.length === 0) return undefined;
 
@@ -709,7 +1943,7 @@ export class DatabaseStorage implements IStorage {
       .from(projects)
       .leftJoin(users, eq(projects.ownerId, users.id))
       .leftJoin(sectors, eq(projects.sectorId, sectors.id))
-      .where(eq(projects.sectorId, sectorId))
+      .where(and(eq(projects.sectorId, sectorId), isNull(projects.deletedAt)))
       .orderBy(desc(projects.createdAt));
 
     return results.map(result => ({
@@ -726,7 +1960,7 @@ export class DatabaseStorage implements IStorage {
       .from(projects)
       .leftJoin(users, eq(projects.ownerId, users.id))
       .leftJoin(sectors, eq(projects.sectorId, sectors.id))
-      .where(eq(projects.ownerId, userId))
+      .where(and(eq(projects.ownerId, userId), isNull(projects.deletedAt)))
       .orderBy(desc(projects.createdAt));
 
     const memberResults = await db
@@ -739,7 +1973,7 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(projects, eq(projectMembers.projectId, projects.id))
       .leftJoin(users, eq(projects.ownerId, users.id))
       .leftJoin(sectors, eq(projects.sectorId, sectors.id))
-      .where(eq(projectMembers.userId, userId))
+      .where(and(eq(projectMembers.userId, userId), isNull(projects.deletedAt)))
       .orderBy(desc(projects.createdAt));
 
     // Combine and deduplicate
@@ -775,11 +2009,53 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
 
-  async deleteProject(id: string): Promise<void> {
-    // Delete project members first
-    await db.delete(projectMembers).where(eq(projectMembers.projectId, id));
-    // Delete project
-    await db.delete(projects).where(eq(projects.id, id));
+  async archiveProject(id: string, deletedById: string): Promise<Project | undefined> {
+    const [project] = await db
+      .update(projects)
+      .set({ deletedAt: new Date(), deletedById })
+      .where(and(eq(projects.id, id), isNull(projects.deletedAt)))
+      .returning();
+    return project;
+  }
+
+  async restoreProject(id: string): Promise<Project | undefined> {
+    const [project] = await db
+      .update(projects)
+      .set({ deletedAt: null, deletedById: null, updatedAt: new Date() })
+      .where(and(eq(projects.id, id), isNotNull(projects.deletedAt)))
+      .returning();
+    return project;
+  }
+
+  // Only called once no activity references the project
+  async purgeProject(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(projectMembers).where(eq(projectMembers.projectId, id));
+      await tx.delete(projects).where(eq(projects.id, id));
+    });
+  }
+
+  async getArchivedProjects(before?: Date): Promise<Archived<Project>[]> {
+    const results = await db
+      .select()
+      .from(projects)
+      .leftJoin(users, eq(projects.deletedById, users.id))
+      .where(before ? lt(projects.deletedAt, before) : isNotNull(projects.deletedAt))
+      .orderBy(desc(projects.deletedAt));
+
+    return results.map(result => ({
+      ...result.projects,
+      deletedBy: result.users,
+    }));
+  }
+
+  // Archived activities included: they still reference the project
+  async countActivitiesByProject(projectId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(activities)
+      .where(eq(activities.projectId, projectId));
+    return result.count;
   }
 
   // Project member operations
@@ -911,6 +2187,191 @@ export class DatabaseStorage implements IStorage {
       return updatedSettings;
     }
   }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async getNotificationsByUser(userId: string, limit: number = 30): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.id, id),
+        eq(notifications.userId, userId)
+      ))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt)
+      ));
+  }
+
+  // Timesheet operations
+  // Sessions of the user's activities intersecting [start, end); running sessions included
+  async getSessionsForUserInRange(
+    userId: string,
+    start: Date,
+    end: Date
+  ): Promise<{ session: ActivitySession; activity: Activity; projectName: string | null; plantName: string | null }[]> {
+    // Archived activities still count here: their time was worked and may sit in an approved week
+    const results = await db
+      .select({
+        session: activitySessions,
+        activity: activities,
+        projectName: projects.name,
+        plantName: plants.name,
+      })
+      .from(activitySessions)
+      .innerJoin(activities, eq(activitySessions.activityId, activities.id))
+      .leftJoin(projects, eq(activities.projectId, projects.id))
+      .leftJoin(plants, eq(activities.plantId, plants.id))
+      .where(and(
+        eq(activities.collaboratorId, userId),
+        lt(activitySessions.startedAt, end),
+        or(isNull(activitySessions.endedAt), gt(activitySessions.endedAt, start))
+      ))
+      .orderBy(asc(activitySessions.startedAt));
+
+    return results.map(result => ({
+      ...result,
+      projectName: result.projectName ?? result.activity.project ?? null,
+      plantName: result.plantName ?? result.activity.plant ?? null,
+    }));
+  }
+
+  async getTimesheet(userId: string, weekStart: string): Promise<Timesheet | undefined> {
+    const [timesheet] = await db
+      .select()
+      .from(timesheets)
+      .where(and(
+        eq(timesheets.userId, userId),
+        eq(timesheets.weekStart, weekStart)
+      ));
+    return timesheet;
+  }
+
+  async getTimesheetById(id: string): Promise<Timesheet | undefined> {
+    const [timesheet] = await db
+      .select()
+      .from(timesheets)
+      .where(eq(timesheets.id, id));
+    return timesheet;
+  }
+
+  async getSubmittedTimesheets(sectorId?: string): Promise<TimesheetWithUser[]> {
+    const conditions = [eq(timesheets.status, 'submitted')];
+    if (sectorId) {
+      conditions.push(eq(users.sectorId, sectorId));
+    }
+
+    const results = await db
+      .select()
+      .from(timesheets)
+      .innerJoin(users, eq(timesheets.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(timesheets.weekStart));
+
+    return results.map(result => ({
+      ...result.timesheets,
+      user: result.users,
+    }));
+  }
+
+  async getApprovedWeeks(userId: string, weekStarts: string[]): Promise<string[]> {
+    if (weekStarts.length === 0) return [];
+
+    const results = await db
+      .select({ weekStart: timesheets.weekStart })
+      .from(timesheets)
+      .where(and(
+        eq(timesheets.userId, userId),
+        eq(timesheets.status, 'approved'),
+        inArray(timesheets.weekStart, weekStarts)
+      ));
+    return results.map(result => result.weekStart);
+  }
+
+  // Submitting again (after a rejection or reopening) resets the previous review
+  async submitTimesheet(userId: string, weekStart: string, totalTime: number): Promise<Timesheet> {
+    const submission = {
+      status: 'submitted',
+      totalTime,
+      submittedAt: new Date(),
+      reviewedById: null,
+      reviewedAt: null,
+      reviewNote: null,
+      updatedAt: new Date(),
+    };
+
+    const [timesheet] = await db
+      .insert(timesheets)
+      .values({ userId, weekStart, ...submission })
+      .onConflictDoUpdate({
+        target: [timesheets.userId, timesheets.weekStart],
+        set: submission,
+      })
+      .returning();
+    return timesheet;
+  }
+
+  async reviewTimesheet(
+    id: string,
+    reviewedById: string,
+    status: 'approved' | 'rejected',
+    reviewNote?: string
+  ): Promise<Timesheet | undefined> {
+    const [timesheet] = await db
+      .update(timesheets)
+      .set({
+        status,
+        reviewedById,
+        reviewedAt: new Date(),
+        reviewNote,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(timesheets.id, id),
+        eq(timesheets.status, 'submitted')
+      ))
+      .returning();
+    return timesheet;
+  }
+
+  async reopenTimesheet(id: string, reopenedById: string): Promise<Timesheet | undefined> {
+    const [timesheet] = await db
+      .update(timesheets)
+      .set({
+        status: 'reopened',
+        reopenedById,
+        reopenedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(timesheets.id, id),
+        eq(timesheets.status, 'approved')
+      ))
+      .returning();
+    return timesheet;
+  }
 }
 
 export const storage = new DatabaseStorage();
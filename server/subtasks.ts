@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import { notifyUser } from "./notifications";
+import type { Activity, ActivityWithDetails, InsertSubtask, Subtask, SubtaskInput, User } from "@shared/schema";
+
+const displayName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username;
+
+// A checklist item can go to the activity owner or an active member of the owner's sector
+export async function canAssignSubtaskTo(assigneeId: string, owner: User) {
+  if (assigneeId === owner.id) return true;
+  const assignee = await storage.getUser(assigneeId);
+  return !!assignee?.isActive && !!owner.sectorId && assignee.sectorId === owner.sectorId;
+}
+
+export async function hasInvalidAssignee(items: SubtaskInput[], owner: User) {
+  for (const item of items) {
+    if (item.assigneeId && !await canAssignSubtaskTo(item.assigneeId, owner)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Who ticked the item and when; cleared again when it is unticked
+export const completionFields = (completed: boolean, userId: string) => ({
+  completed,
+  completedAt: completed ? new Date() : null,
+  completedById: completed ? userId : null,
+});
+
+export async function logSubtaskCompleted(activity: Activity, subtask: Subtask, userId: string) {
+  await storage.createActivityLog({
+    activityId: activity.id,
+    userId,
+    action: 'subtask_completed',
+    activityTitle: activity.title,
+    details: subtask.title,
+  });
+}
+
+export async function notifySubtaskAssignee(subtask: Subtask, activity: Activity, assignedBy: User) {
+  if (!subtask.assigneeId || subtask.assigneeId === assignedBy.id) return;
+
+  await notifyUser({
+    userId: subtask.assigneeId,
+    type: 'subtask_assigned',
+    title: 'Subtarefa atribuída a você',
+    message: `${displayName(assignedBy)} atribuiu a você a subtarefa "${subtask.title}" de "${activity.title}"`,
+    activityId: activity.id,
+    data: { subtaskId: subtask.id },
+  });
+}
+
+// Applies an edited checklist by id instead of recreating it, so ids, creation dates and
+// attachments of the kept items survive. The list order becomes the `order` column.
+export async function syncSubtasks(activity: ActivityWithDetails, items: SubtaskInput[], user: User) {
+  const existing = new Map((activity.subtasks || []).map((subtask) => [subtask.id, subtask]));
+  const kept = new Set<string>();
+
+  for (let order = 0; order < items.length; order++) {
+    const item = items[order];
+    const current = item.id ? existing.get(item.id) : undefined;
+
+    if (!current) {
+      const created = await storage.createSubtask({
+        activityId: activity.id,
+        title: item.title,
+        order,
+        assigneeId: item.assigneeId || null,
+        ...completionFields(item.completed || false, user.id),
+      });
+      if (created.completed) await logSubtaskCompleted(activity, created, user.id);
+      await notifySubtaskAssignee(created, activity, user);
+      continue;
+    }
+
+    kept.add(current.id);
+
+    const changes: Partial<InsertSubtask> = {};
+    if (item.title !== current.title) changes.title = item.title;
+    if (order !== current.order) changes.order = order;
+    if (item.assigneeId !== undefined && (item.assigneeId || null) !== current.assigneeId) {
+      changes.assigneeId = item.assigneeId || null;
+    }
+    if (item.completed !== undefined && item.completed !== !!current.completed) {
+      Object.assign(changes, completionFields(item.completed, user.id));
+    }
+    if (Object.keys(changes).length === 0) continue;
+
+    const updated = await storage.updateSubtask(current.id, changes);
+    if (changes.completed) await logSubtaskCompleted(activity, updated, user.id);
+    if (changes.assigneeId) await notifySubtaskAssignee(updated, activity, user);
+  }
+
+  for (const subtask of activity.subtasks || []) {
+    if (!kept.has(subtask.id)) {
+      await storage.deleteSubtask(subtask.id);
+    }
+  }
+}
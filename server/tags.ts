@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import type { Tag, User } from "@shared/schema";
+
+export const tagIdsSchema = z.array(z.string()).max(20, "Máximo de 20 tags por atividade");
+
+// A sector's tags are only offered to that sector; global tags to everyone
+const tagAvailableTo = (tag: Tag, sectorId: string | null) => !tag.sectorId || tag.sectorId === sectorId;
+
+// Tags the user can pick and filter by (every tag, for admins)
+export async function tagsForUser(user: User): Promise<Tag[]> {
+  const tags = await storage.getTags();
+  return user.role === 'admin' ? tags : tags.filter((tag) => tagAvailableTo(tag, user.sectorId));
+}
+
+// Unknown tags, or tags scoped to another sector than the activity owner's
+export async function hasInvalidTags(tagIds: string[], owner: User) {
+  const tags = await storage.getTags();
+  return tagIds.some((id) => {
+    const tag = tags.find((candidate) => candidate.id === id);
+    return !tag || !tagAvailableTo(tag, owner.sectorId);
+  });
+}
+
+export const tagNames = (tags?: Tag[]) => (tags || []).map((tag) => tag.name).join(', ');
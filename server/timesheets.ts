@@ -0,0 +1,131 @@
+import { addDays, format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { publish } from "./realtime";
+import { notifyUser } from "./notifications";
+import { channel, type Channel } from "@shared/realtime";
+import { weekStartOf, weekRange, weeksBetween } from "@shared/timesheet";
+import type { ActivityWithDetails, Timesheet, TimesheetRow, TimesheetWeek, User } from "@shared/schema";
+
+// HTTP status for changes rejected because the period is locked
+export const LOCKED_STATUS = 423;
+
+const overlapSeconds = (start: Date, end: Date, rangeStart: Date, rangeEnd: Date) => {
+  const from = Math.max(start.getTime(), rangeStart.getTime());
+  const to = Math.min(end.getTime(), rangeEnd.getTime());
+  return to > from ? Math.floor((to - from) / 1000) : 0;
+};
+
+// Monday-Sunday hours per activity, split by day, from the user's sessions
+export async function buildTimesheetWeek(userId: string, weekStart: string): Promise<TimesheetWeek> {
+  const { start, end } = weekRange(weekStart);
+  const now = new Date();
+  const days = Array.from({ length: 7 }, (_, day) => ({ start: addDays(start, day), end: addDays(start, day + 1) }));
+
+  const entries = await storage.getSessionsForUserInRange(userId, start, end);
+  const rows = new Map<string, TimesheetRow>();
+
+  for (const { session, activity, projectName, plantName } of entries) {
+    const sessionStart = new Date(session.startedAt);
+    const sessionEnd = session.endedAt ? new Date(session.endedAt) : now;
+
+    let row = rows.get(activity.id);
+    if (!row) {
+      row = {
+        activityId: activity.id,
+        activityTitle: activity.title,
+        projectId: activity.projectId,
+        projectName,
+        plantId: activity.plantId,
+        plantName,
+        days: [0, 0, 0, 0, 0, 0, 0],
+        total: 0,
+      };
+      rows.set(activity.id, row);
+    }
+
+    days.forEach((day, index) => {
+      const seconds = overlapSeconds(sessionStart, sessionEnd, day.start, day.end);
+      row!.days[index] += seconds;
+      row!.total += seconds;
+    });
+  }
+
+  const sortedRows = Array.from(rows.values())
+    .filter((row) => row.total > 0)
+    .sort((a, b) => b.total - a.total);
+  const dayTotals = days.map((_, index) => sortedRows.reduce((total, row) => total + row.days[index], 0));
+
+  return {
+    userId,
+    weekStart,
+    weekEnd: format(addDays(start, 6), 'yyyy-MM-dd'),
+    timesheet: (await storage.getTimesheet(userId, weekStart)) ?? null,
+    rows: sortedRows,
+    dayTotals,
+    total: dayTotals.reduce((total, seconds) => total + seconds, 0),
+  };
+}
+
+// First approved (locked) week among the given dates, if any
+export async function findLockedWeek(userId: string, dates: Date[]): Promise<string | undefined> {
+  const weeks = Array.from(new Set(dates.map(weekStartOf)));
+  const [locked] = await storage.getApprovedWeeks(userId, weeks);
+  return locked;
+}
+
+// First approved week touched by any of the intervals
+export async function findLockedWeekInIntervals(
+  userId: string,
+  intervals: { startedAt: Date; endedAt: Date }[]
+): Promise<string | undefined> {
+  const weeks = new Set(intervals.flatMap((interval) => weeksBetween(interval.startedAt, interval.endedAt)));
+  const [locked] = await storage.getApprovedWeeks(userId, Array.from(weeks));
+  return locked;
+}
+
+// Every week in which the activity has recorded time
+export function activityWeekDates(activity: ActivityWithDetails): Date[] {
+  const dates: Date[] = [];
+  for (const session of activity.sessions ?? []) {
+    const end = session.endedAt ? new Date(session.endedAt) : new Date();
+    weeksBetween(new Date(session.startedAt), end).forEach((week) => dates.push(parseISO(week)));
+  }
+  if (activity.completedAt) {
+    dates.push(new Date(activity.completedAt));
+  }
+  return dates;
+}
+
+export const lockedWeekMessage = (weekStart: string) =>
+  `A semana de ${format(parseISO(weekStart), 'dd/MM/yyyy')} já foi aprovada e está bloqueada. Solicite a reabertura a um administrador.`;
+
+function timesheetChannels(user: User): Channel[] {
+  const channels = [channel('user', user.id)];
+  if (user.sectorId) {
+    channels.push(channel('sector', user.sectorId));
+  }
+  return channels;
+}
+
+export function publishTimesheet(timesheet: Timesheet, user: User) {
+  publish(timesheetChannels(user), { type: 'timesheet_updated', timesheet });
+}
+
+export async function notifyTimesheetDecision(timesheet: Timesheet, user: User) {
+  publishTimesheet(timesheet, user);
+
+  const week = format(parseISO(timesheet.weekStart), 'dd/MM/yyyy');
+  const titles: Record<string, string> = {
+    approved: 'Folha de horas aprovada',
+    rejected: 'Folha de horas rejeitada',
+    reopened: 'Folha de horas reaberta',
+  };
+
+  await notifyUser({
+    userId: user.id,
+    type: `timesheet_${timesheet.status}`,
+    title: titles[timesheet.status] ?? 'Folha de horas atualizada',
+    message: `Semana de ${week}${timesheet.status === 'rejected' && timesheet.reviewNote ? `: ${timesheet.reviewNote}` : '.'}`,
+    data: { timesheetId: timesheet.id, weekStart: timesheet.weekStart },
+  });
+}
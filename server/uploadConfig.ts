@@ -25,6 +25,9 @@ const ALLOWED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.pdf', '.
 // Tamanho máximo do arquivo (10MB)
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
+// Quantidade máxima de anexos enviados de uma vez
+const MAX_FILES_PER_UPLOAD = 10;
+
 // Função para criar diretórios se não existirem
 const ensureDirectoryExists = (dirPath: string) => {
     if (!fs.existsSync(dirPath)) {
@@ -89,7 +92,7 @@ export const upload = multer({
     fileFilter,
     limits: {
         fileSize: MAX_FILE_SIZE,
-        files: 1 // Apenas um arquivo por vez
+        files: MAX_FILES_PER_UPLOAD
     }
 });
 
@@ -140,4 +143,4 @@ export const deleteFile = (filePath: string): Promise<void> => {
     });
 };
 
-export { UPLOAD_BASE_PATH, ALLOWED_MIME_TYPES, ALLOWED_EXTENSIONS, MAX_FILE_SIZE };
+export { UPLOAD_BASE_PATH, ALLOWED_MIME_TYPES, ALLOWED_EXTENSIONS, MAX_FILE_SIZE, MAX_FILES_PER_UPLOAD };
@@ -0,0 +1,80 @@
+import { format, isValid, parseISO } from "date-fns";
+
+// Value of a field in the change history: text, a date (ISO string) or a list (tags, subtasks)
+export type ActivityChangeValue = string | string[] | null;
+
+// Fields recorded in the change history, in the order they are compared
+export const historyFields = [
+  'title',
+  'type',
+  'priority',
+  'status',
+  'collaborator',
+  'assignment',
+  'plant',
+  'project',
+  'requester',
+  'observations',
+  'dueDate',
+  'completionNotes',
+  'cancellationReason',
+  'tags',
+  'subtasks',
+] as const;
+
+export type HistoryField = typeof historyFields[number];
+
+export const CUSTOM_FIELD_PREFIX = 'custom:';
+
+export const historyFieldLabels: Record<HistoryField, string> = {
+  title: 'Título',
+  type: 'Tipo',
+  priority: 'Prioridade',
+  status: 'Status',
+  collaborator: 'Responsável',
+  assignment: 'Atribuição',
+  plant: 'Planta',
+  project: 'Projeto',
+  requester: 'Solicitante',
+  observations: 'Observações',
+  dueDate: 'Prazo',
+  completionNotes: 'Notas de conclusão',
+  cancellationReason: 'Motivo do cancelamento',
+  tags: 'Tags',
+  subtasks: 'Subtarefas',
+};
+
+export const historyFieldLabel = (field: string) => field.startsWith(CUSTOM_FIELD_PREFIX)
+  ? field.slice(CUSTOM_FIELD_PREFIX.length)
+  : historyFieldLabels[field as HistoryField] ?? field;
+
+// Checked and open subtasks are told apart by these marks in the 'subtasks' snapshot
+export const SUBTASK_DONE_MARK = '[x] ';
+export const SUBTASK_OPEN_MARK = '[ ] ';
+
+// Enum values are stored as they are and translated when shown
+const valueLabels: Partial<Record<HistoryField, Record<string, string>>> = {
+  type: { simple: 'Simples', checklist: 'Checklist' },
+  priority: { low: 'Baixa', medium: 'Média', high: 'Alta' },
+  status: { next: 'Próxima', in_progress: 'Em andamento', paused: 'Pausada', completed: 'Concluída', cancelled: 'Cancelada' },
+  assignment: { pending: 'Aguardando aceite', accepted: 'Aceita', declined: 'Recusada' },
+};
+
+export function formatHistoryValue(field: string, value: ActivityChangeValue): string {
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field === 'dueDate') {
+    return isValid(parseISO(value)) ? format(parseISO(value), 'dd/MM/yyyy HH:mm') : value;
+  }
+  return valueLabels[field as HistoryField]?.[value] ?? value;
+}
+
+// Items added to and removed from a list field (tags, subtasks)
+export function listDifference(oldValue: ActivityChangeValue, newValue: ActivityChangeValue) {
+  const before = Array.isArray(oldValue) ? oldValue : [];
+  const after = Array.isArray(newValue) ? newValue : [];
+  return {
+    added: after.filter((item) => !before.includes(item)),
+    removed: before.filter((item) => !after.includes(item)),
+  };
+}
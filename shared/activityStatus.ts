@@ -0,0 +1,19 @@
+import type { Activity } from "./schema";
+
+export type ActivityStatus = Activity['status'];
+
+// Every status change an activity can make. The server rejects anything else and the
+// activity screens use the same table to decide which actions to offer.
+// completed → paused reopens a finished activity; cancelled is final.
+export const activityTransitions: Record<ActivityStatus, ActivityStatus[]> = {
+  next: ['in_progress', 'cancelled'],
+  in_progress: ['paused', 'completed', 'cancelled'],
+  paused: ['in_progress', 'completed', 'cancelled'],
+  completed: ['paused'],
+  cancelled: [],
+};
+
+export const canTransition = (from: ActivityStatus, to: ActivityStatus) =>
+  activityTransitions[from]?.includes(to) ?? false;
+
+export const isClosedStatus = (status: ActivityStatus) => status === 'completed' || status === 'cancelled';
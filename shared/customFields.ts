@@ -0,0 +1,49 @@
+import { format, isValid, parseISO } from "date-fns";
+import type { CustomField } from "./schema";
+
+export const customFieldTypes = ['text', 'number', 'date', 'select', 'boolean'] as const;
+export type CustomFieldType = typeof customFieldTypes[number];
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Data',
+  select: 'Lista de opções',
+  boolean: 'Sim/Não',
+};
+
+type FieldRule = Pick<CustomField, 'name' | 'type' | 'options' | 'required'>;
+
+// Values travel as strings: numbers as typed, dates as yyyy-MM-dd, booleans as 'true'/'false'
+export function customFieldValueError(field: FieldRule, value?: string | null): string | undefined {
+  if (value === undefined || value === null || value.trim() === '') {
+    return field.required ? `O campo "${field.name}" é obrigatório` : undefined;
+  }
+
+  switch (field.type) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? undefined : `O campo "${field.name}" deve ser um número`;
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value)) ? undefined : `O campo "${field.name}" deve ser uma data`;
+    case 'select':
+      return (field.options || []).includes(value) ? undefined : `Opção inválida para o campo "${field.name}"`;
+    case 'boolean':
+      return value === 'true' || value === 'false' ? undefined : `O campo "${field.name}" deve ser Sim ou Não`;
+    default:
+      return value.length > 1000 ? `O campo "${field.name}" é muito longo` : undefined;
+  }
+}
+
+// Display form used by the details page and the exports
+export function formatCustomFieldValue(field: Pick<CustomField, 'type'>, value?: string | null): string {
+  if (value === undefined || value === null || value === '') return '';
+
+  switch (field.type) {
+    case 'boolean':
+      return value === 'true' ? 'Sim' : 'Não';
+    case 'date':
+      return isValid(parseISO(value)) ? format(parseISO(value), 'dd/MM/yyyy') : value;
+    default:
+      return value;
+  }
+}
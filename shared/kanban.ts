@@ -0,0 +1,22 @@
+// Columns of the activity board, one per status
+export const kanbanColumns = ['next', 'in_progress', 'paused', 'completed', 'cancelled'] as const;
+
+export type KanbanColumn = typeof kanbanColumns[number];
+
+export const kanbanColumnLabels: Record<KanbanColumn, string> = {
+  next: 'Próximas',
+  in_progress: 'Em andamento',
+  paused: 'Pausadas',
+  completed: 'Concluídas',
+  cancelled: 'Canceladas',
+};
+
+// Open columns a sector can limit; a limit is the number of cards each collaborator may keep there
+export const wipLimitColumns = ['next', 'in_progress', 'paused'] as const;
+
+export type WipLimitColumn = typeof wipLimitColumns[number];
+
+export type WipLimits = Partial<Record<WipLimitColumn, number>>;
+
+export const wipLimitFor = (limits: WipLimits | null | undefined, column: KanbanColumn) =>
+  (wipLimitColumns as readonly string[]).includes(column) ? limits?.[column as WipLimitColumn] : undefined;
@@ -0,0 +1,25 @@
+// "@username" preceded by start of text or a non-word character, so e-mail addresses do not count
+export const MENTION_PATTERN = /(^|[^\w@])@([\w.-]*\w)/g;
+
+// Distinct usernames mentioned in a comment, in order of appearance
+export function extractMentions(body: string): string[] {
+  const usernames = new Set<string>();
+  for (const match of Array.from(body.matchAll(MENTION_PATTERN))) {
+    usernames.add(match[2]);
+  }
+  return Array.from(usernames);
+}
+
+// Splits a comment into plain text and mention parts for rendering
+export function splitMentions(body: string): { text: string; mention: boolean }[] {
+  const parts: { text: string; mention: boolean }[] = [];
+  let last = 0;
+  for (const match of Array.from(body.matchAll(MENTION_PATTERN))) {
+    const start = match.index! + match[1].length;
+    if (start > last) parts.push({ text: body.slice(last, start), mention: false });
+    parts.push({ text: `@${match[2]}`, mention: true });
+    last = start + match[2].length + 1;
+  }
+  if (last < body.length) parts.push({ text: body.slice(last), mention: false });
+  return parts;
+}
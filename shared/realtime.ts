@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// Close code sent by the server when a WebSocket has no valid session
+export const WS_CLOSE_UNAUTHORIZED = 4401;
+
+// Interval between server heartbeats; clients treat two missed beats as a dead connection
+export const WS_HEARTBEAT_INTERVAL = 30 * 1000;
+
+// Channels
+export const channelKinds = ['sector', 'project', 'activity', 'user'] as const;
+export type ChannelKind = typeof channelKinds[number];
+
+// "<kind>:<id>", or "<kind>:*" for every channel of a kind (admins only)
+export const channelSchema = z.string().regex(/^(sector|project|activity|user):[^\s:]+$/, "Canal inválido");
+export type Channel = z.infer<typeof channelSchema>;
+
+export const channel = (kind: ChannelKind, id: string): Channel => `${kind}:${id}`;
+
+export const parseChannel = (value: Channel): { kind: ChannelKind; id: string } => {
+  const [kind, id] = value.split(':');
+  return { kind: kind as ChannelKind, id };
+};
+
+// Events carried on channels
+export const realtimeEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('activity_created'), activity: z.any() }),
+  z.object({ type: z.literal('activity_updated'), activity: z.any() }),
+  z.object({ type: z.literal('activity_overdue'), activity: z.any() }),
+  z.object({ type: z.literal('activity_archived'), activityId: z.string() }),
+  z.object({ type: z.literal('activity_restored'), activity: z.any() }),
+  // Ids only: one batch reaches many channels, and each client refetches what it may see
+  z.object({ type: z.literal('activities_bulk_updated'), activityIds: z.array(z.string()) }),
+  z.object({ type: z.literal('subtask_updated'), activity: z.any(), subtask: z.any() }),
+  z.object({ type: z.literal('comment_created'), activityId: z.string(), comment: z.any() }),
+  z.object({ type: z.literal('comment_updated'), activityId: z.string(), comment: z.any() }),
+  z.object({ type: z.literal('comment_deleted'), activityId: z.string(), commentId: z.string() }),
+  z.object({ type: z.literal('project_created'), data: z.any() }),
+  z.object({ type: z.literal('project_updated'), data: z.any() }),
+  z.object({ type: z.literal('project_deleted'), data: z.object({ id: z.string() }) }),
+  z.object({ type: z.literal('user_updated'), data: z.any() }),
+  z.object({ type: z.literal('notification_created'), notification: z.any() }),
+  z.object({ type: z.literal('time_adjustment_updated'), adjustment: z.any() }),
+  z.object({ type: z.literal('timesheet_updated'), timesheet: z.any() }),
+]);
+export type RealtimeEvent = z.infer<typeof realtimeEventSchema>;
+export type RealtimeEventType = RealtimeEvent['type'];
+
+// Client -> server messages
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('subscribe'), channels: z.array(channelSchema).min(1) }),
+  z.object({ type: z.literal('unsubscribe'), channels: z.array(channelSchema).min(1) }),
+  z.object({ type: z.literal('resume'), epoch: z.string(), lastSeq: z.number().int().nonnegative() }),
+  z.object({ type: z.literal('ping') }),
+  z.object({ type: z.literal('pong') }),
+]);
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// Server -> client messages
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  // Sent once after authentication; epoch changes whenever the server restarts
+  z.object({ type: z.literal('welcome'), epoch: z.string(), seq: z.number(), channels: z.array(channelSchema) }),
+  z.object({ type: z.literal('subscribed'), channels: z.array(channelSchema) }),
+  z.object({ type: z.literal('unsubscribed'), channels: z.array(channelSchema) }),
+  z.object({ type: z.literal('event'), seq: z.number(), channels: z.array(channelSchema), event: realtimeEventSchema }),
+  // Missed events are no longer buffered; the client must refetch everything
+  z.object({ type: z.literal('resync') }),
+  z.object({ type: z.literal('replayed'), count: z.number(), seq: z.number() }),
+  z.object({ type: z.literal('ping') }),
+  z.object({ type: z.literal('pong') }),
+  z.object({ type: z.literal('error'), message: z.string() }),
+]);
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
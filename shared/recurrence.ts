@@ -0,0 +1,66 @@
+import { addDays, format, getDaysInMonth, parseISO, startOfDay } from "date-fns";
+
+export const recurrenceFrequencies = ['daily', 'weekly', 'monthly', 'interval'] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval?: number | null; // every N days ('interval')
+  weekdays?: number[] | null; // 0 = Sunday ... 6 = Saturday ('weekly')
+  monthDay?: number | null; // 1-31, clamped to the last day of shorter months ('monthly')
+};
+
+export const weekdayLabels = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+// Day N of the month the date falls in, or its last day when the month is shorter
+const monthDayOf = (date: Date, monthDay: number) =>
+  new Date(date.getFullYear(), date.getMonth(), Math.min(monthDay, getDaysInMonth(date)));
+
+// First occurrence day strictly after the given one, at local midnight
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date {
+  const day = startOfDay(after);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(day, 1);
+    case 'interval':
+      return addDays(day, Math.max(1, rule.interval || 1));
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [day.getDay()];
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = addDays(day, offset);
+        if (weekdays.includes(candidate.getDay())) return candidate;
+      }
+      return addDays(day, 7);
+    }
+    case 'monthly': {
+      const monthDay = rule.monthDay || day.getDate();
+      const thisMonth = monthDayOf(day, monthDay);
+      if (thisMonth > day) return thisMonth;
+      return monthDayOf(new Date(day.getFullYear(), day.getMonth() + 1, 1), monthDay);
+    }
+  }
+}
+
+// Whether a series ending on endsOn ("YYYY-MM-DD", inclusive) still has the occurrence
+export const occursBeforeEnd = (occurrence: Date, endsOn?: string | null) =>
+  !endsOn || format(occurrence, 'yyyy-MM-dd') <= endsOn;
+
+export function describeRecurrence(rule: RecurrenceRule, endsOn?: string | null): string {
+  let description: string;
+  switch (rule.frequency) {
+    case 'daily':
+      description = 'Todos os dias';
+      break;
+    case 'interval':
+      description = `A cada ${rule.interval || 1} dias`;
+      break;
+    case 'weekly':
+      description = `Semanal: ${(rule.weekdays || []).slice().sort().map((day) => weekdayLabels[day]).join(', ')}`;
+      break;
+    case 'monthly':
+      description = `Mensal, todo dia ${rule.monthDay}`;
+      break;
+  }
+  return endsOn ? `${description}, até ${format(parseISO(endsOn), 'dd/MM/yyyy')}` : description;
+}
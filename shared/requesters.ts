@@ -0,0 +1,12 @@
+// Two spellings are the same requester when they only differ in case, accents or spacing:
+// "João  Silva" and "joao silva" match, "J. Silva" does not (that is what merging is for).
+// database/migrations/005_requesters.sql groups the legacy text the same way.
+export const normalizeRequesterName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+export const sameRequesterName = (a: string, b: string) => normalizeRequesterName(a) === normalizeRequesterName(b);
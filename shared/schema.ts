@@ -9,9 +9,17 @@ import {
   integer,
   boolean,
   pgEnum,
+  date,
+  uniqueIndex,
+  customType,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { recurrenceFrequencies } from "./recurrence";
+import { customFieldTypes } from "./customFields";
+import type { WipLimits } from "./kanban";
+import type { ActivityChangeValue } from "./activityHistory";
 
 // Session storage table
 export const sessions = pgTable(
@@ -39,6 +47,8 @@ export const plants = pgTable("plants", {
   location: varchar("location", { length: 255 }),
   description: text("description"),
   isActive: boolean("is_active").default(true),
+  deletedAt: timestamp("deleted_at"), // arquivada (lixeira); removida de vez após o período de retenção
+  deletedById: varchar("deleted_by_id").references((): AnyPgColumn => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -47,9 +57,22 @@ export const plants = pgTable("plants", {
 export const sectors = pgTable("sectors", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name", { length: 255 }).notNull(),
+  wipLimits: jsonb("wip_limits").$type<WipLimits>().default({}), // limites do quadro por colaborador
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Requesters: who asks for the work. activities.requester keeps the name as text for compatibility
+export const requesters = pgTable("requesters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  department: varchar("department", { length: 255 }),
+  plantId: varchar("plant_id").references(() => plants.id),
+  email: varchar("email", { length: 255 }),
+  isActive: boolean("is_active").default(true), // inativos saem do autocompletar, mas seguem nas atividades
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_requesters_name").on(table.name)]);
+
 // Users table - local authentication
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -81,6 +104,8 @@ export const projects = pgTable("projects", {
   actualHours: integer("actual_hours").default(0),
   completionPercentage: integer("completion_percentage").default(0),
   color: varchar("color", { length: 7 }).default('#8B5CF6'), // Default purple color
+  deletedAt: timestamp("deleted_at"), // arquivado (lixeira)
+  deletedById: varchar("deleted_by_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -130,12 +155,13 @@ export const activities = pgTable("activities", {
   plant: varchar("plant", { length: 100 }), // Manter para compatibilidade temporária
   projectId: varchar("project_id").references(() => projects.id),
   project: varchar("project", { length: 255 }), // Manter para compatibilidade
-  requester: varchar("requester", { length: 255 }),
+  requesterId: varchar("requester_id").references(() => requesters.id),
+  requester: varchar("requester", { length: 255 }), // nome do solicitante, mantido para compatibilidade
   observations: text("observations"), // observações da atividade
   status: activityStatusEnum("status").notNull().default('next'),
   totalTime: integer("total_time").default(0), // in seconds
   collaboratorId: varchar("collaborator_id").references(() => users.id).notNull(),
-  evidenceUrl: varchar("evidence_url"),
+  evidenceUrl: varchar("evidence_url"), // legacy single evidence; moved to activity_attachments by migration 002
   completionNotes: text("completion_notes"),
   isRetroactive: boolean("is_retroactive").default(false),
   startedAt: timestamp("started_at"),
@@ -143,19 +169,148 @@ export const activities = pgTable("activities", {
   completedAt: timestamp("completed_at"),
   cancelledAt: timestamp("cancelled_at"),
   cancellationReason: text("cancellation_reason"),
+  dueDate: timestamp("due_date"), // prazo informado ou calculado pelo SLA
+  overdueNotifiedAt: timestamp("overdue_notified_at"), // evita alertas de atraso repetidos
+  // Activities created by a chief/admin for someone else wait for the assignee to accept them
+  assignedById: varchar("assigned_by_id").references(() => users.id),
+  assignmentStatus: varchar("assignment_status", { length: 20 }), // 'pending', 'accepted', 'declined'; null when self-created
+  assignmentRespondedAt: timestamp("assignment_responded_at"),
+  assignmentDeclineReason: text("assignment_decline_reason"),
+  recurrenceId: varchar("recurrence_id").references((): AnyPgColumn => activityRecurrences.id), // série que gerou a atividade
+  deletedAt: timestamp("deleted_at"), // arquivada (lixeira)
+  deletedById: varchar("deleted_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// SLA targets: hours to finish an activity by priority, optionally for a single plant
+export const slaTargets = pgTable("sla_targets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priority: priorityEnum("priority").notNull(),
+  plantId: varchar("plant_id").references(() => plants.id), // null = all plants
+  targetHours: integer("target_hours").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Recurring series: the template activity is copied, with its subtasks, on every occurrence
+export const activityRecurrences = pgTable("activity_recurrences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateActivityId: varchar("template_activity_id").references(() => activities.id).notNull(),
+  frequency: varchar("frequency", { length: 20 }).notNull(), // 'daily', 'weekly', 'monthly', 'interval'
+  interval: integer("interval"), // every N days
+  weekdays: jsonb("weekdays").$type<number[]>(), // 0 = Sunday ... 6 = Saturday
+  monthDay: integer("month_day"), // 1-31
+  endsOn: date("ends_on", { mode: 'string' }), // last day with an occurrence, inclusive
+  status: varchar("status", { length: 20 }).notNull().default('active'), // 'active', 'paused', 'ended'
+  nextRunAt: timestamp("next_run_at"), // local midnight of the next occurrence
+  createdById: varchar("created_by_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Blocked-by links between activities: activityId cannot start until blockerId is completed (or cancelled)
+export const activityDependencies = pgTable("activity_dependencies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  activityId: varchar("activity_id").references(() => activities.id).notNull(),
+  blockerId: varchar("blocker_id").references(() => activities.id).notNull(),
+  createdById: varchar("created_by_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_activity_dependencies_pair").on(table.activityId, table.blockerId)]);
+
+// Admin-managed labels; a tag with a sector is only offered to that sector's activities
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  color: varchar("color", { length: 7 }).notNull().default('#6b7280'), // #rrggbb
+  sectorId: varchar("sector_id").references(() => sectors.id), // null = all sectors
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const activityTags = pgTable("activity_tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  activityId: varchar("activity_id").references(() => activities.id).notNull(),
+  tagId: varchar("tag_id").references(() => tags.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_activity_tags_pair").on(table.activityId, table.tagId)]);
+
+// Extra data a sector collects on its activities (work order, equipment tag, ...)
+export const customFields = pgTable("custom_fields", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sectorId: varchar("sector_id").references(() => sectors.id).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  type: varchar("type").notNull().default('text'), // 'text', 'number', 'date', 'select', 'boolean'
+  options: jsonb("options").$type<string[]>().default([]), // choices of a 'select' field
+  required: boolean("required").default(false),
+  order: integer("order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_custom_fields_sector_id").on(table.sectorId)]);
+
+// One value per activity and field, stored as text (see shared/customFields.ts)
+export const activityCustomFieldValues = pgTable("activity_custom_field_values", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  activityId: varchar("activity_id").references(() => activities.id).notNull(),
+  fieldId: varchar("field_id").references(() => customFields.id, { onDelete: 'cascade' }).notNull(),
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_activity_custom_field_values_pair").on(table.activityId, table.fieldId)]);
+
+// Discussion on an activity; mentionedUserIds keeps who was notified by an @username
+export const activityComments = pgTable("activity_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  activityId: varchar("activity_id").references(() => activities.id).notNull(),
+  authorId: varchar("author_id").references(() => users.id).notNull(),
+  body: text("body").notNull(),
+  mentionedUserIds: jsonb("mentioned_user_ids").$type<string[]>().default([]),
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_activity_comments_activity_id").on(table.activityId)]);
+
 // Subtasks table
 export const subtasks = pgTable("subtasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   activityId: varchar("activity_id").references(() => activities.id).notNull(),
   title: varchar("title", { length: 500 }).notNull(),
+  order: integer("order").notNull().default(0), // position in the checklist
+  assigneeId: varchar("assignee_id").references(() => users.id),
   completed: boolean("completed").default(false),
+  completedAt: timestamp("completed_at"),
+  completedById: varchar("completed_by_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Evidence files of an activity, optionally tied to one of its subtasks
+export const activityAttachments = pgTable("activity_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  activityId: varchar("activity_id").references(() => activities.id).notNull(),
+  subtaskId: varchar("subtask_id").references(() => subtasks.id, { onDelete: 'set null' }),
+  filePath: varchar("file_path").notNull(), // relative to UPLOAD_PATH, served from /api/files
+  originalName: varchar("original_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }),
+  size: integer("size"), // in bytes
+  caption: text("caption"),
+  uploadedById: varchar("uploaded_by_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_activity_attachments_activity_id").on(table.activityId)]);
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+// Full-text document of each activity (title, requester, notes, subtask titles and comments).
+// Kept up to date by the database triggers of migration 004; only read by the search route.
+export const activitySearchDocuments = pgTable("activity_search_documents", {
+  activityId: varchar("activity_id").primaryKey().references(() => activities.id, { onDelete: 'cascade' }),
+  content: text("content").notNull(), // texto indexado, usado nos trechos destacados
+  document: tsvector("document").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_activity_search_documents_document").using("gin", table.document)]);
+
 // Time adjustment logs table
 export const timeAdjustmentLogs = pgTable("time_adjustment_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -164,6 +319,14 @@ export const timeAdjustmentLogs = pgTable("time_adjustment_logs", {
   previousTime: integer("previous_time").notNull(), // in seconds
   newTime: integer("new_time").notNull(), // in seconds
   reason: text("reason"),
+  // 'adjustment' changes the tracked total; 'session' only records a session edit (the total follows the sessions)
+  kind: varchar("kind", { length: 20 }).default('adjustment').notNull(),
+  details: jsonb("details"), // session edits: { operation, before: [...], after: [...] }
+  // Large or old adjustments wait for the sector chief; only approved ones count towards the total
+  status: varchar("status", { length: 20 }).default('approved').notNull(), // 'pending', 'approved', 'rejected'
+  reviewedById: varchar("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -182,25 +345,81 @@ export const activityLogs = pgTable("activity_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   activityId: varchar("activity_id").references(() => activities.id).notNull(),
   userId: varchar("user_id").references(() => users.id).notNull(),
-  action: varchar("action").notNull(), // 'created', 'started', 'paused', 'completed', 'cancelled'
+  action: varchar("action").notNull(), // 'created', 'started', 'paused', 'completed', 'cancelled', 'commented', 'subtask_completed'
   activityTitle: varchar("activity_title").notNull(),
+  details: varchar("details", { length: 500 }), // e.g. the subtask title for 'subtask_completed'
   timeSpent: integer("time_spent"), // in seconds, only for completed activities
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Field-level history: one row per field an edit changed, with the values before and after.
+// Values are snapshots for display (names instead of ids, see server/history.ts).
+export const activityChanges = pgTable("activity_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  activityId: varchar("activity_id").references(() => activities.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  field: varchar("field", { length: 150 }).notNull(), // see shared/activityHistory.ts; custom fields are 'custom:<name>'
+  oldValue: jsonb("old_value").$type<ActivityChangeValue>(),
+  newValue: jsonb("new_value").$type<ActivityChangeValue>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_activity_changes_activity_id").on(table.activityId),
+  index("IDX_activity_changes_user_created").on(table.userId, table.createdAt),
+]);
+
 // User settings for configurations and preferences
 export const userSettings = pgTable("user_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull().unique(),
   teamNotificationsEnabled: boolean("team_notifications_enabled").default(false),
   cardViewMode: varchar("card_view_mode", { length: 20 }).default('comfortable'), // 'comfortable' or 'compact'
+  shiftEnd: varchar("shift_end", { length: 5 }), // 'HH:MM', used to auto-pause forgotten timers
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Notifications shown to a user (auto-paused timers, assignments, mentions...)
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // 'activity_auto_paused', ...
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message"),
+  activityId: varchar("activity_id").references(() => activities.id),
+  data: jsonb("data"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_notifications_user_id").on(table.userId)]);
+
+// Weekly timesheets (Monday-Sunday); an approved week locks the collaborator's time in it
+export const timesheets = pgTable("timesheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  weekStart: date("week_start", { mode: 'string' }).notNull(), // Monday, 'YYYY-MM-DD'
+  status: varchar("status", { length: 20 }).notNull().default('submitted'), // 'submitted', 'approved', 'rejected', 'reopened'
+  totalTime: integer("total_time").default(0), // seconds at submission
+  submittedAt: timestamp("submitted_at"),
+  reviewedById: varchar("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  reopenedById: varchar("reopened_by_id").references(() => users.id),
+  reopenedAt: timestamp("reopened_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_timesheets_user_week").on(table.userId, table.weekStart)]);
+
 // Relations
 export const plantsRelations = relations(plants, ({ many }) => ({
   activities: many(activities),
+  requesters: many(requesters),
+}));
+
+export const requestersRelations = relations(requesters, ({ one, many }) => ({
+  plant: one(plants, {
+    fields: [requesters.plantId],
+    references: [plants.id],
+  }),
+  activities: many(activities),
 }));
 
 export const sectorsRelations = relations(sectors, ({ many }) => ({
@@ -256,7 +475,8 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     fields: [users.sectorId],
     references: [sectors.id],
   }),
-  activities: many(activities),
+  activities: many(activities, { relationName: "collaborator" }),
+  assignedActivities: many(activities, { relationName: "assignedBy" }),
   ownedProjects: many(projects),
   projectMemberships: many(projectMembers),
   createdTemplates: many(projectTemplates),
@@ -272,6 +492,12 @@ export const activitiesRelations = relations(activities, ({ one, many }) => ({
   collaborator: one(users, {
     fields: [activities.collaboratorId],
     references: [users.id],
+    relationName: "collaborator",
+  }),
+  assignedBy: one(users, {
+    fields: [activities.assignedById],
+    references: [users.id],
+    relationName: "assignedBy",
   }),
   project: one(projects, {
     fields: [activities.projectId],
@@ -281,6 +507,10 @@ export const activitiesRelations = relations(activities, ({ one, many }) => ({
     fields: [activities.plantId],
     references: [plants.id],
   }),
+  requesterRef: one(requesters, {
+    fields: [activities.requesterId],
+    references: [requesters.id],
+  }),
   subtasks: many(subtasks),
   timeAdjustmentLogs: many(timeAdjustmentLogs),
   sessions: many(activitySessions),
@@ -330,15 +560,60 @@ export const userSettingsRelations = relations(userSettings, ({ one }) => ({
   }),
 }));
 
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  activity: one(activities, {
+    fields: [notifications.activityId],
+    references: [activities.id],
+  }),
+}));
+
 // Insert schemas
-export const insertPlantSchema = createInsertSchema(plants).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertSectorSchema = createInsertSchema(sectors).omit({ id: true, createdAt: true });
+export const insertPlantSchema = createInsertSchema(plants).omit({ id: true, createdAt: true, updatedAt: true, deletedAt: true, deletedById: true });
+export const insertRequesterSchema = createInsertSchema(requesters).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório").max(255, "Nome muito longo"),
+  department: z.string().trim().max(255).nullable().optional(),
+  plantId: z.string().nullable().optional(),
+  email: z.union([z.literal(''), z.string().trim().email("E-mail inválido").max(255)]).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+// Folds the duplicates into the requester the merge is called on
+export const mergeRequestersSchema = z.object({
+  sourceIds: z.array(z.string()).min(1, "Selecione os solicitantes duplicados"),
+});
+export const insertTagSchema = createInsertSchema(tags).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório").max(100, "Nome muito longo"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor inválida"),
+  sectorId: z.string().nullable().optional(),
+});
+export const insertCustomFieldSchema = createInsertSchema(customFields).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório").max(100, "Nome muito longo"),
+  type: z.enum(customFieldTypes),
+  options: z.array(z.string().trim().min(1).max(100)).max(50, "Máximo de 50 opções").optional(),
+  required: z.boolean().optional(),
+  order: z.number().int().min(0).optional(),
+});
+// Field id -> value; null or '' clears the value
+export const customFieldValuesSchema = z.record(z.string(), z.string().nullable());
+const wipLimitSchema = z.number().int().min(1).max(99).optional();
+export const insertSectorSchema = createInsertSchema(sectors).omit({ id: true, createdAt: true }).extend({
+  wipLimits: z.object({
+    next: wipLimitSchema,
+    in_progress: wipLimitSchema,
+    paused: wipLimitSchema,
+  }).strict().optional(),
+});
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   actualHours: true,
-  completionPercentage: true
+  completionPercentage: true,
+  deletedAt: true,
+  deletedById: true,
 });
 export const insertProjectMemberSchema = createInsertSchema(projectMembers).omit({ id: true, joinedAt: true });
 export const insertProjectTemplateSchema = createInsertSchema(projectTemplates).omit({ id: true, createdAt: true });
@@ -363,19 +638,199 @@ export const insertActivitySchema = createInsertSchema(activities).omit({
   pausedAt: true,
   completedAt: true,
   cancelledAt: true,
+  overdueNotifiedAt: true,
+  assignmentRespondedAt: true,
+  assignmentDeclineReason: true,
+  recurrenceId: true,
+  deletedAt: true,
+  deletedById: true,
 }).extend({
   collaboratorId: z.string().optional(), // Será preenchido no backend
   plantId: z.string().min(1, "Planta é obrigatória"),
+  dueDate: z.union([z.null(), z.coerce.date()]).optional(),
 });
+export const insertSlaTargetSchema = createInsertSchema(slaTargets).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  plantId: z.string().nullable().optional(),
+  targetHours: z.number().int().min(1, "Informe ao menos 1 hora"),
+});
+export const insertActivityRecurrenceSchema = createInsertSchema(activityRecurrences).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertActivityDependencySchema = createInsertSchema(activityDependencies).omit({ id: true, createdAt: true });
+export const insertActivityCommentSchema = createInsertSchema(activityComments).omit({ id: true, createdAt: true, editedAt: true });
+export const insertActivityAttachmentSchema = createInsertSchema(activityAttachments).omit({ id: true, createdAt: true });
 export const insertSubtaskSchema = createInsertSchema(subtasks).omit({ id: true, createdAt: true });
 export const insertTimeAdjustmentLogSchema = createInsertSchema(timeAdjustmentLogs).omit({ id: true, createdAt: true });
 export const insertActivitySessionSchema = createInsertSchema(activitySessions).omit({ id: true, createdAt: true });
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({ id: true, createdAt: true });
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true, readAt: true });
+
+// Session interval editing
+const sessionReasonSchema = z.string().trim().min(1, "Motivo é obrigatório");
+export const editSessionSchema = z.object({
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date(),
+  reason: sessionReasonSchema,
+});
+export const splitSessionSchema = z.object({
+  splitAt: z.coerce.date(),
+  resumeAt: z.coerce.date().optional(), // leaves a gap (e.g. a break) between the two halves
+  reason: sessionReasonSchema,
+});
+export const mergeSessionsSchema = z.object({
+  sessionIds: z.array(z.string()).min(2, "Selecione ao menos duas sessões"),
+  reason: sessionReasonSchema,
+});
+export const deleteSessionSchema = z.object({
+  reason: sessionReasonSchema,
+});
+
+export const reviewTimesheetSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  note: z.string().trim().optional(),
+}).refine((data) => data.decision === 'approved' || !!data.note, {
+  message: "Informe o motivo da rejeição",
+  path: ["note"],
+});
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(recurrenceFrequencies),
+  interval: z.number().int().min(1, "Informe o intervalo em dias").max(365).nullable().optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  monthDay: z.number().int().min(1).max(31).nullable().optional(),
+  endsOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida").nullable().optional(),
+}).refine((data) => data.frequency !== 'weekly' || !!data.weekdays?.length, {
+  message: "Selecione ao menos um dia da semana",
+  path: ["weekdays"],
+}).refine((data) => data.frequency !== 'monthly' || !!data.monthDay, {
+  message: "Informe o dia do mês",
+  path: ["monthDay"],
+}).refine((data) => data.frequency !== 'interval' || !!data.interval, {
+  message: "Informe o intervalo em dias",
+  path: ["interval"],
+});
+
+export const addDependencySchema = z.object({
+  blockerId: z.string().min(1, "Selecione a atividade bloqueadora"),
+});
+
+export const commentBodySchema = z.object({
+  body: z.string().trim().min(1, "Escreva um comentário").max(5000, "Comentário muito longo"),
+});
+
+export const attachmentCaptionSchema = z.object({
+  caption: z.string().trim().max(500, "Legenda muito longa").nullable().optional(),
+});
+
+// One checklist item as sent by the activity form; items without an id are new
+export const subtaskInputSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().trim().min(1, "Título da subtarefa é obrigatório").max(500, "Título muito longo"),
+  completed: z.boolean().optional(),
+  assigneeId: z.string().nullable().optional(),
+});
+
+// What the owner may change through PATCH /api/activities/:id. Unknown keys (owner, tracked time,
+// timestamps, assignment) are stripped; status moves are checked against shared/activityStatus.ts.
+export const updateActivitySchema = z.object({
+  title: z.string().trim().min(1, "Título é obrigatório").max(500, "Título muito longo"),
+  type: z.enum(activityTypeEnum.enumValues),
+  priority: z.enum(priorityEnum.enumValues),
+  plantId: z.string().min(1, "Planta é obrigatória"),
+  plant: z.string().max(100).nullable(),
+  projectId: z.string().nullable(),
+  project: z.string().max(255).nullable(),
+  requesterId: z.string().nullable(),
+  requester: z.string().max(255).nullable(),
+  observations: z.string().nullable(),
+  status: z.enum(activityStatusEnum.enumValues),
+  notes: z.string().nullable(), // notas de conclusão
+  cancellationReason: z.string().trim().max(1000).nullable(),
+  dueDate: z.union([z.null(), z.coerce.date()]),
+  tagIds: z.array(z.string()).nullable(),
+  customFieldValues: customFieldValuesSchema.nullable(),
+  subtasks: z.array(subtaskInputSchema),
+  recurrence: recurrenceRuleSchema.nullable(),
+}).partial();
+
+export const updateRecurrenceSchema = z.object({
+  status: z.enum(['active', 'paused', 'ended']),
+});
+
+export const respondAssignmentSchema = z.object({
+  decision: z.enum(['accepted', 'declined']),
+  reason: z.string().trim().optional(),
+}).refine((data) => data.decision === 'accepted' || !!data.reason, {
+  message: "Informe o motivo da recusa",
+  path: ["reason"],
+});
+
+export const reassignActivitySchema = z.object({
+  collaboratorId: z.string().min(1, "Selecione o colaborador"),
+});
+
+// One action applied to many activities at once (POST /api/activities/bulk)
+export const bulkActivityActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('cancel'), reason: z.string().trim().min(1, "Informe o motivo do cancelamento").max(1000) }),
+  z.object({ type: z.literal('reassign'), collaboratorId: z.string().min(1, "Selecione o colaborador") }),
+  z.object({
+    type: z.literal('update'),
+    plantId: z.string().optional(),
+    project: z.string().trim().max(255).optional(),
+    priority: z.enum(['low', 'medium', 'high']).optional(),
+  }),
+  z.object({ type: z.literal('add_tags'), tagIds: z.array(z.string()).min(1, "Selecione ao menos uma tag").max(20) }),
+]);
+
+export const bulkActivitySchema = z.object({
+  activityIds: z.array(z.string()).min(1, "Selecione ao menos uma atividade").max(200, "Máximo de 200 atividades por vez"),
+  action: bulkActivityActionSchema,
+});
+
+// A calendar date as yyyy-MM-dd; impossible ones such as 2024-02-30 are refused as well
+const calendarDateSchema = z.string().refine((value) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), "Data inválida");
+
+// Admin query of the change history: everything one user changed in a period
+export const activityChangesQuerySchema = z.object({
+  userId: z.string().min(1),
+  startDate: calendarDateSchema,
+  endDate: calendarDateSchema,
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Filters of the time adjustment report and its exports; an empty date leaves that end of the period open
+const optionalDateSchema = z.preprocess((value) => value === '' || value === null ? undefined : value, calendarDateSchema.optional());
+
+export const timeAdjustmentReportQuerySchema = z.object({
+  collaboratorId: z.string().optional(),
+  startDate: optionalDateSchema,
+  endDate: optionalDateSchema,
+  includeArchived: z.boolean().optional(),
+});
+
+export const reviewTimeAdjustmentSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  note: z.string().trim().optional(),
+}).refine((data) => data.decision === 'approved' || !!data.note, {
+  message: "Informe o motivo da rejeição",
+  path: ["note"],
+});
 
 // Types
 export type Plant = typeof plants.$inferSelect;
 export type InsertPlant = z.infer<typeof insertPlantSchema>;
+export type Requester = typeof requesters.$inferSelect;
+export type InsertRequester = z.infer<typeof insertRequesterSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type ActivityTag = typeof activityTags.$inferSelect;
+export type CustomField = typeof customFields.$inferSelect;
+export type InsertCustomField = z.infer<typeof insertCustomFieldSchema>;
+export type ActivityCustomFieldValue = typeof activityCustomFieldValues.$inferSelect;
+export type CustomFieldValues = z.infer<typeof customFieldValuesSchema>;
+export type SlaTarget = typeof slaTargets.$inferSelect;
+export type InsertSlaTarget = z.infer<typeof insertSlaTargetSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type ProjectMember = typeof projectMembers.$inferSelect;
@@ -394,25 +849,139 @@ export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type Subtask = typeof subtasks.$inferSelect;
 export type InsertSubtask = z.infer<typeof insertSubtaskSchema>;
+export type SubtaskInput = z.infer<typeof subtaskInputSchema>;
 export type TimeAdjustmentLog = typeof timeAdjustmentLogs.$inferSelect;
 export type InsertTimeAdjustmentLog = z.infer<typeof insertTimeAdjustmentLogSchema>;
 export type ActivitySession = typeof activitySessions.$inferSelect;
 export type InsertActivitySession = z.infer<typeof insertActivitySessionSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
+export type ActivityChange = typeof activityChanges.$inferSelect;
+export type InsertActivityChange = typeof activityChanges.$inferInsert;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type EditSessionData = z.infer<typeof editSessionSchema>;
+export type SplitSessionData = z.infer<typeof splitSessionSchema>;
+export type MergeSessionsData = z.infer<typeof mergeSessionsSchema>;
+export type ReviewTimeAdjustmentData = z.infer<typeof reviewTimeAdjustmentSchema>;
+export type Timesheet = typeof timesheets.$inferSelect;
+export type ReviewTimesheetData = z.infer<typeof reviewTimesheetSchema>;
+export type RespondAssignmentData = z.infer<typeof respondAssignmentSchema>;
+export type ActivityRecurrence = typeof activityRecurrences.$inferSelect;
+export type InsertActivityRecurrence = z.infer<typeof insertActivityRecurrenceSchema>;
+export type ActivityDependency = typeof activityDependencies.$inferSelect;
+export type InsertActivityDependency = z.infer<typeof insertActivityDependencySchema>;
+export type ActivityAttachment = typeof activityAttachments.$inferSelect;
+export type InsertActivityAttachment = z.infer<typeof insertActivityAttachmentSchema>;
+export type ActivityComment = typeof activityComments.$inferSelect;
+export type InsertActivityComment = z.infer<typeof insertActivityCommentSchema>;
+export type RecurrenceRuleData = z.infer<typeof recurrenceRuleSchema>;
+export type UpdateActivityData = z.infer<typeof updateActivitySchema>;
+export type BulkActivityAction = z.infer<typeof bulkActivityActionSchema>;
+export type BulkActivityRequest = z.infer<typeof bulkActivitySchema>;
 
 // Extended types with relations
 export type ActivityWithDetails = Activity & {
   collaborator: User;
+  assignedBy?: User | null;
+  blockedBy?: ActivitySummary[]; // blockers not yet completed or cancelled
   projectRef?: Project | null; // Relação com a tabela projects (activity.projectId)
   plantRef?: Plant;
-  subtasks?: Subtask[];
+  subtasks?: SubtaskWithAssignee[];
+  tags?: Tag[];
+  customFieldValues?: CustomFieldValueWithField[];
   sessions?: ActivitySession[];
   activeSession?: ActivitySession | null;
 };
 
+export type CustomFieldValueWithField = ActivityCustomFieldValue & {
+  field: CustomField;
+};
+
+export type SubtaskWithAssignee = Subtask & {
+  assignee?: User | null;
+};
+
+export type ActivitySummary = Pick<Activity, 'id' | 'title' | 'status' | 'collaboratorId'>;
+
+// Hit of /api/search; titleHighlight and snippet mark the matched words (see shared/search.ts)
+export type ActivitySearchResult = ActivitySummary & {
+  collaboratorName: string;
+  createdAt: Date | null;
+  titleHighlight: string;
+  snippet: string;
+};
+
+// One blocker and, recursively, what blocks it (GET /api/activities/:id/dependencies)
+export type DependencyNode = ActivitySummary & {
+  collaboratorName: string;
+  blockers: DependencyNode[];
+};
+
+export type ActivityDependencyChain = {
+  blockers: DependencyNode[];
+  dependents: (ActivitySummary & { collaboratorName: string })[];
+};
+
+export type ActivityAttachmentWithUploader = ActivityAttachment & {
+  uploadedBy: User;
+};
+
+export type ActivityCommentWithAuthor = ActivityComment & {
+  author: User;
+};
+
+export type TimeAdjustmentLogWithDetails = TimeAdjustmentLog & {
+  user: User;
+  activity: Activity;
+  reviewedBy?: User | null;
+};
+
+// Time changes of one collaborator over a report period, in seconds; only approved changes count towards the totals
+export type TimeAdjustmentSummary = {
+  collaboratorId: string;
+  collaboratorName: string;
+  changes: number;
+  addedTime: number;
+  removedTime: number;
+  netTime: number;
+  pending: number;
+  rejected: number;
+};
+
+export type TimeAdjustmentReport = {
+  summary: TimeAdjustmentSummary[];
+  adjustments: TimeAdjustmentLogWithDetails[];
+};
+
+// Hours of one activity in a timesheet week, one entry per day (Monday first), in seconds
+export type TimesheetRow = {
+  activityId: string;
+  activityTitle: string;
+  projectId: string | null;
+  projectName: string | null;
+  plantId: string;
+  plantName: string | null;
+  days: number[];
+  total: number;
+};
+
+export type TimesheetWeek = {
+  userId: string;
+  weekStart: string;
+  weekEnd: string;
+  timesheet: Timesheet | null;
+  rows: TimesheetRow[];
+  dayTotals: number[];
+  total: number;
+};
+
+export type TimesheetWithUser = Timesheet & {
+  user: User;
+};
+
 export type ProjectWithDetails = Project & {
   owner: User;
   sector?: Sector;
@@ -433,6 +1002,42 @@ export type ActivityLogWithUser = ActivityLog & {
   user: User;
 };
 
+// Requester in the admin list, with how many activities (archived included) point to it
+export type RequesterWithUsage = Requester & {
+  plant: Plant | null;
+  activityCount: number;
+};
+
+// Admin trash (GET /api/trash): archived records, purged for good at purgeAt
+export const trashKinds = ['activity', 'project', 'plant'] as const;
+export type TrashKind = typeof trashKinds[number];
+
+export type TrashItem = {
+  kind: TrashKind;
+  id: string;
+  name: string;
+  details: string | null; // owner of an activity, sector of a project, code of a plant
+  deletedAt: string;
+  deletedByName: string | null;
+  purgeAt: string;
+};
+
+// Entry of the change history; activityTitle is set by the admin query across activities
+export type ActivityChangeWithUser = ActivityChange & {
+  user: User;
+  activityTitle?: string;
+};
+
+// Authoritative elapsed time for an activity (GET /api/activities/:id/elapsed)
+export type ActivityElapsed = {
+  activityId: string;
+  status: Activity['status'];
+  trackedTime: number; // closed sessions + adjustments, in seconds
+  activeSessionStartedAt: string | null;
+  elapsed: number; // trackedTime + running session, in seconds
+  serverTime: string;
+};
+
 // Dashboard statistics type
 export type DashboardStats = {
   todayHours: number;
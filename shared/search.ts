@@ -0,0 +1,25 @@
+// Text search configuration created by migration 004: Portuguese stemming over unaccented words
+export const SEARCH_CONFIG = 'portuguese_unaccent';
+
+export const SEARCH_MIN_LENGTH = 2;
+
+// ts_headline wraps matched words in these control characters, which never occur in typed text,
+// so the client can mark them without rendering any HTML from the server
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export type HighlightPart = { text: string; highlighted: boolean };
+
+export function splitHighlights(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  for (const chunk of text.split(HIGHLIGHT_START)) {
+    const end = chunk.indexOf(HIGHLIGHT_END);
+    if (end === -1) {
+      if (chunk) parts.push({ text: chunk, highlighted: false });
+      continue;
+    }
+    parts.push({ text: chunk.slice(0, end), highlighted: true });
+    if (end + 1 < chunk.length) parts.push({ text: chunk.slice(end + 1), highlighted: false });
+  }
+  return parts;
+}
@@ -0,0 +1,30 @@
+import { isClosedStatus } from "./activityStatus";
+import type { Activity } from "./schema";
+
+// Open activities due within this window are flagged as at risk
+export const AT_RISK_WINDOW_HOURS = 24;
+
+export type DueState = 'overdue' | 'at_risk' | 'on_track';
+
+type DueFields = Pick<Activity, 'status' | 'dueDate' | 'completedAt'>;
+
+// Where an open activity stands against its due date; undefined when it has none or is already closed
+export function dueState(activity: DueFields, now: Date = new Date()): DueState | undefined {
+  if (!activity.dueDate || isClosedStatus(activity.status)) return undefined;
+
+  const due = new Date(activity.dueDate).getTime();
+  if (due < now.getTime()) return 'overdue';
+  if (due - now.getTime() <= AT_RISK_WINDOW_HOURS * 3600 * 1000) return 'at_risk';
+  return 'on_track';
+}
+
+// Whether the activity missed its due date: still open past it, or completed after it
+export function isLate(activity: DueFields, now: Date = new Date()): boolean {
+  if (!activity.dueDate || activity.status === 'cancelled') return false;
+
+  const due = new Date(activity.dueDate);
+  if (activity.status === 'completed') {
+    return !!activity.completedAt && new Date(activity.completedAt) > due;
+  }
+  return due < now;
+}
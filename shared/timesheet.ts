@@ -0,0 +1,23 @@
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+
+// Timesheet weeks run Monday to Sunday, in local time, and are identified by their Monday ("YYYY-MM-DD")
+export const weekStartOf = (date: Date): string =>
+  format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+export const isWeekStart = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && weekStartOf(parseISO(value)) === value;
+
+// [start, end) of the week, end being the following Monday at midnight
+export const weekRange = (weekStart: string): { start: Date; end: Date } => {
+  const start = parseISO(weekStart);
+  return { start, end: addDays(start, 7) };
+};
+
+// Every week touched by the interval, inclusive
+export const weeksBetween = (start: Date, end: Date): string[] => {
+  const weeks: string[] = [];
+  for (let week = weekStartOf(start); parseISO(week) <= end; week = format(addDays(parseISO(week), 7), 'yyyy-MM-dd')) {
+    weeks.push(week);
+  }
+  return weeks;
+};